@@ -0,0 +1,67 @@
+/**
+ * Delivery Promise Check
+ * Runs every case in fixtures/delivery-promises/cases.json through parseDeliveryPromise and
+ * compares type, earliestDays, latestDays and days with the expected result.
+ *
+ * Run with `npm run test:delivery-promises`; exits with status 1 if any case differs.
+ */
+
+import { readFileSync } from 'fs';
+import path from 'path';
+import { z } from 'zod';
+import { parseDeliveryPromise } from '../src/lib/delivery-promise';
+import { MarketplaceId, isMarketplaceId } from '../src/lib/marketplaces';
+
+const CASES_PATH = path.join(__dirname, '..', 'fixtures', 'delivery-promises', 'cases.json');
+
+const DeliveryCaseSchema = z.object({
+  text: z.string(),
+  marketplace: z.custom<MarketplaceId>(isMarketplaceId, 'Unknown marketplace'),
+  referenceDate: z.iso.datetime(),
+  timeZone: z.string().optional(),
+  choose: z.enum(['earliest', 'latest']).optional(),
+  note: z.string().optional(),
+  expected: z.object({
+    type: z.enum(['same-day', 'overnight', 'prime', 'standard']),
+    earliestDays: z.number().nullable(),
+    latestDays: z.number().nullable(),
+    days: z.number().nullable()
+  })
+});
+
+const cases = z.array(DeliveryCaseSchema).parse(JSON.parse(readFileSync(CASES_PATH, 'utf8')));
+const failures: string[] = [];
+
+cases.forEach((testCase, index) => {
+  const result = parseDeliveryPromise(testCase.text, {
+    referenceDate: new Date(testCase.referenceDate),
+    timeZone: testCase.timeZone,
+    marketplace: testCase.marketplace,
+    choose: testCase.choose
+  });
+
+  const { expected } = testCase;
+  const actual = {
+    type: result.type,
+    earliestDays: result.earliestDays,
+    latestDays: result.latestDays,
+    days: result.days
+  };
+  const mismatched = (Object.keys(expected) as (keyof typeof expected)[])
+    .filter(field => actual[field] !== expected[field]);
+
+  if (mismatched.length > 0) {
+    failures.push(
+      `#${index} "${testCase.text}" (${testCase.marketplace}): ` +
+      mismatched.map(field => `${field} expected ${expected[field]}, got ${actual[field]}`).join(', ')
+    );
+  }
+});
+
+if (failures.length > 0) {
+  console.error(`Delivery promises: ${failures.length} of ${cases.length} cases failed`);
+  failures.forEach(failure => console.error(`- ${failure}`));
+  process.exit(1);
+}
+
+console.log(`Delivery promises: ${cases.length} cases pass`);
@@ -0,0 +1,88 @@
+/**
+ * Product Fixture Check
+ * Parses the saved product pages in fixtures/products with AmazonHtmlParser and compares the
+ * result with the expected output listed in fixtures/products/README.md.
+ *
+ * Run with `npm run test:fixtures`; exits with status 1 if any field differs.
+ */
+
+import { readFileSync } from 'fs';
+import path from 'path';
+import { isDeepStrictEqual } from 'util';
+import { AmazonHtmlParser } from '../src/lib/html-parser';
+import { ScrapedProductData } from '../src/lib/scraper';
+
+const FIXTURE_DIR = path.join(__dirname, '..', 'fixtures', 'products');
+
+// A Saturday, so "Tuesday, October 21" is three days out
+const REFERENCE_DATE = new Date('2025-10-18T12:00:00Z');
+
+type CheckedFields = Pick<
+  ScrapedProductData,
+  'name' | 'price' | 'originalPrice' | 'deliveryPromise' | 'shippingDays' | 'rating' | 'reviewCount' | 'imageUrls' | 'features'
+>;
+
+const EXPECTED: Record<string, CheckedFields> = {
+  // Current layout
+  B0FIXTURE1: {
+    name: 'Trailhead 2-Person Backpacking Tent, Ultralight Waterproof, 3-Season with Footprint',
+    price: 149.99,
+    originalPrice: 189.99,
+    deliveryPromise: 'FREE delivery Tuesday, October 21',
+    shippingDays: 3,
+    rating: 4.6,
+    reviewCount: 3482,
+    imageUrls: [
+      'https://m.media-amazon.com/images/I/71tentMainA._AC_SL1500_.jpg',
+      'https://m.media-amazon.com/images/I/81tentSideB._AC_SL1500_.jpg',
+      'https://m.media-amazon.com/images/I/61tentPackC._AC_.jpg'
+    ],
+    features: [
+      '1. ULTRALIGHT: Packed weight of 3 lb 9 oz with poles, stakes and footprint included.',
+      '2. WATERPROOF: 3000mm coated rainfly and fully taped seams keep you dry in heavy rain.',
+      '3. FAST SETUP: Color-coded clips and a single hubbed pole pitch the tent in under 5 minutes.',
+      '4. ROOMY: Two doors and two vestibules with 29 sq ft of floor space for two sleepers.'
+    ].join('\n\n')
+  },
+  // Legacy layout
+  B0FIXTURE2: {
+    name: 'Summit Insulated Water Bottle 32 oz, Stainless Steel, Leak-Proof Lid',
+    price: 27.49,
+    originalPrice: 34.95,
+    deliveryPromise: 'Ships within 4 days.',
+    shippingDays: 4,
+    rating: 4.3,
+    reviewCount: 812,
+    imageUrls: [
+      'https://m.media-amazon.com/images/I/51bottleFrontA._AC_SL1500_.jpg',
+      'https://m.media-amazon.com/images/I/61bottleLidB._AC_SL1500_.jpg'
+    ],
+    features: [
+      '1. Double-wall vacuum insulation keeps drinks cold 24 hours and hot 12 hours.',
+      '2. 18/8 food-grade stainless steel, BPA-free lid with carry loop.',
+      '3. Powder-coated finish for a sweat-free, non-slip grip.'
+    ].join('\n\n')
+  }
+};
+
+const parser = new AmazonHtmlParser();
+const failures: string[] = [];
+
+for (const [asin, expected] of Object.entries(EXPECTED)) {
+  const html = readFileSync(path.join(FIXTURE_DIR, `${asin}.html`), 'utf8');
+  const parsed = parser.parseProductPage(html, undefined, REFERENCE_DATE);
+
+  for (const field of Object.keys(expected) as (keyof CheckedFields)[]) {
+    if (!isDeepStrictEqual(parsed[field], expected[field])) {
+      failures.push(`${asin} ${field}: expected ${JSON.stringify(expected[field])}, got ${JSON.stringify(parsed[field])}`);
+    }
+  }
+}
+
+if (failures.length > 0) {
+  console.error(`Product fixtures: ${failures.length} mismatch(es)`);
+  failures.forEach(failure => console.error(`- ${failure}`));
+  process.exit(1);
+}
+
+console.log(`Product fixtures: ${Object.keys(EXPECTED).length} pages match`);
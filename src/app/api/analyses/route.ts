@@ -0,0 +1,163 @@
+/**
+ * Analyses Endpoint
+ * The server-side analysis repository (NEXT_PUBLIC_ANALYSIS_STORE=server): list, open, save,
+ * duplicate, archive and delete analyses
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getAnalysisStore } from '@/lib/analysis-store';
+import { AnalysisNotFoundError } from '@/lib/analysis-library';
+import { AppState } from '@/lib/types';
+
+function isAnalysisId(value: unknown): value is string {
+  return typeof value === 'string' && /^[A-Za-z0-9_-]{1,64}$/.test(value);
+}
+
+function invalidId(id: unknown) {
+  return NextResponse.json(
+    { error: `Invalid analysis id: ${String(id ?? '')}` },
+    { status: 400 }
+  );
+}
+
+function notFound(id: string) {
+  return NextResponse.json(
+    { error: `Analysis not found: ${id}`, id },
+    { status: 404 }
+  );
+}
+
+function storeUnavailable() {
+  return NextResponse.json(
+    { error: 'Analysis store is not available' },
+    { status: 503 }
+  );
+}
+
+/**
+ * GET /api/analyses?archived=true
+ * Returns { analyses: AnalysisSummary[] }, most recently updated first
+ *
+ * GET /api/analyses?id=abc123
+ * Returns { analysis: AppState } with its images as data URLs
+ */
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+  const store = getAnalysisStore();
+  if (!store) return storeUnavailable();
+
+  try {
+    const id = params.get('id');
+    if (id !== null) {
+      if (!isAnalysisId(id)) return invalidId(id);
+      const analysis = store.open(id);
+      return analysis ? NextResponse.json({ analysis }) : notFound(id);
+    }
+    return NextResponse.json({ analyses: store.list(params.get('archived') === 'true') });
+  } catch (error) {
+    console.error('Analyses error:', error);
+    return NextResponse.json(
+      { error: 'Failed to read analyses' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/analyses
+ * Body: { analysis: AppState } — creates or updates the analysis with analysis.analysisId
+ * Returns { summary: AnalysisSummary }
+ */
+export async function PUT(request: NextRequest) {
+  const body = await request.json().catch(() => ({}));
+  const analysis: AppState | undefined = body.analysis;
+
+  if (!analysis || !Array.isArray(analysis.products) || ![1, 2, 3, 4, 5].includes(analysis.currentStep)) {
+    return NextResponse.json(
+      { error: 'An analysis state with products and a current step is required' },
+      { status: 400 }
+    );
+  }
+  if (!isAnalysisId(analysis.analysisId)) return invalidId(analysis.analysisId);
+
+  const store = getAnalysisStore();
+  if (!store) return storeUnavailable();
+
+  try {
+    return NextResponse.json({ summary: store.save(analysis) });
+  } catch (error) {
+    console.error('Save analysis error:', error);
+    return NextResponse.json(
+      { error: 'Failed to save analysis' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/analyses
+ * Body: { duplicateOf: id } — copies the analysis and its images under a new id
+ * Returns { summary: AnalysisSummary }
+ */
+export async function POST(request: NextRequest) {
+  const body = await request.json().catch(() => ({}));
+  if (!isAnalysisId(body.duplicateOf)) return invalidId(body.duplicateOf);
+
+  const store = getAnalysisStore();
+  if (!store) return storeUnavailable();
+
+  try {
+    return NextResponse.json({ summary: store.duplicate(body.duplicateOf) });
+  } catch (error) {
+    if (error instanceof AnalysisNotFoundError) return notFound(error.analysisId);
+    console.error('Duplicate analysis error:', error);
+    return NextResponse.json(
+      { error: 'Failed to duplicate analysis' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH /api/analyses
+ * Body: { id, archived: boolean }
+ * Returns { summary: AnalysisSummary }
+ */
+export async function PATCH(request: NextRequest) {
+  const body = await request.json().catch(() => ({}));
+  if (!isAnalysisId(body.id)) return invalidId(body.id);
+  if (typeof body.archived !== 'boolean') {
+    return NextResponse.json(
+      { error: 'archived must be true or false' },
+      { status: 400 }
+    );
+  }
+
+  const store = getAnalysisStore();
+  if (!store) return storeUnavailable();
+
+  try {
+    return NextResponse.json({ summary: store.archive(body.id, body.archived) });
+  } catch (error) {
+    if (error instanceof AnalysisNotFoundError) return notFound(error.analysisId);
+    console.error('Archive analysis error:', error);
+    return NextResponse.json(
+      { error: 'Failed to archive analysis' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/analyses?id=abc123
+ * Returns { deleted: boolean }
+ */
+export async function DELETE(request: NextRequest) {
+  const id = request.nextUrl.searchParams.get('id');
+  if (!isAnalysisId(id)) return invalidId(id);
+
+  const store = getAnalysisStore();
+  if (!store) return storeUnavailable();
+
+  return NextResponse.json({ deleted: store.delete(id) });
+}
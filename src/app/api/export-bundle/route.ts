@@ -0,0 +1,56 @@
+/**
+ * Bundle Export Endpoint
+ * Packages an analysis with its poll results, images, rubric version and reports as a .core6 bundle
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { BundleReport, BundleValidationError, createAnalysisBundle } from '@/lib/analysis-bundle';
+import { AppState } from '@/lib/types';
+
+/**
+ * POST /api/export-bundle
+ * Multipart form: analysis (AppState as JSON) and any number of report files
+ * Returns the bundle as application/zip
+ */
+export async function POST(request: NextRequest) {
+  let analysis: AppState;
+  let reports: BundleReport[];
+  try {
+    const form = await request.formData();
+    analysis = JSON.parse(String(form.get('analysis') || 'null'));
+    reports = await Promise.all(form.getAll('reports')
+      .filter((entry): entry is File => typeof entry !== 'string')
+      .map(async file => ({ name: file.name, data: Buffer.from(await file.arrayBuffer()) })));
+  } catch {
+    return NextResponse.json(
+      { error: 'Expected a form with the analysis as JSON and report files' },
+      { status: 400 }
+    );
+  }
+
+  if (!analysis || !Array.isArray(analysis.products) || !analysis.polls) {
+    return NextResponse.json(
+      { error: 'An analysis state with products and polls is required' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const bundle = await createAnalysisBundle(analysis, reports);
+    return new NextResponse(new Uint8Array(bundle), {
+      headers: {
+        'Content-Type': 'application/zip',
+        'Content-Disposition': `attachment; filename="analysis.core6"`,
+      },
+    });
+  } catch (error) {
+    if (error instanceof BundleValidationError) {
+      return NextResponse.json({ error: error.message, issues: error.issues }, { status: 400 });
+    }
+    console.error('Bundle export error:', error);
+    return NextResponse.json(
+      { error: 'Bundle export failed' },
+      { status: 500 }
+    );
+  }
+}
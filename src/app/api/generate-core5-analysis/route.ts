@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { generateCore5AnalysisReport, generateCore5AnalysisFilename } from '@/lib/core5-analysis-generator';
+import { CurrencyMismatchError } from '@/lib/marketplaces';
 
 export async function POST(request: NextRequest) {
   try {
@@ -36,6 +37,9 @@ export async function POST(request: NextRequest) {
 
   } catch (error) {
     console.error('Core 5 API error:', error);
+    if (error instanceof CurrencyMismatchError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
     return NextResponse.json(
       { 
         error: 'Failed to generate Core 5 analysis report',
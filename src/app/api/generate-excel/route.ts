@@ -1,10 +1,20 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { generateExcelReport } from '@/lib/excel-generator';
+import { generateExcelReport, ExcelReportOptions } from '@/lib/excel-generator';
 import { Analysis } from '@/lib/types';
+import { findProductImageMatches } from '@/lib/image-analysis';
+import { restoreOriginalImages } from '@/lib/image-normalization';
+import { getOriginalImageStore } from '@/lib/image-store';
+import { getProductImages } from '@/lib/perceptual-hash';
+import { CurrencyMismatchError } from '@/lib/marketplaces';
 
 export async function POST(request: NextRequest) {
   try {
-    const analysis: Analysis = await request.json();
+    const body = await request.json();
+
+    const analysis: Analysis = body.analysis || body;
+    const options: ExcelReportOptions = {
+      sensitivityMargins: body.sensitivityMargins
+    };
 
     if (!analysis.products || analysis.products.length === 0) {
       return NextResponse.json(
@@ -27,7 +37,17 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const excelBuffer = await generateExcelReport(analysis);
+    // Reports use the full-size originals of the normalized images
+    analysis.products = restoreOriginalImages(analysis.products, getOriginalImageStore());
+
+    // Different ASINs sharing near-identical images
+    try {
+      options.imageMatches = await findProductImageMatches(analysis.products.map(getProductImages));
+    } catch (error) {
+      console.error('Failed to match product images:', error);
+    }
+
+    const excelBuffer = await generateExcelReport(analysis, options);
 
     return new NextResponse(excelBuffer, {
       headers: {
@@ -38,6 +58,9 @@ export async function POST(request: NextRequest) {
 
   } catch (error) {
     console.error('Excel generation API error:', error);
+    if (error instanceof CurrencyMismatchError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
     return NextResponse.json(
       { error: 'Excel generation failed' },
       { status: 500 }
@@ -1,6 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { generateWordReport, WordReportOptions } from '@/lib/word-generator';
 import { Analysis } from '@/lib/types';
+import { findProductImageMatches } from '@/lib/image-analysis';
+import { renderReportImage, restoreOriginalImages } from '@/lib/image-normalization';
+import { getOriginalImageStore } from '@/lib/image-store';
+import { getProductImages } from '@/lib/perceptual-hash';
+import { CurrencyMismatchError, DEFAULT_MARKETPLACE } from '@/lib/marketplaces';
+import { getHistoryStore } from '@/lib/history';
 
 export async function POST(request: NextRequest) {
   try {
@@ -9,7 +15,8 @@ export async function POST(request: NextRequest) {
     const analysis: Analysis = body.analysis || body;
     const options: WordReportOptions = {
       preparedBy: body.preparedBy,
-      productCategory: body.productCategory
+      productCategory: body.productCategory,
+      optimizerWeights: body.optimizerWeights
     };
 
     if (analysis.type !== 'core6') {
@@ -33,6 +40,36 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Compare each product with the last other analysis it appeared in
+    if (analysis.id) {
+      try {
+        options.previousRecords = getHistoryStore()?.previousRecords(
+          analysis.id,
+          analysis.products.map(p => p.asin).filter(Boolean),
+          analysis.marketplace ?? DEFAULT_MARKETPLACE
+        );
+      } catch (error) {
+        console.error('Failed to read analysis history:', error);
+      }
+    }
+
+    // Reports use the full-size originals of the normalized images
+    analysis.products = restoreOriginalImages(analysis.products, getOriginalImageStore());
+
+    // Main images embedded in the report
+    options.mainImages = {};
+    for (const product of analysis.products) {
+      const image = await renderReportImage(product.mainImage);
+      if (image) options.mainImages[product.id] = image;
+    }
+
+    // Different ASINs sharing near-identical images
+    try {
+      options.imageMatches = await findProductImageMatches(analysis.products.map(getProductImages));
+    } catch (error) {
+      console.error('Failed to match product images:', error);
+    }
+
     const wordBuffer = await generateWordReport(analysis, options);
 
     return new NextResponse(wordBuffer, {
@@ -44,6 +81,9 @@ export async function POST(request: NextRequest) {
 
   } catch (error) {
     console.error('Word generation API error:', error);
+    if (error instanceof CurrencyMismatchError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
     return NextResponse.json(
       { error: 'Word generation failed' },
       { status: 500 }
@@ -0,0 +1,82 @@
+/**
+ * Product History Endpoint
+ * Time series of a product's snapshots and analysis results, and recording of finished analyses
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getHistoryStore, loadProductHistory, toAnalysisRecords } from '@/lib/history';
+import { Analysis } from '@/lib/types';
+import { DEFAULT_MARKETPLACE, MARKETPLACE_IDS, isMarketplaceId } from '@/lib/marketplaces';
+
+/**
+ * GET /api/history?asin=B08WM3LMJF&marketplace=de&limit=50
+ * Returns { points: HistoryPoint[], alerts: HistoryAlert[] }, oldest first
+ */
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+  const asin = (params.get('asin') || '').trim().toUpperCase();
+  const marketplace = params.get('marketplace') || DEFAULT_MARKETPLACE;
+  const limit = Math.min(Math.max(parseInt(params.get('limit') || '50', 10) || 50, 1), 500);
+
+  if (!/^[A-Z0-9]{10}$/.test(asin)) {
+    return NextResponse.json(
+      { error: `Invalid ASIN format: ${asin}. Must be 10 alphanumeric characters.` },
+      { status: 400 }
+    );
+  }
+
+  if (!isMarketplaceId(marketplace)) {
+    return NextResponse.json(
+      { error: `Invalid marketplace: ${marketplace}. Must be one of: ${MARKETPLACE_IDS.join(', ')}` },
+      { status: 400 }
+    );
+  }
+
+  try {
+    return NextResponse.json(loadProductHistory(asin, marketplace, limit));
+  } catch (error) {
+    console.error('Product history error:', error);
+    return NextResponse.json(
+      { error: 'Failed to read product history' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/history
+ * Body: { analysis } — records each product's metrics and Core score under the analysis id.
+ * Images are not needed and can be left out.
+ * Returns { recorded: number }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const analysis: Analysis = body.analysis || body;
+
+    if (!analysis.id || !analysis.products?.length || !analysis.calculations?.length) {
+      return NextResponse.json(
+        { error: 'Analysis id, products and calculations are required' },
+        { status: 400 }
+      );
+    }
+
+    const store = getHistoryStore();
+    if (!store) {
+      return NextResponse.json(
+        { error: 'History store is not available' },
+        { status: 503 }
+      );
+    }
+
+    const records = toAnalysisRecords(analysis);
+    store.recordAnalysis(records);
+    return NextResponse.json({ recorded: records.length });
+  } catch (error) {
+    console.error('Record analysis error:', error);
+    return NextResponse.json(
+      { error: 'Failed to record analysis' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,34 @@
+/**
+ * Main Image Compliance Endpoint
+ * Measures an uploaded main image against Amazon's main-image rules
+ * Fetched products are measured by the fetcher; this covers images uploaded in manual entry.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { ImageAnalysisError, analyzeMainImage, decodeDataUrl } from '@/lib/image-analysis';
+
+/**
+ * POST { image: base64 or data URL of the original file }
+ * Returns ImageComplianceReport
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { image } = await request.json();
+
+    if (!image || typeof image !== 'string') {
+      return NextResponse.json(
+        { error: 'No image provided' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(await analyzeMainImage(decodeDataUrl(image)));
+
+  } catch (error) {
+    console.error('Image compliance error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Image analysis failed' },
+      { status: error instanceof ImageAnalysisError ? 400 : 500 }
+    );
+  }
+}
@@ -0,0 +1,41 @@
+/**
+ * Shared Image Endpoint
+ * Finds different ASINs whose images are near-identical, e.g. a reseller copying a listing
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { findProductImageMatches } from '@/lib/image-analysis';
+import { ProductImages } from '@/lib/perceptual-hash';
+
+/**
+ * POST { products: [{ productId, asin, images: [main image, ...additional images] }] }
+ * Returns { matches: ImageMatch[] }, closest first
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { products } = await request.json();
+
+    const isProductImages = (value: unknown): value is ProductImages =>
+      typeof value === 'object' && value !== null &&
+      typeof (value as ProductImages).productId === 'string' &&
+      typeof (value as ProductImages).asin === 'string' &&
+      Array.isArray((value as ProductImages).images) &&
+      (value as ProductImages).images.every(image => typeof image === 'string');
+
+    if (!Array.isArray(products) || !products.every(isProductImages)) {
+      return NextResponse.json(
+        { error: 'products must be a list of { productId, asin, images }' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({ matches: await findProductImageMatches(products) });
+
+  } catch (error) {
+    console.error('Image matching error:', error);
+    return NextResponse.json(
+      { error: 'Image matching failed' },
+      { status: 500 }
+    );
+  }
+}
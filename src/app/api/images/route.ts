@@ -0,0 +1,41 @@
+/**
+ * Image Normalization Endpoint
+ * Normalizes uploaded images for the browser and keeps the originals for the reports
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { ImageAnalysisError } from '@/lib/image-analysis';
+import { normalizeDataUrl } from '@/lib/image-normalization';
+import { getOriginalImageStore } from '@/lib/image-store';
+
+/**
+ * POST { images: data URLs of the original files }
+ * Returns { images: [{ base64, mediaType }] } in the same order, base64 without the data URL prefix
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { images } = await request.json();
+
+    if (!Array.isArray(images) || images.length === 0 || !images.every(image => typeof image === 'string' && image.length > 0)) {
+      return NextResponse.json(
+        { error: 'images must be a non-empty list of base64 data URLs' },
+        { status: 400 }
+      );
+    }
+
+    const store = getOriginalImageStore();
+    const normalized = await Promise.all(images.map(async (image: string) => {
+      const { dataUrl, mediaType } = await normalizeDataUrl(image, store);
+      return { base64: dataUrl.split(',')[1], mediaType };
+    }));
+
+    return NextResponse.json({ images: normalized });
+
+  } catch (error) {
+    console.error('Image normalization error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Image normalization failed' },
+      { status: error instanceof ImageAnalysisError ? 400 : 500 }
+    );
+  }
+}
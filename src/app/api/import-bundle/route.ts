@@ -0,0 +1,56 @@
+/**
+ * Bundle Import Endpoint
+ * Validates a .core6 bundle and returns the analysis it holds, ready to open
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { BundleValidationError, readAnalysisBundle } from '@/lib/analysis-bundle';
+
+/**
+ * Largest bundle accepted; a Core 6 analysis with its images and reports is a few MB
+ */
+const MAX_BUNDLE_BYTES = 100 * 1024 * 1024;
+
+/**
+ * POST /api/import-bundle
+ * Body: the .core6 file
+ * Returns { analysis: AppState, manifest: BundleManifest }; a bundle that fails validation
+ * returns 400 with { error, issues }
+ */
+export async function POST(request: NextRequest) {
+  // Refuse oversized uploads before buffering them; the size check below covers bodies sent without a length
+  if (Number(request.headers.get('content-length')) > MAX_BUNDLE_BYTES) {
+    return bundleTooLarge();
+  }
+
+  const data = Buffer.from(await request.arrayBuffer());
+  if (data.length === 0) {
+    return NextResponse.json(
+      { error: 'No bundle provided' },
+      { status: 400 }
+    );
+  }
+  if (data.length > MAX_BUNDLE_BYTES) {
+    return bundleTooLarge();
+  }
+
+  try {
+    return NextResponse.json(await readAnalysisBundle(data));
+  } catch (error) {
+    if (error instanceof BundleValidationError) {
+      return NextResponse.json({ error: error.message, issues: error.issues }, { status: 400 });
+    }
+    console.error('Bundle import error:', error);
+    return NextResponse.json(
+      { error: 'Bundle import failed' },
+      { status: 500 }
+    );
+  }
+}
+
+function bundleTooLarge() {
+  return NextResponse.json(
+    { error: `Bundle is larger than ${MAX_BUNDLE_BYTES / (1024 * 1024)} MB` },
+    { status: 413 }
+  );
+}
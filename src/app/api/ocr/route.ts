@@ -1,9 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { extractDataFromScreenshot, validateOCRExtraction } from '@/lib/ocr';
+import { StructuredOutputError } from '@/lib/structured-output';
+import { DEFAULT_MARKETPLACE, isMarketplaceId } from '@/lib/marketplaces';
 
 export async function POST(request: NextRequest) {
   try {
-    const { image, mediaType } = await request.json();
+    const { image, mediaType, marketplace = DEFAULT_MARKETPLACE, referenceDate, timeZone } = await request.json();
 
     if (!image) {
       return NextResponse.json(
@@ -12,9 +14,21 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const extractedData = await extractDataFromScreenshot(image, mediaType || 'image/jpeg');
+    if (!isMarketplaceId(marketplace)) {
+      return NextResponse.json(
+        { error: `Invalid marketplace: ${marketplace}` },
+        { status: 400 }
+      );
+    }
+
+    // Shipping days are counted from when the screenshot was taken, when the client knows it
+    const takenAt = referenceDate ? new Date(referenceDate) : undefined;
+    const extractedData = await extractDataFromScreenshot(image, mediaType || 'image/jpeg', marketplace, {
+      referenceDate: takenAt && !isNaN(takenAt.getTime()) ? takenAt : undefined,
+      timeZone: typeof timeZone === 'string' ? timeZone : undefined
+    });
     
-    if (!validateOCRExtraction(extractedData)) {
+    if (!validateOCRExtraction(extractedData, marketplace)) {
       return NextResponse.json(
         { error: 'Invalid OCR extraction results' },
         { status: 400 }
@@ -33,6 +47,8 @@ export async function POST(request: NextRequest) {
       statusCode = 400; // Client error for invalid images
     } else if (error instanceof Error && error.message?.includes('API authentication failed')) {
       statusCode = 401; // Authentication error
+    } else if (error instanceof StructuredOutputError) {
+      statusCode = 422; // Model output did not match the response contract
     }
     
     return NextResponse.json(
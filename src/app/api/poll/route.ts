@@ -1,5 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { runPollSimulation, validatePollResult } from '@/lib/polling';
+import { runPollSimulation, runPollEnsemble, runPairwisePoll, runPanelPoll, validatePollResult, MAX_ENSEMBLE_RUNS } from '@/lib/polling';
+import { maxPairwiseRounds } from '@/lib/pairwise';
+import { validatePanel } from '@/lib/persona-panel';
+import { extractResponseThemes } from '@/lib/response-themes';
+import { StructuredOutputError } from '@/lib/structured-output';
 import { PollRequest } from '@/lib/types';
 
 export async function POST(request: NextRequest) {
@@ -26,6 +30,21 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // A persona panel stands in for the single demographic
+    if (pollRequest.panel) {
+      const panelErrors = Array.isArray(pollRequest.panel)
+        ? validatePanel(pollRequest.panel)
+        : ['Panel must be a list of segments'];
+      if (panelErrors.length > 0) {
+        console.error('Validation failed: Invalid panel', panelErrors);
+        return NextResponse.json(
+          { error: panelErrors.join('; ') },
+          { status: 400 }
+        );
+      }
+      pollRequest.demographic ||= pollRequest.panel.map(s => s.label).join(', ');
+    }
+
     if (!pollRequest.demographic || !pollRequest.question) {
       console.error('Validation failed: Missing demographic or question', {
         demographic: pollRequest.demographic,
@@ -45,7 +64,66 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const pollResult = await runPollSimulation(pollRequest);
+    const ensembleRuns = pollRequest.ensembleRuns ?? 1;
+    if (!Number.isInteger(ensembleRuns) || ensembleRuns < 1 || ensembleRuns > MAX_ENSEMBLE_RUNS) {
+      console.error('Validation failed: Invalid ensemble runs', ensembleRuns);
+      return NextResponse.json(
+        { error: `Ensemble runs must be a whole number between 1 and ${MAX_ENSEMBLE_RUNS}` },
+        { status: 400 }
+      );
+    }
+
+    const mode = pollRequest.mode ?? 'ranking';
+    if (!['ranking', 'pairwise'].includes(mode)) {
+      console.error('Validation failed: Invalid poll mode', mode);
+      return NextResponse.json(
+        { error: 'Invalid poll mode' },
+        { status: 400 }
+      );
+    }
+
+    if (mode === 'pairwise') {
+      if (pollRequest.products.length < 2) {
+        return NextResponse.json(
+          { error: 'Pairwise polls need at least two products' },
+          { status: 400 }
+        );
+      }
+      if (ensembleRuns > 1) {
+        return NextResponse.json(
+          { error: 'Ensemble runs are not supported in pairwise mode' },
+          { status: 400 }
+        );
+      }
+
+      const maxRounds = maxPairwiseRounds(pollRequest.products.length);
+      const rounds = pollRequest.pairwiseRounds;
+      if (rounds !== undefined && (!Number.isInteger(rounds) || rounds < 1 || rounds > maxRounds)) {
+        console.error('Validation failed: Invalid pairwise rounds', rounds);
+        return NextResponse.json(
+          { error: `Pairwise rounds must be a whole number between 1 and ${maxRounds}` },
+          { status: 400 }
+        );
+      }
+    }
+
+    if (pollRequest.panel && ensembleRuns > 1) {
+      return NextResponse.json(
+        { error: 'Ensemble runs are not supported with a persona panel' },
+        { status: 400 }
+      );
+    }
+
+    let pollResult;
+    if (pollRequest.panel) {
+      pollResult = await runPanelPoll(pollRequest);
+    } else if (mode === 'pairwise') {
+      pollResult = await runPairwisePoll(pollRequest);
+    } else if (ensembleRuns > 1) {
+      pollResult = await runPollEnsemble(pollRequest, ensembleRuns);
+    } else {
+      pollResult = await runPollSimulation(pollRequest);
+    }
     
     
     if (!validatePollResult(pollResult)) {
@@ -56,13 +134,21 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Theme coding is a best-effort post-processing step; the poll stands without it
+    try {
+      pollResult.themes = await extractResponseThemes(pollResult, pollRequest.products);
+    } catch (error) {
+      console.warn('Response theme extraction failed:', error);
+    }
+
     return NextResponse.json(pollResult);
 
   } catch (error: unknown) {
     console.error('Poll API error:', error);
     return NextResponse.json(
       { error: error instanceof Error ? error.message : 'Poll simulation failed' },
-      { status: 500 }
+      // Model output that broke the response contract is reported separately from server failures
+      { status: error instanceof StructuredOutputError ? 422 : 500 }
     );
   }
 }
@@ -4,7 +4,17 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { AmazonProductFetcher, parseBulkASINs, validateBulkASINs } from '@/lib/product-fetcher';
+import { AmazonProductFetcher, CompleteProductData } from '@/lib/product-fetcher';
+import { parseBulkASINs, validateBulkASINs } from '@/lib/utils';
+import { createProductDataSource, readDataSourceConfig } from '@/lib/data-sources';
+import { DEFAULT_MARKETPLACE, MARKETPLACE_IDS, isMarketplaceId, getMarketplace } from '@/lib/marketplaces';
+import { InvalidPostcodeError, MAX_COMPARISON_POSTCODES, normalizePostcode } from '@/lib/delivery-location';
+import { BulkFetchEvent, SerializedImageData, SerializedProductData } from '@/lib/types';
+import { normalizeDataUrl } from '@/lib/image-normalization';
+import { getOriginalImageStore } from '@/lib/image-store';
+import { ImageData } from '@/lib/image-processor';
+import { readFetchLimits } from '@/lib/rate-limiter';
+import { getSnapshotStore, readSnapshotConfig } from '@/lib/snapshot-store';
 
 /**
  * POST /api/scrape
@@ -13,13 +23,21 @@ import { AmazonProductFetcher, parseBulkASINs, validateBulkASINs } from '@/lib/p
  * - Single ASIN: { asin: "B08WM3LMJF" }
  * - Bulk ASINs: { asins: ["B08WM3LMJF", "B0731Y59HG", ...] }
  * - Bulk text: { bulkText: "B08WM3LMJF, B0731Y59HG, ..." }
+ * - Optional marketplace: { marketplace: "de", ... } (defaults to "us")
+ * - Optional stream: { stream: true, ... } streams bulk progress as NDJSON (see streamBulkFetch)
+ * - Optional forceRefresh: { forceRefresh: true, ... } refetches even when a fresh snapshot is stored
+ * - Optional postcode: { postcode: "90210", ... } delivery location for shipping (defaults to the marketplace's reference postcode)
+ * - Optional comparisonPostcodes: { comparisonPostcodes: ["60601"], ... } also fetch shipping days at these locations
  */
 export async function POST(request: NextRequest) {
   let fetcher: AmazonProductFetcher | null = null;
   
   try {
     const body = await request.json();
-    const { asin, asins, bulkText } = body;
+    const {
+      asin, asins, bulkText, marketplace = DEFAULT_MARKETPLACE, stream = false, forceRefresh = false,
+      postcode, comparisonPostcodes = []
+    } = body;
     
     // Validate input
     if (!asin && !asins && !bulkText) {
@@ -29,8 +47,44 @@ export async function POST(request: NextRequest) {
       );
     }
     
-    // Initialize fetcher
-    fetcher = new AmazonProductFetcher();
+    if (!isMarketplaceId(marketplace)) {
+      return NextResponse.json(
+        { error: `Invalid marketplace: ${marketplace}. Must be one of: ${MARKETPLACE_IDS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+    
+    if (!Array.isArray(comparisonPostcodes) || comparisonPostcodes.length > MAX_COMPARISON_POSTCODES) {
+      return NextResponse.json(
+        { error: `comparisonPostcodes must be an array of at most ${MAX_COMPARISON_POSTCODES} postcodes` },
+        { status: 400 }
+      );
+    }
+    
+    let deliveryPostcode: string;
+    let comparisons: string[];
+    try {
+      deliveryPostcode = normalizePostcode(postcode || getMarketplace(marketplace).referencePostcode, marketplace);
+      comparisons = comparisonPostcodes.map((value: string) => normalizePostcode(String(value), marketplace))
+        .filter((value: string) => value !== deliveryPostcode);
+    } catch (error) {
+      if (error instanceof InvalidPostcodeError) {
+        return NextResponse.json({ error: error.message }, { status: 400 });
+      }
+      throw error;
+    }
+    
+    // Initialize fetcher for the configured data source in the requested marketplace and
+    // delivery location, serving fresh snapshots from the store unless a refresh is forced
+    const dataSourceConfig = readDataSourceConfig();
+    const snapshotConfig = readSnapshotConfig();
+    const snapshotStore = getSnapshotStore(snapshotConfig);
+    fetcher = new AmazonProductFetcher(
+      createProductDataSource(dataSourceConfig, marketplace, deliveryPostcode),
+      readFetchLimits(),
+      snapshotStore ? { store: snapshotStore, ttlMs: snapshotConfig.ttlMs, forceRefresh: Boolean(forceRefresh) } : null,
+      comparisons.map(comparison => createProductDataSource(dataSourceConfig, marketplace, comparison))
+    );
     
     // ==========================================
     // Handle Single ASIN Request
@@ -53,7 +107,8 @@ export async function POST(request: NextRequest) {
         return NextResponse.json({
           success: true,
           product: serialized,
-          validation: product.validation
+          validation: product.validation,
+          cached: Boolean(product.fromCache)
         });
         
       } catch (error: unknown) {
@@ -103,6 +158,13 @@ export async function POST(request: NextRequest) {
       console.warn(`Found ${invalid.length} invalid ASINs:`, invalid);
     }
     
+    if (stream) {
+      // The stream owns the fetcher from here and cleans it up when it ends
+      const streamingFetcher = fetcher;
+      fetcher = null;
+      return streamBulkFetch(streamingFetcher, valid, invalid, request.signal);
+    }
+    
     // Fetch all products
     try {
       const result = await fetcher.fetchBulkProducts(valid);
@@ -122,6 +184,7 @@ export async function POST(request: NextRequest) {
         successCount: result.successCount,
         failedCount: result.failedCount,
         needsReviewCount: result.needsReviewCount,
+        cancelledCount: result.cancelledCount,
         invalidASINs: invalid,
         products: serializedProducts,
         results: result.results.map(r => ({
@@ -159,6 +222,80 @@ export async function POST(request: NextRequest) {
   }
 }
 
+/**
+ * Stream bulk fetch progress as NDJSON, one BulkFetchEvent per line:
+ * - { type: 'status', asin, status, product?, error? } whenever an ASIN changes status
+ * - { type: 'done', ...counts, invalidASINs } once every ASIN has finished or was cancelled
+ * Closing the connection cancels the ASINs that have not started yet.
+ */
+function streamBulkFetch(
+  fetcher: AmazonProductFetcher,
+  asins: string[],
+  invalidASINs: string[],
+  requestSignal: AbortSignal
+): Response {
+  const encoder = new TextEncoder();
+  const cancel = new AbortController();
+  requestSignal.addEventListener('abort', () => cancel.abort());
+
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: BulkFetchEvent) => {
+        // The client may already be gone
+        if (cancel.signal.aborted) return;
+        controller.enqueue(encoder.encode(JSON.stringify(event) + '\n'));
+      };
+
+      // Serializing images is async; chain events so they keep their order
+      let pending: Promise<void> = Promise.resolve();
+
+      try {
+        const result = await fetcher.fetchBulkProducts(
+          asins,
+          (asin, status, data, error) => {
+            pending = pending.then(async () => {
+              send({
+                type: 'status',
+                asin,
+                status,
+                product: data ? await serializeProduct(data) : undefined,
+                error
+              });
+            });
+          },
+          cancel.signal
+        );
+        await pending;
+
+        send({
+          type: 'done',
+          successCount: result.successCount,
+          failedCount: result.failedCount,
+          needsReviewCount: result.needsReviewCount,
+          cancelledCount: result.cancelledCount,
+          invalidASINs
+        });
+        if (!cancel.signal.aborted) controller.close();
+      } catch (error: unknown) {
+        console.error('Bulk ASIN stream error:', error);
+        if (!cancel.signal.aborted) controller.error(error);
+      } finally {
+        fetcher.cleanup();
+      }
+    },
+    cancel() {
+      cancel.abort();
+    }
+  });
+
+  return new Response(body, {
+    headers: {
+      'Content-Type': 'application/x-ndjson; charset=utf-8',
+      'Cache-Control': 'no-cache'
+    }
+  });
+}
+
 /**
  * Validate ASIN format
  */
@@ -169,43 +306,30 @@ function isValidASIN(asin: string): boolean {
 
 /**
  * Serialize product data for JSON response
- * Convert Blobs to base64 strings
+ * Convert Blobs to base64 strings, normalized for the browser (originals stay in the image store)
  */
-async function serializeProduct(product: any) {
-  const serialized: any = {
+async function serializeProduct(product: CompleteProductData): Promise<SerializedProductData> {
+  const store = getOriginalImageStore();
+  const serializeImage = async (img: ImageData): Promise<SerializedImageData> => {
+    const base64 = await blobToBase64(img.blob);
+    try {
+      const normalized = await normalizeDataUrl(base64, store);
+      return { base64: normalized.dataUrl, originalUrl: img.originalUrl, type: normalized.mediaType, size: normalized.size };
+    } catch (error) {
+      console.error(`Could not normalize image ${img.originalUrl}:`, error);
+      return { base64, originalUrl: img.originalUrl, type: img.type, size: img.size };
+    }
+  };
+  
+  // Convert image Blobs to base64
+  const serialized: SerializedProductData & { rawResponse?: unknown } = {
     ...product,
     images: {
-      mainImage: null,
-      additionalImages: []
+      mainImage: product.images.mainImage ? await serializeImage(product.images.mainImage) : null,
+      additionalImages: await Promise.all(product.images.additionalImages.map(serializeImage))
     }
   };
   
-  // Convert main image Blob to base64
-  if (product.images?.mainImage?.blob) {
-    serialized.images.mainImage = {
-      base64: await blobToBase64(product.images.mainImage.blob),
-      originalUrl: product.images.mainImage.originalUrl,
-      type: product.images.mainImage.type,
-      size: product.images.mainImage.size
-    };
-  }
-  
-  // Convert additional image Blobs to base64
-  if (product.images?.additionalImages) {
-    serialized.images.additionalImages = await Promise.all(
-      product.images.additionalImages.map(async (img: any) => {
-        const base64 = await blobToBase64(img.blob);
-        return {
-          base64,
-          originalUrl: img.originalUrl,
-          type: img.type,
-          size: img.size
-        };
-      })
-    );
-    
-  }
-  
   // Remove raw response to reduce payload size
   delete serialized.rawResponse;
   
@@ -0,0 +1,51 @@
+/**
+ * Product Snapshot History Endpoint
+ * Lists the stored snapshots of one product so price, rating and review changes can be compared
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSnapshotStore } from '@/lib/snapshot-store';
+import { DEFAULT_MARKETPLACE, MARKETPLACE_IDS, isMarketplaceId } from '@/lib/marketplaces';
+
+/**
+ * GET /api/snapshots?asin=B08WM3LMJF&marketplace=de&limit=20
+ * Returns { snapshots: ProductSnapshotSummary[] }, newest first
+ */
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+  const asin = (params.get('asin') || '').trim().toUpperCase();
+  const marketplace = params.get('marketplace') || DEFAULT_MARKETPLACE;
+  const limit = Math.min(Math.max(parseInt(params.get('limit') || '50', 10) || 50, 1), 500);
+
+  if (!/^[A-Z0-9]{10}$/.test(asin)) {
+    return NextResponse.json(
+      { error: `Invalid ASIN format: ${asin}. Must be 10 alphanumeric characters.` },
+      { status: 400 }
+    );
+  }
+
+  if (!isMarketplaceId(marketplace)) {
+    return NextResponse.json(
+      { error: `Invalid marketplace: ${marketplace}. Must be one of: ${MARKETPLACE_IDS.join(', ')}` },
+      { status: 400 }
+    );
+  }
+
+  const store = getSnapshotStore();
+  if (!store) {
+    return NextResponse.json(
+      { error: 'Snapshot store is not available' },
+      { status: 503 }
+    );
+  }
+
+  try {
+    return NextResponse.json({ snapshots: store.history(asin, marketplace, limit) });
+  } catch (error) {
+    console.error('Snapshot history error:', error);
+    return NextResponse.json(
+      { error: 'Failed to read snapshot history' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,95 @@
+/**
+ * Watchlist Endpoint
+ * Competitor ASINs tracked over time, each returned with its history and alerts
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getHistoryStore, loadProductHistory } from '@/lib/history';
+import { getSnapshotStore } from '@/lib/snapshot-store';
+import { WatchlistEntry } from '@/lib/types';
+import { DEFAULT_MARKETPLACE, MARKETPLACE_IDS, isMarketplaceId } from '@/lib/marketplaces';
+
+/**
+ * Validate an { asin, marketplace } pair from a query string or body
+ */
+function parseTarget(rawAsin: unknown, rawMarketplace: unknown) {
+  const asin = String(rawAsin || '').trim().toUpperCase();
+  const marketplace = String(rawMarketplace || DEFAULT_MARKETPLACE);
+
+  if (!/^[A-Z0-9]{10}$/.test(asin)) {
+    return { error: `Invalid ASIN format: ${asin}. Must be 10 alphanumeric characters.` };
+  }
+  if (!isMarketplaceId(marketplace)) {
+    return { error: `Invalid marketplace: ${marketplace}. Must be one of: ${MARKETPLACE_IDS.join(', ')}` };
+  }
+  return { asin, marketplace };
+}
+
+function storeUnavailable() {
+  return NextResponse.json(
+    { error: 'History store is not available' },
+    { status: 503 }
+  );
+}
+
+/**
+ * GET /api/watchlist
+ * Returns { items: WatchlistEntry[] }
+ */
+export async function GET() {
+  const store = getHistoryStore();
+  if (!store) return storeUnavailable();
+
+  try {
+    const items: WatchlistEntry[] = store.watchlist().map(item => {
+      const { points, alerts } = loadProductHistory(item.asin, item.marketplace);
+      const name = getSnapshotStore()?.history(item.asin, item.marketplace, 1)[0]?.name
+        ?? store.records(item.asin, item.marketplace, 1)[0]?.name
+        ?? null;
+      return { ...item, name, points, alerts };
+    });
+    return NextResponse.json({ items });
+  } catch (error) {
+    console.error('Watchlist error:', error);
+    return NextResponse.json(
+      { error: 'Failed to read watchlist' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/watchlist
+ * Body: { asin, marketplace?, label? }
+ * Returns { item: WatchlistItem }
+ */
+export async function POST(request: NextRequest) {
+  const body = await request.json().catch(() => ({}));
+  const target = parseTarget(body.asin, body.marketplace);
+  if ('error' in target) {
+    return NextResponse.json({ error: target.error }, { status: 400 });
+  }
+
+  const store = getHistoryStore();
+  if (!store) return storeUnavailable();
+
+  const label = typeof body.label === 'string' && body.label.trim() ? body.label.trim() : null;
+  return NextResponse.json({ item: store.addToWatchlist(target.asin, target.marketplace, label) });
+}
+
+/**
+ * DELETE /api/watchlist?asin=B08WM3LMJF&marketplace=de
+ * Returns { removed: boolean }
+ */
+export async function DELETE(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+  const target = parseTarget(params.get('asin'), params.get('marketplace'));
+  if ('error' in target) {
+    return NextResponse.json({ error: target.error }, { status: 400 });
+  }
+
+  const store = getHistoryStore();
+  if (!store) return storeUnavailable();
+
+  return NextResponse.json({ removed: store.removeFromWatchlist(target.asin, target.marketplace) });
+}
@@ -1,6 +1,7 @@
 'use client';
 
 import { useState } from 'react';
+import Link from 'next/link';
 import { AnalysisProvider } from '@/contexts/AnalysisContext';
 import StepIndicator from '@/components/StepIndicator';
 import AnalysisTypeSelection from '@/components/AnalysisTypeSelection';
@@ -9,13 +10,17 @@ import DataCollectionEnhanced from '@/components/DataCollectionEnhanced';
 import PollingInterface from '@/components/PollingInterface';
 import CalculationsStep from '@/components/CalculationsStep';
 import ResultsDashboard from '@/components/ResultsDashboard';
+import MyAnalyses from '@/components/MyAnalyses';
 import { useAnalysis } from '@/contexts/AnalysisContext';
 import { ConfirmationDialog } from '@/components/ui/confirmation-dialog';
 import { ToastProvider } from '@/contexts/ToastContext';
 
 function MainContent() {
-  const { state, dispatch } = useAnalysis();
+  const { state, dispatch, isLoading } = useAnalysis();
   const [showResetDialog, setShowResetDialog] = useState(false);
+  // Until chosen, My analyses shows when no analysis is open
+  const [showAnalyses, setShowAnalyses] = useState<boolean | null>(null);
+  const isShowingAnalyses = showAnalyses ?? !state.analysisId;
 
   // Auto-save is handled in the context, no need for refresh protection
 
@@ -59,7 +64,22 @@ function MainContent() {
         {/* Header */}
         <div className="text-center mb-8">
           <div className="flex justify-between items-start mb-6">
-            <div className="flex-1"></div>
+            <div className="flex-1 flex justify-start gap-2">
+              {!isLoading && !isShowingAnalyses && (
+                <button
+                  onClick={() => setShowAnalyses(true)}
+                  className="px-4 py-2 text-sm font-medium text-primary border border-primary/30 rounded-lg hover:bg-primary/10 transition-all duration-200"
+                >
+                  My Analyses
+                </button>
+              )}
+              <Link
+                href="/watchlist"
+                className="px-4 py-2 text-sm font-medium text-primary border border-primary/30 rounded-lg hover:bg-primary/10 transition-all duration-200"
+              >
+                Watchlist
+              </Link>
+            </div>
             <div className="flex-1 text-center">
               <h1 className="text-5xl font-bold text-foreground mb-3 bg-gradient-to-r from-primary to-green-600 bg-clip-text text-transparent">
                 Amazon Core 5/6 Competitive Analysis
@@ -69,7 +89,7 @@ function MainContent() {
               </p>
             </div>
             <div className="flex-1 flex justify-end">
-              {state.currentStep > 1 && (
+              {!isShowingAnalyses && state.currentStep > 1 && (
                 <button
                   onClick={() => setShowResetDialog(true)}
                   className="px-6 py-3 bg-destructive text-destructive-foreground rounded-lg hover:bg-destructive/90 transition-all duration-200 text-sm font-medium shadow-lg hover:shadow-xl"
@@ -81,25 +101,37 @@ function MainContent() {
           </div>
         </div>
 
-        {/* Step Indicator */}
-        <StepIndicator />
+        {isLoading ? (
+          <p className="mt-8 text-center text-muted-foreground">Loading your analysis...</p>
+        ) : isShowingAnalyses ? (
+          <div className="mt-8">
+            <div className="bg-card rounded-xl shadow-lg border p-8 animate-fade-in-up">
+              <MyAnalyses onStart={() => setShowAnalyses(false)} />
+            </div>
+          </div>
+        ) : (
+          <>
+            {/* Step Indicator */}
+            <StepIndicator />
 
-              {/* Main Content */}
-              <div className="mt-8">
-                <div className="bg-card rounded-xl shadow-lg border p-8 animate-fade-in-up">
-                  {renderCurrentStep()}
-                </div>
+            {/* Main Content */}
+            <div className="mt-8">
+              <div className="bg-card rounded-xl shadow-lg border p-8 animate-fade-in-up">
+                {renderCurrentStep()}
               </div>
+            </div>
+          </>
+        )}
 
         {/* Footer Info */}
-        {state.currentStep > 1 && (
+        {!isLoading && !isShowingAnalyses && state.currentStep > 1 && (
           <div className="mt-8 p-6 bg-green-50 border border-green-200 rounded-xl shadow-sm">
             <div className="flex items-center">
               <svg className="w-6 h-6 text-green-600 mr-3" fill="currentColor" viewBox="0 0 20 20">
                 <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zm3.707-9.293a1 1 0 00-1.414-1.414L9 10.586 7.707 9.293a1 1 0 00-1.414 1.414l2 2a1 1 0 001.414 0l4-4z" clipRule="evenodd" />
               </svg>
               <span className="text-green-800 font-semibold text-lg">
-                ✓ Your progress is automatically saved. You can navigate between steps and your data will be preserved.
+                ✓ Your progress is automatically saved to My Analyses. You can navigate between steps and your data will be preserved.
               </span>
             </div>
           </div>
@@ -110,11 +142,14 @@ function MainContent() {
           open={showResetDialog}
           onOpenChange={setShowResetDialog}
           title="Start New Analysis?"
-          description="Are you sure you want to start a new analysis? All current data will be lost and cannot be recovered."
+          description="Start a new analysis? The current one stays in My Analyses, where you can open it again."
           confirmText="Start New Analysis"
           cancelText="Cancel"
-          variant="destructive"
-          onConfirm={() => dispatch({ type: 'RESET_ANALYSIS' })}
+          variant="default"
+          onConfirm={() => {
+            dispatch({ type: 'RESET_ANALYSIS' });
+            setShowAnalyses(false);
+          }}
         />
       </div>
     </div>
@@ -0,0 +1,23 @@
+import Link from 'next/link';
+import WatchlistDashboard from '@/components/WatchlistDashboard';
+
+export default function WatchlistPage() {
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="max-w-7xl mx-auto px-4 py-8">
+        <div className="flex items-center justify-between mb-8">
+          <div>
+            <h1 className="text-3xl font-bold text-foreground mb-2">Competitor Watchlist</h1>
+            <p className="text-muted-foreground">
+              Price, rating, review and Core score history of the ASINs you track
+            </p>
+          </div>
+          <Link href="/" className="text-sm text-primary hover:underline">
+            ← Back to Analysis
+          </Link>
+        </div>
+        <WatchlistDashboard />
+      </div>
+    </div>
+  );
+}
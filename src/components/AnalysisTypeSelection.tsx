@@ -7,14 +7,49 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
-import { CheckCircle, Users, BarChart3, FileText, Zap } from 'lucide-react';
+import { CheckCircle, Users, BarChart3, FileText, Zap, Globe, Tag, MapPin } from 'lucide-react';
+import { PriceBasis } from '@/lib/types';
+import { MARKETPLACES, MARKETPLACE_IDS, MarketplaceId, getMarketplace, getProductCurrencies } from '@/lib/marketplaces';
+import { MAX_COMPARISON_POSTCODES, normalizePostcode, parsePostcodeList } from '@/lib/delivery-location';
 
 export default function AnalysisTypeSelection() {
-  const { dispatch } = useAnalysis();
+  const { state, dispatch } = useAnalysis();
+  const marketplace = getMarketplace(state.marketplace);
   const [selectedType, setSelectedType] = useState<'core5' | 'core6' | null>(null);
   const [preparedBy, setPreparedBy] = useState('');
   const [category, setCategory] = useState('');
   const [showFields, setShowFields] = useState(false);
+  const [postcodeText, setPostcodeText] = useState(state.deliveryPostcode || '');
+  const [comparisonText, setComparisonText] = useState((state.comparisonPostcodes || []).join(', '));
+  const [locationError, setLocationError] = useState<string | null>(null);
+
+  // Postcodes are checked against the marketplace's format when the field is left
+  const handleLocationBlur = () => {
+    try {
+      const postcode = postcodeText.trim() ? normalizePostcode(postcodeText, marketplace.id) : undefined;
+      const comparisonPostcodes = parsePostcodeList(comparisonText, marketplace.id)
+        .filter(value => value !== (postcode || marketplace.referencePostcode));
+      if (comparisonPostcodes.length > MAX_COMPARISON_POSTCODES) {
+        throw new Error(`Compare at most ${MAX_COMPARISON_POSTCODES} other locations`);
+      }
+      setPostcodeText(postcode || '');
+      setComparisonText(comparisonPostcodes.join(', '));
+      setLocationError(null);
+      dispatch({ type: 'SET_DELIVERY_LOCATION', payload: { postcode, comparisonPostcodes } });
+    } catch (error) {
+      setLocationError(error instanceof Error ? error.message : 'Invalid postcode');
+    }
+  };
+
+  const handleMarketplaceChange = (id: MarketplaceId) => {
+    dispatch({ type: 'SET_MARKETPLACE', payload: id });
+    // The reducer clears the delivery location when the country changes
+    if (id !== marketplace.id) {
+      setPostcodeText('');
+      setComparisonText('');
+      setLocationError(null);
+    }
+  };
 
   const handleSelection = (type: 'core5' | 'core6') => {
     setSelectedType(type);
@@ -45,6 +80,61 @@ export default function AnalysisTypeSelection() {
         </p>
       </div>
 
+      <div className="flex flex-wrap items-center justify-center gap-3 mb-8">
+        <Globe className="w-5 h-5 text-muted-foreground" />
+        <label className="text-sm font-medium text-foreground">Marketplace</label>
+        <select
+          value={marketplace.id}
+          onChange={(e) => handleMarketplaceChange(e.target.value as MarketplaceId)}
+          className="flex h-10 rounded-md border border-input bg-background px-3 py-2 text-sm"
+        >
+          {MARKETPLACE_IDS.map(id => (
+            <option
+              key={id}
+              value={id}
+              // Products already collected fix the currency of the analysis
+              disabled={getProductCurrencies([...state.products, { marketplace: id }]).length > 1}
+            >
+              {MARKETPLACES[id].domain} ({MARKETPLACES[id].currency})
+            </option>
+          ))}
+        </select>
+
+        <Tag className="w-5 h-5 text-muted-foreground ml-4" />
+        <label className="text-sm font-medium text-foreground">Score prices against</label>
+        <select
+          value={state.priceBasis || 'current'}
+          onChange={(e) => dispatch({ type: 'SET_PRICE_BASIS', payload: e.target.value as PriceBasis })}
+          className="flex h-10 rounded-md border border-input bg-background px-3 py-2 text-sm"
+          title="List price ignores competitors' temporary deals when setting the price benchmark"
+        >
+          <option value="current">Lowest current price</option>
+          <option value="list">Lowest list price</option>
+        </select>
+      </div>
+
+      <div className="flex flex-wrap items-center justify-center gap-3 mb-8 -mt-4">
+        <MapPin className="w-5 h-5 text-muted-foreground" />
+        <label className="text-sm font-medium text-foreground">Deliver to {marketplace.postcodeLabel}</label>
+        <Input
+          value={postcodeText}
+          onChange={(e) => setPostcodeText(e.target.value)}
+          onBlur={handleLocationBlur}
+          placeholder={marketplace.referencePostcode}
+          className="w-32"
+        />
+        <label className="text-sm font-medium text-foreground ml-4">Compare shipping at</label>
+        <Input
+          value={comparisonText}
+          onChange={(e) => setComparisonText(e.target.value)}
+          onBlur={handleLocationBlur}
+          placeholder="Optional, comma-separated"
+          className="w-56"
+          title="Shipping scores at these locations are reported next to the main one"
+        />
+        {locationError && <p className="w-full text-center text-sm text-red-600">{locationError}</p>}
+      </div>
+
       <div className="grid md:grid-cols-2 gap-6">
         {/* Core 5 Option */}
                 <Card
@@ -1,7 +1,7 @@
 'use client';
 
 import { useState } from 'react';
-import { parseBulkASINs, validateBulkASINs } from '@/lib/product-fetcher';
+import { parseBulkASINs, validateBulkASINs } from '@/lib/utils';
 import { useToast } from '@/contexts/ToastContext';
 
 interface BulkASINInputProps {
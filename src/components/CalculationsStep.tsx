@@ -1,15 +1,24 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { useAnalysis } from '@/contexts/AnalysisContext';
 import { calculateAllScores, validateCalculations } from '@/lib/scoring';
+import { getScoringRubric } from '@/lib/scoring-rubric';
+import { CurrencyMismatchError, getMarketplaceRubric } from '@/lib/marketplaces';
+import { analyzeSensitivity } from '@/lib/sensitivity';
 import { useToast } from '@/contexts/ToastContext';
+import { Button } from '@/components/ui/button';
+import SensitivityReport from './SensitivityReport';
 
 export default function CalculationsStep() {
   const { state, dispatch } = useAnalysis();
   const { addToast } = useToast();
   const [isCalculating, setIsCalculating] = useState(true);
   const [progress, setProgress] = useState(0);
+  const [hasFragileScores, setHasFragileScores] = useState(false);
+  // The fragile-score check runs once on entry; editing the margins in the report below must not recalculate
+  const sensitivityMargins = useRef(state.sensitivityMargins);
+  sensitivityMargins.current = state.sensitivityMargins;
 
   useEffect(() => {
     const performCalculations = async () => {
@@ -40,7 +49,9 @@ export default function CalculationsStep() {
           state.products,
           state.polls.mainImage,
           state.polls.imageStack,
-          state.polls.features
+          state.polls.features,
+          getMarketplaceRubric(state.marketplace),
+          state.priceBasis
         );
 
         setProgress(70);
@@ -63,6 +74,19 @@ export default function CalculationsStep() {
         dispatch({ type: 'SET_CALCULATIONS', payload: calculations });
         
         setProgress(100);
+
+        // Hold on this step when a score sits close to a tier boundary so it can be reviewed
+        const sensitivity = analyzeSensitivity(
+          state.products,
+          getScoringRubric(calculations[0]?.rubricVersion),
+          sensitivityMargins.current,
+          state.priceBasis
+        );
+        if (sensitivity.some(p => p.fragileCount > 0)) {
+          setHasFragileScores(true);
+          setIsCalculating(false);
+          return;
+        }
         
         // Wait a moment to show completion, then move to results
         setTimeout(() => {
@@ -73,7 +97,9 @@ export default function CalculationsStep() {
         console.error('Calculation error:', error);
         addToast({
           title: 'Calculation Error',
-          description: 'Error performing calculations. Please try again.',
+          description: error instanceof CurrencyMismatchError
+            ? error.message
+            : 'Error performing calculations. Please try again.',
           variant: 'destructive'
         });
         setIsCalculating(false);
@@ -81,7 +107,7 @@ export default function CalculationsStep() {
     };
 
     performCalculations();
-  }, [state.products, state.polls, dispatch]);
+  }, [state.products, state.polls, state.marketplace, state.priceBasis, dispatch]);
 
   return (
     <div className="max-w-4xl mx-auto">
@@ -136,6 +162,20 @@ export default function CalculationsStep() {
             </p>
           )}
         </div>
+
+        {hasFragileScores && state.calculations && (
+          <div className="mt-8 space-y-6">
+            <SensitivityReport
+              products={state.products}
+              rubric={getScoringRubric(state.calculations[0]?.rubricVersion)}
+            />
+            <div className="text-center">
+              <Button onClick={() => dispatch({ type: 'SET_CURRENT_STEP', payload: 5 })}>
+                Continue to Results
+              </Button>
+            </div>
+          </div>
+        )}
       </div>
     </div>
   );
@@ -2,10 +2,13 @@
 
 import { useState, useRef, useEffect } from 'react';
 import { useAnalysis, getCurrentProductType, getTotalProducts } from '@/contexts/AnalysisContext';
-import { generateId, convertToBase64WithMediaType, validateASIN, validatePrice, validateRating, validateReviewCount } from '@/lib/utils';
+import { generateId, formatPrice, convertToBase64, convertToBase64WithMediaType, validateASIN, validatePrice, validateRating, validateReviewCount } from '@/lib/utils';
 import { Product, CompleteProductData, ProcessedImages, ValidationResult } from '@/lib/types';
 import { useToast } from '@/contexts/ToastContext';
+import { getMarketplace } from '@/lib/marketplaces';
+import { formatDeliveryLocation, getDeliveryPostcode } from '@/lib/delivery-location';
 import { ImageProcessor, ImageData } from '@/lib/image-processor';
+import ImageComplianceBadges from './ImageComplianceBadges';
 
 export default function DataCollection() {
   const { state, dispatch } = useAnalysis();
@@ -62,7 +65,14 @@ export default function DataCollection() {
       const response = await fetch('/api/ocr', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ image: base64, mediaType })
+        body: JSON.stringify({
+          image: base64,
+          mediaType,
+          marketplace: state.marketplace,
+          // Delivery dates on the screenshot are relative to when it was taken
+          referenceDate: new Date(file.lastModified || Date.now()).toISOString(),
+          timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone
+        })
       });
 
       if (!response.ok) {
@@ -95,13 +105,48 @@ export default function DataCollection() {
     }
   };
 
+  // Main-image rules are measured on the original file; stored images are normalized
+  const checkMainImage = async (file: File) => {
+    try {
+      const response = await fetch('/api/image-compliance', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ image: await convertToBase64(file) })
+      });
+      const report = response.ok ? await response.json() : null;
+      setCurrentData(prev => ({ ...prev, mainImageCompliance: report }));
+    } catch (error) {
+      console.error('[Manual Entry] Main image analysis failed:', error);
+      setCurrentData(prev => ({ ...prev, mainImageCompliance: null }));
+    }
+  };
+
+  // Uploads are normalized on the server, which keeps the originals for the reports;
+  // if that fails they are compressed in the browser instead
+  const normalizeUploads = async (files: File[]): Promise<{ base64: string; mediaType: string }[]> => {
+    try {
+      const images = await Promise.all(files.map(async file => `data:${file.type || 'image/jpeg'};base64,${await convertToBase64(file)}`));
+      const response = await fetch('/api/images', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ images })
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Image normalization failed');
+      return data.images;
+    } catch (error) {
+      console.error('[Manual Entry] Server-side normalization failed, compressing in the browser:', error);
+      return Promise.all(files.map(convertToBase64WithMediaType));
+    }
+  };
+
   const handleImageUpload = async (event: React.ChangeEvent<HTMLInputElement>, type: 'main' | 'additional') => {
     const files = Array.from(event.target.files || []);
     if (files.length === 0) return;
 
     try {
-      // Convert files to base64 first (with compression)
-      const imageData = await Promise.all(files.map(convertToBase64WithMediaType));
+      // Normalize the files first (resized, re-encoded, within the analysis's image budget)
+      const imageData = await normalizeUploads(files);
       
       // Create temporary URLs for ImageProcessor (it expects URLs, not base64)
       const tempUrls: string[] = [];
@@ -141,8 +186,10 @@ export default function DataCollection() {
               mainImage: {
                 base64: base64String,
                 mediaType: processedImages.mainImage!.type
-              }
+              },
+              mainImageCompliance: undefined
             }));
+            checkMainImage(files[0]);
           } catch (error) {
             console.error('[Manual Entry] Failed to process main image:', error);
             addToast({
@@ -205,7 +252,7 @@ export default function DataCollection() {
     const validation = {
       asin: !!(currentData.asin && validateASIN(currentData.asin)),
       name: !!currentData.name,
-      price: !!(currentData.price && validatePrice(currentData.price)),
+      price: !!(currentData.price && validatePrice(currentData.price, state.marketplace)),
       shipping: (currentData.shippingDays ?? 0) >= 0,
       reviewCount: (currentData.reviewCount ?? 0) >= 0 && validateReviewCount(currentData.reviewCount ?? 0),
       rating: (currentData.rating ?? 0) >= 0 && validateRating(currentData.rating ?? 0),
@@ -297,11 +344,17 @@ export default function DataCollection() {
       price: currentData.price || 0,
       originalPrice: null,
       shippingDays: currentData.shippingDays || 0,
+      // Entered shipping is read off the listing for the analysis's delivery location
+      deliveryPostcode: getDeliveryPostcode(state),
+      shippingByPostcode: currentData.shippingByPostcode,
+      mainImageCompliance: currentData.mainImageCompliance,
       reviewCount: currentData.reviewCount || 0,
       rating: currentData.rating || 0,
       images: processedImages,
       features: currentData.features || '',
       validation: validation,
+      source: { type: 'manual', fetchedAt: new Date().toISOString() },
+      marketplace: state.marketplace,
       rawResponse: null
     };
 
@@ -322,11 +375,16 @@ export default function DataCollection() {
       name: completeData.name,
       price: completeData.price,
       shippingDays: completeData.shippingDays,
+      deliveryPostcode: completeData.deliveryPostcode,
+      shippingByPostcode: completeData.shippingByPostcode,
+      mainImageCompliance: completeData.mainImageCompliance,
       reviewCount: completeData.reviewCount,
       rating: completeData.rating,
       mainImage,
       additionalImages,
       features: completeData.features,
+      dataSource: completeData.source,
+      marketplace: completeData.marketplace,
       isUserProduct: state.analysisType === 'core6' && currentIndex === 0
     };
   };
@@ -337,7 +395,7 @@ export default function DataCollection() {
       const missingFields = [];
       if (!currentData.asin || !validateASIN(currentData.asin)) missingFields.push('Valid ASIN');
       if (!currentData.name) missingFields.push('Product Name');
-      if (!currentData.price || !validatePrice(currentData.price)) missingFields.push('Valid Price');
+      if (!currentData.price || !validatePrice(currentData.price, state.marketplace)) missingFields.push('Valid Price');
       if ((currentData.shippingDays ?? 0) < 0) missingFields.push('Shipping Days');
       if ((currentData.reviewCount ?? 0) < 0 || !validateReviewCount(currentData.reviewCount ?? 0)) missingFields.push('Valid Review Count');
       if ((currentData.rating ?? 0) < 0 || !validateRating(currentData.rating ?? 0)) missingFields.push('Valid Rating');
@@ -491,7 +549,7 @@ export default function DataCollection() {
                       <span className="text-sm font-medium text-green-800">OCR Success!</span>
                     </div>
                     <p className="text-sm text-green-700">
-                      Extracted: Price ${ocrResults.price}, Shipping {ocrResults.shippingDays} days, 
+                      Extracted: Price {formatPrice(ocrResults.price, state.marketplace)}, Shipping {ocrResults.shippingDays} days, 
                       {ocrResults.reviews} reviews, {ocrResults.rating} stars
                     </p>
                   </div>
@@ -504,7 +562,7 @@ export default function DataCollection() {
             <div className="grid grid-cols-2 gap-4">
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-2">
-                  Price ($) *
+                  Price ({getMarketplace(state.marketplace).currency}) *
                 </label>
                 <input
                   type="number"
@@ -517,7 +575,7 @@ export default function DataCollection() {
               </div>
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-2">
-                  Shipping (days) *
+                  Shipping (days) to {formatDeliveryLocation(getDeliveryPostcode(state), state.marketplace)} *
                 </label>
                 <input
                   type="number"
@@ -529,6 +587,32 @@ export default function DataCollection() {
               </div>
             </div>
 
+            {(state.comparisonPostcodes || []).length > 0 && (
+              <div className="grid grid-cols-2 gap-4">
+                {(state.comparisonPostcodes || []).map(postcode => (
+                  <div key={postcode}>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Shipping (days) to {formatDeliveryLocation(postcode, state.marketplace)}
+                    </label>
+                    <input
+                      type="number"
+                      value={currentData.shippingByPostcode?.[postcode] ?? ''}
+                      onChange={(e) => setCurrentData(prev => {
+                        // Left empty, the product is unscored at this location
+                        const shippingByPostcode = { ...prev.shippingByPostcode };
+                        const days = parseInt(e.target.value);
+                        if (isNaN(days)) delete shippingByPostcode[postcode];
+                        else shippingByPostcode[postcode] = days;
+                        return { ...prev, shippingByPostcode };
+                      })}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      placeholder="Not checked"
+                    />
+                  </div>
+                ))}
+              </div>
+            )}
+
             <div className="grid grid-cols-2 gap-4">
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -598,13 +682,16 @@ export default function DataCollection() {
                     <button
                       type="button"
                       onClick={() => {
-                        setCurrentData(prev => ({ ...prev, mainImage: '' }));
+                        setCurrentData(prev => ({ ...prev, mainImage: '', mainImageCompliance: undefined }));
                       }}
                       className="absolute top-0 right-0 bg-red-500 text-white rounded-full w-6 h-6 flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity"
                     >
                       ×
                     </button>
                   </div>
+                  <div className="mt-2">
+                    <ImageComplianceBadges report={currentData.mainImageCompliance} />
+                  </div>
                 </div>
               )}
             </div>
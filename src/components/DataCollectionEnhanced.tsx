@@ -1,9 +1,12 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { useAnalysis } from '@/contexts/AnalysisContext';
-import { CompleteProductData, Product, FetchStatus, DataCollectionMethod } from '@/lib/types';
+import { useToast } from '@/contexts/ToastContext';
+import { CompleteProductData, Product, FetchStatus, DataCollectionMethod, BulkFetchEvent, SerializedProductData } from '@/lib/types';
 import { generateId } from '@/lib/utils';
+import { assertSingleCurrency } from '@/lib/marketplaces';
+import { getCompleteProductImages, getProductImages } from '@/lib/perceptual-hash';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { CheckCircle, Users, Package, TrendingUp } from 'lucide-react';
@@ -12,6 +15,7 @@ import BulkASINInput from './BulkASINInput';
 import FetchingProgress from './FetchingProgress';
 import ProductDataDisplay from './ProductDataDisplay';
 import DataCollection from './DataCollection';
+import SharedImagesPanel from './SharedImagesPanel';
 
 interface ProductFetchStatus {
   asin: string;
@@ -28,11 +32,14 @@ interface ProductFetchStatus {
 
 export default function DataCollectionEnhanced() {
   const { state, dispatch } = useAnalysis();
+  const { addToast } = useToast();
   const [collectionMethod, setCollectionMethod] = useState<DataCollectionMethod>(state.collectionMethod || 'automatic');
   const [fetchStatuses, setFetchStatuses] = useState<ProductFetchStatus[]>([]);
   const [fetchedProducts, setFetchedProducts] = useState<CompleteProductData[]>([]);
   const [isFetching, setIsFetching] = useState(false);
   const [refreshingProducts, setRefreshingProducts] = useState<Set<number>>(new Set());
+  const bulkFetchController = useRef<AbortController | null>(null);
+  const nameForProduct = (productId: string) => state.products.find(p => p.id === productId)?.name || productId;
 
   // Cleanup blob URLs on unmount
   useEffect(() => {
@@ -93,7 +100,13 @@ export default function DataCollectionEnhanced() {
       const response = await fetch('/api/scrape', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ asin: product.asin })
+        body: JSON.stringify({
+          asin: product.asin,
+          marketplace: state.marketplace,
+          postcode: state.deliveryPostcode,
+          comparisonPostcodes: state.comparisonPostcodes,
+          forceRefresh: true
+        })
       });
 
       if (response.ok) {
@@ -134,6 +147,18 @@ export default function DataCollectionEnhanced() {
       // For fetched products, convert and add to global state
       const products: Product[] = fetchedProducts.map((completeData, index) => convertToProduct(completeData, index));
       
+      // Prices in different currencies cannot be scored against each other
+      try {
+        assertSingleCurrency(products, state.marketplace);
+      } catch (error) {
+        addToast({
+          title: 'Mixed Currencies',
+          description: error instanceof Error ? error.message : 'Products must all be from the same marketplace.',
+          variant: 'destructive'
+        });
+        return;
+      }
+      
       // Add products to global state
       dispatch({ type: 'SET_PRODUCTS_BULK', payload: products });
       
@@ -151,7 +176,12 @@ export default function DataCollectionEnhanced() {
         asin: product.asin,
         name: product.name,
         price: product.price,
+        originalPrice: product.originalPrice,
         shippingDays: product.shippingDays,
+        deliveryPromise: product.deliveryPromise,
+        deliveryPostcode: product.deliveryPostcode,
+        shippingByPostcode: product.shippingByPostcode,
+        mainImageCompliance: product.mainImageCompliance,
         reviewCount: product.reviewCount,
         rating: product.rating,
         images: {
@@ -236,6 +266,8 @@ export default function DataCollectionEnhanced() {
           }).filter(img => img !== null)
         },
         features: product.features,
+        source: product.dataSource,
+        marketplace: product.marketplace,
         validation: { isValid: true, errors: [], warnings: [], data: product }
       };
     });
@@ -280,6 +312,9 @@ export default function DataCollectionEnhanced() {
           </CardContent>
         </Card>
 
+        {/* Different ASINs sharing photos */}
+        <SharedImagesPanel products={state.products.map(getProductImages)} nameFor={nameForProduct} />
+
         {/* Product Display Cards */}
         {existingProducts.map((product, idx) => (
           <ProductDataDisplay
@@ -325,7 +360,27 @@ export default function DataCollectionEnhanced() {
     );
   }
 
-  // Handle bulk ASIN fetch - Sequential with real-time progress updates
+  // Summarise a fetched product for the progress list
+  const toFetchStatus = (asin: string, status: FetchStatus, productData?: SerializedProductData, error?: string): ProductFetchStatus => {
+    if (!productData) {
+      return { asin, status, error };
+    }
+    return {
+      asin: productData.asin,
+      status,
+      name: productData.name,
+      price: productData.price,
+      shippingDays: productData.shippingDays,
+      reviewCount: productData.reviewCount,
+      rating: productData.rating,
+      imageCount: (productData.images?.mainImage ? 1 : 0) + 
+                 (productData.images?.additionalImages?.length || 0),
+      featureCount: productData.features?.split('\n\n').filter((f: string) => f.trim()).length || 0,
+      error
+    };
+  };
+
+  // Handle bulk ASIN fetch - one streamed request, status events rendered as they arrive
   const handleBulkFetch = async (asins: string[]) => {
     setIsFetching(true);
     
@@ -336,83 +391,81 @@ export default function DataCollectionEnhanced() {
     }));
     setFetchStatuses(initialStatuses);
 
-    const fetchedProductsList: any[] = [];
+    const fetchedByAsin = new Map<string, SerializedProductData>();
+    const controller = new AbortController();
+    bulkFetchController.current = controller;
 
-    // FETCH ONE AT A TIME for real-time progress updates
-    for (let i = 0; i < asins.length; i++) {
-      const asin = asins[i];
-      
-      try {
-        // Update status to "fetching"
-        setFetchStatuses(prev => prev.map((p, idx) => 
-          idx === i ? { ...p, status: 'fetching' as FetchStatus } : p
-        ));
-        
-        // Fetch single product
-        const response = await fetch('/api/scrape', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ asin })
-        });
+    const applyEvent = (event: BulkFetchEvent) => {
+      if (event.type !== 'status') return;
+      if (event.product) {
+        fetchedByAsin.set(event.asin, event.product);
+      }
+      setFetchStatuses(prev => prev.map(p => 
+        p.asin === event.asin ? toFetchStatus(event.asin, event.status, event.product, event.error) : p
+      ));
+    };
 
-        if (!response.ok) {
-          throw new Error(`Failed to fetch ASIN ${asin}`);
-        }
+    try {
+      const response = await fetch('/api/scrape', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          asins,
+          marketplace: state.marketplace,
+          postcode: state.deliveryPostcode,
+          comparisonPostcodes: state.comparisonPostcodes,
+          stream: true
+        }),
+        signal: controller.signal
+      });
 
-        const data = await response.json();
-        const productData = data.product;
-        
-        // Store product
-        fetchedProductsList.push(productData);
-        
-        // Determine status based on validation
-        let status: FetchStatus = 'success';
-        if (productData.validation && !productData.validation.isValid) {
-          status = 'failed';
-        } else if (productData.validation && productData.validation.warnings?.length > 0) {
-          status = 'needs_review';
-        }
-        
-        // Update status to "success" with full details
-        setFetchStatuses(prev => prev.map((p, idx) => 
-          idx === i ? {
-            asin: productData.asin,
-            status: status,
-            name: productData.name,
-            price: productData.price,
-            shippingDays: productData.shippingDays,
-            reviewCount: productData.reviewCount,
-            rating: productData.rating,
-            imageCount: (productData.images?.mainImage ? 1 : 0) + 
-                       (productData.images?.additionalImages?.length || 0),
-            featureCount: productData.features?.split('\n\n').filter((f: string) => f.trim()).length || 0
-          } : p
-        ));
-        
-      } catch (error: any) {
-        console.error(`Failed to fetch ${asin}:`, error);
-        
-        // Update status to "failed"
-        setFetchStatuses(prev => prev.map((p, idx) => 
-          idx === i ? { 
-            ...p, 
-            status: 'failed' as FetchStatus, 
-            error: error.message || 'Fetch failed'
-          } : p
-        ));
+      if (!response.ok || !response.body) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || 'Bulk fetch failed');
       }
+
+      // NDJSON: one event per line
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+        lines.filter(line => line.trim()).forEach(line => applyEvent(JSON.parse(line)));
+      }
+      if (buffer.trim()) applyEvent(JSON.parse(buffer));
       
-      // Rate limiting - 200ms delay between requests
-      if (i < asins.length - 1) {
-        await new Promise(resolve => setTimeout(resolve, 200));
+    } catch (error: any) {
+      if (controller.signal.aborted) {
+        // Cancelled: everything not finished yet is dropped
+        setFetchStatuses(prev => prev.map(p => 
+          p.status === 'pending' || p.status === 'fetching' ? { ...p, status: 'cancelled' as FetchStatus } : p
+        ));
+      } else {
+        console.error('Bulk fetch failed:', error);
+        setFetchStatuses(prev => prev.map(p => 
+          p.status === 'pending' || p.status === 'fetching' 
+            ? { ...p, status: 'failed' as FetchStatus, error: error.message || 'Fetch failed' } 
+            : p
+        ));
       }
+    } finally {
+      bulkFetchController.current = null;
     }
     
-    // Store all fetched products
-    setFetchedProducts(fetchedProductsList);
+    // Store all fetched products, in the order they were entered
+    setFetchedProducts(asins.flatMap(asin => fetchedByAsin.get(asin) ?? []));
     setIsFetching(false);
   };
 
+  // Stop fetching the ASINs that have not finished yet
+  const handleCancelFetch = () => {
+    bulkFetchController.current?.abort();
+  };
+
   // Convert CompleteProductData to Product for analysis
   const convertToProduct = (completeData: any, index: number = 0): Product => {
     // Handle both Blob-based and serialized (base64) images
@@ -430,12 +483,19 @@ export default function DataCollectionEnhanced() {
       asin: completeData.asin,
       name: completeData.name,
       price: completeData.price,
+      originalPrice: completeData.originalPrice ?? null,
       shippingDays: completeData.shippingDays,
+      deliveryPromise: completeData.deliveryPromise ?? null,
+      deliveryPostcode: completeData.deliveryPostcode ?? null,
+      shippingByPostcode: completeData.shippingByPostcode,
+      mainImageCompliance: completeData.mainImageCompliance,
       reviewCount: completeData.reviewCount,
       rating: completeData.rating,
       mainImage,
       additionalImages,
       features: completeData.features,
+      dataSource: completeData.source,
+      marketplace: completeData.marketplace ?? state.marketplace,
       isUserProduct: state.analysisType === 'core6' && index === 0
     };
   };
@@ -484,6 +544,9 @@ export default function DataCollectionEnhanced() {
             </CardContent>
           </Card>
 
+          {/* Different ASINs sharing photos */}
+          <SharedImagesPanel products={state.products.map(getProductImages)} nameFor={nameForProduct} />
+
           {/* Product Display Cards */}
           {state.products.map((product, idx) => {
             // Convert Product to CompleteProductData format
@@ -492,6 +555,9 @@ export default function DataCollectionEnhanced() {
               name: product.name,
               price: product.price,
               shippingDays: product.shippingDays,
+              deliveryPostcode: product.deliveryPostcode,
+              shippingByPostcode: product.shippingByPostcode,
+              mainImageCompliance: product.mainImageCompliance,
               reviewCount: product.reviewCount,
               rating: product.rating,
               images: {
@@ -553,6 +619,8 @@ export default function DataCollectionEnhanced() {
                 })
               },
               features: product.features,
+              source: product.dataSource,
+              marketplace: product.marketplace,
               validation: {
                 isValid: true,
                 errors: [],
@@ -639,7 +707,7 @@ export default function DataCollectionEnhanced() {
 
       {/* Fetching Progress */}
       {isFetching && (
-        <FetchingProgress products={fetchStatuses} />
+        <FetchingProgress products={fetchStatuses} marketplace={state.marketplace} onCancel={handleCancelFetch} />
       )}
 
       {/* Review Fetched Products */}
@@ -683,6 +751,12 @@ export default function DataCollectionEnhanced() {
             </CardContent>
           </Card>
 
+          {/* Different ASINs sharing photos */}
+          <SharedImagesPanel
+            products={fetchedProducts.map((product, idx) => getCompleteProductImages(product, String(idx)))}
+            nameFor={id => fetchedProducts[Number(id)]?.name || id}
+          />
+
           {/* Product Display Cards */}
           {fetchedProducts.map((product, idx) => (
             <ProductDataDisplay
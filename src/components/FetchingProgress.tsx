@@ -1,12 +1,14 @@
 'use client';
 
 import { FetchStatus } from '@/lib/types';
+import { MarketplaceId } from '@/lib/marketplaces';
+import { formatPrice } from '@/lib/utils';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
 // import { Skeleton } from '@/components/ui/skeleton'; // Unused for now
-import { CheckCircle, AlertCircle, RefreshCw, XCircle, Clock, Package, DollarSign, Truck, MessageSquare, Star, Image, FileText } from 'lucide-react';
+import { CheckCircle, AlertCircle, RefreshCw, XCircle, Clock, Package, DollarSign, Truck, MessageSquare, Star, Image, FileText, Ban } from 'lucide-react';
 
 interface ProductFetchStatus {
   asin: string;
@@ -23,24 +25,30 @@ interface ProductFetchStatus {
 
 interface FetchingProgressProps {
   products: ProductFetchStatus[];
+  marketplace?: MarketplaceId;
   onPause?: () => void;
   onSkipFailed?: () => void;
   onManualEntry?: () => void;
+  onCancel?: () => void; // Cancel the ASINs that have not finished yet
 }
 
 export default function FetchingProgress({ 
-  products, 
+  products,
+  marketplace, 
   onPause, 
   onSkipFailed,
-  onManualEntry 
+  onManualEntry,
+  onCancel
 }: FetchingProgressProps) {
   const totalCount = products.length;
   const completedCount = products.filter(
-    p => p.status === 'success' || p.status === 'needs_review' || p.status === 'failed'
+    p => p.status === 'success' || p.status === 'needs_review' || p.status === 'failed' || p.status === 'cancelled'
   ).length;
   const successCount = products.filter(p => p.status === 'success').length;
   const failedCount = products.filter(p => p.status === 'failed').length;
   const reviewCount = products.filter(p => p.status === 'needs_review').length;
+  const cancelledCount = products.filter(p => p.status === 'cancelled').length;
+  const remainingCount = products.filter(p => p.status === 'pending' || p.status === 'fetching').length;
   
   const progress = totalCount > 0 ? Math.round((completedCount / totalCount) * 100) : 0;
   const isFetching = products.some(p => p.status === 'fetching');
@@ -55,6 +63,8 @@ export default function FetchingProgress({
         return <AlertCircle className="w-5 h-5 text-yellow-600" />;
       case 'failed':
         return <XCircle className="w-5 h-5 text-red-600" />;
+      case 'cancelled':
+        return <Ban className="w-5 h-5 text-muted-foreground" />;
       case 'pending':
       default:
         return <Clock className="w-5 h-5 text-muted-foreground" />;
@@ -71,6 +81,8 @@ export default function FetchingProgress({
         return 'Needs Review';
       case 'failed':
         return 'Failed';
+      case 'cancelled':
+        return 'Cancelled';
       case 'pending':
       default:
         return 'Pending';
@@ -150,7 +162,7 @@ export default function FetchingProgress({
                             {product.price && (
                               <div className="flex items-center space-x-1">
                                 <DollarSign className="w-3 h-3" />
-                                <span>${product.price.toFixed(2)}</span>
+                                <span>{formatPrice(product.price, marketplace)}</span>
                               </div>
                             )}
                             {product.shippingDays !== undefined && (
@@ -224,6 +236,12 @@ export default function FetchingProgress({
               <XCircle className="w-4 h-4 text-red-600" />
               <span className="text-red-600 font-medium">Failed: {failedCount}</span>
             </div>
+            {cancelledCount > 0 && (
+              <div className="flex items-center space-x-2">
+                <Ban className="w-4 h-4 text-muted-foreground" />
+                <span className="text-muted-foreground font-medium">Cancelled: {cancelledCount}</span>
+              </div>
+            )}
           </div>
         </div>
 
@@ -237,7 +255,7 @@ export default function FetchingProgress({
                   Auto-retrying on failures with exponential backoff
                 </p>
                 <p className="text-xs text-primary/70 mt-1">
-                  Each product takes ~2-5 seconds to fetch. Rate limited to 200ms between requests.
+                  Each product takes ~2-5 seconds to fetch. Several products are fetched at once, within the request rate limit.
                 </p>
               </div>
             </div>
@@ -245,7 +263,7 @@ export default function FetchingProgress({
         </Card>
 
         {/* Action Buttons */}
-        {(onPause || onSkipFailed || onManualEntry) && (
+        {(onPause || onSkipFailed || onManualEntry || onCancel) && (
           <div className="flex gap-3">
             {onPause && (
               <Button
@@ -269,6 +287,17 @@ export default function FetchingProgress({
               </Button>
             )}
             
+            {onCancel && remainingCount > 0 && (
+              <Button
+                onClick={onCancel}
+                variant="outline"
+                size="sm"
+                className="border-red-300 text-red-700 hover:bg-red-50"
+              >
+                Cancel Remaining ({remainingCount})
+              </Button>
+            )}
+            
             {onManualEntry && (
               <Button
                 onClick={onManualEntry}
@@ -0,0 +1,35 @@
+'use client';
+
+import { ImageComplianceReport } from '@/lib/types';
+import { Badge } from '@/components/ui/badge';
+import { CheckCircle, XCircle } from 'lucide-react';
+
+interface ImageComplianceBadgesProps {
+  report: ImageComplianceReport | null | undefined;
+}
+
+/**
+ * Pass/fail badge per main-image rule; the requirement shows on hover
+ */
+export default function ImageComplianceBadges({ report }: ImageComplianceBadgesProps) {
+  if (report === undefined) return null;
+
+  if (report === null) {
+    return <p className="text-xs text-gray-500">Main image could not be analyzed</p>;
+  }
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      {report.checks.map(check => (
+        <Badge
+          key={check.id}
+          variant={check.passed ? 'success' : 'destructive'}
+          title={`${check.label}: ${check.display} (required ${check.requirement})`}
+        >
+          {check.passed ? <CheckCircle className="w-3 h-3 mr-1" /> : <XCircle className="w-3 h-3 mr-1" />}
+          {check.label}: {check.display}
+        </Badge>
+      ))}
+    </div>
+  );
+}
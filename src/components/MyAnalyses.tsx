@@ -0,0 +1,234 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useAnalysis, flushAnalysisSaves } from '@/contexts/AnalysisContext';
+import { AnalysisSummary, AppState } from '@/lib/types';
+import { getAnalysisRepository } from '@/lib/analysis-repository';
+import { duplicateAnalysisState } from '@/lib/analysis-library';
+import { generateId } from '@/lib/utils';
+import { getMarketplace } from '@/lib/marketplaces';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ConfirmationDialog } from '@/components/ui/confirmation-dialog';
+import { Archive, ArchiveRestore, Copy, FolderOpen, Loader2, Plus, Trash2, Upload } from 'lucide-react';
+
+interface MyAnalysesProps {
+  onStart: () => void; // An analysis was opened or a new one started
+}
+
+/**
+ * Saved analyses, to open, duplicate, archive or delete, or start a new one or import a bundle
+ */
+export default function MyAnalyses({ onStart }: MyAnalysesProps) {
+  const { state, dispatch } = useAnalysis();
+  const [analyses, setAnalyses] = useState<AnalysisSummary[] | null>(null);
+  const [showArchived, setShowArchived] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [pendingDelete, setPendingDelete] = useState<AnalysisSummary | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const load = useCallback(async () => {
+    try {
+      // The open analysis may have changes waiting to be written
+      await flushAnalysisSaves();
+      setAnalyses(await getAnalysisRepository().list({ includeArchived: showArchived }));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load analyses');
+    }
+  }, [showArchived]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  // Run an action on one analysis, then refresh the list
+  const run = async (id: string, action: () => Promise<unknown>, failure: string) => {
+    setBusyId(id);
+    try {
+      await flushAnalysisSaves();
+      await action();
+      await load();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : failure);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleOpen = async (summary: AnalysisSummary) => {
+    if (summary.id === state.analysisId) {
+      onStart();
+      return;
+    }
+    setBusyId(summary.id);
+    try {
+      await flushAnalysisSaves();
+      const analysis = await getAnalysisRepository().open(summary.id);
+      if (!analysis) {
+        setError(`"${summary.name}" no longer exists`);
+        await load();
+        return;
+      }
+      dispatch({ type: 'LOAD_ANALYSIS', payload: analysis });
+      onStart();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to open analysis');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleNew = () => {
+    dispatch({ type: 'RESET_ANALYSIS' });
+    onStart();
+  };
+
+  const handleImport = async (file: File) => {
+    setIsImporting(true);
+    try {
+      const response = await fetch('/api/import-bundle', { method: 'POST', body: file });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to import bundle');
+
+      const repository = getAnalysisRepository();
+      let analysis: AppState = data.analysis;
+      // A bundle of an analysis that's already here comes in as a copy rather than overwriting it
+      const existing = await repository.list({ includeArchived: true });
+      if (existing.some(summary => summary.id === analysis.analysisId)) {
+        analysis = duplicateAnalysisState(analysis, generateId());
+      }
+
+      await flushAnalysisSaves();
+      await repository.save(analysis);
+      dispatch({ type: 'LOAD_ANALYSIS', payload: analysis });
+      onStart();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to import bundle');
+    } finally {
+      setIsImporting(false);
+      if (fileInput.current) fileInput.current.value = '';
+    }
+  };
+
+  const handleDelete = (summary: AnalysisSummary) => run(summary.id, async () => {
+    await getAnalysisRepository().delete(summary.id);
+    if (summary.id === state.analysisId) {
+      dispatch({ type: 'RESET_ANALYSIS' });
+    }
+  }, 'Failed to delete analysis');
+
+  return (
+    <div className="max-w-4xl mx-auto space-y-6">
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <div>
+          <h2 className="text-3xl font-bold text-foreground mb-2">My Analyses</h2>
+          <p className="text-muted-foreground">
+            Analyses are saved as you work. Open one to continue where you left off.
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <input
+            ref={fileInput}
+            type="file"
+            accept=".core6,.zip"
+            className="hidden"
+            onChange={(e) => e.target.files?.[0] && handleImport(e.target.files[0])}
+          />
+          <Button variant="outline" onClick={() => fileInput.current?.click()} disabled={isImporting}>
+            {isImporting ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Upload className="w-4 h-4 mr-2" />}
+            Import Bundle
+          </Button>
+          <Button onClick={handleNew}>
+            <Plus className="w-4 h-4 mr-2" />
+            New Analysis
+          </Button>
+        </div>
+      </div>
+
+      <label className="flex items-center gap-2 text-sm text-muted-foreground">
+        <input
+          type="checkbox"
+          checked={showArchived}
+          onChange={(e) => setShowArchived(e.target.checked)}
+        />
+        Show archived analyses
+      </label>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      {!analyses && !error && <p className="text-muted-foreground">Loading analyses...</p>}
+      {analyses && analyses.length === 0 && (
+        <p className="text-muted-foreground">No saved analyses yet. Start a new one to get going.</p>
+      )}
+
+      {analyses?.map(summary => {
+        const isBusy = busyId === summary.id;
+        return (
+          <Card key={summary.id} className={summary.archived ? 'opacity-70' : undefined}>
+            <CardHeader className="pb-3">
+              <div className="flex items-start justify-between gap-4">
+                <div className="min-w-0">
+                  <CardTitle className="text-lg truncate" title={summary.name}>{summary.name}</CardTitle>
+                  <CardDescription>
+                    Step {summary.currentStep} of 5 · {summary.productCount} products · Updated {new Date(summary.updatedAt).toLocaleString()}
+                  </CardDescription>
+                </div>
+                <div className="flex flex-wrap justify-end gap-2 shrink-0">
+                  {summary.analysisType && (
+                    <Badge variant="secondary">{summary.analysisType === 'core6' ? 'Core 6' : 'Core 5'}</Badge>
+                  )}
+                  <Badge variant="outline">{getMarketplace(summary.marketplace).domain}</Badge>
+                  {summary.id === state.analysisId && <Badge variant="success">Open</Badge>}
+                  {summary.archived && <Badge variant="warning">Archived</Badge>}
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent>
+              <div className="flex flex-wrap gap-2">
+                <Button size="sm" onClick={() => handleOpen(summary)} disabled={isBusy}>
+                  {isBusy ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <FolderOpen className="w-4 h-4 mr-2" />}
+                  Open
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  disabled={isBusy}
+                  onClick={() => run(summary.id, () => getAnalysisRepository().duplicate(summary.id), 'Failed to duplicate analysis')}
+                >
+                  <Copy className="w-4 h-4 mr-2" />
+                  Duplicate
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  disabled={isBusy}
+                  onClick={() => run(summary.id, () => getAnalysisRepository().archive(summary.id, !summary.archived), 'Failed to archive analysis')}
+                >
+                  {summary.archived ? <ArchiveRestore className="w-4 h-4 mr-2" /> : <Archive className="w-4 h-4 mr-2" />}
+                  {summary.archived ? 'Unarchive' : 'Archive'}
+                </Button>
+                <Button size="sm" variant="ghost" disabled={isBusy} onClick={() => setPendingDelete(summary)} title="Delete analysis">
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        );
+      })}
+
+      <ConfirmationDialog
+        open={pendingDelete !== null}
+        onOpenChange={(open) => !open && setPendingDelete(null)}
+        title="Delete Analysis?"
+        description={`"${pendingDelete?.name}" and its images will be deleted for good. Archive it instead to keep it out of the list.`}
+        confirmText="Delete"
+        cancelText="Cancel"
+        variant="destructive"
+        onConfirm={() => pendingDelete && handleDelete(pendingDelete)}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,145 @@
+'use client';
+
+import { useMemo } from 'react';
+import { useAnalysis } from '@/contexts/AnalysisContext';
+import { Analysis, OptimizerWeights } from '@/lib/types';
+import { findMinimumChangePlans, DEFAULT_OPTIMIZER_WEIGHTS, OptimizationResult } from '@/lib/optimizer';
+import { describeScenarioOverrides } from '@/lib/scenarios';
+import { getScoringRubric, getRubricMaxTotal } from '@/lib/scoring-rubric';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Target, RotateCcw } from 'lucide-react';
+
+interface OptimizerPanelProps {
+  analysis: Analysis;
+}
+
+const weightFields: { key: keyof OptimizerWeights; label: string }[] = [
+  { key: 'pricePerDollar', label: 'Per $1 price cut' },
+  { key: 'shippingPerDay', label: 'Per day faster shipping' },
+  { key: 'reviewsPerHundred', label: 'Per 100 reviews' },
+  { key: 'ratingPerTenth', label: 'Per 0.1 stars' },
+  { key: 'pollPerPlace', label: 'Per poll place' },
+];
+
+/**
+ * Cheapest combinations of changes that reach Pass or rank #1, under editable effort weights
+ */
+export default function OptimizerPanel({ analysis }: OptimizerPanelProps) {
+  const { state, dispatch } = useAnalysis();
+  const weights = state.optimizerWeights || DEFAULT_OPTIMIZER_WEIGHTS;
+  const maxTotal = getRubricMaxTotal(getScoringRubric(analysis.calculations[0]?.rubricVersion));
+
+  const results = useMemo(() => {
+    try {
+      return [
+        findMinimumChangePlans(analysis, 'pass', weights, 3),
+        findMinimumChangePlans(analysis, 'rank1', weights, 3),
+      ];
+    } catch (error) {
+      console.error('Optimizer failed:', error);
+      return [];
+    }
+  }, [analysis, weights]);
+
+  const updateWeight = (key: keyof OptimizerWeights, value: string) => {
+    const parsed = Number(value);
+    if (value.trim() === '' || isNaN(parsed) || parsed < 0) return;
+    dispatch({ type: 'SET_OPTIMIZER_WEIGHTS', payload: { ...weights, [key]: parsed } });
+  };
+
+  const renderResult = (result: OptimizationResult) => (
+    <div key={result.goal} className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h4 className="font-semibold text-foreground">
+          {result.goal === 'pass' ? 'Reach Pass' : 'Reach Rank #1'}
+        </h4>
+        <span className="text-sm text-muted-foreground">
+          Now {result.baseline.totalScore}/{maxTotal}, rank #{result.baseline.rank}
+        </span>
+      </div>
+
+      {result.alreadyMet ? (
+        <Badge variant="success">Already met</Badge>
+      ) : result.plans.length === 0 ? (
+        <p className="text-sm text-muted-foreground">Not reachable with the available levers.</p>
+      ) : (
+        result.plans.map((plan, index) => (
+          <div key={index} className="p-3 border border-border rounded-lg text-sm space-y-2">
+            <div className="flex items-center justify-between">
+              <span className="font-medium">{index === 0 ? 'Cheapest plan' : `Alternative ${index}`}</span>
+              <div className="flex items-center space-x-2">
+                <Badge variant="outline">Effort {plan.totalCost}</Badge>
+                <Badge variant="secondary">
+                  {plan.projected.totalScore}/{maxTotal}, #{plan.projected.rank}
+                </Badge>
+              </div>
+            </div>
+            <ul className="list-disc pl-5 space-y-1">
+              {plan.moves.map(move => (
+                <li key={move.category}>
+                  {move.description} <span className="text-muted-foreground">(+{move.pointsGained} pts)</span>
+                </li>
+              ))}
+            </ul>
+            <p className="text-muted-foreground">Scenario: {describeScenarioOverrides(plan.overrides, state.marketplace)}</p>
+          </div>
+        ))
+      )}
+    </div>
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center space-x-3">
+          <div className="p-2 bg-primary/10 rounded-lg">
+            <Target className="w-6 h-6 text-primary" />
+          </div>
+          <div>
+            <CardTitle className="text-2xl">Minimum-Change Optimizer</CardTitle>
+            <CardDescription className="text-lg">
+              The cheapest combinations of changes that reach Pass or rank #1
+            </CardDescription>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <h4 className="font-semibold text-foreground">Effort Weights</h4>
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => dispatch({ type: 'SET_OPTIMIZER_WEIGHTS', payload: DEFAULT_OPTIMIZER_WEIGHTS })}
+            >
+              <RotateCcw className="w-4 h-4 mr-2" />
+              Reset
+            </Button>
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
+            {weightFields.map(field => (
+              <label key={field.key} className="text-sm space-y-1">
+                <span className="font-medium">{field.label}</span>
+                <Input
+                  key={weights[field.key]}
+                  type="number"
+                  step="0.5"
+                  min="0"
+                  defaultValue={weights[field.key]}
+                  onBlur={e => updateWeight(field.key, e.target.value)}
+                />
+              </label>
+            ))}
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          {results.map(renderResult)}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,144 @@
+'use client';
+
+import { useState } from 'react';
+import { useAnalysis } from '@/contexts/AnalysisContext';
+import { PersonaSegment } from '@/lib/types';
+import { MAX_PANEL_SEGMENTS, getPanelTotal, validatePanel } from '@/lib/persona-panel';
+import { generateId } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Plus, Save, Trash2, Users } from 'lucide-react';
+import { useToast } from '@/contexts/ToastContext';
+
+interface PersonaPanelEditorProps {
+  segments: PersonaSegment[];
+  onChange: (segments: PersonaSegment[]) => void;
+}
+
+/**
+ * Edit a weighted persona panel and save or load it as a reusable preset
+ */
+export default function PersonaPanelEditor({ segments, onChange }: PersonaPanelEditorProps) {
+  const { state, dispatch } = useAnalysis();
+  const { addToast } = useToast();
+  const [presetName, setPresetName] = useState('');
+  const presets = state.panelPresets || [];
+  const total = getPanelTotal(segments);
+
+  const updateSegment = (id: string, changes: Partial<PersonaSegment>) => {
+    onChange(segments.map(s => (s.id === id ? { ...s, ...changes } : s)));
+  };
+
+  const handleAddSegment = () => {
+    // Start the new segment with whatever weight is left, if any
+    onChange([...segments, { id: generateId(), label: '', weight: Math.max(0, Math.round((100 - total) * 10) / 10) }]);
+  };
+
+  const handleSavePreset = () => {
+    if (!presetName.trim()) {
+      addToast({ title: 'Missing Name', description: 'Please name the panel before saving.', variant: 'destructive' });
+      return;
+    }
+    const errors = validatePanel(segments);
+    if (errors.length > 0) {
+      addToast({ title: 'Invalid Panel', description: errors[0], variant: 'destructive' });
+      return;
+    }
+
+    dispatch({
+      type: 'SAVE_PANEL_PRESET',
+      payload: { id: generateId(), name: presetName.trim(), segments }
+    });
+    addToast({ title: 'Panel Saved', description: `"${presetName.trim()}" can be reused in any analysis.`, variant: 'success' });
+    setPresetName('');
+  };
+
+  const handleLoadPreset = (presetId: string) => {
+    const preset = presets.find(p => p.id === presetId);
+    if (preset) {
+      // Fresh segment IDs so the loaded copy can be edited independently
+      onChange(preset.segments.map(s => ({ ...s, id: generateId() })));
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {presets.length > 0 && (
+        <div className="space-y-2">
+          <label className="text-sm font-semibold text-foreground">Saved Panels</label>
+          <div className="flex flex-wrap gap-2">
+            {presets.map(preset => (
+              <div key={preset.id} className="flex items-center border border-border rounded-md">
+                <Button size="sm" variant="ghost" onClick={() => handleLoadPreset(preset.id)}>
+                  <Users className="w-4 h-4 mr-2" />
+                  {preset.name}
+                </Button>
+                <Button size="sm" variant="ghost" onClick={() => dispatch({ type: 'DELETE_PANEL_PRESET', payload: preset.id })}>
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className="space-y-3">
+        {segments.map((segment, index) => (
+          <div key={segment.id} className="flex items-center gap-3">
+            <Input
+              type="text"
+              value={segment.label}
+              onChange={(e) => updateSegment(segment.id, { label: e.target.value })}
+              placeholder={`Segment ${index + 1}, e.g. Budget-conscious parents`}
+              className="h-10 flex-1"
+            />
+            <div className="flex items-center gap-1">
+              <Input
+                type="number"
+                min={0}
+                max={100}
+                step={1}
+                value={Number.isFinite(segment.weight) ? segment.weight : ''}
+                onChange={(e) => updateSegment(segment.id, { weight: parseFloat(e.target.value) })}
+                className="h-10 w-20"
+              />
+              <span className="text-sm text-muted-foreground">%</span>
+            </div>
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => onChange(segments.filter(s => s.id !== segment.id))}
+              disabled={segments.length === 1}
+            >
+              <Trash2 className="w-4 h-4" />
+            </Button>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <Button size="sm" variant="outline" onClick={handleAddSegment} disabled={segments.length >= MAX_PANEL_SEGMENTS}>
+          <Plus className="w-4 h-4 mr-2" />
+          Add Segment
+        </Button>
+        <Badge variant={Math.abs(total - 100) <= 0.5 ? 'success' : 'warning'}>
+          Total {total}%
+        </Badge>
+      </div>
+
+      <div className="flex flex-wrap gap-3">
+        <Input
+          value={presetName}
+          onChange={e => setPresetName(e.target.value)}
+          placeholder="Panel name, e.g. Holiday shoppers"
+          className="max-w-xs"
+        />
+        <Button variant="outline" onClick={handleSavePreset}>
+          <Save className="w-4 h-4 mr-2" />
+          Save Panel
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -2,13 +2,17 @@
 
 import { useState, useEffect } from 'react';
 import { useAnalysis } from '@/contexts/AnalysisContext';
-import { PollResult } from '@/lib/types';
+import { PollResult, PollMode, PersonaSegment } from '@/lib/types';
+import { maxPairwiseRounds, schedulePairs } from '@/lib/pairwise';
+import { describeSegmentPreferences, formatPanel, validatePanel } from '@/lib/persona-panel';
+import { generateId, formatPrice } from '@/lib/utils';
+import PersonaPanelEditor from '@/components/PersonaPanelEditor';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
 import { Input } from '@/components/ui/input';
-import { CheckCircle, Play, ChevronLeft, ChevronRight, BarChart3, Image, FileText, Loader2 } from 'lucide-react';
+import { CheckCircle, Play, ChevronLeft, ChevronRight, BarChart3, Image, FileText, Loader2, AlertTriangle, Layers } from 'lucide-react';
 import { useToast } from '@/contexts/ToastContext';
 
 const pollTypes = [
@@ -23,19 +27,35 @@ export default function PollingInterface() {
   const [currentPoll, setCurrentPoll] = useState<number>(0);
   const [demographic, setDemographic] = useState('');
   const [question, setQuestion] = useState('');
+  const [ensembleRuns, setEnsembleRuns] = useState(1);
+  const [pollMode, setPollMode] = useState<PollMode>('ranking');
+  const [pairwiseRounds, setPairwiseRounds] = useState<number | null>(null); // null = all pairs
+  const [usePanel, setUsePanel] = useState(false);
+  const [panel, setPanel] = useState<PersonaSegment[]>([{ id: generateId(), label: '', weight: 100 }]);
   const [isRunning, setIsRunning] = useState(false);
   const [pollResult, setPollResult] = useState<PollResult | null>(null);
   const [currentPage, setCurrentPage] = useState(1);
   const responsesPerPage = 5;
 
   const pollType = pollTypes[currentPoll].key as 'main_image' | 'image_stack' | 'features';
+  const audienceLabel = usePanel ? `each of ${panel.length} panel segments` : demographic;
+  const pairCount = schedulePairs(state.products.map(p => p.id), pairwiseRounds ?? undefined).length;
 
   // Pre-populate demographics for polls 2 and 3 with poll 1's demographic
   useEffect(() => {
-    if (currentPoll > 0 && state.polls.mainImage?.demographic && !demographic.trim()) {
+    if (currentPoll > 0 && state.polls.mainImage?.demographic && !state.polls.mainImage.segments && !demographic.trim()) {
       setDemographic(state.polls.mainImage.demographic);
     }
-  }, [currentPoll, state.polls.mainImage?.demographic, demographic]);
+  }, [currentPoll, state.polls.mainImage?.demographic, state.polls.mainImage?.segments, demographic]);
+
+  // Likewise reuse poll 1's persona panel, if it had one
+  useEffect(() => {
+    const segments = state.polls.mainImage?.segments;
+    if (currentPoll > 0 && segments?.length && panel.every(s => !s.label.trim())) {
+      setUsePanel(true);
+      setPanel(segments.map(s => ({ id: s.segmentId, label: s.label, weight: s.weight })));
+    }
+  }, [currentPoll, state.polls.mainImage?.segments, panel]);
 
   // Add refresh protection
   useEffect(() => {
@@ -50,7 +70,19 @@ export default function PollingInterface() {
   }, []);
 
   const handleRunPoll = async () => {
-    if (!demographic.trim() || !question.trim()) {
+    if (usePanel) {
+      const panelErrors = validatePanel(panel);
+      if (panelErrors.length > 0) {
+        addToast({
+          title: 'Invalid Panel',
+          description: panelErrors[0],
+          variant: 'destructive'
+        });
+        return;
+      }
+    }
+
+    if ((!usePanel && !demographic.trim()) || !question.trim()) {
       addToast({
         title: 'Missing Information',
         description: 'Please provide both demographic and question.',
@@ -102,9 +134,14 @@ export default function PollingInterface() {
         },
         body: JSON.stringify({
           products: productsForPoll, // Send lightweight version without images
-          demographic,
+          demographic: usePanel ? formatPanel(panel) : demographic,
           question,
           pollType,
+          mode: pollMode,
+          ...(usePanel && { panel }),
+          ...(pollMode === 'pairwise'
+            ? { pairwiseRounds: pairwiseRounds ?? undefined }
+            : { ensembleRuns: usePanel ? 1 : ensembleRuns }),
         }),
       });
 
@@ -184,12 +221,104 @@ export default function PollingInterface() {
           </div>
         </CardHeader>
         <CardContent className="space-y-6">
+
+          {/* Ensemble Stability */}
+          {pollResult.ensemble && (
+            <div className={`flex items-start space-x-3 p-4 rounded-lg border ${pollResult.ensemble.isCoinFlip ? 'bg-amber-50 border-amber-200' : 'bg-green-50 border-green-200'}`}>
+              {pollResult.ensemble.isCoinFlip ? (
+                <AlertTriangle className="w-5 h-5 text-amber-600 mt-0.5 flex-shrink-0" />
+              ) : (
+                <Layers className="w-5 h-5 text-green-600 mt-0.5 flex-shrink-0" />
+              )}
+              <div className="text-sm space-y-1">
+                <p className="font-semibold text-foreground">
+                  Ensemble of {pollResult.ensemble.runs} runs: stability {Math.round(pollResult.ensemble.stability * 100)}%
+                  {pollResult.ensemble.failedRuns > 0 && ` (${pollResult.ensemble.failedRuns} failed)`}
+                </p>
+                <p className="text-muted-foreground">
+                  The winner took first place in {Math.round(pollResult.ensemble.winnerShare * 100)}% of runs.
+                  {pollResult.ensemble.isCoinFlip
+                    ? ' This ranking is a coin flip: products trade places between runs, so the image and feature scores may not hold up.'
+                    : ' Products kept their places consistently across runs.'}
+                </p>
+              </div>
+            </div>
+          )}
+        
+          {/* Persona Panel Segments */}
+          {pollResult.segments && (
+            <div className="p-4 rounded-lg border bg-muted/30 space-y-2 text-sm">
+              <p className="font-semibold text-foreground">
+                Combined from {pollResult.segments.length} panel segments, weighted by share of the panel
+              </p>
+              <ul className="space-y-1 text-muted-foreground">
+                {describeSegmentPreferences(
+                  pollResult,
+                  productId => state.products.find(p => p.id === productId)?.name || productId
+                ).map((line, index) => (
+                  <li key={pollResult.segments![index].segmentId}>{line}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {/* Pairwise Win Matrix */}
+          {pollResult.pairwise && (
+            <div className="p-4 rounded-lg border bg-muted/30 space-y-3">
+              <div className="text-sm">
+                <p className="font-semibold text-foreground">
+                  Head-to-head: {pollResult.pairwise.pairsCompared} comparisons of {pollResult.pairwise.respondentsPerPair} respondents
+                  {pollResult.pairwise.failedPairs > 0 && ` (${pollResult.pairwise.failedPairs} failed)`}
+                </p>
+                <p className="text-muted-foreground">
+                  Percentages are Bradley-Terry strengths fitted to the votes. Each cell shows the row product&apos;s votes against the column product.
+                </p>
+              </div>
+              <div className="overflow-x-auto">
+                <table className="w-full text-xs">
+                  <thead>
+                    <tr>
+                      <th className="text-left p-2 font-medium text-muted-foreground"></th>
+                      {pollResult.pairwise.productIds.map((productId, index) => (
+                        <th key={productId} className="p-2 font-medium text-muted-foreground truncate max-w-24">
+                          {state.products.find(p => p.id === productId)?.name || `Product ${index + 1}`}
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {pollResult.pairwise.productIds.map((rowId, i) => (
+                      <tr key={rowId} className="border-t">
+                        <td className="p-2 font-medium text-foreground truncate max-w-32">
+                          {state.products.find(p => p.id === rowId)?.name || `Product ${i + 1}`}
+                        </td>
+                        {pollResult.pairwise!.productIds.map((columnId, j) => {
+                          const wins = pollResult.pairwise!.winMatrix[i][j];
+                          const losses = pollResult.pairwise!.winMatrix[j][i];
+                          const compared = i !== j && wins + losses > 0;
+                          return (
+                            <td
+                              key={columnId}
+                              className={`p-2 text-center ${compared && wins > losses ? 'text-green-700 font-semibold' : 'text-muted-foreground'}`}
+                            >
+                              {compared ? `${wins}–${losses}` : '—'}
+                            </td>
+                          );
+                        })}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
         
           {/* Percentage Bars */}
           <div className="space-y-6">
             {pollResult.rankings.map((ranking, index) => {
               const product = state.products.find(p => p.id === ranking.productId);
               const uniqueKey = ranking.productId && ranking.productId.trim() ? ranking.productId : `ranking-${index}`;
+              const stat = pollResult.ensemble?.stats.find(st => st.productId === ranking.productId);
               return (
                 <Card key={uniqueKey} className="border-muted">
                   <CardContent className="pt-6">
@@ -209,12 +338,57 @@ export default function PollingInterface() {
                         </Badge>
                       </div>
                     </div>
+                    {stat && (
+                      <div className="mt-3 text-xs text-muted-foreground flex flex-wrap gap-x-6 gap-y-1">
+                        <span>±{stat.stdDev} pts (95% CI {stat.ci95.lower}–{stat.ci95.upper}%)</span>
+                        <span>
+                          Ranks: {stat.rankFrequency
+                            .map((share, rankIndex) => ({ share, rank: rankIndex + 1 }))
+                            .filter(entry => entry.share > 0)
+                            .map(entry => `#${entry.rank} ${Math.round(entry.share * 100)}%`)
+                            .join(', ')}
+                        </span>
+                      </div>
+                    )}
                   </CardContent>
                 </Card>
               );
             })}
           </div>
 
+          {/* Response Themes */}
+          {pollResult.themes && (
+            <Card>
+              <CardHeader className="pb-6">
+                <CardTitle className="text-lg">Response Themes</CardTitle>
+                <CardDescription>
+                  {pollResult.themes.themes.length} themes coded from {pollResult.themes.responses.length} responses, counted by sentiment
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="pt-0 space-y-4">
+                {pollResult.rankings.map(ranking => {
+                  const summary = pollResult.themes!.products.find(p => p.productId === ranking.productId);
+                  if (!summary || (summary.positive.length === 0 && summary.negative.length === 0)) return null;
+                  return (
+                    <div key={ranking.productId} className="space-y-2">
+                      <p className="text-sm font-medium text-foreground">
+                        {state.products.find(p => p.id === ranking.productId)?.name || ranking.productId}
+                      </p>
+                      <div className="flex flex-wrap gap-2">
+                        {summary.positive.map(theme => (
+                          <Badge key={`pos-${theme.themeId}`} variant="success">+ {theme.label} ×{theme.count}</Badge>
+                        ))}
+                        {summary.negative.map(theme => (
+                          <Badge key={`neg-${theme.themeId}`} variant="destructive">− {theme.label} ×{theme.count}</Badge>
+                        ))}
+                      </div>
+                    </div>
+                  );
+                })}
+              </CardContent>
+            </Card>
+          )}
+
           {/* Sample Responses */}
           <Card>
             <CardHeader className="pb-6">
@@ -232,15 +406,36 @@ export default function PollingInterface() {
               <div className="space-y-4">
                 {pollResult.sampleResponses
                   .slice((currentPage - 1) * responsesPerPage, currentPage * responsesPerPage)
-                  .map((response, index) => (
-                    <Card key={(currentPage - 1) * responsesPerPage + index} className="bg-muted/50 border-muted hover-lift">
-                      <CardContent className="pt-6">
-                        <p className="text-sm text-foreground italic">
-                          &ldquo;{response}&rdquo;
-                        </p>
-                      </CardContent>
-                    </Card>
-                  ))}
+                  .map((response, index) => {
+                    const responseIndex = (currentPage - 1) * responsesPerPage + index;
+                    const coded = pollResult.themes?.responses.find(r => r.index === responseIndex);
+                    return (
+                      <Card key={responseIndex} className="bg-muted/50 border-muted hover-lift">
+                        <CardContent className="pt-6">
+                          <p className="text-sm text-foreground italic">
+                            &ldquo;{response}&rdquo;
+                          </p>
+                          {coded && (
+                            <div className="mt-3 flex flex-wrap gap-2">
+                              {coded.productId && (
+                                <Badge variant="outline">
+                                  {state.products.find(p => p.id === coded.productId)?.name || coded.productId}
+                                </Badge>
+                              )}
+                              <Badge variant={coded.sentiment === 'positive' ? 'success' : coded.sentiment === 'negative' ? 'destructive' : 'secondary'}>
+                                {coded.sentiment}
+                              </Badge>
+                              {coded.themeIds.map(themeId => (
+                                <Badge key={themeId} variant="secondary">
+                                  {pollResult.themes!.themes.find(t => t.id === themeId)?.label || themeId}
+                                </Badge>
+                              ))}
+                            </div>
+                          )}
+                        </CardContent>
+                      </Card>
+                    );
+                  })}
               </div>
 
               {/* Pagination Controls */}
@@ -407,18 +602,34 @@ export default function PollingInterface() {
             <CardContent className="pt-0">
               <div className="grid md:grid-cols-2 gap-8">
                 <div className="space-y-4">
-                  <label className="text-sm font-semibold text-foreground flex items-center space-x-2">
-                    <span>Target Demographic</span>
-                    <Badge variant="destructive" className="text-xs">Required</Badge>
-                  </label>
-                  <Input
-                    type="text"
-                    value={demographic}
-                    onChange={(e) => setDemographic(e.target.value)}
-                    placeholder="e.g., Women 25-35, Fitness enthusiasts, Parents with young children"
-                    className="h-12 text-base"
-                  />
-                  {currentPoll > 0 && state.polls.mainImage?.demographic && demographic === state.polls.mainImage.demographic && (
+                  <div className="flex items-center justify-between">
+                    <label className="text-sm font-semibold text-foreground flex items-center space-x-2">
+                      <span>{usePanel ? 'Persona Panel' : 'Target Demographic'}</span>
+                      <Badge variant="destructive" className="text-xs">Required</Badge>
+                    </label>
+                    <Button size="sm" variant="ghost" onClick={() => setUsePanel(!usePanel)}>
+                      {usePanel ? 'Use a single demographic' : 'Use a weighted panel'}
+                    </Button>
+                  </div>
+                  {usePanel ? (
+                    <>
+                      <PersonaPanelEditor segments={panel} onChange={setPanel} />
+                      <p className="text-xs text-muted-foreground">
+                        The poll runs once per segment and the rankings are combined by weight.
+                      </p>
+                    </>
+                  ) : (
+                    <Input
+                      type="text"
+                      value={demographic}
+                      onChange={(e) => setDemographic(e.target.value)}
+                      placeholder="e.g., Women 25-35, Fitness enthusiasts, Parents with young children"
+                      className="h-12 text-base"
+                    />
+                  )}
+                  {currentPoll > 0 && state.polls.mainImage?.demographic && (usePanel
+                    ? !!state.polls.mainImage.segments && formatPanel(panel) === state.polls.mainImage.demographic
+                    : demographic === state.polls.mainImage.demographic) && (
                     <div className="flex items-center space-x-2 text-sm text-primary">
                       <CheckCircle className="w-4 h-4" />
                       <span>Pre-filled from Poll 1. You can modify this if needed.</span>
@@ -440,6 +651,59 @@ export default function PollingInterface() {
                   />
                 </div>
               </div>
+
+              <div className="mt-8 space-y-2 max-w-md">
+                <label className="text-sm font-semibold text-foreground">Poll Mode</label>
+                <select
+                  value={pollMode}
+                  onChange={(e) => setPollMode(e.target.value as PollMode)}
+                  className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+                >
+                  <option value="ranking">Ranking (all products in one prompt)</option>
+                  <option value="pairwise">Head-to-head (products compared two at a time)</option>
+                </select>
+                <p className="text-xs text-muted-foreground">
+                  Head-to-head polls avoid position effects from ranking many products at once, at the cost of one request per pair.
+                </p>
+              </div>
+
+              {pollMode === 'pairwise' ? (
+              <div className="mt-6 space-y-2 max-w-md">
+                <label className="text-sm font-semibold text-foreground">Pairs to Compare</label>
+                <select
+                  value={pairwiseRounds ?? 0}
+                  onChange={(e) => setPairwiseRounds(Number(e.target.value) || null)}
+                  className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+                >
+                  <option value={0}>All pairs ({schedulePairs(state.products.map(p => p.id)).length} comparisons)</option>
+                  {Array.from({ length: Math.max(0, maxPairwiseRounds(state.products.length) - 1) }, (_, index) => index + 1).map(rounds => (
+                    <option key={rounds} value={rounds}>
+                      Balanced subset: {rounds} round{rounds === 1 ? '' : 's'} ({schedulePairs(state.products.map(p => p.id), rounds).length} comparisons)
+                    </option>
+                  ))}
+                </select>
+                <p className="text-xs text-muted-foreground">
+                  In a balanced subset every product is compared the same number of times.
+                </p>
+              </div>
+              ) : !usePanel && (
+              <div className="mt-6 space-y-2 max-w-md">
+                <label className="text-sm font-semibold text-foreground">Ensemble Runs</label>
+                <select
+                  value={ensembleRuns}
+                  onChange={(e) => setEnsembleRuns(Number(e.target.value))}
+                  className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+                >
+                  <option value={1}>Single run</option>
+                  <option value={3}>3 runs (aggregate with confidence intervals)</option>
+                  <option value={5}>5 runs (aggregate with confidence intervals)</option>
+                  <option value={7}>7 runs (aggregate with confidence intervals)</option>
+                </select>
+                <p className="text-xs text-muted-foreground">
+                  Running the same poll several times shows whether the winner is stable or a coin flip.
+                </p>
+              </div>
+              )}
             </CardContent>
           </Card>
 
@@ -460,7 +724,7 @@ export default function PollingInterface() {
                           Product {index + 1}: {product.name}
                         </h4>
                         <div className="text-sm text-muted-foreground space-y-2">
-                          <p>Price: ${product.price.toFixed(2)}</p>
+                          <p>Price: {formatPrice(product.price, product.marketplace)}</p>
                           <p>Rating: {product.rating} stars ({product.reviewCount?.toLocaleString() || 0} reviews)</p>
                           <p className="truncate">Features: {product.features.substring(0, 100)}...</p>
                         </div>
@@ -475,7 +739,7 @@ export default function PollingInterface() {
             <div className="flex justify-center pt-4">
               <Button
                 onClick={handleRunPoll}
-                disabled={isRunning || !demographic.trim() || !question.trim()}
+                disabled={isRunning || (!usePanel && !demographic.trim()) || !question.trim()}
                 size="lg"
                 className="px-10 py-4 text-lg"
               >
@@ -501,10 +765,12 @@ export default function PollingInterface() {
                     <Loader2 className="h-6 w-6 text-primary animate-spin" />
                     <div className="text-center">
                       <p className="text-lg font-semibold text-primary">
-                        Simulating 50 responses from {demographic}
+                        {pollMode === 'pairwise'
+                          ? `Running ${pairCount} head-to-head comparisons with ${audienceLabel}`
+                          : <>Simulating 50 responses from {audienceLabel}{!usePanel && ensembleRuns > 1 && ` × ${ensembleRuns} runs`}</>}
                       </p>
                       <p className="text-sm text-primary/70 mt-1">
-                        This may take up to 60 seconds...
+                        This may take up to {(pollMode === 'pairwise' ? Math.ceil(pairCount / 3) * 30 : !usePanel && ensembleRuns > 1 ? Math.ceil(ensembleRuns / 3) * 60 : 60) * (usePanel ? Math.ceil(panel.length / 3) : 1)} seconds...
                       </p>
                     </div>
                   </div>
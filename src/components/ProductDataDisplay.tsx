@@ -2,7 +2,13 @@
 
 import { useState, useEffect } from 'react';
 import { CompleteProductData } from '@/lib/types';
+import { formatPrice } from '@/lib/utils';
+import { parseLocalePrice } from '@/lib/marketplaces';
+import { formatDiscount } from '@/lib/discounts';
+import { formatDeliveryLocation } from '@/lib/delivery-location';
 import EditableField from './EditableField';
+import SnapshotHistory from './SnapshotHistory';
+import ImageComplianceBadges from './ImageComplianceBadges';
 
 // Helper function to convert base64 to blob URL
 const base64ToBlobUrl = (base64: string, mimeType: string = 'image/jpeg'): string => {
@@ -55,7 +61,8 @@ export default function ProductDataDisplay({
       images: {
         ...product.images,
         mainImage: null
-      }
+      },
+      mainImageCompliance: undefined
     });
   };
 
@@ -142,6 +149,12 @@ export default function ProductDataDisplay({
             </span>
           </div>
           <p className="text-sm text-gray-600 font-mono">ASIN: {product.asin}</p>
+          {product.source && (
+            <p className="text-xs text-gray-500" title={product.source.reference}>
+              Source: {product.source.type} · {new Date(product.source.fetchedAt).toLocaleString()}
+              {product.fromCache && ' · cached'}
+            </p>
+          )}
         </div>
         
         <div className="flex space-x-2">
@@ -159,7 +172,7 @@ export default function ProductDataDisplay({
                 ? 'bg-gray-400 text-gray-200 cursor-not-allowed' 
                 : 'bg-gray-600 text-white hover:bg-gray-700'
             }`}
-            title={isRefreshing ? "Refreshing data..." : "Refresh data from Amazon"}
+            title={isRefreshing ? "Refreshing data..." : "Refresh data from Amazon (bypasses the snapshot cache)"}
           >
             <svg 
               className={`w-4 h-4 ${isRefreshing ? 'animate-spin' : ''}`} 
@@ -203,21 +216,38 @@ export default function ProductDataDisplay({
 
       {/* Data Fields Grid */}
       <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-4">
-        <EditableField
-          label="Price"
-          value={`$${(product.price || 0).toFixed(2)}`}
-          isEditing={isEditing}
-          onEdit={(val) => onUpdate(index, { price: parseFloat(val.replace('$', '')) })}
-          type="text"
-        />
+        <div>
+          <EditableField
+            label="Price"
+            value={formatPrice(product.price || 0, product.marketplace)}
+            isEditing={isEditing}
+            onEdit={(val) => onUpdate(index, { price: parseLocalePrice(val, product.marketplace) })}
+            type="text"
+          />
+          {formatDiscount(product) && (
+            <span className="inline-block mt-1 px-2 py-0.5 text-xs font-medium rounded bg-red-100 text-red-800">
+              {formatDiscount(product)}
+            </span>
+          )}
+        </div>
         
-        <EditableField
-          label="Shipping"
-          value={`${product.shippingDays || 0} days`}
-          isEditing={isEditing}
-          onEdit={(val) => onUpdate(index, { shippingDays: parseInt(val) })}
-          type="number"
-        />
+        <div>
+          <EditableField
+            label="Shipping"
+            value={`${product.shippingDays || 0} days`}
+            isEditing={isEditing}
+            onEdit={(val) => onUpdate(index, { shippingDays: parseInt(val) })}
+            type="number"
+          />
+          <p className="mt-1 text-xs text-gray-500">
+            {product.deliveryPostcode
+              ? `To ${formatDeliveryLocation(product.deliveryPostcode, product.marketplace)}`
+              : 'Delivery location not known to the data source'}
+            {Object.entries(product.shippingByPostcode || {}).map(([postcode, days]) => (
+              <span key={postcode}> · {days} days to {postcode}</span>
+            ))}
+          </p>
+        </div>
         
         <EditableField
           label="Reviews"
@@ -370,8 +400,21 @@ export default function ProductDataDisplay({
             </div>
           </div>
         </div>
+        {product.images?.mainImage && product.mainImageCompliance !== undefined && (
+          <div className="mt-3">
+            <p className="text-xs text-gray-600 mb-1">
+              Main Image Compliance {product.mainImageCompliance && (product.mainImageCompliance.passed ? '· all rules met' : '· fix before listing')}
+            </p>
+            <ImageComplianceBadges report={product.mainImageCompliance} />
+          </div>
+        )}
       </div>
 
+      {/* Snapshot History */}
+      {product.source && product.source.type !== 'manual' && (
+        <SnapshotHistory asin={product.asin} marketplace={product.marketplace} />
+      )}
+
       {/* Features Section */}
       <div className="mb-4">
         <label className="block text-sm font-semibold text-gray-700 mb-2">
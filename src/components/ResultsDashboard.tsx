@@ -1,16 +1,25 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef, useMemo, Fragment } from 'react';
 import { useAnalysis } from '@/contexts/AnalysisContext';
-import { calculateAllScores, validateCalculations } from '@/lib/scoring';
+import { Analysis, ScoreCalculation } from '@/lib/types';
+import { calculateAllScores, validateCalculations, formatScoreExplanation } from '@/lib/scoring';
+import { getScoringRubric, getRubricMaxTotal } from '@/lib/scoring-rubric';
+import { getMarketplaceRubric } from '@/lib/marketplaces';
+import { assessDealPressure } from '@/lib/discounts';
+import { getDeliveryPostcode } from '@/lib/delivery-location';
 import { downloadFile, getScoreThreshold, getScoreThresholdColor, getScoreThresholdIcon } from '@/lib/utils';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 // import { Progress } from '@/components/ui/progress'; // Unused for now
 // import { Skeleton } from '@/components/ui/skeleton'; // Unused for now
-import { Trophy, Download, FileText, BarChart3, TrendingUp, Star, Package, Truck, MessageSquare, Image, FileCode, Loader2, CheckCircle } from 'lucide-react';
+import { Trophy, Download, FileText, BarChart3, TrendingUp, Star, Package, Truck, MessageSquare, Image, FileCode, Loader2, CheckCircle, Archive } from 'lucide-react';
 import { useToast } from '@/contexts/ToastContext';
+import ScoreExplanationPanel from './ScoreExplanationPanel';
+import ScenarioSimulator from './ScenarioSimulator';
+import OptimizerPanel from './OptimizerPanel';
+import ShippingLocationPanel from './ShippingLocationPanel';
 
 export default function ResultsDashboard() {
   const { state, dispatch } = useAnalysis();
@@ -19,16 +28,52 @@ export default function ResultsDashboard() {
   const [isGeneratingExcel, setIsGeneratingExcel] = useState(false);
   const [isGeneratingWord, setIsGeneratingWord] = useState(false);
   const [isGeneratingCore5Analysis, setIsGeneratingCore5Analysis] = useState(false);
+  const [isExportingBundle, setIsExportingBundle] = useState(false);
+  const [expandedProductId, setExpandedProductId] = useState<string | null>(null);
+  const recordedCalculations = useRef<ScoreCalculation[] | null>(null);
+  // Reports generated on this screen by file name, packaged with the analysis bundle
+  const generatedReports = useRef<Record<string, ArrayBuffer>>({});
+  const deliveryPostcode = getDeliveryPostcode(state);
+
+  // Analysis for the optimizer and scenario simulator, rebuilt only when its scores' inputs change
+  const analysis = useMemo<Analysis | null>(() => calculations && {
+    id: state.analysisId || 'temp',
+    type: 'core6',
+    createdAt: new Date(),
+    products: state.products,
+    pollResults: state.polls,
+    marketplace: state.marketplace,
+    priceBasis: state.priceBasis,
+    deliveryPostcode,
+    comparisonPostcodes: state.comparisonPostcodes,
+    calculations,
+  }, [
+    state.analysisId, state.products, state.polls, state.marketplace, state.priceBasis,
+    deliveryPostcode, state.comparisonPostcodes, calculations
+  ]);
 
   useEffect(() => {
     // Calculate scores if not already done
     if (!calculations) {
-      const newCalculations = calculateAllScores(
-        state.products,
-        state.polls.mainImage,
-        state.polls.imageStack,
-        state.polls.features
-      );
+      let newCalculations;
+      try {
+        newCalculations = calculateAllScores(
+          state.products,
+          state.polls.mainImage,
+          state.polls.imageStack,
+          state.polls.features,
+          getMarketplaceRubric(state.marketplace),
+          state.priceBasis
+        );
+      } catch (error) {
+        // Products priced in different currencies cannot be scored together
+        addToast({
+          title: 'Calculation Error',
+          description: error instanceof Error ? error.message : 'Error in score calculations.',
+          variant: 'destructive'
+        });
+        return;
+      }
       
       // Triple-check calculations
       if (validateCalculations(newCalculations)) {
@@ -43,36 +88,84 @@ export default function ResultsDashboard() {
         });
       }
     }
-  }, [state.products, state.polls, calculations, dispatch]);
+  }, [state.products, state.polls, state.marketplace, state.priceBasis, calculations, dispatch]);
 
-  const handleDownloadExcel = async () => {
-    if (!calculations) return;
-
-    setIsGeneratingExcel(true);
-    try {
-      const analysis = {
-        id: 'temp',
-        type: state.analysisType!,
-        createdAt: new Date(),
-        products: state.products,
-        pollResults: state.polls,
-        calculations,
-      };
+  useEffect(() => {
+    // Record each set of scores in the competitor history; rescoring an analysis updates its records.
+    // Images aren't needed there
+    if (!calculations || !state.analysisId || recordedCalculations.current === calculations) return;
+    recordedCalculations.current = calculations;
 
-      const response = await fetch('/api/generate-excel', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(analysis),
+    fetch('/api/history', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        analysis: {
+          id: state.analysisId,
+          marketplace: state.marketplace,
+          products: state.products.map(product => ({ ...product, mainImage: '', additionalImages: [] })),
+          calculations
+        }
+      })
+    })
+      .then(async response => {
+        if (!response.ok) {
+          const data = await response.json().catch(() => ({}));
+          throw new Error(data.error || `History request failed: ${response.status}`);
+        }
+      })
+      .catch(error => {
+        console.error('Failed to record analysis history:', error);
+        addToast({
+          title: 'History Not Saved',
+          description: 'This analysis could not be added to the competitor history.',
+          variant: 'destructive'
+        });
       });
+  }, [calculations, state.analysisId, state.products, state.marketplace, addToast]);
 
-      if (!response.ok) throw new Error('Excel generation failed');
+  const generateExcel = async (scores: ScoreCalculation[]) => {
+    const analysis = {
+      id: state.analysisId || 'temp',
+      type: state.analysisType!,
+      createdAt: new Date(),
+      products: state.products,
+      pollResults: state.polls,
+      marketplace: state.marketplace,
+      priceBasis: state.priceBasis,
+      deliveryPostcode: getDeliveryPostcode(state),
+      comparisonPostcodes: state.comparisonPostcodes,
+      calculations: scores,
+      scenarios: state.scenarios,
+    };
 
-      const buffer = await response.arrayBuffer();
-      const asins = state.products.map(p => p.asin).join('_');
-      const filename = state.analysisType === 'core5' 
-        ? `Core 5 Calculator - ${asins}.xlsx`
-        : `Core 6 Calculator - ${asins}.xlsx`;
+    const response = await fetch('/api/generate-excel', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        analysis,
+        sensitivityMargins: state.sensitivityMargins
+      }),
+    });
+
+    if (!response.ok) throw new Error('Excel generation failed');
+
+    const buffer = await response.arrayBuffer();
+    const asins = state.products.map(p => p.asin).join('_');
+    const filename = state.analysisType === 'core5' 
+      ? `Core 5 Calculator - ${asins}.xlsx`
+      : `Core 6 Calculator - ${asins}.xlsx`;
+
+    generatedReports.current[filename] = buffer;
+    return { buffer, filename };
+  };
+
+  const handleDownloadExcel = async () => {
+    if (!calculations) return;
 
+    setIsGeneratingExcel(true);
+    try {
+      const { buffer, filename } = await generateExcel(calculations);
       downloadFile(buffer, filename, 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
     } catch (error) {
       console.error('Excel download failed:', error);
@@ -92,12 +185,17 @@ export default function ResultsDashboard() {
     setIsGeneratingWord(true);
     try {
       const analysis = {
-        id: 'temp',
+        id: state.analysisId || 'temp',
         type: state.analysisType,
         createdAt: new Date(),
         products: state.products,
         pollResults: state.polls,
+        marketplace: state.marketplace,
+        priceBasis: state.priceBasis,
+        deliveryPostcode: getDeliveryPostcode(state),
+        comparisonPostcodes: state.comparisonPostcodes,
         calculations,
+        scenarios: state.scenarios,
       };
 
       const response = await fetch('/api/generate-word', {
@@ -106,7 +204,8 @@ export default function ResultsDashboard() {
         body: JSON.stringify({
           analysis,
           preparedBy: state.preparedBy,
-          productCategory: state.productCategory
+          productCategory: state.productCategory,
+          optimizerWeights: state.optimizerWeights
         }),
       });
 
@@ -116,6 +215,7 @@ export default function ResultsDashboard() {
       const asins = state.products.map(p => p.asin).join('_');
       const filename = `Core 6 Analysis - ${asins}.docx`;
 
+      generatedReports.current[filename] = buffer;
       downloadFile(buffer, filename, 'application/vnd.openxmlformats-officedocument.wordprocessingml.document');
     } catch (error) {
       console.error('Word download failed:', error);
@@ -135,12 +235,17 @@ export default function ResultsDashboard() {
     setIsGeneratingCore5Analysis(true);
     try {
       const analysis = {
-        id: 'temp',
+        id: state.analysisId || 'temp',
         type: state.analysisType,
         createdAt: new Date(),
         products: state.products,
         pollResults: state.polls,
+        marketplace: state.marketplace,
+        priceBasis: state.priceBasis,
+        deliveryPostcode: getDeliveryPostcode(state),
+        comparisonPostcodes: state.comparisonPostcodes,
         calculations,
+        scenarios: state.scenarios,
       };
 
       const response = await fetch('/api/generate-core5-analysis', {
@@ -155,6 +260,7 @@ export default function ResultsDashboard() {
       const asins = state.products.map(p => p.asin).join('_');
       const filename = `Core 5 Market Analysis - ${asins}.docx`;
 
+      generatedReports.current[filename] = buffer;
       downloadFile(buffer, filename, 'application/vnd.openxmlformats-officedocument.wordprocessingml.document');
     } catch (error) {
       console.error('Core 5 analysis download failed:', error);
@@ -168,6 +274,45 @@ export default function ResultsDashboard() {
     }
   };
 
+  const handleExportBundle = async () => {
+    if (!calculations) return;
+
+    setIsExportingBundle(true);
+    try {
+      // The Excel report is regenerated so it matches the analysis; written reports are included once generated
+      await generateExcel(calculations);
+
+      const form = new FormData();
+      form.append('analysis', JSON.stringify({ ...state, calculations }));
+      for (const [name, buffer] of Object.entries(generatedReports.current)) {
+        form.append('reports', new Blob([buffer]), name);
+      }
+
+      const response = await fetch('/api/export-bundle', { method: 'POST', body: form });
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || 'Bundle export failed');
+      }
+
+      const buffer = await response.arrayBuffer();
+      const asins = state.products.map(p => p.asin).join('_');
+      const filename = state.analysisType === 'core5'
+        ? `Core 5 Bundle - ${asins}.core6`
+        : `Core 6 Bundle - ${asins}.core6`;
+
+      downloadFile(buffer, filename, 'application/zip');
+    } catch (error) {
+      console.error('Bundle export failed:', error);
+      addToast({
+        title: 'Bundle Export Failed',
+        description: error instanceof Error ? error.message : 'Failed to export the analysis bundle. Please try again.',
+        variant: 'destructive'
+      });
+    } finally {
+      setIsExportingBundle(false);
+    }
+  };
+
   const handleNewAnalysis = () => {
     dispatch({ type: 'RESET_ANALYSIS' });
   };
@@ -195,6 +340,9 @@ export default function ResultsDashboard() {
     current.totalScore > prev.totalScore ? current : prev
   );
   const topProduct = state.products.find(p => p.id === topPerformer.productId);
+  const rubric = getScoringRubric(topPerformer.rubricVersion);
+  const maxTotal = getRubricMaxTotal(rubric);
+  const dealPressure = assessDealPressure(state.products);
 
   return (
     <div className="max-w-7xl mx-auto space-y-6">
@@ -210,6 +358,16 @@ export default function ResultsDashboard() {
               <CardDescription className="text-lg">
                 {state.analysisType === 'core5' ? 'Core 5' : 'Core 6'} Competitive Analysis Results
               </CardDescription>
+              <p className="text-sm text-muted-foreground mt-1">
+                Scored with {rubric.name} (v{rubric.version})
+                {state.priceBasis === 'list' && ' · prices against the lowest list price'}
+              </p>
+              <div className="text-sm mt-1">
+                <Badge variant={dealPressure.level === 'none' ? 'secondary' : 'warning'} className="mr-2">
+                  Deal pressure: {dealPressure.level}
+                </Badge>
+                <span className="text-muted-foreground">{dealPressure.summary}</span>
+              </div>
             </div>
           </div>
         </CardHeader>
@@ -227,7 +385,7 @@ export default function ResultsDashboard() {
                   </h3>
                   <div className="flex items-center justify-center space-x-2">
                     <Badge variant="success" className="text-lg px-4 py-2">
-                      {topPerformer.totalScore}/100 points
+                      {topPerformer.totalScore}/{maxTotal} points
                     </Badge>
                     {state.analysisType === 'core6' && (
                       <Badge 
@@ -309,9 +467,13 @@ export default function ResultsDashboard() {
                   const product = state.products.find(p => p.id === calc.productId);
                   const isTopPerformer = calc.productId === topPerformer.productId;
                   
+                  const isExpanded = expandedProductId === calc.productId;
+                  const explain = (category: keyof typeof calc.explanations) =>
+                    calc.explanations?.[category] ? formatScoreExplanation(calc.explanations[category]) : undefined;
+                  
                   return (
+                    <Fragment key={calc.productId}>
                     <tr 
-                      key={calc.productId} 
                       className={`border-b border-border ${isTopPerformer ? 'bg-green-50' : 'hover:bg-muted/50'} hover-lift`}
                     >
                       <td className="py-4 px-4">
@@ -326,37 +488,48 @@ export default function ResultsDashboard() {
                             <div className="text-sm text-muted-foreground truncate max-w-xs">
                               {product?.name}
                             </div>
+                            <button
+                              type="button"
+                              onClick={() => setExpandedProductId(isExpanded ? null : calc.productId)}
+                              className="text-xs text-primary hover:underline mt-1"
+                            >
+                              {isExpanded ? 'Hide score explanation' : 'Why this score?'}
+                            </button>
                           </div>
                         </div>
                       </td>
                       <td className="text-center py-4 px-4">
-                        <Badge variant="outline" className="font-medium">
-                          {calc.priceScore}/30
+                        <Badge variant="outline" className="font-medium" title={explain('price')}>
+                          {calc.priceScore}/{rubric.categories.price.maxPoints}
                         </Badge>
                       </td>
                       <td className="text-center py-4 px-4">
-                        <Badge variant="outline" className="font-medium">
-                          {calc.shippingScore}/15
+                        <Badge variant="outline" className="font-medium" title={explain('shipping')}>
+                          {calc.shippingScore}/{rubric.categories.shipping.maxPoints}
                         </Badge>
                       </td>
                       <td className="text-center py-4 px-4">
-                        <Badge variant="outline" className="font-medium">
-                          {calc.reviewScore}/10
+                        <Badge variant="outline" className="font-medium" title={explain('reviews')}>
+                          {calc.reviewScore}/{rubric.categories.reviews.maxPoints}
                         </Badge>
                       </td>
                       <td className="text-center py-4 px-4">
-                        <Badge variant="outline" className="font-medium">
-                          {calc.ratingScore}/15
+                        <Badge variant="outline" className="font-medium" title={explain('rating')}>
+                          {calc.ratingScore}/{rubric.categories.rating.maxPoints}
                         </Badge>
                       </td>
                       <td className="text-center py-4 px-4">
-                        <Badge variant="outline" className="font-medium">
-                          {(calc.mainImageScore + calc.imageStackScore)}/15
+                        <Badge
+                          variant="outline"
+                          className="font-medium"
+                          title={[explain('mainImage'), explain('imageStack')].filter(Boolean).join('\n') || undefined}
+                        >
+                          {(calc.mainImageScore + calc.imageStackScore)}/{rubric.categories.mainImage.maxPoints + rubric.categories.imageStack.maxPoints}
                         </Badge>
                       </td>
                       <td className="text-center py-4 px-4">
-                        <Badge variant="outline" className="font-medium">
-                          {calc.featuresScore}/15
+                        <Badge variant="outline" className="font-medium" title={explain('features')}>
+                          {calc.featuresScore}/{rubric.categories.features.maxPoints}
                         </Badge>
                       </td>
                       <td className="text-center py-4 px-4">
@@ -365,7 +538,7 @@ export default function ResultsDashboard() {
                             variant={isTopPerformer ? "success" : "default"} 
                             className="font-bold text-lg px-3 py-1"
                           >
-                            {calc.totalScore}/100
+                            {calc.totalScore}/{maxTotal}
                           </Badge>
                           {state.analysisType === 'core6' && (
                             <Badge 
@@ -377,6 +550,14 @@ export default function ResultsDashboard() {
                         </div>
                       </td>
                     </tr>
+                    {isExpanded && (
+                      <tr className="border-b border-border bg-muted/30">
+                        <td colSpan={8} className="py-4 px-4">
+                          <ScoreExplanationPanel calculation={calc} />
+                        </td>
+                      </tr>
+                    )}
+                    </Fragment>
                   );
                 })}
               </tbody>
@@ -385,6 +566,27 @@ export default function ResultsDashboard() {
         </CardContent>
       </Card>
 
+      {/* Shipping at the comparison delivery locations */}
+      {(state.comparisonPostcodes || []).length > 0 && (
+        <ShippingLocationPanel
+          products={state.products}
+          rubric={rubric}
+          marketplace={state.marketplace}
+          deliveryPostcode={getDeliveryPostcode(state)}
+          comparisonPostcodes={state.comparisonPostcodes!}
+        />
+      )}
+
+      {/* Minimum-Change Optimizer (Core 6 only) */}
+      {state.analysisType === 'core6' && analysis && (
+        <OptimizerPanel analysis={analysis} />
+      )}
+
+      {/* What-If Scenarios (Core 6 only) */}
+      {state.analysisType === 'core6' && analysis && (
+        <ScenarioSimulator analysis={{ ...analysis, scenarios: state.scenarios }} />
+      )}
+
       {/* Download Section */}
       <Card>
         <CardHeader>
@@ -501,6 +703,40 @@ export default function ResultsDashboard() {
                 </CardContent>
               </Card>
             )}
+
+            {/* Analysis Bundle */}
+            <Card className="border-muted hover-lift">
+              <CardContent className="pt-6">
+                <div className="flex items-center mb-4">
+                  <div className="w-12 h-12 bg-amber-100 text-amber-600 rounded-lg flex items-center justify-center mr-4">
+                    <Archive className="w-6 h-6" />
+                  </div>
+                  <div>
+                    <h4 className="font-semibold text-foreground">Analysis Bundle</h4>
+                    <p className="text-sm text-muted-foreground">
+                      Everything in one .core6 file to share or re-open later, with the reports generated above
+                    </p>
+                  </div>
+                </div>
+                <Button
+                  onClick={handleExportBundle}
+                  disabled={isExportingBundle}
+                  className="w-full bg-amber-600 hover:bg-amber-700"
+                >
+                  {isExportingBundle ? (
+                    <>
+                      <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                      Exporting...
+                    </>
+                  ) : (
+                    <>
+                      <Archive className="w-4 h-4 mr-2" />
+                      Export Bundle
+                    </>
+                  )}
+                </Button>
+              </CardContent>
+            </Card>
           </div>
         </CardContent>
       </Card>
@@ -0,0 +1,260 @@
+'use client';
+
+import { useState } from 'react';
+import { useAnalysis } from '@/contexts/AnalysisContext';
+import { Analysis, ScenarioOverrides } from '@/lib/types';
+import { runScenario, describeScenarioOverrides, ScenarioResult } from '@/lib/scenarios';
+import { generateId, formatPrice, getScoreThresholdColor, getScoreThresholdIcon } from '@/lib/utils';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { FlaskConical, Play, Save, Trash2, ArrowUp, ArrowDown } from 'lucide-react';
+import { useToast } from '@/contexts/ToastContext';
+
+interface ScenarioSimulatorProps {
+  analysis: Analysis;
+}
+
+type PollRankKey = 'mainImage' | 'imageStack' | 'features';
+
+const pollRankFields: { key: PollRankKey; label: string }[] = [
+  { key: 'mainImage', label: 'Main Image Rank' },
+  { key: 'imageStack', label: 'Image Stack Rank' },
+  { key: 'features', label: 'Features Rank' },
+];
+
+/**
+ * "What-if" panel: apply overrides to the user product and see the score and rank impact
+ */
+export default function ScenarioSimulator({ analysis }: ScenarioSimulatorProps) {
+  const { state, dispatch } = useAnalysis();
+  const { addToast } = useToast();
+  const userProduct = analysis.products.find(p => p.isUserProduct);
+
+  const [price, setPrice] = useState('');
+  const [shippingDays, setShippingDays] = useState('');
+  const [reviewCount, setReviewCount] = useState('');
+  const [rating, setRating] = useState('');
+  const [pollRanks, setPollRanks] = useState<Record<PollRankKey, string>>({ mainImage: '', imageStack: '', features: '' });
+  const [scenarioName, setScenarioName] = useState('');
+  const [result, setResult] = useState<ScenarioResult | null>(null);
+
+  if (!userProduct) return null;
+
+  const savedScenarios = state.scenarios || [];
+
+  const buildOverrides = (): ScenarioOverrides => {
+    const toNumber = (value: string) => (value.trim() === '' ? undefined : Number(value));
+    const ranks = {
+      mainImage: toNumber(pollRanks.mainImage),
+      imageStack: toNumber(pollRanks.imageStack),
+      features: toNumber(pollRanks.features),
+    };
+
+    return {
+      price: toNumber(price),
+      shippingDays: toNumber(shippingDays),
+      reviewCount: toNumber(reviewCount),
+      rating: toNumber(rating),
+      pollRanks: Object.values(ranks).some(r => r !== undefined) ? ranks : undefined,
+    };
+  };
+
+  const loadOverrides = (overrides: ScenarioOverrides) => {
+    setPrice(overrides.price?.toString() ?? '');
+    setShippingDays(overrides.shippingDays?.toString() ?? '');
+    setReviewCount(overrides.reviewCount?.toString() ?? '');
+    setRating(overrides.rating?.toString() ?? '');
+    setPollRanks({
+      mainImage: overrides.pollRanks?.mainImage?.toString() ?? '',
+      imageStack: overrides.pollRanks?.imageStack?.toString() ?? '',
+      features: overrides.pollRanks?.features?.toString() ?? '',
+    });
+  };
+
+  const handleRun = (overrides: ScenarioOverrides = buildOverrides()) => {
+    const invalid = [overrides.price, overrides.shippingDays, overrides.reviewCount, overrides.rating]
+      .some(value => value !== undefined && (isNaN(value) || value < 0));
+    if (invalid || (overrides.rating !== undefined && overrides.rating > 5)) {
+      addToast({
+        title: 'Invalid Scenario',
+        description: 'Please enter non-negative numbers (rating between 0 and 5).',
+        variant: 'destructive'
+      });
+      return;
+    }
+
+    try {
+      setResult(runScenario(analysis, overrides));
+    } catch (error) {
+      addToast({
+        title: 'Scenario Failed',
+        description: error instanceof Error ? error.message : 'Unable to run scenario.',
+        variant: 'destructive'
+      });
+    }
+  };
+
+  const handleSave = () => {
+    if (!scenarioName.trim()) {
+      addToast({ title: 'Missing Name', description: 'Please name the scenario before saving.', variant: 'destructive' });
+      return;
+    }
+
+    dispatch({
+      type: 'SAVE_SCENARIO',
+      payload: {
+        id: generateId(),
+        name: scenarioName.trim(),
+        createdAt: new Date().toISOString(),
+        overrides: buildOverrides(),
+      }
+    });
+    addToast({ title: 'Scenario Saved', description: `"${scenarioName.trim()}" was saved with this analysis.`, variant: 'success' });
+    setScenarioName('');
+  };
+
+  const renderDelta = (delta: number, suffix: string) => {
+    if (delta === 0) return <span className="text-muted-foreground">No change</span>;
+    const Icon = delta > 0 ? ArrowUp : ArrowDown;
+    return (
+      <span className={`inline-flex items-center ${delta > 0 ? 'text-green-700' : 'text-red-700'}`}>
+        <Icon className="w-4 h-4 mr-1" />
+        {delta > 0 ? '+' : ''}{delta} {suffix}
+      </span>
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center space-x-3">
+          <div className="p-2 bg-primary/10 rounded-lg">
+            <FlaskConical className="w-6 h-6 text-primary" />
+          </div>
+          <div>
+            <CardTitle className="text-2xl">What-If Scenarios</CardTitle>
+            <CardDescription className="text-lg">
+              Change your product&apos;s inputs and see the score impact without re-running polls
+            </CardDescription>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <label className="text-sm space-y-1">
+            <span className="font-medium">Price (now {formatPrice(userProduct.price, userProduct.marketplace)})</span>
+            <Input type="number" step="0.01" min="0" value={price} onChange={e => setPrice(e.target.value)} placeholder={userProduct.price.toFixed(2)} />
+          </label>
+          <label className="text-sm space-y-1">
+            <span className="font-medium">Shipping days (now {userProduct.shippingDays})</span>
+            <Input type="number" min="0" value={shippingDays} onChange={e => setShippingDays(e.target.value)} placeholder={userProduct.shippingDays.toString()} />
+          </label>
+          <label className="text-sm space-y-1">
+            <span className="font-medium">Reviews (now {userProduct.reviewCount.toLocaleString()})</span>
+            <Input type="number" min="0" value={reviewCount} onChange={e => setReviewCount(e.target.value)} placeholder={userProduct.reviewCount.toString()} />
+          </label>
+          <label className="text-sm space-y-1">
+            <span className="font-medium">Rating (now {userProduct.rating})</span>
+            <Input type="number" step="0.1" min="0" max="5" value={rating} onChange={e => setRating(e.target.value)} placeholder={userProduct.rating.toString()} />
+          </label>
+          {pollRankFields.map(field => {
+            const current = analysis.pollResults[field.key]?.rankings.find(r => r.productId === userProduct.id)?.rank;
+            return (
+              <label key={field.key} className="text-sm space-y-1">
+                <span className="font-medium">{field.label} (now {current ? `#${current}` : 'n/a'})</span>
+                <select
+                  value={pollRanks[field.key]}
+                  onChange={e => setPollRanks(prev => ({ ...prev, [field.key]: e.target.value }))}
+                  disabled={!current}
+                  className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+                >
+                  <option value="">Keep current</option>
+                  {analysis.products.map((_, index) => (
+                    <option key={index} value={index + 1}>#{index + 1}</option>
+                  ))}
+                </select>
+              </label>
+            );
+          })}
+        </div>
+
+        <div className="flex flex-wrap gap-3">
+          <Button onClick={() => handleRun()}>
+            <Play className="w-4 h-4 mr-2" />
+            Run Scenario
+          </Button>
+          <Input
+            value={scenarioName}
+            onChange={e => setScenarioName(e.target.value)}
+            placeholder="Scenario name, e.g. $44.99 + 2-day shipping"
+            className="max-w-xs"
+          />
+          <Button variant="outline" onClick={handleSave}>
+            <Save className="w-4 h-4 mr-2" />
+            Save Scenario
+          </Button>
+        </div>
+
+        {result && (
+          <Card className="bg-muted/30 border-muted">
+            <CardContent className="pt-6">
+              <p className="text-sm text-muted-foreground mb-4">{describeScenarioOverrides(result.overrides, state.marketplace)}</p>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-sm">
+                <div>
+                  <p className="font-semibold">Score</p>
+                  <p>{result.baseline.totalScore} → {result.projected.totalScore}</p>
+                  {renderDelta(result.scoreDelta, 'points')}
+                </div>
+                <div>
+                  <p className="font-semibold">Rank</p>
+                  <p>#{result.baseline.rank} → #{result.projected.rank}</p>
+                  {renderDelta(result.rankDelta, result.rankDelta === 1 || result.rankDelta === -1 ? 'place' : 'places')}
+                </div>
+                <div>
+                  <p className="font-semibold">Threshold</p>
+                  <div className="flex items-center space-x-2 mt-1">
+                    <Badge className={`border ${getScoreThresholdColor(result.baseline.threshold)}`}>
+                      {getScoreThresholdIcon(result.baseline.threshold)} {result.baseline.threshold}
+                    </Badge>
+                    <span>→</span>
+                    <Badge className={`border ${getScoreThresholdColor(result.projected.threshold)}`}>
+                      {getScoreThresholdIcon(result.projected.threshold)} {result.projected.threshold}
+                    </Badge>
+                  </div>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {savedScenarios.length > 0 && (
+          <div className="space-y-2">
+            <h4 className="font-semibold text-foreground">Saved Scenarios</h4>
+            {savedScenarios.map(scenario => {
+              const saved = runScenario(analysis, scenario.overrides);
+              return (
+                <div key={scenario.id} className="flex items-center justify-between p-3 border border-border rounded-lg text-sm">
+                  <div>
+                    <p className="font-medium">{scenario.name}</p>
+                    <p className="text-muted-foreground">{describeScenarioOverrides(scenario.overrides, state.marketplace)}</p>
+                  </div>
+                  <div className="flex items-center space-x-3">
+                    <span>{saved.projected.totalScore} pts ({saved.scoreDelta >= 0 ? '+' : ''}{saved.scoreDelta}), #{saved.projected.rank}</span>
+                    <Button size="sm" variant="outline" onClick={() => { loadOverrides(scenario.overrides); handleRun(scenario.overrides); }}>
+                      Load
+                    </Button>
+                    <Button size="sm" variant="outline" onClick={() => dispatch({ type: 'DELETE_SCENARIO', payload: scenario.id })}>
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,58 @@
+'use client';
+
+import { ScoreCalculation } from '@/lib/types';
+import { SCORE_CATEGORIES, getScoringRubric } from '@/lib/scoring-rubric';
+import { Badge } from '@/components/ui/badge';
+import { ArrowUpRight } from 'lucide-react';
+
+interface ScoreExplanationPanelProps {
+  calculation: ScoreCalculation;
+}
+
+/**
+ * Per-category breakdown of why a product received each score
+ */
+export default function ScoreExplanationPanel({ calculation }: ScoreExplanationPanelProps) {
+  const rubric = getScoringRubric(calculation.rubricVersion);
+
+  if (!calculation.explanations) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        No explanations were recorded for this calculation. Re-run the calculations to generate them.
+      </p>
+    );
+  }
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+      {SCORE_CATEGORIES.map(category => {
+        const explanation = calculation.explanations[category];
+        if (!explanation) return null;
+
+        return (
+          <div key={category} className="p-3 bg-white border border-border rounded-lg text-sm space-y-1">
+            <div className="flex items-center justify-between">
+              <span className="font-semibold text-foreground">{rubric.categories[category].label}</span>
+              <Badge variant="outline">{explanation.points}/{explanation.maxPoints}</Badge>
+            </div>
+            <p className="text-muted-foreground">Input: {explanation.inputDisplay}</p>
+            <p className="text-muted-foreground">{explanation.metricDisplay}</p>
+            <p className="text-foreground">
+              Tier: {explanation.matchedTier ? explanation.matchedTier.label : 'Below cutoff'}
+            </p>
+            {explanation.nextTier ? (
+              <p className="text-blue-700 flex items-start">
+                <ArrowUpRight className="w-4 h-4 mr-1 mt-0.5 flex-shrink-0" />
+                <span>
+                  {explanation.nextTier.label} (+{explanation.nextTier.points - explanation.points} pts): {explanation.nextTier.gapDisplay}
+                </span>
+              </p>
+            ) : explanation.metricValue !== null && (
+              <p className="text-green-700">Top tier reached</p>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,111 @@
+'use client';
+
+import { useMemo } from 'react';
+import { useAnalysis } from '@/contexts/AnalysisContext';
+import { Product, SensitivityMargins } from '@/lib/types';
+import { ScoringRubric } from '@/lib/scoring-rubric';
+import { analyzeSensitivity, DEFAULT_SENSITIVITY_MARGINS } from '@/lib/sensitivity';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { AlertTriangle } from 'lucide-react';
+
+interface SensitivityReportProps {
+  products: Product[];
+  rubric: ScoringRubric;
+}
+
+const marginFields: { key: keyof SensitivityMargins; label: string; step: string }[] = [
+  { key: 'pricePercent', label: 'Price margin (% of price)', step: '0.5' },
+  { key: 'shippingDays', label: 'Shipping margin (days)', step: '1' },
+  { key: 'reviews', label: 'Reviews margin', step: '5' },
+  { key: 'rating', label: 'Rating margin (stars)', step: '0.01' },
+];
+
+/**
+ * Distance to the nearest tier boundaries for every product and input category,
+ * with fragile scores highlighted
+ */
+export default function SensitivityReport({ products, rubric }: SensitivityReportProps) {
+  const { state, dispatch } = useAnalysis();
+  const margins = state.sensitivityMargins || DEFAULT_SENSITIVITY_MARGINS;
+
+  const report = useMemo(
+    () => analyzeSensitivity(products, rubric, margins, state.priceBasis),
+    [products, rubric, margins, state.priceBasis]
+  );
+  const fragileTotal = report.reduce((sum, p) => sum + p.fragileCount, 0);
+
+  const updateMargin = (key: keyof SensitivityMargins, value: string) => {
+    const parsed = Number(value);
+    if (value.trim() === '' || isNaN(parsed) || parsed < 0) return;
+    dispatch({ type: 'SET_SENSITIVITY_MARGINS', payload: { ...margins, [key]: parsed } });
+  };
+
+  return (
+    <div className="text-left space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold text-gray-900">Score Sensitivity</h3>
+        {fragileTotal > 0 ? (
+          <Badge variant="warning">
+            <AlertTriangle className="w-3 h-3 mr-1" />
+            {fragileTotal} fragile score{fragileTotal === 1 ? '' : 's'}
+          </Badge>
+        ) : (
+          <Badge variant="success">No fragile scores</Badge>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        {marginFields.map(field => (
+          <label key={field.key} className="text-xs space-y-1">
+            <span className="font-medium text-gray-700">{field.label}</span>
+            <Input
+              key={margins[field.key]}
+              type="number"
+              min="0"
+              step={field.step}
+              defaultValue={margins[field.key]}
+              onBlur={e => updateMargin(field.key, e.target.value)}
+            />
+          </label>
+        ))}
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b border-gray-200 text-gray-600">
+              <th className="text-left py-2 pr-3">Product</th>
+              <th className="text-left py-2 pr-3">Category</th>
+              <th className="text-left py-2 pr-3">Input</th>
+              <th className="text-center py-2 pr-3">Score</th>
+              <th className="text-left py-2 pr-3">Loses points if</th>
+              <th className="text-left py-2">Gains points if</th>
+            </tr>
+          </thead>
+          <tbody>
+            {report.map(product => product.categories.map((category, index) => (
+              <tr
+                key={`${product.productId}-${category.category}`}
+                className={`border-b border-gray-100 ${category.fragile ? 'bg-amber-50' : ''}`}
+              >
+                <td className="py-2 pr-3 font-medium text-gray-900">
+                  {index === 0 ? `${product.productName}${product.isUserProduct ? ' (Your Product)' : ''}` : ''}
+                </td>
+                <td className="py-2 pr-3">{category.label}</td>
+                <td className="py-2 pr-3">{category.valueDisplay}</td>
+                <td className="py-2 pr-3 text-center">{category.points}/{category.maxPoints}</td>
+                <td className={`py-2 pr-3 ${category.atRisk ? 'text-red-700 font-medium' : 'text-gray-600'}`}>
+                  {category.loss ? `${category.loss.display} (${category.loss.pointsChange} pts)` : '—'}
+                </td>
+                <td className={`py-2 ${category.nearUpgrade ? 'text-green-700 font-medium' : 'text-gray-600'}`}>
+                  {category.gain ? `${category.gain.display} (+${category.gain.pointsChange} pts)` : 'Top tier'}
+                </td>
+              </tr>
+            )))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,75 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { ImageMatch } from '@/lib/types';
+import { ProductImages, formatImageMatch } from '@/lib/perceptual-hash';
+import { Copy } from 'lucide-react';
+
+interface SharedImagesPanelProps {
+  products: ProductImages[];
+  nameFor: (productId: string) => string;
+}
+
+/**
+ * Warns when different ASINs share near-identical images, e.g. a reseller copying a listing
+ * Renders nothing until the server has found a match.
+ */
+export default function SharedImagesPanel({ products, nameFor }: SharedImagesPanelProps) {
+  const [matches, setMatches] = useState<ImageMatch[]>([]);
+  const latestProducts = useRef(products);
+  latestProducts.current = products;
+
+  // Product arrays are rebuilt on every render; only look again when the images change
+  const signature = products
+    .map(p => `${p.productId}:${p.asin}:${p.images.map(image => `${image.length}${image.slice(-16)}`).join(',')}`)
+    .join('|');
+
+  useEffect(() => {
+    const products = latestProducts.current;
+    if (products.length < 2) {
+      setMatches([]);
+      return;
+    }
+
+    let cancelled = false;
+    fetch('/api/image-matches', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ products })
+    })
+      .then(response => response.ok ? response.json() : { matches: [] })
+      .then(data => {
+        if (!cancelled) setMatches(data.matches);
+      })
+      .catch(error => console.error('Shared image check failed:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [signature]);
+
+  if (matches.length === 0) return null;
+
+  return (
+    <div className="p-4 bg-amber-50 border border-amber-200 rounded-lg">
+      <div className="flex items-start space-x-3">
+        <Copy className="w-5 h-5 text-amber-600 mt-0.5" />
+        <div>
+          <p className="text-amber-900 font-medium">
+            Shared images across ASINs
+          </p>
+          <p className="text-amber-800 text-sm mt-1">
+            These listings use near-identical photos, which can mean a reseller copied a listing:
+          </p>
+          <ul className="mt-2 space-y-1 text-sm text-amber-900 list-disc list-inside">
+            {matches.map(match => (
+              <li key={`${match.first.productId}:${match.first.position}:${match.second.productId}:${match.second.position}`}>
+                {formatImageMatch(match, nameFor)}
+              </li>
+            ))}
+          </ul>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,88 @@
+'use client';
+
+import { useMemo } from 'react';
+import { Product } from '@/lib/types';
+import { ScoringRubric } from '@/lib/scoring-rubric';
+import { MarketplaceId } from '@/lib/marketplaces';
+import { compareShippingByLocation, formatDeliveryLocation } from '@/lib/delivery-location';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { MapPin } from 'lucide-react';
+
+interface ShippingLocationPanelProps {
+  products: Product[];
+  rubric: ScoringRubric;
+  marketplace?: MarketplaceId;
+  deliveryPostcode: string;
+  comparisonPostcodes: string[];
+}
+
+/**
+ * Shipping days and points of every product at each delivery location of the analysis
+ */
+export default function ShippingLocationPanel({
+  products,
+  rubric,
+  marketplace,
+  deliveryPostcode,
+  comparisonPostcodes
+}: ShippingLocationPanelProps) {
+  const comparisons = useMemo(
+    () => compareShippingByLocation(products, deliveryPostcode, comparisonPostcodes, rubric),
+    [products, deliveryPostcode, comparisonPostcodes, rubric]
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center text-xl">
+          <MapPin className="w-5 h-5 mr-2" />
+          Shipping by Delivery Location
+        </CardTitle>
+        <CardDescription>
+          Shipping points out of {rubric.categories.shipping.maxPoints}; the Core score uses {formatDeliveryLocation(deliveryPostcode, marketplace)}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-gray-200 text-gray-600">
+                <th className="text-left py-2 pr-3">Location</th>
+                {products.map(product => (
+                  <th key={product.id} className="text-center py-2 px-2 max-w-[140px] truncate" title={product.name}>
+                    {product.isUserProduct ? 'Your product' : product.name}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {comparisons.map(comparison => (
+                <tr key={comparison.postcode} className="border-b border-gray-100">
+                  <td className="py-2 pr-3 whitespace-nowrap">
+                    {comparison.postcode}
+                    {comparison.isPrimary && <span className="ml-1 text-xs text-gray-500">(scored)</span>}
+                  </td>
+                  {comparison.scores.map(score => (
+                    <td key={score.productId} className="text-center py-2 px-2">
+                      {score.points === null ? (
+                        <span className="text-gray-400">—</span>
+                      ) : (
+                        <>
+                          <span className="font-semibold">{score.points}</span>
+                          <span className="ml-1 text-xs text-gray-500">({score.shippingDays}d)</span>
+                        </>
+                      )}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        <p className="mt-3 text-xs text-gray-500">
+          — means shipping was not collected for that location; data sources that cannot quote for a postcode leave it empty.
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
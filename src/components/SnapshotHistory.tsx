@@ -0,0 +1,101 @@
+'use client';
+
+import { useState } from 'react';
+import { ProductSnapshotSummary } from '@/lib/types';
+import { MarketplaceId } from '@/lib/marketplaces';
+import { formatPrice } from '@/lib/utils';
+
+interface SnapshotHistoryProps {
+  asin: string;
+  marketplace?: MarketplaceId;
+}
+
+/**
+ * Stored snapshots of a product, with the change from the previous snapshot
+ * Loaded on first expand so product lists don't query history they never show.
+ */
+export default function SnapshotHistory({ asin, marketplace }: SnapshotHistoryProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [snapshots, setSnapshots] = useState<ProductSnapshotSummary[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const toggle = async () => {
+    setIsOpen(!isOpen);
+    if (isOpen || snapshots) return;
+
+    try {
+      const params = new URLSearchParams({ asin, marketplace: marketplace || 'us' });
+      const response = await fetch(`/api/snapshots?${params}`);
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to load history');
+      setSnapshots(data.snapshots);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load history');
+    }
+  };
+
+  const delta = (current: number, previous: number | undefined, format: (value: number) => string) => {
+    if (previous === undefined || current === previous) return null;
+    const change = current - previous;
+    return (
+      <span className="ml-1 text-xs text-gray-500">
+        ({change > 0 ? '+' : '−'}{format(Math.abs(change))})
+      </span>
+    );
+  };
+
+  return (
+    <div className="mb-4">
+      <button onClick={toggle} className="text-xs text-blue-600 hover:underline">
+        {isOpen ? 'Hide History' : 'Show History'}
+      </button>
+
+      {isOpen && (
+        <div className="mt-2 bg-white border border-gray-200 rounded-md p-3 text-sm">
+          {error && <p className="text-red-600">{error}</p>}
+          {!error && !snapshots && <p className="text-gray-500">Loading history...</p>}
+          {snapshots && snapshots.length === 0 && (
+            <p className="text-gray-500">No stored snapshots yet.</p>
+          )}
+          {snapshots && snapshots.length > 0 && (
+            <table className="w-full text-left">
+              <thead>
+                <tr className="text-xs text-gray-600">
+                  <th className="py-1">Fetched</th>
+                  <th className="py-1">Price</th>
+                  <th className="py-1">Rating</th>
+                  <th className="py-1">Reviews</th>
+                  <th className="py-1">Shipping</th>
+                </tr>
+              </thead>
+              <tbody>
+                {snapshots.map((snapshot, idx) => {
+                  // Newest first, so the previous snapshot is the next row
+                  const previous = snapshots[idx + 1];
+                  return (
+                    <tr key={snapshot.id} className="border-t border-gray-100">
+                      <td className="py-1 text-gray-600">{new Date(snapshot.fetchedAt).toLocaleString()}</td>
+                      <td className="py-1">
+                        {formatPrice(snapshot.price, snapshot.marketplace)}
+                        {delta(snapshot.price, previous?.price, value => formatPrice(value, snapshot.marketplace))}
+                      </td>
+                      <td className="py-1">
+                        {snapshot.rating.toFixed(1)}
+                        {delta(snapshot.rating, previous?.rating, value => value.toFixed(1))}
+                      </td>
+                      <td className="py-1">
+                        {snapshot.reviewCount.toLocaleString()}
+                        {delta(snapshot.reviewCount, previous?.reviewCount, value => value.toLocaleString())}
+                      </td>
+                      <td className="py-1">{snapshot.shippingDays} days</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
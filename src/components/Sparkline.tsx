@@ -0,0 +1,38 @@
+'use client';
+
+interface SparklineProps {
+  values: number[];
+  width?: number;
+  height?: number;
+  className?: string;
+}
+
+/**
+ * Minimal inline trend line; the last value is marked with a dot
+ */
+export default function Sparkline({ values, width = 120, height = 32, className = 'text-primary' }: SparklineProps) {
+  if (values.length === 0) {
+    return <span className="text-xs text-muted-foreground">No data</span>;
+  }
+
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const range = max - min || 1;
+  const padding = 2;
+  const x = (index: number) => values.length === 1
+    ? width / 2
+    : padding + (index / (values.length - 1)) * (width - padding * 2);
+  const y = (value: number) => max === min
+    ? height / 2
+    : padding + (1 - (value - min) / range) * (height - padding * 2);
+
+  const points = values.map((value, index) => `${x(index).toFixed(1)},${y(value).toFixed(1)}`).join(' ');
+  const last = values.length - 1;
+
+  return (
+    <svg width={width} height={height} viewBox={`0 0 ${width} ${height}`} className={className} aria-hidden="true">
+      <polyline points={points} fill="none" stroke="currentColor" strokeWidth={1.5} strokeLinejoin="round" />
+      <circle cx={x(last)} cy={y(values[last])} r={2} fill="currentColor" />
+    </svg>
+  );
+}
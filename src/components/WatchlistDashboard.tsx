@@ -0,0 +1,210 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { WatchlistEntry, HistoryPoint } from '@/lib/types';
+import { MARKETPLACES, MARKETPLACE_IDS, MarketplaceId, DEFAULT_MARKETPLACE } from '@/lib/marketplaces';
+import { formatPrice } from '@/lib/utils';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { AlertTriangle, Eye, Loader2, Trash2 } from 'lucide-react';
+import Sparkline from './Sparkline';
+
+/**
+ * Watched competitor ASINs with trend sparklines and alerts
+ */
+export default function WatchlistDashboard() {
+  const [items, setItems] = useState<WatchlistEntry[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [asin, setAsin] = useState('');
+  const [label, setLabel] = useState('');
+  const [marketplace, setMarketplace] = useState<MarketplaceId>(DEFAULT_MARKETPLACE);
+  const [isAdding, setIsAdding] = useState(false);
+
+  const load = async () => {
+    try {
+      const response = await fetch('/api/watchlist');
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to load watchlist');
+      setItems(data.items);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load watchlist');
+    }
+  };
+
+  useEffect(() => {
+    load();
+  }, []);
+
+  const handleAdd = async () => {
+    setIsAdding(true);
+    try {
+      const response = await fetch('/api/watchlist', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ asin, marketplace, label })
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to add ASIN');
+      setAsin('');
+      setLabel('');
+      await load();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to add ASIN');
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  const handleRemove = async (item: WatchlistEntry) => {
+    const params = new URLSearchParams({ asin: item.asin, marketplace: item.marketplace });
+    const response = await fetch(`/api/watchlist?${params}`, { method: 'DELETE' });
+    if (response.ok) {
+      setItems(current => current?.filter(i => i.asin !== item.asin || i.marketplace !== item.marketplace) ?? null);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Watch an ASIN</CardTitle>
+          <CardDescription>
+            History builds up from every fetch and every finished analysis of the product
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="flex flex-wrap gap-3">
+            <Input
+              value={asin}
+              onChange={(e) => setAsin(e.target.value.toUpperCase())}
+              placeholder="ASIN, e.g. B08WM3LMJF"
+              className="w-48"
+            />
+            <select
+              value={marketplace}
+              onChange={(e) => setMarketplace(e.target.value as MarketplaceId)}
+              className="flex h-10 rounded-md border border-input bg-background px-3 py-2 text-sm"
+            >
+              {MARKETPLACE_IDS.map(id => (
+                <option key={id} value={id}>{MARKETPLACES[id].domain}</option>
+              ))}
+            </select>
+            <Input
+              value={label}
+              onChange={(e) => setLabel(e.target.value)}
+              placeholder="Label (optional)"
+              className="w-56"
+            />
+            <Button onClick={handleAdd} disabled={isAdding || asin.trim().length !== 10}>
+              {isAdding ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Eye className="w-4 h-4 mr-2" />}
+              Watch
+            </Button>
+          </div>
+          {error && <p className="mt-3 text-sm text-red-600">{error}</p>}
+        </CardContent>
+      </Card>
+
+      {!items && !error && <p className="text-muted-foreground">Loading watchlist...</p>}
+      {items && items.length === 0 && (
+        <p className="text-muted-foreground">No ASINs watched yet.</p>
+      )}
+
+      {items?.map(item => (
+        <WatchlistCard key={`${item.marketplace}:${item.asin}`} item={item} onRemove={() => handleRemove(item)} />
+      ))}
+    </div>
+  );
+}
+
+function WatchlistCard({ item, onRemove }: { item: WatchlistEntry; onRemove: () => void }) {
+  const latest: HistoryPoint | undefined = item.points[item.points.length - 1];
+  const scores = item.points.flatMap(p => p.totalScore === null ? [] : [p.totalScore]);
+  const latestScore = scores[scores.length - 1];
+
+  const metrics = [
+    {
+      label: 'Price',
+      values: item.points.map(p => p.price),
+      current: latest ? formatPrice(latest.price, item.marketplace) : '—',
+      detail: latest?.originalPrice ? `List ${formatPrice(latest.originalPrice, item.marketplace)}` : null
+    },
+    {
+      label: 'Rating',
+      values: item.points.map(p => p.rating),
+      current: latest ? latest.rating.toFixed(1) : '—',
+      detail: null
+    },
+    {
+      label: 'Reviews',
+      values: item.points.map(p => p.reviewCount),
+      current: latest ? latest.reviewCount.toLocaleString() : '—',
+      detail: null
+    },
+    {
+      label: 'Core Score',
+      values: scores,
+      current: latestScore !== undefined ? String(latestScore) : '—',
+      detail: null
+    }
+  ];
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle className="text-lg">{item.label || item.name || item.asin}</CardTitle>
+            <CardDescription>
+              {item.asin} · {MARKETPLACES[item.marketplace].domain} · {item.points.length} data points
+            </CardDescription>
+          </div>
+          <Button variant="ghost" size="sm" onClick={onRemove} title="Stop watching">
+            <Trash2 className="w-4 h-4" />
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          {metrics.map(metric => (
+            <div key={metric.label}>
+              <div className="text-xs text-muted-foreground">{metric.label}</div>
+              <div className="font-semibold">{metric.current}</div>
+              {metric.detail && <div className="text-xs text-muted-foreground">{metric.detail}</div>}
+              <Sparkline values={metric.values} />
+            </div>
+          ))}
+        </div>
+
+        {latest && (
+          <div className="text-sm text-muted-foreground">
+            Shipping: {latest.deliveryPromise || `${latest.shippingDays} days`}
+            {' · '}Last seen {new Date(latest.at).toLocaleString()}
+          </div>
+        )}
+
+        {item.alerts.length > 0 && (
+          <div className="space-y-1">
+            {item.alerts.slice(-5).reverse().map(alert => (
+              <div key={`${alert.type}:${alert.at}`} className="flex items-center text-sm text-amber-800">
+                <AlertTriangle className="w-4 h-4 mr-2 text-amber-600" />
+                <Badge variant="secondary" className="mr-2">
+                  {alert.type === 'price_drop' ? 'Price drop' : 'Review velocity'}
+                </Badge>
+                {alert.message}
+                {alert.type === 'price_drop' && (
+                  <span className="ml-1 text-muted-foreground">
+                    ({formatPrice(alert.previous, item.marketplace)} → {formatPrice(alert.current, item.marketplace)})
+                  </span>
+                )}
+                <span className="ml-2 text-xs text-muted-foreground">{new Date(alert.at).toLocaleDateString()}</span>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,11 +1,15 @@
 'use client';
 
-import React, { createContext, useContext, useReducer, ReactNode } from 'react';
-import { AppState, Product, PollResult, ScoreCalculation, DataCollectionMethod } from '@/lib/types';
+import React, { createContext, useContext, useEffect, useReducer, useState, ReactNode } from 'react';
+import { AppState, Product, PollResult, ScoreCalculation, DataCollectionMethod, SavedScenario, OptimizerWeights, SensitivityMargins, PersonaPanel, PriceBasis } from '@/lib/types';
+import { MarketplaceId, getProductCurrencies } from '@/lib/marketplaces';
+import { generateId } from '@/lib/utils';
+import { getAnalysisRepository, migrateLegacyAnalysis } from '@/lib/analysis-repository';
 
 interface AnalysisContextType {
   state: AppState;
   dispatch: React.Dispatch<AnalysisAction>;
+  isLoading: boolean; // True until the analysis from the last visit has been opened
 }
 
 type AnalysisAction =
@@ -22,162 +26,151 @@ type AnalysisAction =
   | { type: 'SET_PRODUCTS_BULK'; payload: Product[] }
   | { type: 'SET_PREPARED_BY'; payload: string }
   | { type: 'SET_PRODUCT_CATEGORY'; payload: string }
+  | { type: 'SAVE_SCENARIO'; payload: SavedScenario }
+  | { type: 'DELETE_SCENARIO'; payload: string }
+  | { type: 'SET_OPTIMIZER_WEIGHTS'; payload: OptimizerWeights }
+  | { type: 'SET_SENSITIVITY_MARGINS'; payload: SensitivityMargins }
+  | { type: 'SAVE_PANEL_PRESET'; payload: PersonaPanel }
+  | { type: 'DELETE_PANEL_PRESET'; payload: string }
+  | { type: 'SET_MARKETPLACE'; payload: MarketplaceId }
+  | { type: 'SET_PRICE_BASIS'; payload: PriceBasis }
+  | { type: 'SET_DELIVERY_LOCATION'; payload: { postcode?: string; comparisonPostcodes: string[] } }
+  | { type: 'LOAD_ANALYSIS'; payload: AppState }
   | { type: 'RESET_ANALYSIS' };
 
-// Save state to localStorage (all data including images)
-const saveStateToStorage = (state: AppState) => {
-  if (typeof window !== 'undefined') {
-    // Normalize image format before saving to ensure consistency between manual and automatic entry
-    const normalizedState = {
-      ...state,
-      products: state.products.map(p => {
-        // Debug logging
-        const mainImageBefore = p.mainImage;
-        const mainImageAfter = typeof p.mainImage === 'string' 
-          ? p.mainImage 
-          : p.mainImage && typeof p.mainImage === 'object' && p.mainImage.base64
-          ? p.mainImage.base64
-          : '';
-        
-        if (mainImageBefore && !mainImageAfter) {
-          console.warn(`[AnalysisContext] Lost mainImage for product ${p.asin}:`, {
-            originalType: typeof mainImageBefore,
-            originalIsObject: typeof mainImageBefore === 'object',
-            hasBase64: typeof mainImageBefore === 'object' && mainImageBefore.base64 ? 'yes' : 'no'
-          });
-        }
-        
-        return {
-          ...p,
-          // Normalize mainImage: extract base64 string from object format
-          mainImage: mainImageAfter,
-          // Normalize additionalImages: extract base64 strings from object format
-          additionalImages: (p.additionalImages || []).map(img => 
-            typeof img === 'string' 
-              ? img 
-              : img && typeof img === 'object' && img.base64
-              ? img.base64
-              : ''
-          ).filter(img => img !== '')
-        };
-      })
-    };
-    
-    // Check size before saving
-    const jsonString = JSON.stringify(normalizedState);
-    const sizeInMB = new Blob([jsonString]).size / (1024 * 1024);
-    
-    if (sizeInMB > 4) {
-      console.warn(`⚠️ Large state size: ${sizeInMB.toFixed(2)}MB. Approaching localStorage limit (5-10MB)`);
-    }
-    
-    try {
-      localStorage.setItem('amazon-analysis-state', jsonString);
-    } catch (error: any) {
-      // Handle QuotaExceededError gracefully
-      if (error.name === 'QuotaExceededError' || error.code === 22) {
-        console.warn('localStorage quota exceeded. Attempting to clear old data and retry...');
-        // Clear old data and try once more
-        try {
-          localStorage.removeItem('amazon-analysis-state');
-          localStorage.setItem('amazon-analysis-state', JSON.stringify(normalizedState));
-          console.log('Successfully saved after clearing old data');
-        } catch (retryError) {
-          console.error('Failed to save state after clearing old data:', retryError);
-          // Last resort: try to save without images, but warn the user first
-          const userConfirm = window.confirm(
-            '⚠️ CRITICAL WARNING: The storage quota has been exceeded.\n\n' +
-            'Your images cannot be saved. You have two options:\n\n' +
-            '1. OK: Save the data WITHOUT images (you will need to re-enter them later)\n' +
-            '2. Cancel: This will prevent saving and you may lose your work\n\n' +
-            'We recommend clicking Cancel and reducing the number of products or image sizes.'
-          );
-          
-          if (userConfirm) {
-            try {
-              const stateWithoutImages = {
-                ...state,
-                products: state.products.map(p => ({
-                  ...p,
-                  mainImage: '',
-                  additionalImages: []
-                }))
-              };
-              localStorage.setItem('amazon-analysis-state', JSON.stringify(stateWithoutImages));
-              console.warn('⚠️ CRITICAL: Saved state without images as fallback due to localStorage quota');
-              alert('Data saved WITHOUT images. You will need to re-enter them.');
-            } catch (fallbackError) {
-              console.error('Failed to save state even without images:', fallbackError);
-              alert('Failed to save data. Please reduce the number of products or image sizes.');
-            }
-          } else {
-            console.warn('User cancelled save operation due to storage quota exceeded');
-            alert('Save cancelled. Your data is not saved. Please reduce product count or image sizes.');
-          }
-        }
-      } else {
-        console.error('Failed to save state to localStorage:', error);
-      }
-    }
+const PREFERENCES_STORAGE_KEY = 'amazon-analysis-preferences';
+
+// Settings that carry over from one analysis to the next, and the analysis open last
+interface AnalysisPreferences {
+  currentAnalysisId?: string;
+  panelPresets?: PersonaPanel[];
+  marketplace?: MarketplaceId;
+  priceBasis?: PriceBasis;
+  deliveryPostcode?: string;
+  comparisonPostcodes?: string[];
+}
+
+const readPreferences = (): AnalysisPreferences => {
+  if (typeof window === 'undefined') return {};
+  try {
+    return JSON.parse(localStorage.getItem(PREFERENCES_STORAGE_KEY) || '{}');
+  } catch {
+    return {};
   }
 };
 
-// Load state from localStorage on initialization
-const loadStateFromStorage = (): AppState => {
-  if (typeof window === 'undefined') {
-    return {
-      analysisType: null,
-      currentStep: 1,
-      products: [],
-      polls: {
-        mainImage: null,
-        imageStack: null,
-        features: null,
-      },
-      calculations: null,
-      canProceed: false,
-      currentProductIndex: 0,
-      collectionMethod: 'automatic',
-    };
+const savePreferences = (state: AppState) => {
+  if (typeof window === 'undefined') return;
+  const preferences: AnalysisPreferences = {
+    currentAnalysisId: state.analysisId,
+    panelPresets: state.panelPresets,
+    marketplace: state.marketplace,
+    priceBasis: state.priceBasis,
+    deliveryPostcode: state.deliveryPostcode,
+    comparisonPostcodes: state.comparisonPostcodes,
+  };
+  try {
+    localStorage.setItem(PREFERENCES_STORAGE_KEY, JSON.stringify(preferences));
+  } catch (error) {
+    console.error('Failed to save preferences to localStorage:', error);
+  }
+};
+
+// Analyses waiting to be written to the repository, by id. Writes are batched so typing in a
+// field doesn't store the analysis on every keystroke, and run one after another.
+const SAVE_DELAY_MS = 500;
+const pendingSaves = new Map<string, AppState>();
+let saveTimer: ReturnType<typeof setTimeout> | undefined;
+let saving: Promise<void> = Promise.resolve();
+let quotaWarningShown = false;
+
+const handleSaveError = (error: unknown) => {
+  if (error instanceof Error && error.name === 'QuotaExceededError') {
+    console.error('Browser storage is full; the analysis was not saved:', error);
+    if (!quotaWarningShown) {
+      quotaWarningShown = true;
+      alert('⚠️ Browser storage is full, so your latest changes are not saved.\n\nDelete analyses you no longer need in My analyses to make room.');
+    }
+  } else {
+    console.error('Failed to save analysis:', error);
   }
+};
 
+/**
+ * Write every pending change to the analysis repository
+ * Call before reading analyses from the repository, so they include the open one's latest state.
+ */
+export function flushAnalysisSaves(): Promise<void> {
+  clearTimeout(saveTimer);
+  saveTimer = undefined;
+  const states = [...pendingSaves.values()];
+  pendingSaves.clear();
+
+  const repository = getAnalysisRepository();
+  saving = saving.then(async () => {
+    for (const state of states) {
+      await repository.save(state).catch(handleSaveError);
+    }
+  });
+  return saving;
+}
+
+// Save the preferences now and the analysis shortly; analyses get saved once their type is picked
+const saveStateToStorage = (state: AppState) => {
+  if (typeof window === 'undefined') return;
+  savePreferences(state);
+  if (!state.analysisId || !state.analysisType) return;
+
+  pendingSaves.set(state.analysisId, state);
+  clearTimeout(saveTimer);
+  saveTimer = setTimeout(flushAnalysisSaves, SAVE_DELAY_MS);
+};
+
+// A new analysis, starting from the carried-over settings
+const createInitialState = (preferences: Omit<AnalysisPreferences, 'currentAnalysisId'> = {}): AppState => ({
+  analysisType: null,
+  currentStep: 1,
+  products: [],
+  polls: {
+    mainImage: null,
+    imageStack: null,
+    features: null,
+  },
+  calculations: null,
+  canProceed: false,
+  currentProductIndex: 0,
+  collectionMethod: 'automatic',
+  preparedBy: '',
+  productCategory: '',
+  scenarios: [],
+  panelPresets: preferences.panelPresets,
+  marketplace: preferences.marketplace,
+  priceBasis: preferences.priceBasis,
+  deliveryPostcode: preferences.deliveryPostcode,
+  comparisonPostcodes: preferences.comparisonPostcodes,
+});
+
+// The analysis from the last visit, or a new one; an analysis saved by earlier versions is moved into the repository first
+const loadInitialAnalysis = async (): Promise<AppState> => {
+  const preferences = readPreferences();
+  const repository = getAnalysisRepository();
   try {
-    const savedState = localStorage.getItem('amazon-analysis-state');
-    if (savedState) {
-      const parsed = JSON.parse(savedState);
-      // Validate that the saved state has the required structure
-      if (parsed && typeof parsed === 'object' && 'currentStep' in parsed) {
-        return {
-          ...parsed,
-          // Ensure polls object exists
-          polls: parsed.polls || {
-            mainImage: null,
-            imageStack: null,
-            features: null,
-          },
-        };
-      }
+    const legacy = await migrateLegacyAnalysis(repository);
+    if (legacy) {
+      return legacy.analysisType ? legacy : createInitialState(legacy);
+    }
+    const saved = preferences.currentAnalysisId ? await repository.open(preferences.currentAnalysisId) : null;
+    if (saved) {
+      return { ...saved, panelPresets: preferences.panelPresets ?? saved.panelPresets };
     }
   } catch (error) {
+    console.error('Failed to open the saved analysis:', error);
   }
-
-  return {
-    analysisType: null,
-    currentStep: 1,
-    products: [],
-    polls: {
-      mainImage: null,
-      imageStack: null,
-      features: null,
-    },
-    calculations: null,
-    canProceed: false,
-    currentProductIndex: 0,
-    collectionMethod: 'automatic',
-  };
+  return createInitialState(preferences);
 };
 
-const initialState: AppState = loadStateFromStorage();
+// Filled in from the repository once mounted, so server and client render the same first frame
+const initialState: AppState = createInitialState();
 
 
 function analysisReducer(state: AppState, action: AnalysisAction): AppState {
@@ -188,6 +181,7 @@ function analysisReducer(state: AppState, action: AnalysisAction): AppState {
       newState = {
         ...state,
         analysisType: action.payload,
+        analysisId: state.analysisId || generateId(),
         currentStep: 2,
         canProceed: true,
       };
@@ -260,6 +254,7 @@ function analysisReducer(state: AppState, action: AnalysisAction): AppState {
       newState = {
         ...state,
         calculations: action.payload,
+        analysisId: state.analysisId || generateId(),
       };
       saveStateToStorage(newState);
       return newState;
@@ -321,28 +316,116 @@ function analysisReducer(state: AppState, action: AnalysisAction): AppState {
       saveStateToStorage(newState);
       return newState;
 
-    case 'RESET_ANALYSIS':
-      // Clear localStorage when resetting
-      if (typeof window !== 'undefined') {
-        localStorage.removeItem('amazon-analysis-state');
+    case 'SAVE_SCENARIO':
+      newState = {
+        ...state,
+        // Saving under an existing name replaces that scenario
+        scenarios: [
+          ...(state.scenarios || []).filter(s => s.name !== action.payload.name),
+          action.payload,
+        ],
+      };
+      saveStateToStorage(newState);
+      return newState;
+
+    case 'DELETE_SCENARIO':
+      newState = {
+        ...state,
+        scenarios: (state.scenarios || []).filter(s => s.id !== action.payload),
+      };
+      saveStateToStorage(newState);
+      return newState;
+
+    case 'SET_OPTIMIZER_WEIGHTS':
+      newState = {
+        ...state,
+        optimizerWeights: action.payload,
+      };
+      saveStateToStorage(newState);
+      return newState;
+
+    case 'SET_SENSITIVITY_MARGINS':
+      newState = {
+        ...state,
+        sensitivityMargins: action.payload,
+      };
+      saveStateToStorage(newState);
+      return newState;
+
+    case 'SAVE_PANEL_PRESET':
+      newState = {
+        ...state,
+        // Saving under an existing name replaces that preset
+        panelPresets: [
+          ...(state.panelPresets || []).filter(p => p.name !== action.payload.name),
+          action.payload,
+        ],
+      };
+      saveStateToStorage(newState);
+      return newState;
+
+    case 'DELETE_PANEL_PRESET':
+      newState = {
+        ...state,
+        panelPresets: (state.panelPresets || []).filter(p => p.id !== action.payload),
+      };
+      saveStateToStorage(newState);
+      return newState;
+
+    case 'SET_MARKETPLACE':
+      // Products already collected are priced in the current marketplace's currency
+      if (getProductCurrencies([...state.products, { marketplace: action.payload }]).length > 1) {
+        return state;
       }
-      // Return a fresh initial state, not the one loaded from localStorage
-      return {
-        analysisType: null,
-        currentStep: 1,
-        products: [],
-        polls: {
+      newState = {
+        ...state,
+        marketplace: action.payload,
+        // Postcodes belong to one country
+        ...(state.marketplace !== action.payload && { deliveryPostcode: undefined, comparisonPostcodes: [] }),
+      };
+      saveStateToStorage(newState);
+      return newState;
+
+    case 'SET_DELIVERY_LOCATION':
+      newState = {
+        ...state,
+        deliveryPostcode: action.payload.postcode,
+        comparisonPostcodes: action.payload.comparisonPostcodes,
+      };
+      saveStateToStorage(newState);
+      return newState;
+
+    case 'SET_PRICE_BASIS':
+      newState = {
+        ...state,
+        priceBasis: action.payload,
+        // Scores measured against the old benchmark no longer apply
+        calculations: state.priceBasis === action.payload ? state.calculations : null,
+      };
+      saveStateToStorage(newState);
+      return newState;
+
+    case 'LOAD_ANALYSIS':
+      newState = {
+        ...action.payload,
+        polls: action.payload.polls || {
           mainImage: null,
           imageStack: null,
           features: null,
         },
-        calculations: null,
-        canProceed: false,
-        currentProductIndex: 0,
-        collectionMethod: 'automatic',
-        preparedBy: '',
-        productCategory: '',
+        // Panel presets are kept across analyses
+        panelPresets: state.panelPresets?.length ? state.panelPresets : action.payload.panelPresets,
       };
+      // Opening an analysis isn't a change to it
+      savePreferences(newState);
+      return newState;
+
+    case 'RESET_ANALYSIS':
+      // The current analysis stays in the repository; the new one gets an id once its type is picked.
+      // Panel presets, the marketplace, the price benchmark and delivery locations carry over to it.
+      newState = createInitialState(state);
+      savePreferences(newState);
+      return newState;
 
     default:
       return state;
@@ -353,9 +436,27 @@ const AnalysisContext = createContext<AnalysisContextType | undefined>(undefined
 
 export function AnalysisProvider({ children }: { children: ReactNode }) {
   const [state, dispatch] = useReducer(analysisReducer, initialState);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadInitialAnalysis().then(analysis => {
+      if (cancelled) return;
+      dispatch({ type: 'LOAD_ANALYSIS', payload: analysis });
+      setIsLoading(false);
+    });
+
+    // Write what's pending before the tab goes away
+    const handlePageHide = () => { flushAnalysisSaves(); };
+    window.addEventListener('pagehide', handlePageHide);
+    return () => {
+      cancelled = true;
+      window.removeEventListener('pagehide', handlePageHide);
+    };
+  }, []);
 
   return (
-    <AnalysisContext.Provider value={{ state, dispatch }}>
+    <AnalysisContext.Provider value={{ state, dispatch, isLoading }}>
       {children}
     </AnalysisContext.Provider>
   );
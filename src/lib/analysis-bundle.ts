@@ -0,0 +1,394 @@
+/**
+ * Analysis Bundles
+ * A .core6 file is a zip with everything needed to hand an analysis to a colleague or re-open
+ * it later: the analysis state, its poll results with every sample response, the images as
+ * files, the rubric version it was scored with and the reports generated from it.
+ * manifest.json lists every other file with its size and SHA-256, plus a checksum over that
+ * list, so a damaged or edited bundle is rejected on import. Bundles are validated with zod.
+ *
+ * Layout:
+ * - manifest.json
+ * - analysis.json: the analysis state without its polls, images replaced by references
+ * - polls.json: main image, image stack and features poll results
+ * - images/<product>/<slot>.<ext>: e.g. images/0/main.webp, images/0/3.jpg
+ * - reports/<file name>: Excel and Word reports as generated
+ */
+
+import JSZip from 'jszip';
+import { createHash } from 'crypto';
+import { z } from 'zod';
+import { AppState } from './types';
+import { MarketplaceId, isMarketplaceId } from './marketplaces';
+import { SCORE_CATEGORIES } from './scoring-rubric';
+import { AnalysisImage, getAnalysisName, joinAnalysisImages, splitAnalysisImages } from './analysis-library';
+
+export const BUNDLE_FORMAT = 'core-analysis-bundle';
+export const BUNDLE_VERSION = 1;
+export const BUNDLE_EXTENSION = '.core6';
+
+const MANIFEST_PATH = 'manifest.json';
+const ANALYSIS_PATH = 'analysis.json';
+const POLLS_PATH = 'polls.json';
+
+/**
+ * Decompression limits, so a small zip cannot expand into gigabytes on import
+ */
+const MAX_MANIFEST_BYTES = 1024 * 1024;
+const MAX_CONTENT_BYTES = 250 * 1024 * 1024; // Total of the files listed in the manifest
+
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'image/gif': 'gif'
+};
+
+const Sha256Schema = z.string().regex(/^[0-9a-f]{64}$/, 'Expected a SHA-256 hex digest');
+
+export const BundleManifestSchema = z.object({
+  format: z.literal(BUNDLE_FORMAT),
+  version: z.literal(BUNDLE_VERSION),
+  createdAt: z.string().min(1),
+  analysisId: z.string().min(1),
+  name: z.string(),
+  analysisType: z.enum(['core5', 'core6']),
+  rubricVersion: z.string().nullable(), // Null before scores were calculated
+  images: z.array(z.object({
+    key: z.string().min(1),
+    path: z.string().min(1),
+    mediaType: z.string() // Empty for images kept as bare base64
+  })),
+  reports: z.array(z.string().min(1)),
+  files: z.array(z.object({
+    path: z.string().min(1),
+    size: z.number().int().min(0),
+    sha256: Sha256Schema
+  })).min(1),
+  checksum: Sha256Schema // Over the file list, see fileListChecksum
+});
+
+export type BundleManifest = z.infer<typeof BundleManifestSchema>;
+
+const ImageSchema = z.union([z.string(), z.object({ base64: z.string(), mediaType: z.string() })]);
+
+const ProductSchema = z.looseObject({
+  id: z.string().min(1),
+  asin: z.string(),
+  name: z.string(),
+  price: z.number(),
+  shippingDays: z.number(),
+  reviewCount: z.number(),
+  rating: z.number(),
+  features: z.string(),
+  mainImage: ImageSchema,
+  additionalImages: z.array(ImageSchema)
+});
+
+const PollResultSchema = z.looseObject({
+  type: z.enum(['main_image', 'image_stack', 'features']),
+  demographic: z.string(),
+  question: z.string(),
+  rankings: z.array(z.looseObject({
+    productId: z.string(),
+    rank: z.number(),
+    percentage: z.number()
+  })),
+  sampleResponses: z.array(z.string())
+});
+
+export const BundlePollsSchema = z.object({
+  mainImage: PollResultSchema.nullable(),
+  imageStack: PollResultSchema.nullable(),
+  features: PollResultSchema.nullable()
+});
+
+const ExplainedTierSchema = z.object({
+  label: z.string(),
+  threshold: z.number(),
+  points: z.number()
+});
+
+const ScoreExplanationSchema = z.object({
+  category: z.enum(SCORE_CATEGORIES),
+  inputValue: z.number().nullable(),
+  inputDisplay: z.string(),
+  metric: z.string(),
+  metricValue: z.number().nullable(),
+  metricDisplay: z.string(),
+  points: z.number(),
+  maxPoints: z.number(),
+  matchedTier: ExplainedTierSchema.nullable(),
+  nextTier: ExplainedTierSchema.extend({
+    gap: z.number(),
+    gapDisplay: z.string()
+  }).nullable()
+});
+
+const ScoreCalculationSchema = z.looseObject({
+  productId: z.string(),
+  priceScore: z.number(),
+  shippingScore: z.number(),
+  reviewScore: z.number(),
+  ratingScore: z.number(),
+  mainImageScore: z.number(),
+  imageStackScore: z.number(),
+  featuresScore: z.number(),
+  totalScore: z.number(),
+  rubricVersion: z.string(),
+  explanations: z.record(z.enum(SCORE_CATEGORIES), ScoreExplanationSchema)
+});
+
+export const BundleAnalysisSchema = z.looseObject({
+  analysisId: z.string().min(1),
+  analysisType: z.enum(['core5', 'core6']),
+  currentStep: z.union([z.literal(1), z.literal(2), z.literal(3), z.literal(4), z.literal(5)]),
+  products: z.array(ProductSchema),
+  calculations: z.array(ScoreCalculationSchema).nullable(),
+  canProceed: z.boolean(),
+  currentProductIndex: z.number().int().min(0),
+  marketplace: z.custom<MarketplaceId>(isMarketplaceId, 'Unknown marketplace').optional()
+});
+
+/**
+ * A report file in a bundle
+ */
+export interface BundleReport {
+  name: string;
+  data: Buffer;
+}
+
+/**
+ * Custom error for bundles that can't be exported or imported
+ */
+export class BundleValidationError extends Error {
+  constructor(
+    public issues: string[]
+  ) {
+    super(`Invalid analysis bundle: ${issues.join('; ')}`);
+    this.name = 'BundleValidationError';
+  }
+}
+
+function sha256(data: Buffer): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+/**
+ * Checksum of a bundle's file list: SHA-256 of its sha256sum-style lines, sorted by path
+ */
+function fileListChecksum(files: BundleManifest['files']): string {
+  const lines = [...files]
+    .sort((a, b) => a.path.localeCompare(b.path))
+    .map(file => `${file.sha256}  ${file.path}\n`)
+    .join('');
+  return sha256(Buffer.from(lines));
+}
+
+function toJsonFile(value: unknown): Buffer {
+  return Buffer.from(JSON.stringify(value, null, 2));
+}
+
+/**
+ * Package an analysis and its reports as a .core6 bundle
+ */
+export async function createAnalysisBundle(
+  state: AppState,
+  reports: BundleReport[] = [],
+  createdAt: Date = new Date()
+): Promise<Buffer> {
+  if (!state.analysisId || !state.analysisType) {
+    throw new BundleValidationError(['Only analyses with an id and a type can be exported']);
+  }
+
+  const { state: stripped, images } = splitAnalysisImages(state);
+  const { polls, ...analysis } = stripped;
+
+  const imageFiles = images.map(image => ({
+    image,
+    path: `images/${image.key}.${IMAGE_EXTENSIONS[image.mediaType] || 'bin'}`,
+    data: Buffer.from(image.base64, 'base64')
+  }));
+
+  // Report names come from the browser; keep them to one level and unique
+  const reportFiles: { path: string; data: Buffer }[] = [];
+  for (const report of reports) {
+    const name = report.name.replace(/[\\/]/g, '_').trim() || 'report';
+    let path = `reports/${name}`;
+    for (let n = 2; reportFiles.some(file => file.path === path); n++) {
+      path = `reports/${n} - ${name}`;
+    }
+    reportFiles.push({ path, data: report.data });
+  }
+
+  const files = [
+    { path: ANALYSIS_PATH, data: toJsonFile(analysis) },
+    { path: POLLS_PATH, data: toJsonFile(polls) },
+    ...imageFiles,
+    ...reportFiles
+  ];
+  const listed = files.map(file => ({ path: file.path, size: file.data.length, sha256: sha256(file.data) }));
+
+  const manifest: BundleManifest = {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    createdAt: createdAt.toISOString(),
+    analysisId: state.analysisId,
+    name: getAnalysisName(state),
+    analysisType: state.analysisType,
+    rubricVersion: state.calculations?.[0]?.rubricVersion ?? null,
+    images: imageFiles.map(file => ({ key: file.image.key, path: file.path, mediaType: file.image.mediaType })),
+    reports: reportFiles.map(file => file.path),
+    files: listed,
+    checksum: fileListChecksum(listed)
+  };
+
+  const zip = new JSZip();
+  zip.file(MANIFEST_PATH, toJsonFile(manifest));
+  for (const file of files) {
+    zip.file(file.path, file.data);
+  }
+  return zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+}
+
+/**
+ * Validate data against a schema, reporting issues under the file they came from
+ */
+function parseBundleFile<T extends z.ZodType>(schema: T, data: unknown, path: string): z.infer<T> {
+  const result = schema.safeParse(data);
+  if (!result.success) {
+    throw new BundleValidationError(
+      result.error.issues.map(issue => `${path}: ${issue.path.join('.') || 'file'}: ${issue.message}`)
+    );
+  }
+  return result.data;
+}
+
+/**
+ * Decompress a zip entry, stopping as soon as it yields more than maxBytes
+ * Returns null for an entry larger than that
+ */
+function readZipEntry(entry: JSZip.JSZipObject, maxBytes: number): Promise<Buffer | null> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let length = 0;
+    const stream = entry.nodeStream('nodebuffer');
+    stream.on('data', (chunk: Buffer) => {
+      length += chunk.length;
+      if (length > maxBytes) {
+        stream.pause();
+        stream.removeAllListeners();
+        resolve(null);
+        return;
+      }
+      chunks.push(chunk);
+    });
+    stream.on('end', () => resolve(Buffer.concat(chunks)));
+    stream.on('error', reject);
+  });
+}
+
+function parseJsonFile(data: Buffer, path: string): unknown {
+  try {
+    return JSON.parse(data.toString('utf8'));
+  } catch (error) {
+    throw new BundleValidationError([`${path}: not valid JSON (${error instanceof Error ? error.message : 'unknown error'})`]);
+  }
+}
+
+/**
+ * Read and validate a .core6 bundle
+ * Throws BundleValidationError when a file is missing, its checksum doesn't match, or the
+ * analysis doesn't validate.
+ */
+export async function readAnalysisBundle(data: Buffer): Promise<{ analysis: AppState; manifest: BundleManifest }> {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(data);
+  } catch {
+    throw new BundleValidationError(['Not a zip file']);
+  }
+
+  const manifestFile = zip.file(MANIFEST_PATH);
+  if (!manifestFile) {
+    throw new BundleValidationError([`${MANIFEST_PATH}: missing`]);
+  }
+  const manifestData = await readZipEntry(manifestFile, MAX_MANIFEST_BYTES);
+  if (!manifestData) {
+    throw new BundleValidationError([`${MANIFEST_PATH}: larger than ${MAX_MANIFEST_BYTES / 1024} KB`]);
+  }
+  const manifest = parseBundleFile(BundleManifestSchema, parseJsonFile(manifestData, MANIFEST_PATH), MANIFEST_PATH);
+
+  const contentBytes = manifest.files.reduce((sum, file) => sum + file.size, 0);
+  if (contentBytes > MAX_CONTENT_BYTES) {
+    throw new BundleValidationError([
+      `${MANIFEST_PATH}: files total ${Math.ceil(contentBytes / (1024 * 1024))} MB, more than the ${MAX_CONTENT_BYTES / (1024 * 1024)} MB allowed`
+    ]);
+  }
+
+  const issues: string[] = [];
+  if (fileListChecksum(manifest.files) !== manifest.checksum) {
+    issues.push(`${MANIFEST_PATH}: checksum does not match the file list`);
+  }
+
+  const contents = new Map<string, Buffer>();
+  for (const file of manifest.files) {
+    const entry = zip.file(file.path);
+    if (!entry) {
+      issues.push(`${file.path}: missing`);
+      continue;
+    }
+    // An entry never decompresses past its declared size
+    const bytes = await readZipEntry(entry, file.size);
+    if (!bytes) {
+      issues.push(`${file.path}: larger than its declared size`);
+      continue;
+    }
+    if (bytes.length !== file.size || sha256(bytes) !== file.sha256) {
+      issues.push(`${file.path}: checksum mismatch`);
+    }
+    contents.set(file.path, bytes);
+  }
+
+  const referenced = [ANALYSIS_PATH, POLLS_PATH, ...manifest.images.map(image => image.path), ...manifest.reports];
+  for (const path of referenced) {
+    if (!manifest.files.some(file => file.path === path)) {
+      issues.push(`${path}: not listed in the manifest's files`);
+    }
+  }
+  if (issues.length > 0) {
+    throw new BundleValidationError(issues);
+  }
+
+  const analysis = parseBundleFile(BundleAnalysisSchema, parseJsonFile(contents.get(ANALYSIS_PATH)!, ANALYSIS_PATH), ANALYSIS_PATH);
+  const polls = parseBundleFile(BundlePollsSchema, parseJsonFile(contents.get(POLLS_PATH)!, POLLS_PATH), POLLS_PATH);
+
+  // Scores and poll rankings must refer to products of the analysis
+  const productIds = new Set(analysis.products.map(product => product.id));
+  for (const calculation of analysis.calculations || []) {
+    if (!productIds.has(calculation.productId)) {
+      issues.push(`${ANALYSIS_PATH}: calculations refer to unknown product ${calculation.productId}`);
+    }
+  }
+  for (const [name, poll] of Object.entries(polls)) {
+    for (const ranking of poll?.rankings || []) {
+      if (!productIds.has(ranking.productId)) {
+        issues.push(`${POLLS_PATH}: ${name} rankings refer to unknown product ${ranking.productId}`);
+      }
+    }
+  }
+  if (analysis.analysisId !== manifest.analysisId) {
+    issues.push(`${ANALYSIS_PATH}: analysis id does not match the manifest`);
+  }
+  if (issues.length > 0) {
+    throw new BundleValidationError(issues);
+  }
+
+  const images: AnalysisImage[] = manifest.images.map(image => ({
+    key: image.key,
+    mediaType: image.mediaType,
+    base64: contents.get(image.path)!.toString('base64')
+  }));
+  const state = joinAnalysisImages({ ...analysis, polls }, images);
+
+  return { analysis: state, manifest };
+}
@@ -0,0 +1,140 @@
+/**
+ * Analysis Library
+ * Every analysis is kept in a repository (see analysis-repository.ts) rather than in one
+ * localStorage entry. An analysis is stored as its state with the images taken out; the images
+ * are stored next to it as binary (IndexedDB blobs in the browser, BLOBs in the server store),
+ * so listing analyses or saving a step doesn't move megabytes of base64 around.
+ */
+
+import { AnalysisSummary, AppState, Product } from './types';
+
+/**
+ * An image taken out of an analysis
+ */
+export interface AnalysisImage {
+  key: string; // Product position and slot, e.g. "2/main" or "2/3"
+  mediaType: string; // Empty for images kept as bare base64
+  base64: string;
+}
+
+/**
+ * Custom error for analyses that aren't in the repository
+ */
+export class AnalysisNotFoundError extends Error {
+  constructor(public analysisId: string) {
+    super(`Analysis not found: ${analysisId}`);
+    this.name = 'AnalysisNotFoundError';
+  }
+}
+
+/**
+ * Stands in for an image in a stored analysis state
+ */
+const IMAGE_REFERENCE_PREFIX = 'analysis-image:';
+
+/**
+ * Name of an analysis: the one given to it, else its category, your product or its first product
+ */
+export function getAnalysisName(state: AppState): string {
+  const userProduct = state.products.find(product => product.isUserProduct);
+  return state.analysisName?.trim()
+    || state.productCategory?.trim()
+    || userProduct?.name
+    || state.products[0]?.name
+    || 'Untitled analysis';
+}
+
+/**
+ * List entry of an analysis
+ */
+export function summarizeAnalysis(
+  state: AppState,
+  times: { createdAt: string; updatedAt: string },
+  archived: boolean = false
+): AnalysisSummary {
+  return {
+    id: state.analysisId || '',
+    name: getAnalysisName(state),
+    analysisType: state.analysisType,
+    marketplace: state.marketplace,
+    currentStep: state.currentStep,
+    productCount: state.products.length,
+    createdAt: times.createdAt,
+    updatedAt: times.updatedAt,
+    archived
+  };
+}
+
+/**
+ * State of a copy of an analysis, under a new id
+ */
+export function duplicateAnalysisState(state: AppState, analysisId: string): AppState {
+  return {
+    ...state,
+    analysisId,
+    analysisName: `${getAnalysisName(state)} (copy)`
+  };
+}
+
+/**
+ * Take the embedded images out of an analysis, leaving references in their place
+ * Remote images (URLs) stay in the state.
+ */
+export function splitAnalysisImages(state: AppState): { state: AppState; images: AnalysisImage[] } {
+  const images: AnalysisImage[] = [];
+
+  const take = (image: Product['mainImage'], key: string): Product['mainImage'] => {
+    const parsed = parseImage(image);
+    if (!parsed) return image;
+    images.push({ key, ...parsed });
+    return `${IMAGE_REFERENCE_PREFIX}${key}`;
+  };
+
+  return {
+    state: {
+      ...state,
+      products: state.products.map((product, index) => ({
+        ...product,
+        mainImage: take(product.mainImage, `${index}/main`),
+        additionalImages: (product.additionalImages || []).map((image, position) => take(image, `${index}/${position}`))
+      }))
+    },
+    images
+  };
+}
+
+/**
+ * Put the images back into an analysis taken apart by splitAnalysisImages
+ * Images come back as data URLs (bare base64 if they were stored that way); missing ones as ''.
+ */
+export function joinAnalysisImages(state: AppState, images: AnalysisImage[]): AppState {
+  const byKey = new Map(images.map(image => [image.key, image]));
+
+  const restore = (image: Product['mainImage']): Product['mainImage'] => {
+    if (typeof image !== 'string' || !image.startsWith(IMAGE_REFERENCE_PREFIX)) return image;
+    const stored = byKey.get(image.slice(IMAGE_REFERENCE_PREFIX.length));
+    if (!stored) return '';
+    return stored.mediaType ? `data:${stored.mediaType};base64,${stored.base64}` : stored.base64;
+  };
+
+  return {
+    ...state,
+    products: state.products.map(product => ({
+      ...product,
+      mainImage: restore(product.mainImage),
+      additionalImages: (product.additionalImages || []).map(restore)
+    }))
+  };
+}
+
+/**
+ * Media type and base64 of an embedded image, or null for missing and remote images
+ */
+function parseImage(image: Product['mainImage']): Omit<AnalysisImage, 'key'> | null {
+  const value = typeof image === 'string' ? image : image?.base64 || '';
+  if (!value || /^https?:/.test(value) || value.startsWith(IMAGE_REFERENCE_PREFIX)) return null;
+
+  const match = value.match(/^data:([^;,]+);base64,(.*)$/);
+  if (match) return { mediaType: match[1], base64: match[2] };
+  return { mediaType: typeof image === 'string' ? '' : image.mediaType, base64: value };
+}
@@ -0,0 +1,402 @@
+/**
+ * Analysis Repository
+ * Lists, opens, saves, duplicates, archives and deletes analyses. Analyses are kept in the
+ * browser's IndexedDB, with images stored as blobs next to them (see analysis-library.ts).
+ * With NEXT_PUBLIC_ANALYSIS_STORE=server they are kept in the server's SQLite database
+ * instead (see analysis-store.ts and /api/analyses), so every browser sees the same analyses.
+ *
+ * Earlier versions kept a single analysis in localStorage ('amazon-analysis-state'); it is
+ * moved into the repository the first time the app loads.
+ */
+
+import { AnalysisSummary, AppState } from './types';
+import {
+  AnalysisImage,
+  AnalysisNotFoundError,
+  duplicateAnalysisState,
+  joinAnalysisImages,
+  splitAnalysisImages,
+  summarizeAnalysis
+} from './analysis-library';
+import { generateId } from './utils';
+
+export interface AnalysisRepository {
+  /**
+   * Analyses, most recently updated first; archived ones only when asked for
+   */
+  list(options?: { includeArchived?: boolean }): Promise<AnalysisSummary[]>;
+  /**
+   * State of an analysis with its images, or null if it isn't in the repository
+   */
+  open(id: string): Promise<AppState | null>;
+  /**
+   * Create or update the analysis identified by state.analysisId
+   */
+  save(state: AppState): Promise<AnalysisSummary>;
+  duplicate(id: string): Promise<AnalysisSummary>;
+  archive(id: string, archived?: boolean): Promise<AnalysisSummary>;
+  /**
+   * Remove an analysis and its images; returns false if it wasn't there
+   */
+  delete(id: string): Promise<boolean>;
+}
+
+const DB_NAME = 'amazon-analyses';
+const DB_VERSION = 1;
+const ANALYSES = 'analyses';
+const IMAGES = 'images';
+
+interface StoredAnalysis {
+  id: string;
+  summary: AnalysisSummary;
+  state: AppState; // Images replaced by references
+}
+
+interface StoredImage {
+  id: string; // `${analysisId}/${key}`
+  analysisId: string;
+  key: string;
+  mediaType: string;
+  data: Blob;
+}
+
+/**
+ * Result of an IndexedDB request
+ */
+function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+/**
+ * Resolves when a transaction has committed
+ */
+function committed(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new Error('Transaction aborted'));
+  });
+}
+
+function base64ToBlob(base64: string, mediaType: string): Blob {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return new Blob([bytes], { type: mediaType });
+}
+
+function blobToBase64(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result).replace(/^data:[^,]*,/, ''));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+/**
+ * Analyses in the browser's IndexedDB
+ */
+export class IndexedDBAnalysisRepository implements AnalysisRepository {
+  private db: Promise<IDBDatabase> | null = null;
+  // Base64 of every image as last read or written, so saving a step doesn't rewrite unchanged images
+  private written = new Map<string, string>();
+
+  private connect(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = new Promise((resolve, reject) => {
+        if (typeof indexedDB === 'undefined') {
+          reject(new Error('IndexedDB is not available in this browser'));
+          return;
+        }
+        const req = indexedDB.open(DB_NAME, DB_VERSION);
+        req.onupgradeneeded = () => {
+          const db = req.result;
+          if (!db.objectStoreNames.contains(ANALYSES)) {
+            db.createObjectStore(ANALYSES, { keyPath: 'id' });
+          }
+          if (!db.objectStoreNames.contains(IMAGES)) {
+            db.createObjectStore(IMAGES, { keyPath: 'id' }).createIndex('analysisId', 'analysisId');
+          }
+        };
+        req.onsuccess = () => resolve(req.result);
+        req.onerror = () => reject(req.error);
+      });
+      // Let the next call try again
+      this.db.catch(() => { this.db = null; });
+    }
+    return this.db;
+  }
+
+  async list(options: { includeArchived?: boolean } = {}): Promise<AnalysisSummary[]> {
+    const db = await this.connect();
+    const stored = await request(db.transaction(ANALYSES).objectStore(ANALYSES).getAll()) as StoredAnalysis[];
+    return stored
+      .map(analysis => analysis.summary)
+      .filter(summary => options.includeArchived || !summary.archived)
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  }
+
+  async open(id: string): Promise<AppState | null> {
+    const db = await this.connect();
+    const tx = db.transaction([ANALYSES, IMAGES]);
+    const [analysis, storedImages] = await Promise.all([
+      request(tx.objectStore(ANALYSES).get(id)) as Promise<StoredAnalysis | undefined>,
+      request(tx.objectStore(IMAGES).index('analysisId').getAll(id)) as Promise<StoredImage[]>
+    ]);
+    if (!analysis) return null;
+
+    const images: AnalysisImage[] = await Promise.all(storedImages.map(async image => {
+      const base64 = await blobToBase64(image.data);
+      this.written.set(image.id, base64);
+      return { key: image.key, mediaType: image.mediaType, base64 };
+    }));
+    return joinAnalysisImages(analysis.state, images);
+  }
+
+  async save(state: AppState): Promise<AnalysisSummary> {
+    const id = state.analysisId;
+    if (!id) throw new Error('Only analyses with an id can be saved');
+
+    const { state: stripped, images } = splitAnalysisImages(state);
+    const db = await this.connect();
+    const tx = db.transaction([ANALYSES, IMAGES], 'readwrite');
+    const done = committed(tx);
+    const analyses = tx.objectStore(ANALYSES);
+    const imageStore = tx.objectStore(IMAGES);
+
+    const [existing, storedIds] = await Promise.all([
+      request(analyses.get(id)) as Promise<StoredAnalysis | undefined>,
+      request(imageStore.index('analysisId').getAllKeys(id)).then(keys => new Set(keys.map(String)))
+    ]);
+    const now = new Date().toISOString();
+    const summary = summarizeAnalysis(
+      state,
+      { createdAt: existing?.summary.createdAt ?? now, updatedAt: now },
+      existing?.summary.archived ?? false
+    );
+    analyses.put({ id, summary, state: stripped } satisfies StoredAnalysis);
+
+    const keyed = images.map(image => ({ ...image, id: `${id}/${image.key}` }));
+    const current = new Set(keyed.map(image => image.id));
+    const stale = [...storedIds].filter(imageId => !current.has(imageId));
+    for (const imageId of stale) {
+      imageStore.delete(imageId);
+    }
+    const changed = keyed.filter(image => !storedIds.has(image.id) || this.written.get(image.id) !== image.base64);
+    for (const image of changed) {
+      imageStore.put({
+        id: image.id,
+        analysisId: id,
+        key: image.key,
+        mediaType: image.mediaType,
+        data: base64ToBlob(image.base64, image.mediaType)
+      } satisfies StoredImage);
+    }
+
+    await done;
+    for (const imageId of stale) this.written.delete(imageId);
+    for (const image of changed) this.written.set(image.id, image.base64);
+    return summary;
+  }
+
+  async duplicate(id: string): Promise<AnalysisSummary> {
+    const db = await this.connect();
+    const tx = db.transaction([ANALYSES, IMAGES], 'readwrite');
+    const done = committed(tx);
+    const analyses = tx.objectStore(ANALYSES);
+    const imageStore = tx.objectStore(IMAGES);
+
+    const [analysis, images] = await Promise.all([
+      request(analyses.get(id)) as Promise<StoredAnalysis | undefined>,
+      request(imageStore.index('analysisId').getAll(id)) as Promise<StoredImage[]>
+    ]);
+    if (!analysis) {
+      tx.abort();
+      await done.catch(() => undefined);
+      throw new AnalysisNotFoundError(id);
+    }
+
+    const copyId = generateId();
+    const now = new Date().toISOString();
+    const state = duplicateAnalysisState(analysis.state, copyId);
+    const summary = summarizeAnalysis(state, { createdAt: now, updatedAt: now });
+    analyses.put({ id: copyId, summary, state } satisfies StoredAnalysis);
+    for (const image of images) {
+      imageStore.put({ ...image, id: `${copyId}/${image.key}`, analysisId: copyId } satisfies StoredImage);
+    }
+
+    await done;
+    return summary;
+  }
+
+  async archive(id: string, archived: boolean = true): Promise<AnalysisSummary> {
+    const db = await this.connect();
+    const tx = db.transaction(ANALYSES, 'readwrite');
+    const done = committed(tx);
+    const analyses = tx.objectStore(ANALYSES);
+
+    const analysis = await request(analyses.get(id)) as StoredAnalysis | undefined;
+    if (!analysis) {
+      tx.abort();
+      await done.catch(() => undefined);
+      throw new AnalysisNotFoundError(id);
+    }
+
+    const summary = { ...analysis.summary, archived };
+    analyses.put({ ...analysis, summary } satisfies StoredAnalysis);
+    await done;
+    return summary;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const db = await this.connect();
+    const tx = db.transaction([ANALYSES, IMAGES], 'readwrite');
+    const done = committed(tx);
+    const analyses = tx.objectStore(ANALYSES);
+    const imageStore = tx.objectStore(IMAGES);
+
+    const [count, imageIds] = await Promise.all([
+      request(analyses.count(id)),
+      request(imageStore.index('analysisId').getAllKeys(id))
+    ]);
+    analyses.delete(id);
+    for (const imageId of imageIds) {
+      imageStore.delete(imageId);
+    }
+
+    await done;
+    for (const imageId of imageIds) this.written.delete(String(imageId));
+    return count > 0;
+  }
+}
+
+/**
+ * Analyses in the server's analysis store, through /api/analyses
+ */
+export class ServerAnalysisRepository implements AnalysisRepository {
+  constructor(private endpoint: string = '/api/analyses') {}
+
+  private async call<T>(path: string, init?: RequestInit): Promise<T> {
+    const response = await fetch(`${this.endpoint}${path}`, {
+      ...init,
+      headers: init?.body ? { 'Content-Type': 'application/json' } : undefined
+    });
+    const data = await response.json().catch(() => ({}));
+    if (response.status === 404) {
+      throw new AnalysisNotFoundError(data.id || path);
+    }
+    if (!response.ok) {
+      throw new Error(data.error || `Analysis store request failed with status ${response.status}`);
+    }
+    return data as T;
+  }
+
+  async list(options: { includeArchived?: boolean } = {}): Promise<AnalysisSummary[]> {
+    const data = await this.call<{ analyses: AnalysisSummary[] }>(options.includeArchived ? '?archived=true' : '');
+    return data.analyses;
+  }
+
+  async open(id: string): Promise<AppState | null> {
+    try {
+      const data = await this.call<{ analysis: AppState }>(`?id=${encodeURIComponent(id)}`);
+      return data.analysis;
+    } catch (error) {
+      if (error instanceof AnalysisNotFoundError) return null;
+      throw error;
+    }
+  }
+
+  async save(state: AppState): Promise<AnalysisSummary> {
+    const data = await this.call<{ summary: AnalysisSummary }>('', {
+      method: 'PUT',
+      body: JSON.stringify({ analysis: state })
+    });
+    return data.summary;
+  }
+
+  async duplicate(id: string): Promise<AnalysisSummary> {
+    const data = await this.call<{ summary: AnalysisSummary }>('', {
+      method: 'POST',
+      body: JSON.stringify({ duplicateOf: id })
+    });
+    return data.summary;
+  }
+
+  async archive(id: string, archived: boolean = true): Promise<AnalysisSummary> {
+    const data = await this.call<{ summary: AnalysisSummary }>('', {
+      method: 'PATCH',
+      body: JSON.stringify({ id, archived })
+    });
+    return data.summary;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const data = await this.call<{ deleted: boolean }>(`?id=${encodeURIComponent(id)}`, { method: 'DELETE' });
+    return data.deleted;
+  }
+}
+
+let sharedRepository: AnalysisRepository | undefined;
+
+/**
+ * The analysis repository of this browser session
+ */
+export function getAnalysisRepository(): AnalysisRepository {
+  if (!sharedRepository) {
+    // Next only inlines NEXT_PUBLIC_ variables referenced by their full name
+    sharedRepository = process.env.NEXT_PUBLIC_ANALYSIS_STORE === 'server'
+      ? new ServerAnalysisRepository()
+      : new IndexedDBAnalysisRepository();
+  }
+  return sharedRepository;
+}
+
+export const LEGACY_STORAGE_KEY = 'amazon-analysis-state';
+
+let legacyMigration: Promise<AppState | null> | undefined;
+
+/**
+ * Move the analysis earlier versions kept in localStorage into the repository
+ * Resolves to its state (null if there was none). Entries saved before an analysis type was
+ * picked only hold settings and aren't stored. The old entry is removed once it is saved.
+ */
+export function migrateLegacyAnalysis(repository: AnalysisRepository): Promise<AppState | null> {
+  if (!legacyMigration) {
+    legacyMigration = (async () => {
+      const saved = typeof window !== 'undefined' ? localStorage.getItem(LEGACY_STORAGE_KEY) : null;
+      if (!saved) return null;
+
+      let parsed: Partial<AppState> | null = null;
+      try {
+        parsed = JSON.parse(saved);
+      } catch {
+        parsed = null;
+      }
+      if (!parsed || typeof parsed !== 'object' || !('currentStep' in parsed)) {
+        localStorage.removeItem(LEGACY_STORAGE_KEY);
+        return null;
+      }
+
+      const state = {
+        ...parsed,
+        products: parsed.products || [],
+        polls: parsed.polls || { mainImage: null, imageStack: null, features: null },
+        analysisId: parsed.analysisId || (parsed.analysisType ? generateId() : undefined)
+      } as AppState;
+      if (state.analysisType) {
+        await repository.save(state);
+      }
+      localStorage.removeItem(LEGACY_STORAGE_KEY);
+      return state;
+    })();
+    // Try again on the next load if it couldn't be saved
+    legacyMigration.catch(() => { legacyMigration = undefined; });
+  }
+  return legacyMigration;
+}
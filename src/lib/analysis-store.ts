@@ -0,0 +1,236 @@
+/**
+ * Analysis Store
+ * Server-side home of the analysis repository, used when NEXT_PUBLIC_ANALYSIS_STORE=server
+ * (see analysis-repository.ts). Each analysis is a row holding its state as JSON, with the
+ * images taken out into BLOBs (see analysis-library.ts).
+ *
+ * Stored in the same SQLite database as the snapshots (SNAPSHOT_DB_PATH).
+ */
+
+import Database from 'better-sqlite3';
+import { mkdirSync } from 'fs';
+import path from 'path';
+import { AnalysisSummary, AppState } from './types';
+import { MarketplaceId } from './marketplaces';
+import {
+  AnalysisNotFoundError,
+  duplicateAnalysisState,
+  joinAnalysisImages,
+  splitAnalysisImages,
+  summarizeAnalysis
+} from './analysis-library';
+import { readSnapshotConfig, SnapshotConfig } from './snapshot-store';
+import { generateId } from './utils';
+
+interface AnalysisRow {
+  id: string;
+  name: string;
+  analysis_type: string | null;
+  marketplace: string | null;
+  current_step: number;
+  product_count: number;
+  created_at: string;
+  updated_at: string;
+  archived: number;
+  state?: string;
+}
+
+interface AnalysisImageRow {
+  image_key: string;
+  media_type: string;
+  data: Buffer;
+}
+
+const SUMMARY_COLUMNS = 'id, name, analysis_type, marketplace, current_step, product_count, created_at, updated_at, archived';
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS analyses (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    analysis_type TEXT,
+    marketplace TEXT,
+    current_step INTEGER NOT NULL,
+    product_count INTEGER NOT NULL,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL,
+    archived INTEGER NOT NULL DEFAULT 0,
+    state TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS analysis_images (
+    analysis_id TEXT NOT NULL,
+    image_key TEXT NOT NULL,
+    media_type TEXT NOT NULL,
+    data BLOB NOT NULL,
+    PRIMARY KEY (analysis_id, image_key)
+  );
+`;
+
+/**
+ * SQLite-backed store of analyses
+ */
+export class AnalysisStore {
+  private db: Database.Database;
+
+  constructor(dbPath: string) {
+    if (dbPath !== ':memory:') {
+      mkdirSync(path.dirname(dbPath), { recursive: true });
+    }
+    this.db = new Database(dbPath);
+    this.db.pragma('journal_mode = WAL');
+    this.db.exec(SCHEMA);
+  }
+
+  /**
+   * Analyses, most recently updated first
+   */
+  list(includeArchived: boolean = false): AnalysisSummary[] {
+    const rows = this.db.prepare(`
+      SELECT ${SUMMARY_COLUMNS} FROM analyses
+      ${includeArchived ? '' : 'WHERE archived = 0'}
+      ORDER BY updated_at DESC
+    `).all() as AnalysisRow[];
+    return rows.map(toSummary);
+  }
+
+  /**
+   * State of an analysis with its images as data URLs, or null if it isn't stored
+   */
+  open(id: string): AppState | null {
+    const row = this.db.prepare('SELECT state FROM analyses WHERE id = ?').get(id) as Pick<AnalysisRow, 'state'> | undefined;
+    if (!row?.state) return null;
+
+    const images = this.db.prepare('SELECT image_key, media_type, data FROM analysis_images WHERE analysis_id = ?')
+      .all(id) as AnalysisImageRow[];
+    return joinAnalysisImages(JSON.parse(row.state), images.map(image => ({
+      key: image.image_key,
+      mediaType: image.media_type,
+      base64: image.data.toString('base64')
+    })));
+  }
+
+  /**
+   * Create or update the analysis identified by state.analysisId, replacing its images
+   */
+  save(state: AppState): AnalysisSummary {
+    const id = state.analysisId;
+    if (!id) throw new Error('Only analyses with an id can be saved');
+
+    const { state: stripped, images } = splitAnalysisImages(state);
+    const existing = this.db.prepare(`SELECT ${SUMMARY_COLUMNS} FROM analyses WHERE id = ?`).get(id) as AnalysisRow | undefined;
+    const now = new Date().toISOString();
+    const summary = summarizeAnalysis(state, { createdAt: existing?.created_at ?? now, updatedAt: now }, existing?.archived === 1);
+
+    const insertImage = this.db.prepare(`
+      INSERT INTO analysis_images (analysis_id, image_key, media_type, data) VALUES (?, ?, ?, ?)
+    `);
+    this.db.transaction(() => {
+      this.db.prepare(`
+        INSERT INTO analyses (${SUMMARY_COLUMNS}, state) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        ON CONFLICT (id) DO UPDATE SET
+          name = excluded.name, analysis_type = excluded.analysis_type, marketplace = excluded.marketplace,
+          current_step = excluded.current_step, product_count = excluded.product_count,
+          updated_at = excluded.updated_at, state = excluded.state
+      `).run(...summaryValues(summary), JSON.stringify(stripped));
+      this.db.prepare('DELETE FROM analysis_images WHERE analysis_id = ?').run(id);
+      for (const image of images) {
+        insertImage.run(id, image.key, image.mediaType, Buffer.from(image.base64, 'base64'));
+      }
+    })();
+
+    return summary;
+  }
+
+  /**
+   * Copy an analysis and its images under a new id
+   */
+  duplicate(id: string, copyId: string = generateId()): AnalysisSummary {
+    const row = this.db.prepare('SELECT state FROM analyses WHERE id = ?').get(id) as Pick<AnalysisRow, 'state'> | undefined;
+    if (!row?.state) throw new AnalysisNotFoundError(id);
+
+    const state = duplicateAnalysisState(JSON.parse(row.state), copyId);
+    const now = new Date().toISOString();
+    const summary = summarizeAnalysis(state, { createdAt: now, updatedAt: now });
+
+    this.db.transaction(() => {
+      this.db.prepare(`INSERT INTO analyses (${SUMMARY_COLUMNS}, state) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`)
+        .run(...summaryValues(summary), JSON.stringify(state));
+      this.db.prepare(`
+        INSERT INTO analysis_images (analysis_id, image_key, media_type, data)
+        SELECT ?, image_key, media_type, data FROM analysis_images WHERE analysis_id = ?
+      `).run(copyId, id);
+    })();
+
+    return summary;
+  }
+
+  /**
+   * Archive or unarchive an analysis; archived analyses are left out of the list by default
+   */
+  archive(id: string, archived: boolean = true): AnalysisSummary {
+    const changes = this.db.prepare('UPDATE analyses SET archived = ? WHERE id = ?').run(archived ? 1 : 0, id).changes;
+    if (changes === 0) throw new AnalysisNotFoundError(id);
+
+    const row = this.db.prepare(`SELECT ${SUMMARY_COLUMNS} FROM analyses WHERE id = ?`).get(id) as AnalysisRow;
+    return toSummary(row);
+  }
+
+  /**
+   * Remove an analysis and its images; returns false if it wasn't stored
+   */
+  delete(id: string): boolean {
+    return this.db.transaction(() => {
+      this.db.prepare('DELETE FROM analysis_images WHERE analysis_id = ?').run(id);
+      return this.db.prepare('DELETE FROM analyses WHERE id = ?').run(id).changes > 0;
+    })();
+  }
+
+  close(): void {
+    this.db.close();
+  }
+}
+
+function summaryValues(summary: AnalysisSummary) {
+  return [
+    summary.id,
+    summary.name,
+    summary.analysisType,
+    summary.marketplace ?? null,
+    summary.currentStep,
+    summary.productCount,
+    summary.createdAt,
+    summary.updatedAt,
+    summary.archived ? 1 : 0
+  ];
+}
+
+function toSummary(row: AnalysisRow): AnalysisSummary {
+  return {
+    id: row.id,
+    name: row.name,
+    analysisType: row.analysis_type as AnalysisSummary['analysisType'],
+    marketplace: (row.marketplace ?? undefined) as MarketplaceId | undefined,
+    currentStep: row.current_step as AnalysisSummary['currentStep'],
+    productCount: row.product_count,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    archived: row.archived === 1
+  };
+}
+
+let sharedStore: AnalysisStore | null | undefined;
+
+/**
+ * The analysis store shared by every request in this server process
+ * Returns null if the database cannot be opened.
+ */
+export function getAnalysisStore(config: SnapshotConfig = readSnapshotConfig()): AnalysisStore | null {
+  if (sharedStore === undefined) {
+    try {
+      sharedStore = new AnalysisStore(config.dbPath);
+    } catch (error) {
+      console.error(`Analysis store unavailable at ${config.dbPath}:`, error);
+      sharedStore = null;
+    }
+  }
+  return sharedStore;
+}
@@ -1,11 +1,12 @@
 import { Document, Packer, Paragraph, TextRun, HeadingLevel } from 'docx';
 import { Analysis, Product, ScoreCalculation, PollResult } from './types';
-import { getScoreThreshold, getScoreThresholdDescription } from './utils';
+import { getScoreThreshold, getScoreThresholdDescription, formatPrice } from './utils';
+import { MarketplaceId, assertSingleCurrency } from './marketplaces';
 
 /**
  * Calculate price gaps between products
  */
-function calculatePriceGaps(prices: number[]): Array<{ description: string; gap: number }> {
+function calculatePriceGaps(prices: number[], marketplace?: MarketplaceId): Array<{ description: string; gap: number }> {
   const gaps = [];
   const sortedPrices = [...prices].sort((a, b) => a - b);
   
@@ -13,7 +14,7 @@ function calculatePriceGaps(prices: number[]): Array<{ description: string; gap:
     const gap = sortedPrices[i + 1] - sortedPrices[i];
     if (gap > 0) {
       gaps.push({
-        description: `$${sortedPrices[i].toFixed(2)} to $${sortedPrices[i + 1].toFixed(2)} (+$${gap.toFixed(2)})`,
+        description: `${formatPrice(sortedPrices[i], marketplace)} to ${formatPrice(sortedPrices[i + 1], marketplace)} (+${formatPrice(gap, marketplace)})`,
         gap
       });
     }
@@ -110,7 +111,8 @@ function identifyMarketOpportunities(
   calculations: ScoreCalculation[],
   priceGaps: Array<{ description: string; gap: number }>,
   ratingGaps: Array<{ description: string; gap: number }>,
-  shippingGaps: Array<{ description: string; gap: number }>
+  shippingGaps: Array<{ description: string; gap: number }>,
+  marketplace?: MarketplaceId
 ): Array<{ type: string; description: string; potential: 'Low' | 'Medium' | 'High' }> {
   const opportunities = [];
   
@@ -120,7 +122,7 @@ function identifyMarketOpportunities(
     if (maxPriceGap > 10) {
       opportunities.push({
         type: 'Pricing',
-        description: `Large price gap of $${maxPriceGap.toFixed(2)} indicates opportunity for competitive positioning`,
+        description: `Large price gap of ${formatPrice(maxPriceGap, marketplace)} indicates opportunity for competitive positioning`,
         potential: 'High' as const
       });
     }
@@ -175,6 +177,8 @@ export async function generateCore5AnalysisReport(
   if (products.length === 0) {
     throw new Error('No products found in Core 5 analysis');
   }
+
+  assertSingleCurrency(products, analysis.marketplace);
   
   if (!calculations || calculations.length === 0) {
     throw new Error('No calculations found in Core 5 analysis');
@@ -273,7 +277,7 @@ export async function generateMarketOpportunityAnalysis(
               content: `Generate a comprehensive market opportunity analysis for the following competitive data:
 
 PRODUCTS ANALYZED:
-${products.map(p => `- ${p.name} (${p.asin}): $${p.price}, ${p.shippingDays} days, ${p.rating}★ (${p.reviewCount} reviews)`).join('\n')}
+${products.map(p => `- ${p.name} (${p.asin}): ${formatPrice(p.price, p.marketplace)}, ${p.shippingDays} days, ${p.rating}★ (${p.reviewCount} reviews)`).join('\n')}
 
 SCORE BREAKDOWN WITH COMPETITIVE THRESHOLDS:
 ${calculations.map(c => {
@@ -0,0 +1,333 @@
+/**
+ * Product Data Sources
+ * Where AmazonProductFetcher gets raw product data. The source is chosen by configuration
+ * (PRODUCT_DATA_SOURCE), so the automatic flow can run against ScrapeOps, local fixtures or
+ * raw product-page HTML, and every result records the source that produced it.
+ *
+ * Environment:
+ * - PRODUCT_DATA_SOURCE: scrapeops (default) | fixture | html
+ * - PRODUCT_FIXTURE_DIR: fixture directory (default fixtures/products)
+ * - PRODUCT_HTML_URL_TEMPLATE: product page URL, {domain}, {asin} and {postcode} are replaced (default https://www.{domain}/dp/{asin})
+ *
+ * Delivery location: a source is created for one delivery postcode. Sources that can quote
+ * shipping for it (fixtures in a <postcode>/ subdirectory, HTML templates containing {postcode})
+ * set ScrapedProductData.deliveryPostcode; ScrapeOps quotes for the marketplace's default location.
+ * - FETCH_CONCURRENCY / FETCH_REQUESTS_PER_SECOND: request limits, see rate-limiter.ts
+ */
+
+import { readFile } from 'fs/promises';
+import path from 'path';
+import { z } from 'zod';
+import { ScrapeOpsClient, ScrapeOpsDataParser, ScrapedProductData } from './scraper';
+import { AmazonHtmlParser } from './html-parser';
+import { ProductDataSourceType } from './types';
+import { MarketplaceId, DEFAULT_MARKETPLACE, getMarketplace } from './marketplaces';
+import { withRetry, DEFAULT_FETCH_RETRY_CONFIG } from './retry';
+import { RateLimiter, FetchLimits, readFetchLimits, parseRetryAfter } from './rate-limiter';
+
+/**
+ * Sources that can be configured for automatic fetching
+ */
+export type FetchSourceType = Exclude<ProductDataSourceType, 'manual'>;
+
+export const FETCH_SOURCE_TYPES: FetchSourceType[] = ['scrapeops', 'fixture', 'html'];
+
+export const DEFAULT_FIXTURE_DIR = 'fixtures/products';
+export const DEFAULT_HTML_URL_TEMPLATE = 'https://www.{domain}/dp/{asin}';
+
+/**
+ * A source of raw product data for one ASIN in one marketplace
+ * Implementations set ScrapedProductData.source on every result.
+ */
+export interface ProductDataSource {
+  readonly type: FetchSourceType;
+  readonly marketplace: MarketplaceId;
+  readonly deliveryPostcode: string | null; // Location shipping is quoted for; null when the source can't choose
+  fetchProduct(asin: string): Promise<ScrapedProductData>;
+}
+
+export interface DataSourceConfig {
+  type: FetchSourceType;
+  fixtureDir: string;
+  htmlUrlTemplate: string;
+  limits: FetchLimits;
+}
+
+/**
+ * Custom error for data source failures
+ * status carries the HTTP status, if any, so permanent failures are not retried
+ */
+export class DataSourceError extends Error {
+  constructor(
+    message: string,
+    public status?: number,
+    public retryAfterMs?: number
+  ) {
+    super(message);
+    this.name = 'DataSourceError';
+  }
+}
+
+/**
+ * Read the data source configuration from the environment
+ */
+export function readDataSourceConfig(env: NodeJS.ProcessEnv = process.env): DataSourceConfig {
+  const type = (env.PRODUCT_DATA_SOURCE || 'scrapeops').trim().toLowerCase();
+
+  if (!FETCH_SOURCE_TYPES.includes(type as FetchSourceType)) {
+    throw new DataSourceError(
+      `Unknown PRODUCT_DATA_SOURCE "${type}". Expected one of: ${FETCH_SOURCE_TYPES.join(', ')}`
+    );
+  }
+
+  return {
+    type: type as FetchSourceType,
+    fixtureDir: path.resolve(env.PRODUCT_FIXTURE_DIR || DEFAULT_FIXTURE_DIR),
+    htmlUrlTemplate: env.PRODUCT_HTML_URL_TEMPLATE || DEFAULT_HTML_URL_TEMPLATE,
+    limits: readFetchLimits(env)
+  };
+}
+
+/**
+ * Request limiters shared by every fetch in this server process, so concurrent
+ * requests (and concurrent API calls) draw from one budget per upstream
+ */
+const requestLimiters = new Map<string, RateLimiter>();
+
+function getRequestLimiter(key: string, limits: FetchLimits): RateLimiter {
+  let limiter = requestLimiters.get(key);
+  if (!limiter) {
+    limiter = new RateLimiter({ requestsPerSecond: limits.requestsPerSecond, concurrency: limits.concurrency });
+    requestLimiters.set(key, limiter);
+  }
+  return limiter;
+}
+
+/**
+ * Create the configured data source for a marketplace and delivery postcode
+ * The postcode defaults to the marketplace's reference postcode.
+ */
+export function createProductDataSource(
+  config: DataSourceConfig = readDataSourceConfig(),
+  marketplace: MarketplaceId = DEFAULT_MARKETPLACE,
+  postcode: string = getMarketplace(marketplace).referencePostcode
+): ProductDataSource {
+  switch (config.type) {
+    case 'scrapeops':
+      return new ScrapeOpsDataSource(marketplace, getRequestLimiter('scrapeops', config.limits));
+    case 'fixture':
+      return new FixtureDataSource(config.fixtureDir, marketplace, postcode);
+    case 'html':
+      return new HtmlDataSource(
+        config.htmlUrlTemplate,
+        marketplace,
+        getRequestLimiter(`html:${getMarketplace(marketplace).domain}`, config.limits),
+        postcode
+      );
+  }
+}
+
+/**
+ * ScrapeOps structured-data API
+ */
+export class ScrapeOpsDataSource implements ProductDataSource {
+  readonly type = 'scrapeops' as const;
+  readonly deliveryPostcode = null;
+  private client: ScrapeOpsClient;
+
+  constructor(
+    readonly marketplace: MarketplaceId = DEFAULT_MARKETPLACE,
+    limiter?: RateLimiter
+  ) {
+    this.client = new ScrapeOpsClient(marketplace, limiter);
+  }
+
+  async fetchProduct(asin: string): Promise<ScrapedProductData> {
+    const data = await this.client.fetchProduct(asin);
+    return {
+      ...data,
+      source: { type: this.type, fetchedAt: new Date().toISOString() }
+    };
+  }
+}
+
+/**
+ * The parts of a HAR recording that fixtures are replayed from
+ */
+const HarSchema = z.object({
+  log: z.object({
+    entries: z.array(z.object({
+      request: z.object({ url: z.string() }),
+      response: z.object({
+        status: z.number(),
+        content: z.object({
+          text: z.string().optional(),
+          encoding: z.string().optional(),
+          mimeType: z.string().optional()
+        })
+      })
+    }))
+  })
+});
+
+/**
+ * Local fixtures, for offline use and replaying recorded sessions
+ * For each ASIN the directory is searched for, in order:
+ * - <ASIN>.json: a saved ScrapeOps response
+ * - <ASIN>.html / <ASIN>.htm: a saved product page
+ * - <ASIN>.har: a browser or proxy recording containing either of the above
+ * Recordings for a delivery postcode go in a <postcode>/ subdirectory and are preferred.
+ */
+export class FixtureDataSource implements ProductDataSource {
+  readonly type = 'fixture' as const;
+  private jsonParser: ScrapeOpsDataParser;
+  private htmlParser: AmazonHtmlParser;
+
+  constructor(
+    private directory: string,
+    readonly marketplace: MarketplaceId = DEFAULT_MARKETPLACE,
+    readonly deliveryPostcode: string | null = null
+  ) {
+    this.jsonParser = new ScrapeOpsDataParser(marketplace);
+    this.htmlParser = new AmazonHtmlParser(marketplace);
+  }
+
+  async fetchProduct(asin: string): Promise<ScrapedProductData> {
+    const directories = this.deliveryPostcode
+      ? [path.join(this.directory, this.deliveryPostcode), this.directory]
+      : [this.directory];
+
+    for (const directory of directories) {
+      for (const extension of ['json', 'html', 'htm', 'har']) {
+        const file = path.join(directory, `${asin}.${extension}`);
+        const content = await readFile(file, 'utf8').catch(() => null);
+        if (content === null) continue;
+
+        const data = extension === 'har'
+          ? this.replayHar(content, asin, file)
+          : this.parseContent(content, extension === 'json' ? 'application/json' : 'text/html', asin);
+
+        return {
+          ...data,
+          // Only recordings made for the postcode are known to be quoted for it
+          deliveryPostcode: directory === this.directory ? null : this.deliveryPostcode,
+          source: {
+            type: this.type,
+            fetchedAt: new Date().toISOString(),
+            reference: path.relative(process.cwd(), file)
+          }
+        };
+      }
+    }
+
+    throw new DataSourceError(
+      `No fixture for ASIN ${asin} in ${this.directory} (expected ${asin}.json, .html or .har)`
+    );
+  }
+
+  /**
+   * Find the recorded response for the ASIN in a HAR file
+   */
+  private replayHar(content: string, asin: string, file: string): ScrapedProductData {
+    let json: unknown;
+    try {
+      json = JSON.parse(content);
+    } catch {
+      throw new DataSourceError(`${file} is not valid HAR JSON`);
+    }
+
+    const har = HarSchema.safeParse(json);
+    if (!har.success) {
+      const issues = har.error.issues.map(issue => `${issue.path.join('.') || 'file'}: ${issue.message}`);
+      throw new DataSourceError(`${file} is not a valid HAR file: ${issues.join('; ')}`);
+    }
+
+    const entry = har.data.log.entries.find(e =>
+      e.request.url.includes(asin) &&
+      e.response.status === 200 &&
+      e.response.content.text
+    );
+    if (!entry?.response.content.text) {
+      throw new DataSourceError(`${file} has no successful response for ASIN ${asin}`);
+    }
+
+    const { text, encoding, mimeType } = entry.response.content;
+    const body = encoding === 'base64' ? Buffer.from(text, 'base64').toString('utf8') : text;
+    return this.parseContent(body, mimeType || '', asin, entry.request.url);
+  }
+
+  private parseContent(body: string, mimeType: string, asin: string, url?: string): ScrapedProductData {
+    if (mimeType.includes('json')) {
+      const parsed = JSON.parse(body);
+      // ScrapeOps can return an array with one result
+      return this.jsonParser.parseProductData(Array.isArray(parsed) ? parsed[0] : parsed);
+    }
+    return this.htmlParser.parseProductPage(body, url || `https://www.${getMarketplace(this.marketplace).domain}/dp/${asin}`);
+  }
+}
+
+/**
+ * Raw product-page HTML fetched from Amazon, or from a crawler serving the same pages
+ */
+export class HtmlDataSource implements ProductDataSource {
+  readonly type = 'html' as const;
+  readonly deliveryPostcode: string | null;
+  private parser: AmazonHtmlParser;
+
+  /**
+   * The postcode is only used by URL templates containing {postcode}
+   */
+  constructor(
+    private urlTemplate: string,
+    readonly marketplace: MarketplaceId = DEFAULT_MARKETPLACE,
+    private limiter: RateLimiter = new RateLimiter(readFetchLimits()),
+    postcode: string | null = null
+  ) {
+    this.parser = new AmazonHtmlParser(marketplace);
+    this.deliveryPostcode = postcode && urlTemplate.includes('{postcode}') ? postcode : null;
+  }
+
+  async fetchProduct(asin: string): Promise<ScrapedProductData> {
+    const marketplace = getMarketplace(this.marketplace);
+    const url = this.urlTemplate
+      .replace('{domain}', marketplace.domain)
+      .replace('{asin}', encodeURIComponent(asin))
+      .replace('{postcode}', encodeURIComponent(this.deliveryPostcode ?? ''));
+
+    const html = await withRetry(
+      () => this.limiter.schedule(async () => {
+        const response = await fetch(url, {
+          // Also bounds reading the body; a stalled connection counts as a failed attempt
+          signal: AbortSignal.timeout(DEFAULT_FETCH_RETRY_CONFIG.timeout),
+          headers: {
+            'Accept': 'text/html,application/xhtml+xml',
+            'Accept-Language': `${marketplace.locale},${marketplace.language};q=0.9`,
+            'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0 Safari/537.36'
+          }
+        });
+
+        if (!response.ok) {
+          throw new DataSourceError(
+            `Product page request failed: ${response.status}`,
+            response.status,
+            parseRetryAfter(response.headers.get('retry-after'))
+          );
+        }
+
+        return response.text();
+      }),
+      DEFAULT_FETCH_RETRY_CONFIG
+    );
+
+    // A robot check is a permanent failure for this source, not a transient one
+    if (/validateCaptcha|api-services-support@amazon\.com/i.test(html)) {
+      throw new DataSourceError(`Amazon returned a robot check page for ASIN ${asin}`);
+    }
+
+    return {
+      ...this.parser.parseProductPage(html, url),
+      deliveryPostcode: this.deliveryPostcode,
+      source: { type: this.type, fetchedAt: new Date().toISOString(), reference: url }
+    };
+  }
+}
@@ -0,0 +1,125 @@
+/**
+ * Delivery Locations
+ * Delivery promises depend on where an order ships to. An analysis has one delivery postcode
+ * (the marketplace's reference postcode unless set), passed to data sources that can quote
+ * for a location and recorded with each product's shipping data, plus optional comparison
+ * postcodes whose shipping scores are reported next to it.
+ */
+
+import { Product, ShippingLocationComparison } from './types';
+import { MarketplaceId, getMarketplace } from './marketplaces';
+import { ScoringRubric, DEFAULT_SCORING_RUBRIC } from './scoring-rubric';
+import { calculateShippingScore } from './scoring';
+
+/**
+ * Most comparison locations per analysis; each one is another fetch per product
+ */
+export const MAX_COMPARISON_POSTCODES = 4;
+
+/**
+ * Postcode formats per marketplace, after normalizing (uppercase, single spaces)
+ */
+const POSTCODE_PATTERNS: Record<MarketplaceId, RegExp> = {
+  us: /^\d{5}(?:-\d{4})?$/,
+  ca: /^[A-Z]\d[A-Z] \d[A-Z]\d$/,
+  uk: /^[A-Z]{1,2}\d[A-Z\d]? \d[A-Z]{2}$/,
+  de: /^\d{5}$/,
+  fr: /^\d{5}$/,
+  it: /^\d{5}$/,
+  es: /^\d{5}$/,
+  jp: /^\d{3}-\d{4}$/
+};
+
+/**
+ * Custom error for postcodes that don't match the marketplace's format
+ */
+export class InvalidPostcodeError extends Error {
+  constructor(public postcode: string, marketplace: MarketplaceId) {
+    super(`Invalid ${getMarketplace(marketplace).postcodeLabel} for ${getMarketplace(marketplace).domain}: "${postcode}"`);
+    this.name = 'InvalidPostcodeError';
+  }
+}
+
+/**
+ * Normalize a postcode to the marketplace's format ("m5v3l9" -> "M5V 3L9", "1000001" -> "100-0001")
+ * Throws InvalidPostcodeError when it isn't a postcode of that marketplace.
+ */
+export function normalizePostcode(value: string, marketplaceId?: MarketplaceId | null): string {
+  const marketplace = getMarketplace(marketplaceId);
+  let postcode = value.trim().toUpperCase().replace(/\s+/g, ' ');
+
+  // Outward and inward codes are often typed without the space
+  if ((marketplace.id === 'ca' || marketplace.id === 'uk') && !postcode.includes(' ') && postcode.length > 3) {
+    postcode = `${postcode.slice(0, -3)} ${postcode.slice(-3)}`;
+  }
+  if (marketplace.id === 'jp' && /^\d{7}$/.test(postcode)) {
+    postcode = `${postcode.slice(0, 3)}-${postcode.slice(3)}`;
+  }
+
+  if (!POSTCODE_PATTERNS[marketplace.id].test(postcode)) {
+    throw new InvalidPostcodeError(value, marketplace.id);
+  }
+  return postcode;
+}
+
+/**
+ * Parse a comma-, semicolon- or line-separated list of postcodes, without duplicates
+ */
+export function parsePostcodeList(text: string, marketplaceId?: MarketplaceId | null): string[] {
+  const postcodes = text
+    .split(/[,;\n]+/)
+    .map(value => value.trim())
+    .filter(value => value.length > 0)
+    .map(value => normalizePostcode(value, marketplaceId));
+  return [...new Set(postcodes)];
+}
+
+/**
+ * Delivery postcode of an analysis: the one set for it, or the marketplace's reference postcode
+ */
+export function getDeliveryPostcode(analysis: { deliveryPostcode?: string; marketplace?: MarketplaceId }): string {
+  return analysis.deliveryPostcode || getMarketplace(analysis.marketplace).referencePostcode;
+}
+
+/**
+ * "zip code 07731", "postcode SW1A 1AA"
+ */
+export function formatDeliveryLocation(postcode: string, marketplaceId?: MarketplaceId | null): string {
+  return `${getMarketplace(marketplaceId).postcodeLabel} ${postcode}`;
+}
+
+/**
+ * Shipping days and points of every product at the analysis's delivery postcode and at each
+ * comparison postcode. The delivery postcode uses the products' own shipping days; comparison
+ * postcodes use shippingByPostcode and leave products without data for them unscored.
+ */
+export function compareShippingByLocation(
+  products: Product[],
+  deliveryPostcode: string,
+  comparisonPostcodes: string[],
+  rubric: ScoringRubric = DEFAULT_SCORING_RUBRIC
+): ShippingLocationComparison[] {
+  const postcodes = [deliveryPostcode, ...comparisonPostcodes.filter(postcode => postcode !== deliveryPostcode)];
+
+  return postcodes.map((postcode, index) => {
+    const isPrimary = index === 0;
+    const collected = products.flatMap(product => {
+      const shippingDays = isPrimary ? product.shippingDays : product.shippingByPostcode?.[postcode];
+      return shippingDays === undefined ? [] : [{ ...product, shippingDays }];
+    });
+    const points = calculateShippingScore(collected, rubric);
+
+    return {
+      postcode,
+      isPrimary,
+      scores: products.map(product => {
+        const match = collected.find(p => p.id === product.id);
+        return {
+          productId: product.id,
+          shippingDays: match ? match.shippingDays : null,
+          points: match ? points[product.id] : null
+        };
+      })
+    };
+  });
+}
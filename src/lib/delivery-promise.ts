@@ -0,0 +1,370 @@
+/**
+ * Delivery Promises
+ * Parses a delivery message from a listing or screenshot ("FREE delivery April 15-18",
+ * "Overnight 4 AM - 8 AM", "Morgen, 21. Oktober", "10月21日") into the earliest and latest
+ * number of calendar days from a reference date, plus the kind of delivery. Days are counted
+ * in the time zone the promise was shown in, so the scrapers and OCR agree on the same text.
+ *
+ * fixtures/delivery-promises/cases.json lists expected results for fixed reference dates.
+ */
+
+import { DeliveryLanguage, MarketplaceId, getMarketplace } from './marketplaces';
+
+export type DeliveryType = 'same-day' | 'overnight' | 'prime' | 'standard';
+
+export interface DeliveryPromise {
+  type: DeliveryType;
+  earliestDays: number | null;
+  latestDays: number | null;
+  days: number | null; // earliestDays or latestDays, per options.choose
+  earliestDate: string | null; // YYYY-MM-DD in the reference time zone
+  latestDate: string | null;
+}
+
+export interface DeliveryPromiseOptions {
+  referenceDate: Date; // When the promise was shown (fetch time, screenshot time)
+  timeZone?: string; // IANA zone to count days in; defaults to the marketplace's
+  marketplace?: MarketplaceId | null;
+  choose?: 'earliest' | 'latest'; // End of a range reported as `days` (default earliest)
+}
+
+/**
+ * Days assumed when a message states no delivery time at all
+ */
+export const DEFAULT_SHIPPING_DAYS = 5;
+
+/**
+ * "In stock" without a date means standard shipping (3 days per PRD)
+ */
+export const IN_STOCK_SHIPPING_DAYS = 3;
+
+/**
+ * A Prime badge without a date means Prime's standard two-day delivery
+ */
+export const PRIME_SHIPPING_DAYS = 2;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Delivery wording per language
+ */
+interface DeliveryVocabulary {
+  today: RegExp;
+  tomorrow: RegExp;
+  dayAfterTomorrow?: RegExp;
+  sameDay: RegExp;
+  overnight?: RegExp;
+  inStock: RegExp;
+  within: RegExp[]; // Days from now: (min)(max?)
+  rangeWords: string; // Regex alternatives for "to" between two dates
+  alternative: RegExp; // Start of the optional faster, paid delivery clause
+}
+
+const DELIVERY_WORDS: Record<DeliveryLanguage, DeliveryVocabulary> = {
+  en: {
+    today: /\btoday\b/i,
+    tomorrow: /\btomorrow\b/i,
+    sameDay: /\bsame[- ]day\b/i,
+    overnight: /\bovernight\b/i,
+    inStock: /in stock/i,
+    within: [
+      /(?:ships?|dispatched)\s+within\s+(\d+)(?:\s*(?:-|–|to)\s*(\d+))?\s+(?:business\s+)?days?/i,
+      /(?:arrives|delivery|delivered)\s+in\s+(\d+)(?:\s*(?:-|–|to)\s*(\d+))?\s+(?:business\s+)?days?/i
+    ],
+    rangeWords: 'to|through',
+    alternative: /\bor fastest delivery\b/i
+  },
+  de: {
+    today: /\bheute\b/i,
+    tomorrow: /\bmorgen\b/i,
+    dayAfterTomorrow: /übermorgen/i,
+    sameDay: /am selben tag|same[- ]day/i,
+    inStock: /auf lager/i,
+    within: [/versand(?:fertig)?\s+(?:innerhalb\s+von|in)\s+(\d+)(?:\s*(?:-|–|bis)\s*(\d+))?\s+(?:werk)?tag/i],
+    rangeWords: 'bis',
+    alternative: /\boder schnellste lieferung\b/i
+  },
+  fr: {
+    today: /aujourd['’]hui/i,
+    tomorrow: /(?<!après-)\bdemain\b/i,
+    dayAfterTomorrow: /après-demain/i,
+    sameDay: /le jour même/i,
+    inStock: /en stock/i,
+    within: [/expédié\s+(?:sous|dans)\s+(\d+)(?:\s*(?:-|–|à)\s*(\d+))?\s+jour/i],
+    rangeWords: 'au|à',
+    alternative: /\bou livraison (?:accélérée|la plus rapide)/i
+  },
+  it: {
+    today: /\boggi\b/i,
+    tomorrow: /\bdomani\b/i,
+    dayAfterTomorrow: /dopodomani/i,
+    sameDay: /in giornata|stesso giorno/i,
+    inStock: /disponibilità immediata/i,
+    within: [/spedi(?:zione|to)\s+(?:entro|in)\s+(\d+)(?:\s*(?:-|–|a)\s*(\d+))?\s+giorn/i],
+    rangeWords: 'al|a',
+    alternative: /\boppure consegna più rapida/i
+  },
+  es: {
+    today: /\bhoy\b/i,
+    tomorrow: /(?<!pasado )\bmañana/i,
+    dayAfterTomorrow: /pasado mañana/i,
+    sameDay: /el mismo día/i,
+    inStock: /en stock/i,
+    within: [/(?:envío|se envía)\s+en\s+(\d+)(?:\s*(?:-|–|a)\s*(\d+))?\s+día/i],
+    rangeWords: 'al|a',
+    alternative: /\bo entrega más rápida/i
+  },
+  ja: {
+    today: /今日|本日/,
+    tomorrow: /明日/,
+    dayAfterTomorrow: /明後日/,
+    sameDay: /当日/,
+    inStock: /在庫あり/,
+    within: [/(\d+)(?:\s*[~～〜\-–]\s*(\d+))?\s*日以内に発送/],
+    rangeWords: 'から',
+    alternative: /または最速/
+  }
+};
+
+const PRIME = /\bprime\b/i;
+
+/**
+ * Clock times and countdowns, which would otherwise read as days ("4 AM - 8 AM", "Order within 5 hrs")
+ */
+const TIME_PATTERNS = [
+  /\border within\b[^.]*?(?:hrs?|hours?|mins?|minutes?)\b/gi,
+  /\b\d{1,2}(?::\d{2})?\s*(?:a\.?m\.?|p\.?m\.?)(?![\p{L}])/giu,
+  /\b\d{1,2}[:h]\d{2}\b/gi,
+  /\b\d{1,2}\s*uhr\b/gi,
+  /\d{1,2}時(?:\d{1,2}分)?/g,
+  /\b\d+\s*(?:hrs?|hours?|mins?|minutes?)\b/gi
+];
+
+const namePatternCache = new Map<string, { pattern: string; values: Map<string, number> }>();
+
+/**
+ * Month or weekday names in the marketplace locale and in English, as a regex alternation
+ */
+function getNames(locale: string, kind: 'month' | 'weekday'): { pattern: string; values: Map<string, number> } {
+  const key = `${kind}:${locale}`;
+  const cached = namePatternCache.get(key);
+  if (cached) return cached;
+
+  const values = new Map<string, number>();
+  for (const name of [locale, 'en-US']) {
+    // Short weekday names ("Mo", "Di") are too ambiguous outside English
+    const styles = kind === 'month' || name === 'en-US' ? ['long', 'short'] as const : ['long'] as const;
+    for (const style of styles) {
+      if (kind === 'month') {
+        const format = new Intl.DateTimeFormat(name, { month: style, timeZone: 'UTC' });
+        for (let month = 0; month < 12; month++) {
+          const label = format.format(new Date(Date.UTC(2024, month, 15))).toLowerCase().replace(/\.$/, '');
+          if (!/\d/.test(label)) values.set(label, month);
+        }
+      } else {
+        const format = new Intl.DateTimeFormat(name, { weekday: style, timeZone: 'UTC' });
+        // 2024-09-01 was a Sunday
+        for (let weekday = 0; weekday < 7; weekday++) {
+          const label = format.format(new Date(Date.UTC(2024, 8, 1 + weekday))).toLowerCase().replace(/\.$/, '');
+          values.set(label, weekday);
+        }
+      }
+    }
+  }
+
+  // Longest first so "juillet" wins over "juil"
+  const pattern = [...values.keys()]
+    .sort((a, b) => b.length - a.length)
+    .map(label => label.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+    .join('|');
+
+  const result = { pattern, values };
+  namePatternCache.set(key, result);
+  return result;
+}
+
+/**
+ * Calendar day of an instant in a time zone, as days since 1970-01-01
+ * An unknown time zone falls back to `fallbackZone`.
+ */
+function toLocalDay(date: Date, timeZone: string, fallbackZone: string): number {
+  let parts: Intl.DateTimeFormatPart[];
+  try {
+    parts = new Intl.DateTimeFormat('en-US', { timeZone, year: 'numeric', month: 'numeric', day: 'numeric' }).formatToParts(date);
+  } catch {
+    parts = new Intl.DateTimeFormat('en-US', { timeZone: fallbackZone, year: 'numeric', month: 'numeric', day: 'numeric' }).formatToParts(date);
+  }
+  const get = (type: string) => Number(parts.find(part => part.type === type)?.value);
+  return Date.UTC(get('year'), get('month') - 1, get('day')) / DAY_MS;
+}
+
+function toIsoDate(day: number): string {
+  return new Date(day * DAY_MS).toISOString().slice(0, 10);
+}
+
+/**
+ * Day number of a month/day on or after `today`; dates already past are next year's
+ * Returns null for impossible dates such as February 30.
+ */
+function resolveDate(month: number, day: number, today: number): number | null {
+  const year = new Date(today * DAY_MS).getUTCFullYear();
+  for (const candidateYear of [year, year + 1]) {
+    const date = new Date(Date.UTC(candidateYear, month, day));
+    if (date.getUTCMonth() !== month || date.getUTCDate() !== day) continue;
+    const value = date.getTime() / DAY_MS;
+    if (value >= today) return value;
+  }
+  return null;
+}
+
+/**
+ * Every delivery date in the text, as day numbers
+ * Ranges sharing a month ("April 15-18", "15.-18. Oktober", "4月15日～18日") are expanded first,
+ * then standalone dates ("Tuesday, Oct 21 - Thursday, Oct 23") are collected.
+ */
+function findDates(text: string, locale: string, rangeWords: string, today: number): number[] {
+  const { pattern, values } = getNames(locale, 'month');
+  const month = (label: string) => values.get(label.toLowerCase().replace(/\.$/, ''))!;
+  const dash = `(?:\\s*[-–—~～〜]\\s*|\\s+(?:${rangeWords})\\s+)`;
+  const found: Array<{ index: number; month: number; day: number }> = [];
+  let rest = text.toLowerCase();
+
+  const take = (regex: RegExp, read: (match: string[]) => Array<{ month: number; day: number }>) => {
+    rest = rest.replace(regex, (...args) => {
+      const match: string[] = args.slice(0, -2);
+      const index = args[args.length - 2] as number;
+      for (const date of read(match)) found.push({ index, ...date });
+      return ' '.repeat(match[0].length);
+    });
+  };
+
+  // 4月15日～18日, 4月30日～5月2日
+  take(/(\d{1,2})月\s*(\d{1,2})日?\s*[-–~～〜]\s*(?:(\d{1,2})月\s*)?(\d{1,2})日/g, m => [
+    { month: parseInt(m[1], 10) - 1, day: parseInt(m[2], 10) },
+    { month: parseInt(m[3] || m[1], 10) - 1, day: parseInt(m[4], 10) }
+  ]);
+  // April 15-18, April 30 - May 2
+  take(new RegExp(`(?<![\\p{L}])(${pattern})\\.?\\s+(\\d{1,2})(?:st|nd|rd|th)?${dash}(?:(${pattern})\\.?\\s+)?(\\d{1,2})(?![\\d:])`, 'gu'), m => [
+    { month: month(m[1]), day: parseInt(m[2], 10) },
+    { month: month(m[3] || m[1]), day: parseInt(m[4], 10) }
+  ]);
+  // 15-18 April, 15. - 18. Oktober, 30 avril - 2 mai, del 15 al 18 de abril
+  take(new RegExp(`(?<![\\d:])(\\d{1,2})\\.?(?:\\s*(?:de\\s+)?(${pattern})\\.?)?${dash}(\\d{1,2})\\.?\\s+(?:de\\s+)?(${pattern})\\.?(?![\\p{L}])`, 'gu'), m => [
+    { month: month(m[2] || m[4]), day: parseInt(m[1], 10) },
+    { month: month(m[4]), day: parseInt(m[3], 10) }
+  ]);
+  // Single dates: 10月21日, 21. Oktober, 21 de octubre, October 21
+  take(/(\d{1,2})月\s*(\d{1,2})日/g, m => [{ month: parseInt(m[1], 10) - 1, day: parseInt(m[2], 10) }]);
+  take(new RegExp(`(?<![\\d:])(\\d{1,2})\\.?\\s+(?:de\\s+)?(${pattern})\\.?(?![\\p{L}])`, 'gu'), m => [
+    { month: month(m[2]), day: parseInt(m[1], 10) }
+  ]);
+  take(new RegExp(`(?<![\\p{L}])(${pattern})\\.?\\s+(\\d{1,2})(?:st|nd|rd|th)?(?![\\d:])`, 'gu'), m => [
+    { month: month(m[1]), day: parseInt(m[2], 10) }
+  ]);
+
+  return found
+    .sort((a, b) => a.index - b.index)
+    .map(date => resolveDate(date.month, date.day, today))
+    .filter((day): day is number => day !== null);
+}
+
+/**
+ * Days until each weekday named in the text ("FREE delivery Friday", "Monday - Wednesday")
+ * A weekday is always in the future; later mentions never come before earlier ones.
+ */
+function findWeekdays(text: string, locale: string, today: number): number[] {
+  const { pattern, values } = getNames(locale, 'weekday');
+  const todayWeekday = new Date(today * DAY_MS).getUTCDay();
+  const days: number[] = [];
+
+  for (const match of text.toLowerCase().matchAll(new RegExp(`(?<![\\p{L}])(${pattern})\\.?(?![\\p{L}])`, 'gu'))) {
+    const weekday = values.get(match[1])!;
+    let offset = (weekday - todayWeekday + 7) % 7 || 7;
+    const previous = days[days.length - 1];
+    while (previous !== undefined && offset < previous) offset += 7;
+    days.push(offset);
+  }
+  return days;
+}
+
+/**
+ * Parse a delivery promise relative to a reference date
+ * Messages without any delivery time return null days; a plain "in stock" counts as
+ * standard shipping and a bare Prime badge as Prime's two-day delivery.
+ */
+export function parseDeliveryPromise(
+  text: string | null | undefined,
+  options: DeliveryPromiseOptions
+): DeliveryPromise {
+  const marketplace = getMarketplace(options.marketplace);
+  const today = toLocalDay(options.referenceDate, options.timeZone || marketplace.timeZone, marketplace.timeZone);
+  const vocabularies = marketplace.language === 'en'
+    ? [DELIVERY_WORDS.en]
+    : [DELIVERY_WORDS[marketplace.language], DELIVERY_WORDS.en];
+
+  // Only the main promise counts, not the "Or fastest delivery ..." upsell after it
+  let message = (text || '').replace(/\s+/g, ' ').trim();
+  for (const vocabulary of vocabularies) {
+    const alternative = message.search(vocabulary.alternative);
+    if (alternative > 0) message = message.slice(0, alternative).trim();
+  }
+  const withoutTimes = TIME_PATTERNS.reduce((result, pattern) => result.replace(pattern, ' '), message);
+
+  const has = (pick: (vocabulary: DeliveryVocabulary) => RegExp | undefined) =>
+    vocabularies.some(vocabulary => pick(vocabulary)?.test(message));
+
+  const type: DeliveryType = has(v => v.sameDay) || has(v => v.today)
+    ? 'same-day'
+    : has(v => v.overnight)
+      ? 'overnight'
+      : PRIME.test(message) ? 'prime' : 'standard';
+
+  let range: number[] = [];
+  if (has(v => v.dayAfterTomorrow)) range = [2];
+  else if (has(v => v.today) || has(v => v.sameDay)) range = [0];
+  else if (has(v => v.tomorrow)) range = [1];
+
+  if (range.length === 0) {
+    range = findDates(withoutTimes, marketplace.locale, vocabularies.map(v => v.rangeWords).join('|'), today)
+      .map(day => day - today);
+  }
+  if (range.length === 0) {
+    range = findWeekdays(withoutTimes, marketplace.locale, today);
+  }
+  if (range.length === 0) {
+    for (const pattern of vocabularies.flatMap(v => v.within)) {
+      const within = withoutTimes.match(pattern);
+      if (within) {
+        range = [parseInt(within[1], 10), parseInt(within[2] || within[1], 10)];
+        break;
+      }
+    }
+  }
+  if (range.length === 0) {
+    if (type === 'overnight') range = [1];
+    else if (type === 'prime') range = [PRIME_SHIPPING_DAYS];
+    else if (has(v => v.inStock)) range = [IN_STOCK_SHIPPING_DAYS];
+  }
+
+  if (range.length === 0) {
+    return { type, earliestDays: null, latestDays: null, days: null, earliestDate: null, latestDate: null };
+  }
+
+  const earliestDays = Math.min(...range);
+  const latestDays = Math.max(...range);
+  return {
+    type,
+    earliestDays,
+    latestDays,
+    days: options.choose === 'latest' ? latestDays : earliestDays,
+    earliestDate: toIsoDate(today + earliestDays),
+    latestDate: toIsoDate(today + latestDays)
+  };
+}
+
+/**
+ * Shipping days for scoring: the parsed promise, or DEFAULT_SHIPPING_DAYS when it states none
+ */
+export function resolveShippingDays(text: string | null | undefined, options: DeliveryPromiseOptions): number {
+  return parseDeliveryPromise(text, options).days ?? DEFAULT_SHIPPING_DAYS;
+}
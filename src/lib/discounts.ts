@@ -0,0 +1,71 @@
+/**
+ * Discounts and Deal Pressure
+ * Discount depth is how far a product's current price sits below its list ("was" or typical)
+ * price. Deal pressure summarizes how many competitors are discounting, and how deeply.
+ */
+
+import { DealPressure, Product } from './types';
+import { formatPrice } from './utils';
+
+/**
+ * Smallest discount that counts as a deal; list prices a few cents off are noise
+ */
+export const DEAL_MIN_DISCOUNT_PERCENT = 5;
+
+/**
+ * Deals this deep (or at least half of the competitors discounting) mean high pressure
+ */
+export const HIGH_DEAL_PRESSURE_PERCENT = 20;
+
+/**
+ * Percentage off list price, or null when the product has no list price above its price
+ */
+export function getDiscountPercent(product: Pick<Product, 'price' | 'originalPrice'>): number | null {
+  const { price, originalPrice } = product;
+  if (!originalPrice || originalPrice <= price || price <= 0) return null;
+  return Math.round(((originalPrice - price) / originalPrice) * 1000) / 10;
+}
+
+/**
+ * Short discount label, e.g. "-23% (list $49.99)", or null without a discount
+ */
+export function formatDiscount(product: Pick<Product, 'price' | 'originalPrice' | 'marketplace'>): string | null {
+  const discount = getDiscountPercent(product);
+  if (discount === null) return null;
+  return `-${Math.round(discount)}% (list ${formatPrice(product.originalPrice!, product.marketplace)})`;
+}
+
+/**
+ * Assess how hard the competitors (every product except the user's) are discounting
+ */
+export function assessDealPressure(products: Product[]): DealPressure {
+  const competitors = products.filter(p => !p.isUserProduct);
+  const discounts = competitors
+    .map(getDiscountPercent)
+    .filter((discount): discount is number => discount !== null && discount >= DEAL_MIN_DISCOUNT_PERCENT);
+
+  const discountedCount = discounts.length;
+  const averageDiscountPercent = discountedCount > 0
+    ? Math.round((discounts.reduce((sum, d) => sum + d, 0) / discountedCount) * 10) / 10
+    : 0;
+  const maxDiscountPercent = discountedCount > 0 ? Math.max(...discounts) : 0;
+
+  const level: DealPressure['level'] = discountedCount === 0
+    ? 'none'
+    : discountedCount * 2 >= competitors.length || maxDiscountPercent >= HIGH_DEAL_PRESSURE_PERCENT
+      ? 'high'
+      : 'moderate';
+
+  const summary = discountedCount === 0
+    ? 'No competitors are discounting against their list price'
+    : `${discountedCount} of ${competitors.length} competitors discounting, averaging ${Math.round(averageDiscountPercent)}% off list (deepest ${Math.round(maxDiscountPercent)}%)`;
+
+  return {
+    level,
+    discountedCount,
+    competitorCount: competitors.length,
+    averageDiscountPercent,
+    maxDiscountPercent,
+    summary
+  };
+}
@@ -1,14 +1,34 @@
 import ExcelJS from 'exceljs';
-import { Analysis } from './types';
+import { Analysis, ImageMatch, ScoreCalculation, SensitivityMargins } from './types';
+import { getScoringRubric, getRubricMaxTotal, ScoreCategory, ScoringRubric } from './scoring-rubric';
+import { formatScoreExplanation } from './scoring';
+import { analyzeSensitivity } from './sensitivity';
+import { formatPrice } from './utils';
+import { assessDealPressure, getDiscountPercent } from './discounts';
+import { assertSingleCurrency, getMarketplace } from './marketplaces';
+import { compareShippingByLocation, formatDeliveryLocation, getDeliveryPostcode } from './delivery-location';
+import { describeImagePosition } from './perceptual-hash';
+
+export interface ExcelReportOptions {
+  sensitivityMargins?: SensitivityMargins; // Fragility margins for the Sensitivity sheet
+  imageMatches?: ImageMatch[]; // Near-identical images on different ASINs, for the Shared Images sheet
+}
 
 /**
  * Generate Excel report with exact formatting from the PRD
  */
-export async function generateExcelReport(analysis: Analysis): Promise<ArrayBuffer> {
+export async function generateExcelReport(
+  analysis: Analysis,
+  options?: ExcelReportOptions
+): Promise<ArrayBuffer> {
   const workbook = new ExcelJS.Workbook();
   const worksheet = workbook.addWorksheet('Analysis');
   
   const { products, calculations } = analysis;
+  assertSingleCurrency(products, analysis.marketplace);
+  const marketplace = getMarketplace(analysis.marketplace);
+  const rubric = getScoringRubric(calculations[0]?.rubricVersion);
+  const { categories } = rubric;
   
   // Set column headers with actual product names
   const headers = ['Category', ...products.map(p => p.name)];
@@ -28,7 +48,10 @@ export async function generateExcelReport(analysis: Analysis): Promise<ArrayBuff
   let currentRow = 2;
   
   // SECTION 1: Price Competitiveness
-  worksheet.addRow(['Price Competitiveness (30)', ...products.map(p => `$${p.price.toFixed(2)}`)]);
+  worksheet.addRow([`Price Competitiveness (${categories.price.maxPoints})`, ...products.map(p => {
+    const discount = getDiscountPercent(p);
+    return formatPrice(p.price, marketplace.id) + (discount === null ? '' : ` (-${Math.round(discount)}%)`);
+  })]);
   const priceDataRow = worksheet.getRow(currentRow);
   priceDataRow.eachCell((cell, colNumber) => {
     if (colNumber > 1) { // Skip category column
@@ -39,6 +62,7 @@ export async function generateExcelReport(analysis: Analysis): Promise<ArrayBuff
   
   worksheet.addRow(['Score', ...calculations.map(c => c.priceScore)]);
   const priceScoreRow = worksheet.getRow(currentRow);
+  addExplanationNotes(priceScoreRow, calculations, 'price');
   priceScoreRow.eachCell((cell, colNumber) => {
     cell.alignment = { horizontal: 'center' };
     if (colNumber > 1) {
@@ -57,17 +81,27 @@ export async function generateExcelReport(analysis: Analysis): Promise<ArrayBuff
   currentRow++;
   
   // SECTION 2: Shipping Speed
-  worksheet.addRow(['Shipping Speed (15) zip code - 07731', ...products.map(p => `${p.shippingDays} days`)]);
+  const deliveryPostcode = getDeliveryPostcode(analysis);
+  worksheet.addRow([`Shipping Speed (${categories.shipping.maxPoints}) ${marketplace.postcodeLabel} - ${deliveryPostcode}`, ...products.map(p => `${p.shippingDays} days`)]);
   const shippingDataRow = worksheet.getRow(currentRow);
   shippingDataRow.eachCell((cell, colNumber) => {
     if (colNumber > 1) {
       cell.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: 'FFFF00' } }; // Yellow
     }
   });
+  // Flag shipping quoted for somewhere else, or for an unknown location
+  products.forEach((product, index) => {
+    if (product.deliveryPostcode !== deliveryPostcode) {
+      shippingDataRow.getCell(index + 2).note = product.deliveryPostcode
+        ? `Quoted for ${formatDeliveryLocation(product.deliveryPostcode, marketplace.id)}`
+        : 'Delivery location not recorded by the data source';
+    }
+  });
   currentRow++;
   
   worksheet.addRow(['Score', ...calculations.map(c => c.shippingScore)]);
   const shippingScoreRow = worksheet.getRow(currentRow);
+  addExplanationNotes(shippingScoreRow, calculations, 'shipping');
   shippingScoreRow.eachCell((cell, colNumber) => {
     cell.alignment = { horizontal: 'center' };
     if (colNumber > 1) {
@@ -86,7 +120,7 @@ export async function generateExcelReport(analysis: Analysis): Promise<ArrayBuff
   currentRow++;
   
   // SECTION 3: Number of Reviews
-  worksheet.addRow(['Number of Reviews (10)', ...products.map(p => p.reviewCount.toString())]);
+  worksheet.addRow([`Number of Reviews (${categories.reviews.maxPoints})`, ...products.map(p => p.reviewCount.toString())]);
   const reviewDataRow = worksheet.getRow(currentRow);
   reviewDataRow.eachCell((cell, colNumber) => {
     if (colNumber > 1) {
@@ -97,6 +131,7 @@ export async function generateExcelReport(analysis: Analysis): Promise<ArrayBuff
   
   worksheet.addRow(['Score', ...calculations.map(c => c.reviewScore)]);
   const reviewScoreRow = worksheet.getRow(currentRow);
+  addExplanationNotes(reviewScoreRow, calculations, 'reviews');
   reviewScoreRow.eachCell((cell, colNumber) => {
     cell.alignment = { horizontal: 'center' };
     if (colNumber > 1) {
@@ -115,7 +150,7 @@ export async function generateExcelReport(analysis: Analysis): Promise<ArrayBuff
   currentRow++;
   
   // SECTION 4: Review Quality
-  worksheet.addRow(['Review Quality (15)', ...products.map(p => p.rating.toString())]);
+  worksheet.addRow([`Review Quality (${categories.rating.maxPoints})`, ...products.map(p => p.rating.toString())]);
   const ratingDataRow = worksheet.getRow(currentRow);
   ratingDataRow.eachCell((cell, colNumber) => {
     if (colNumber > 1) {
@@ -126,6 +161,7 @@ export async function generateExcelReport(analysis: Analysis): Promise<ArrayBuff
   
   worksheet.addRow(['Score', ...calculations.map(c => c.ratingScore)]);
   const ratingScoreRow = worksheet.getRow(currentRow);
+  addExplanationNotes(ratingScoreRow, calculations, 'rating');
   ratingScoreRow.eachCell((cell, colNumber) => {
     cell.alignment = { horizontal: 'center' };
     if (colNumber > 1) {
@@ -148,7 +184,7 @@ export async function generateExcelReport(analysis: Analysis): Promise<ArrayBuff
   const mainImageRankings = analysis.pollResults.mainImage?.rankings || [];
   const imageStackRankings = analysis.pollResults.imageStack?.rankings || [];
   
-  worksheet.addRow(['MAIN IMAGE (10)', ...products.map(p => {
+  worksheet.addRow([`MAIN IMAGE (${categories.mainImage.maxPoints})`, ...products.map(p => {
     const ranking = mainImageRankings.find(r => r.productId === p.id);
     return ranking ? `#${ranking.rank}` : '#6';
   })]);
@@ -160,7 +196,7 @@ export async function generateExcelReport(analysis: Analysis): Promise<ArrayBuff
   });
   currentRow++;
   
-  worksheet.addRow(['IMAGES STACK (5)', ...products.map(p => {
+  worksheet.addRow([`IMAGES STACK (${categories.imageStack.maxPoints})`, ...products.map(p => {
     const ranking = imageStackRankings.find(r => r.productId === p.id);
     return ranking ? `#${ranking.rank}` : '#6';
   })]);
@@ -174,6 +210,7 @@ export async function generateExcelReport(analysis: Analysis): Promise<ArrayBuff
   
   worksheet.addRow(['Score Main', ...calculations.map(c => c.mainImageScore)]);
   const mainImageScoreRow = worksheet.getRow(currentRow);
+  addExplanationNotes(mainImageScoreRow, calculations, 'mainImage');
   mainImageScoreRow.eachCell((cell, colNumber) => {
     cell.alignment = { horizontal: 'center' };
     if (colNumber > 1) {
@@ -184,6 +221,7 @@ export async function generateExcelReport(analysis: Analysis): Promise<ArrayBuff
   
   worksheet.addRow(['Score Stack', ...calculations.map(c => c.imageStackScore)]);
   const imageStackScoreRow = worksheet.getRow(currentRow);
+  addExplanationNotes(imageStackScoreRow, calculations, 'imageStack');
   imageStackScoreRow.eachCell((cell, colNumber) => {
     cell.alignment = { horizontal: 'center' };
     if (colNumber > 1) {
@@ -213,7 +251,7 @@ export async function generateExcelReport(analysis: Analysis): Promise<ArrayBuff
   
   // SECTION 6: Features
   const featuresRankings = analysis.pollResults.features?.rankings || [];
-  worksheet.addRow(['FEATURES & FUNCTIONALITY (15)', ...products.map(p => {
+  worksheet.addRow([`FEATURES & FUNCTIONALITY (${categories.features.maxPoints})`, ...products.map(p => {
     const ranking = featuresRankings.find(r => r.productId === p.id);
     return ranking ? `#${ranking.rank}` : '#6';
   })]);
@@ -227,6 +265,7 @@ export async function generateExcelReport(analysis: Analysis): Promise<ArrayBuff
   
   worksheet.addRow(['Score', ...calculations.map(c => c.featuresScore)]);
   const featuresScoreRow = worksheet.getRow(currentRow);
+  addExplanationNotes(featuresScoreRow, calculations, 'features');
   featuresScoreRow.eachCell((cell, colNumber) => {
     cell.alignment = { horizontal: 'center' };
     if (colNumber > 1) {
@@ -245,7 +284,7 @@ export async function generateExcelReport(analysis: Analysis): Promise<ArrayBuff
   currentRow++;
   
   // FINAL ROW: Total Score
-  worksheet.addRow(['Total Score (100)', ...calculations.map(c => c.totalScore)]);
+  worksheet.addRow([`Total Score (${getRubricMaxTotal(rubric)})`, ...calculations.map(c => c.totalScore)]);
   const totalScoreRow = worksheet.getRow(currentRow);
   totalScoreRow.eachCell((cell, colNumber) => {
     cell.font = { bold: true, name: 'Calibri', size: 11 };
@@ -254,6 +293,33 @@ export async function generateExcelReport(analysis: Analysis): Promise<ArrayBuff
       cell.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: 'FFFFFF' } }; // White
     }
   });
+  currentRow++;
+  
+  // Rubric version used to produce the scores
+  const benchmark = analysis.priceBasis === 'list' ? 'prices vs lowest list price' : 'prices vs lowest price';
+  worksheet.addRow([`Scoring Rubric v${rubric.version} · ${benchmark} · ${marketplace.domain} (${marketplace.currency})`]);
+  worksheet.getRow(currentRow).font = { italic: true, name: 'Calibri', size: 9 };
+  currentRow++;
+
+  // Competitors discounting against their list prices
+  const dealPressure = assessDealPressure(products);
+  worksheet.addRow([`Deal pressure: ${dealPressure.level} · ${dealPressure.summary}`]);
+  worksheet.getRow(currentRow).font = { italic: true, name: 'Calibri', size: 9 };
+  
+  // Dedicated sheet: distance to tier boundaries and fragile scores
+  addSensitivitySheet(workbook, analysis, rubric, options?.sensitivityMargins);
+
+  // Dedicated sheet for polls run head-to-head: the per-pair win matrix
+  addHeadToHeadSheet(workbook, analysis);
+
+  // Dedicated sheet for analyses comparing delivery locations
+  addShippingByLocationSheet(workbook, analysis, rubric);
+
+  // Dedicated sheet: measured main images against Amazon's main-image rules
+  addImageComplianceSheet(workbook, analysis);
+
+  // Dedicated sheet for different ASINs sharing near-identical images
+  addSharedImagesSheet(workbook, analysis, options?.imageMatches || []);
   
   // Generate filename (used in download)
   // const asins = products.map(p => p.asin).join('_');
@@ -266,6 +332,234 @@ export async function generateExcelReport(analysis: Analysis): Promise<ArrayBuff
   return buffer;
 }
 
+/**
+ * Attach each product's score explanation to its score cell as a cell note
+ */
+function addExplanationNotes(row: ExcelJS.Row, calculations: ScoreCalculation[], category: ScoreCategory): void {
+  calculations.forEach((calculation, index) => {
+    const explanation = calculation.explanations?.[category];
+    if (explanation) {
+      row.getCell(index + 2).note = formatScoreExplanation(explanation);
+    }
+  });
+}
+
+/**
+ * Add the Sensitivity sheet: one row per product and input category, fragile rows highlighted
+ */
+function addSensitivitySheet(
+  workbook: ExcelJS.Workbook,
+  analysis: Analysis,
+  rubric: ScoringRubric,
+  margins?: SensitivityMargins
+): void {
+  const worksheet = workbook.addWorksheet('Sensitivity');
+  const report = analyzeSensitivity(analysis.products, rubric, margins, analysis.priceBasis);
+
+  worksheet.addRow(['Product', 'Category', 'Input', 'Score', 'Loses Points If', 'Points Lost', 'Gains Points If', 'Points Gained', 'Margin', 'Fragile']);
+  const headerRow = worksheet.getRow(1);
+  headerRow.font = { bold: true, name: 'Calibri', size: 11 };
+  headerRow.alignment = { horizontal: 'left' };
+
+  worksheet.getColumn(1).width = 30;
+  worksheet.getColumn(2).width = 22;
+  worksheet.getColumn(3).width = 14;
+  worksheet.getColumn(4).width = 8;
+  worksheet.getColumn(5).width = 28;
+  worksheet.getColumn(6).width = 12;
+  worksheet.getColumn(7).width = 28;
+  worksheet.getColumn(8).width = 14;
+  worksheet.getColumn(9).width = 10;
+  worksheet.getColumn(10).width = 10;
+
+  for (const product of report) {
+    for (const category of product.categories) {
+      const row = worksheet.addRow([
+        product.productName,
+        category.label,
+        category.valueDisplay,
+        category.points,
+        category.loss ? category.loss.display : '',
+        category.loss ? category.loss.pointsChange : '',
+        category.gain ? category.gain.display : 'Top tier',
+        category.gain ? category.gain.pointsChange : '',
+        category.margin,
+        category.fragile ? 'YES' : ''
+      ]);
+
+      if (category.fragile) {
+        row.eachCell((cell) => {
+          cell.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: 'FFC000' } }; // Orange
+        });
+      }
+    }
+  }
+}
+
+/**
+ * Add the Head-to-Head sheet: one win matrix per pairwise poll
+ * Each cell holds the row product's votes against the column product
+ */
+function addHeadToHeadSheet(workbook: ExcelJS.Workbook, analysis: Analysis): void {
+  const polls = [
+    { title: 'Main Image', result: analysis.pollResults.mainImage },
+    { title: 'Image Stack', result: analysis.pollResults.imageStack },
+    { title: 'Features', result: analysis.pollResults.features }
+  ].filter(poll => poll.result?.pairwise);
+  if (polls.length === 0) return;
+
+  const worksheet = workbook.addWorksheet('Head-to-Head');
+  const nameFor = (productId: string) =>
+    analysis.products.find(p => p.id === productId)?.name || productId;
+
+  worksheet.getColumn(1).width = 30;
+
+  for (const { title, result } of polls) {
+    const pairwise = result!.pairwise!;
+
+    const titleRow = worksheet.addRow([
+      `${title}: ${pairwise.pairsCompared} comparisons of ${pairwise.respondentsPerPair} respondents`
+    ]);
+    titleRow.font = { bold: true, name: 'Calibri', size: 11 };
+
+    const headerRow = worksheet.addRow(['Wins vs.', ...pairwise.productIds.map(nameFor), 'BT Strength']);
+    headerRow.font = { bold: true, name: 'Calibri', size: 10 };
+    pairwise.productIds.forEach((_, index) => {
+      worksheet.getColumn(index + 2).width = Math.max(worksheet.getColumn(index + 2).width ?? 0, 16);
+    });
+
+    pairwise.productIds.forEach((productId, i) => {
+      worksheet.addRow([
+        nameFor(productId),
+        ...pairwise.productIds.map((_, j) => {
+          const compared = i !== j && pairwise.winMatrix[i][j] + pairwise.winMatrix[j][i] > 0;
+          return compared ? pairwise.winMatrix[i][j] : '';
+        }),
+        pairwise.strengths[i]
+      ]);
+    });
+
+    worksheet.addRow([]);
+  }
+}
+
+/**
+ * Add the Shipping by Location sheet: shipping days and points per delivery location
+ * Only added when the analysis compares several locations.
+ */
+function addShippingByLocationSheet(workbook: ExcelJS.Workbook, analysis: Analysis, rubric: ScoringRubric): void {
+  const comparisonPostcodes = analysis.comparisonPostcodes || [];
+  if (comparisonPostcodes.length === 0) return;
+
+  const marketplace = getMarketplace(analysis.marketplace);
+  const comparisons = compareShippingByLocation(analysis.products, getDeliveryPostcode(analysis), comparisonPostcodes, rubric);
+  const worksheet = workbook.addWorksheet('Shipping by Location');
+
+  worksheet.addRow([`Shipping Speed (${rubric.categories.shipping.maxPoints}) by ${marketplace.postcodeLabel}`, ...analysis.products.map(p => p.name)]);
+  const headerRow = worksheet.getRow(1);
+  headerRow.font = { bold: true, name: 'Calibri', size: 11 };
+  headerRow.alignment = { horizontal: 'left' };
+
+  worksheet.getColumn(1).width = 30;
+  analysis.products.forEach((_, index) => {
+    worksheet.getColumn(index + 2).width = 15;
+  });
+
+  for (const comparison of comparisons) {
+    const label = comparison.isPrimary ? `${comparison.postcode} (scored)` : comparison.postcode;
+    const daysRow = worksheet.addRow([label, ...comparison.scores.map(score =>
+      score.shippingDays === null ? 'Not collected' : `${score.shippingDays} days`
+    )]);
+    daysRow.eachCell((cell, colNumber) => {
+      if (colNumber > 1) {
+        cell.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: 'FFFF00' } }; // Yellow
+      }
+    });
+
+    const scoreRow = worksheet.addRow(['Score', ...comparison.scores.map(score => score.points ?? '')]);
+    scoreRow.eachCell((cell) => {
+      cell.alignment = { horizontal: 'center' };
+    });
+  }
+}
+
+/**
+ * Add the Image Compliance sheet: one row per product, one column per main-image rule
+ * Failed checks are highlighted; products whose main image wasn't analyzed are listed as such.
+ */
+function addImageComplianceSheet(workbook: ExcelJS.Workbook, analysis: Analysis): void {
+  const checks = analysis.products.find(p => p.mainImageCompliance)?.mainImageCompliance?.checks;
+  if (!checks) return;
+
+  const worksheet = workbook.addWorksheet('Image Compliance');
+  worksheet.addRow(['Product', ...checks.map(check => `${check.label}\n${check.requirement}`), 'Compliant']);
+  const headerRow = worksheet.getRow(1);
+  headerRow.font = { bold: true, name: 'Calibri', size: 11 };
+  headerRow.alignment = { horizontal: 'left', wrapText: true };
+
+  worksheet.getColumn(1).width = 30;
+  checks.forEach((_, index) => {
+    worksheet.getColumn(index + 2).width = 22;
+  });
+  worksheet.getColumn(checks.length + 2).width = 12;
+
+  for (const product of analysis.products) {
+    const report = product.mainImageCompliance;
+    if (!report) {
+      worksheet.addRow([product.name, report === null ? 'Main image could not be analyzed' : 'Not analyzed']);
+      continue;
+    }
+
+    const row = worksheet.addRow([
+      product.name,
+      ...report.checks.map(check => `${check.passed ? 'PASS' : 'FAIL'} · ${check.display}`),
+      report.passed ? 'YES' : 'NO'
+    ]);
+    report.checks.forEach((check, index) => {
+      if (!check.passed) {
+        row.getCell(index + 2).fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: 'FFC7CE' } }; // Red
+      }
+    });
+  }
+}
+
+/**
+ * Add the Shared Images sheet: one row per pair of near-identical images on different ASINs
+ * Only added when there are matches.
+ */
+function addSharedImagesSheet(workbook: ExcelJS.Workbook, analysis: Analysis, matches: ImageMatch[]): void {
+  if (matches.length === 0) return;
+
+  const worksheet = workbook.addWorksheet('Shared Images');
+  const nameFor = (productId: string) =>
+    analysis.products.find(p => p.id === productId)?.name || productId;
+
+  worksheet.addRow(['Product', 'ASIN', 'Image', 'Shares With', 'ASIN', 'Image', 'Bits Apart (of 64)']);
+  const headerRow = worksheet.getRow(1);
+  headerRow.font = { bold: true, name: 'Calibri', size: 11 };
+  headerRow.alignment = { horizontal: 'left' };
+
+  worksheet.getColumn(1).width = 30;
+  worksheet.getColumn(2).width = 14;
+  worksheet.getColumn(3).width = 12;
+  worksheet.getColumn(4).width = 30;
+  worksheet.getColumn(5).width = 14;
+  worksheet.getColumn(6).width = 12;
+  worksheet.getColumn(7).width = 18;
+
+  for (const match of matches) {
+    worksheet.addRow([
+      nameFor(match.first.productId),
+      match.first.asin,
+      describeImagePosition(match.first.position),
+      nameFor(match.second.productId),
+      match.second.asin,
+      describeImagePosition(match.second.position),
+      match.distance
+    ]);
+  }
+}
+
 /**
  * Generate filename for Excel report
  */
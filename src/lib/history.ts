@@ -0,0 +1,396 @@
+/**
+ * Competitor History
+ * Tracks watched ASINs over time. Each product's history combines its fetched snapshots
+ * (see snapshot-store.ts) with the metrics and Core score it had in each finished analysis,
+ * and is checked for price drops and jumps in review velocity.
+ *
+ * Stored in the same SQLite database as the snapshots (SNAPSHOT_DB_PATH).
+ */
+
+import Database from 'better-sqlite3';
+import { mkdirSync } from 'fs';
+import path from 'path';
+import {
+  Analysis,
+  AnalysisRecord,
+  HistoryAlert,
+  HistoryPoint,
+  ProductSnapshotSummary,
+  WatchlistItem
+} from './types';
+import { DEFAULT_MARKETPLACE, MarketplaceId } from './marketplaces';
+import { getSnapshotStore, readSnapshotConfig, SnapshotConfig, SnapshotStore } from './snapshot-store';
+
+export interface AlertThresholds {
+  priceDropPercent: number; // Alert when the price falls at least this much from the previous point
+  reviewVelocityMultiplier: number; // Alert when reviews per day reach this multiple of the previous interval
+  minReviewsPerDay: number; // Ignore velocity jumps below this rate
+  minIntervalDays: number; // Shorter intervals are merged into the next one before measuring velocity
+}
+
+export const DEFAULT_ALERT_THRESHOLDS: AlertThresholds = {
+  priceDropPercent: 5,
+  reviewVelocityMultiplier: 2,
+  minReviewsPerDay: 1,
+  minIntervalDays: 1
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface WatchlistRow {
+  asin: string;
+  marketplace: string;
+  label: string | null;
+  added_at: string;
+}
+
+interface AnalysisRecordRow {
+  analysis_id: string;
+  asin: string;
+  marketplace: string;
+  recorded_at: string;
+  name: string;
+  price: number;
+  original_price: number | null;
+  shipping_days: number;
+  delivery_promise: string | null;
+  review_count: number;
+  rating: number;
+  total_score: number;
+  rubric_version: string | null;
+}
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS watchlist (
+    asin TEXT NOT NULL,
+    marketplace TEXT NOT NULL,
+    label TEXT,
+    added_at TEXT NOT NULL,
+    PRIMARY KEY (asin, marketplace)
+  );
+  CREATE TABLE IF NOT EXISTS analysis_records (
+    analysis_id TEXT NOT NULL,
+    asin TEXT NOT NULL,
+    marketplace TEXT NOT NULL,
+    recorded_at TEXT NOT NULL,
+    name TEXT NOT NULL,
+    price REAL NOT NULL,
+    original_price REAL,
+    shipping_days INTEGER NOT NULL,
+    delivery_promise TEXT,
+    review_count INTEGER NOT NULL,
+    rating REAL NOT NULL,
+    total_score REAL NOT NULL,
+    rubric_version TEXT,
+    UNIQUE (analysis_id, asin)
+  );
+  CREATE INDEX IF NOT EXISTS analysis_records_by_product
+    ON analysis_records (asin, marketplace, recorded_at);
+`;
+
+/**
+ * SQLite-backed watchlist and analysis history
+ */
+export class HistoryStore {
+  private db: Database.Database;
+
+  constructor(dbPath: string) {
+    if (dbPath !== ':memory:') {
+      mkdirSync(path.dirname(dbPath), { recursive: true });
+    }
+    this.db = new Database(dbPath);
+    this.db.pragma('journal_mode = WAL');
+    this.db.exec(SCHEMA);
+  }
+
+  addToWatchlist(asin: string, marketplace: MarketplaceId, label: string | null = null): WatchlistItem {
+    const addedAt = new Date().toISOString();
+    this.db.prepare(`
+      INSERT INTO watchlist (asin, marketplace, label, added_at) VALUES (?, ?, ?, ?)
+      ON CONFLICT (asin, marketplace) DO UPDATE SET label = excluded.label
+    `).run(asin, marketplace, label, addedAt);
+
+    const row = this.db.prepare('SELECT * FROM watchlist WHERE asin = ? AND marketplace = ?')
+      .get(asin, marketplace) as WatchlistRow;
+    return toWatchlistItem(row);
+  }
+
+  /**
+   * Stop watching a product; returns false if it wasn't watched
+   */
+  removeFromWatchlist(asin: string, marketplace: MarketplaceId): boolean {
+    return this.db.prepare('DELETE FROM watchlist WHERE asin = ? AND marketplace = ?')
+      .run(asin, marketplace).changes > 0;
+  }
+
+  watchlist(): WatchlistItem[] {
+    const rows = this.db.prepare('SELECT * FROM watchlist ORDER BY added_at').all() as WatchlistRow[];
+    return rows.map(toWatchlistItem);
+  }
+
+  /**
+   * Record the products of a finished analysis
+   * Re-recording the same analysis updates its products but keeps the original time.
+   */
+  recordAnalysis(records: AnalysisRecord[]): void {
+    const upsert = this.db.prepare(`
+      INSERT INTO analysis_records
+        (analysis_id, asin, marketplace, recorded_at, name, price, original_price, shipping_days,
+         delivery_promise, review_count, rating, total_score, rubric_version)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT (analysis_id, asin) DO UPDATE SET
+        name = excluded.name, price = excluded.price, original_price = excluded.original_price,
+        shipping_days = excluded.shipping_days, delivery_promise = excluded.delivery_promise,
+        review_count = excluded.review_count, rating = excluded.rating,
+        total_score = excluded.total_score, rubric_version = excluded.rubric_version
+    `);
+
+    this.db.transaction(() => {
+      for (const record of records) {
+        upsert.run(
+          record.analysisId,
+          record.asin,
+          record.marketplace,
+          record.recordedAt,
+          record.name,
+          record.price,
+          record.originalPrice,
+          record.shippingDays,
+          record.deliveryPromise,
+          record.reviewCount,
+          record.rating,
+          record.totalScore,
+          record.rubricVersion
+        );
+      }
+    })();
+  }
+
+  /**
+   * Analysis records of a product, oldest first
+   */
+  records(asin: string, marketplace: MarketplaceId, limit: number = 50): AnalysisRecord[] {
+    const rows = this.db.prepare(`
+      SELECT * FROM (
+        SELECT * FROM analysis_records
+        WHERE asin = ? AND marketplace = ?
+        ORDER BY recorded_at DESC
+        LIMIT ?
+      ) ORDER BY recorded_at
+    `).all(asin, marketplace, limit) as AnalysisRecordRow[];
+
+    return rows.map(toAnalysisRecord);
+  }
+
+  /**
+   * Each product's record from the most recent other analysis it appeared in, keyed by ASIN
+   */
+  previousRecords(analysisId: string, asins: string[], marketplace: MarketplaceId): Record<string, AnalysisRecord> {
+    const latest = this.db.prepare(`
+      SELECT * FROM analysis_records
+      WHERE asin = ? AND marketplace = ? AND analysis_id != ?
+      ORDER BY recorded_at DESC
+      LIMIT 1
+    `);
+
+    const previous: Record<string, AnalysisRecord> = {};
+    for (const asin of asins) {
+      const row = latest.get(asin, marketplace, analysisId) as AnalysisRecordRow | undefined;
+      if (row) previous[asin] = toAnalysisRecord(row);
+    }
+    return previous;
+  }
+
+  close(): void {
+    this.db.close();
+  }
+}
+
+function toWatchlistItem(row: WatchlistRow): WatchlistItem {
+  return {
+    asin: row.asin,
+    marketplace: row.marketplace as MarketplaceId,
+    label: row.label,
+    addedAt: row.added_at
+  };
+}
+
+function toAnalysisRecord(row: AnalysisRecordRow): AnalysisRecord {
+  return {
+    analysisId: row.analysis_id,
+    asin: row.asin,
+    marketplace: row.marketplace as MarketplaceId,
+    recordedAt: row.recorded_at,
+    name: row.name,
+    price: row.price,
+    originalPrice: row.original_price,
+    shippingDays: row.shipping_days,
+    deliveryPromise: row.delivery_promise,
+    reviewCount: row.review_count,
+    rating: row.rating,
+    totalScore: row.total_score,
+    rubricVersion: row.rubric_version
+  };
+}
+
+/**
+ * History records for the products of an analysis; products without a valid ASIN are skipped
+ */
+export function toAnalysisRecords(
+  analysis: Pick<Analysis, 'id' | 'products' | 'calculations' | 'marketplace'>,
+  recordedAt: string = new Date().toISOString()
+): AnalysisRecord[] {
+  return analysis.products.flatMap(product => {
+    const calculation = analysis.calculations.find(c => c.productId === product.id);
+    const asin = (product.asin || '').trim().toUpperCase();
+    if (!calculation || !/^[A-Z0-9]{10}$/.test(asin)) return [];
+
+    return [{
+      analysisId: analysis.id,
+      asin,
+      marketplace: product.marketplace ?? analysis.marketplace ?? DEFAULT_MARKETPLACE,
+      recordedAt,
+      name: product.name,
+      price: product.price,
+      originalPrice: product.originalPrice ?? null,
+      shippingDays: product.shippingDays,
+      deliveryPromise: product.deliveryPromise ?? null,
+      reviewCount: product.reviewCount,
+      rating: product.rating,
+      totalScore: calculation.totalScore,
+      rubricVersion: calculation.rubricVersion ?? null
+    }];
+  });
+}
+
+/**
+ * Merge snapshots and analysis records into one time series, oldest first
+ */
+export function buildSeries(snapshots: ProductSnapshotSummary[], records: AnalysisRecord[]): HistoryPoint[] {
+  const points: HistoryPoint[] = [
+    ...snapshots.map(snapshot => ({
+      at: snapshot.fetchedAt,
+      kind: 'snapshot' as const,
+      price: snapshot.price,
+      originalPrice: snapshot.originalPrice,
+      shippingDays: snapshot.shippingDays,
+      deliveryPromise: snapshot.deliveryPromise,
+      reviewCount: snapshot.reviewCount,
+      rating: snapshot.rating,
+      totalScore: null
+    })),
+    ...records.map(record => ({
+      at: record.recordedAt,
+      kind: 'analysis' as const,
+      price: record.price,
+      originalPrice: record.originalPrice,
+      shippingDays: record.shippingDays,
+      deliveryPromise: record.deliveryPromise,
+      reviewCount: record.reviewCount,
+      rating: record.rating,
+      totalScore: record.totalScore
+    }))
+  ];
+
+  return points.sort((a, b) => new Date(a.at).getTime() - new Date(b.at).getTime());
+}
+
+/**
+ * Price drops and review-velocity jumps in a time series (oldest first)
+ * Velocity is reviews gained per day between points at least minIntervalDays apart, so
+ * several fetches on the same day don't produce a spike.
+ */
+export function detectAlerts(
+  asin: string,
+  marketplace: MarketplaceId,
+  points: HistoryPoint[],
+  thresholds: AlertThresholds = DEFAULT_ALERT_THRESHOLDS
+): HistoryAlert[] {
+  const alerts: HistoryAlert[] = [];
+
+  for (let i = 1; i < points.length; i++) {
+    const previous = points[i - 1];
+    const current = points[i];
+    if (previous.price > 0 && current.price < previous.price) {
+      const dropPercent = ((previous.price - current.price) / previous.price) * 100;
+      if (dropPercent >= thresholds.priceDropPercent) {
+        alerts.push({
+          type: 'price_drop',
+          asin,
+          marketplace,
+          at: current.at,
+          message: `Price dropped ${dropPercent.toFixed(1)}%`,
+          previous: previous.price,
+          current: current.price
+        });
+      }
+    }
+  }
+
+  // Reviews per day over intervals of at least minIntervalDays
+  const intervals: Array<{ at: string; perDay: number }> = [];
+  let start = points[0];
+  for (const point of points.slice(1)) {
+    const days = (new Date(point.at).getTime() - new Date(start.at).getTime()) / DAY_MS;
+    if (days < thresholds.minIntervalDays) continue;
+    intervals.push({ at: point.at, perDay: Math.max(0, point.reviewCount - start.reviewCount) / days });
+    start = point;
+  }
+
+  for (let i = 1; i < intervals.length; i++) {
+    const previous = intervals[i - 1];
+    const current = intervals[i];
+    if (current.perDay < thresholds.minReviewsPerDay) continue;
+    if (current.perDay >= previous.perDay * thresholds.reviewVelocityMultiplier) {
+      alerts.push({
+        type: 'review_velocity',
+        asin,
+        marketplace,
+        at: current.at,
+        message: previous.perDay > 0
+          ? `Review velocity up ${(current.perDay / previous.perDay).toFixed(1)}× (${current.perDay.toFixed(1)}/day)`
+          : `Reviews picked up to ${current.perDay.toFixed(1)}/day`,
+        previous: previous.perDay,
+        current: current.perDay
+      });
+    }
+  }
+
+  return alerts.sort((a, b) => new Date(a.at).getTime() - new Date(b.at).getTime());
+}
+
+/**
+ * A product's time series and alerts from the snapshot and history stores
+ * Either store may be missing, in which case its part of the history is left out.
+ */
+export function loadProductHistory(
+  asin: string,
+  marketplace: MarketplaceId,
+  limit: number = 50,
+  snapshots: SnapshotStore | null = getSnapshotStore(),
+  history: HistoryStore | null = getHistoryStore()
+): { points: HistoryPoint[]; alerts: HistoryAlert[] } {
+  const points = buildSeries(
+    snapshots?.history(asin, marketplace, limit) ?? [],
+    history?.records(asin, marketplace, limit) ?? []
+  );
+  return { points, alerts: detectAlerts(asin, marketplace, points) };
+}
+
+let sharedStore: HistoryStore | null | undefined;
+
+/**
+ * The history store shared by every request in this server process
+ * Returns null if the database cannot be opened.
+ */
+export function getHistoryStore(config: SnapshotConfig = readSnapshotConfig()): HistoryStore | null {
+  if (sharedStore === undefined) {
+    try {
+      sharedStore = new HistoryStore(config.dbPath);
+    } catch (error) {
+      console.error(`History store unavailable at ${config.dbPath}:`, error);
+      sharedStore = null;
+    }
+  }
+  return sharedStore;
+}
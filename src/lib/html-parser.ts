@@ -0,0 +1,285 @@
+/**
+ * Amazon Product Page HTML Parser
+ * Reads product data straight from product-page HTML (live pages, crawls or "Save page as")
+ * and produces the same ScrapedProductData as the ScrapeOps parser.
+ * Checked-in pages in fixtures/products cover the current and the legacy page layouts.
+ */
+
+import * as cheerio from 'cheerio';
+import { z } from 'zod';
+import { ScrapedProductData, ScrapeOpsDataParser } from './scraper';
+import { MarketplaceId, DEFAULT_MARKETPLACE } from './marketplaces';
+
+/**
+ * Buy-box price, newest layout first
+ * Struck-through prices (data-a-strike) are list prices, never the buy-box price
+ */
+const PRICE_SELECTORS = [
+  '#corePriceDisplay_desktop_feature_div .priceToPay .a-offscreen',
+  '#corePrice_feature_div .priceToPay .a-offscreen',
+  '#apex_desktop .priceToPay .a-offscreen',
+  '#corePrice_feature_div .a-price:not([data-a-strike]) .a-offscreen',
+  '#price_inside_buybox',
+  '#newBuyBoxPrice',
+  '#priceblock_ourprice',
+  '#priceblock_dealprice'
+];
+
+/**
+ * List ("was" / "typical") price
+ */
+const LIST_PRICE_SELECTORS = [
+  '#corePriceDisplay_desktop_feature_div .basisPrice .a-offscreen',
+  '#corePrice_feature_div .basisPrice .a-offscreen',
+  '#corePriceDisplay_desktop_feature_div .a-price[data-a-strike="true"] .a-offscreen',
+  '#corePrice_feature_div .a-price[data-a-strike="true"] .a-offscreen',
+  '#listPrice',
+  '#priceblock_listprice'
+];
+
+/**
+ * Delivery message blocks, primary (buy box) delivery first
+ */
+const DELIVERY_SELECTORS = [
+  '#mir-layout-DELIVERY_BLOCK-slot-PRIMARY_DELIVERY_MESSAGE_LARGE',
+  '#mir-layout-DELIVERY_BLOCK',
+  '#deliveryBlockMessage',
+  '#delivery-message',
+  '#availability'
+];
+
+/**
+ * One gallery image in the colorImages data; hiRes is null for images without a zoom rendition
+ */
+const ColorImageSchema = z.object({
+  hiRes: z.string().nullish(),
+  large: z.string().nullish(),
+  main: z.record(z.string(), z.array(z.number())).nullish() // URL → [width, height]
+});
+
+/**
+ * Amazon HTML Parser
+ * Price, delivery and feature formatting are shared with the ScrapeOps parser so both
+ * sources produce identical values for identical listings.
+ */
+export class AmazonHtmlParser {
+  private shared: ScrapeOpsDataParser;
+
+  /**
+   * The marketplace decides how prices and delivery messages are read
+   */
+  constructor(marketplace: MarketplaceId = DEFAULT_MARKETPLACE) {
+    this.shared = new ScrapeOpsDataParser(marketplace);
+  }
+
+  /**
+   * Parse a product page
+   * The URL, when known, is used as a fallback for the ASIN; shipping days are counted from
+   * the reference date (when the page was fetched)
+   */
+  parseProductPage(html: string, url?: string, referenceDate: Date = new Date()): ScrapedProductData {
+    const $ = cheerio.load(html);
+
+    const asin = $('#ASIN').attr('value') ||
+                 $('input[name="ASIN"]').attr('value') ||
+                 $('[data-asin]').first().attr('data-asin') ||
+                 this.extractASINFromURL(url || $('link[rel="canonical"]').attr('href') || '') ||
+                 'UNKNOWN';
+
+    const bullets = $('#feature-bullets li span.a-list-item')
+      .map((_, el) => $(el).text().trim())
+      .get()
+      .filter(text => text.length > 0);
+
+    const listPrice = this.shared.parsePrice(this.firstText($, LIST_PRICE_SELECTORS));
+    const delivery = this.parseDelivery($);
+
+    return {
+      asin,
+      name: this.text($, '#productTitle') || $('title').text().trim() || 'Unknown Product',
+      price: this.shared.parsePrice(this.firstText($, PRICE_SELECTORS)),
+      originalPrice: listPrice > 0 ? listPrice : null,
+      // The bare date is the most reliable; the message adds Prime and same-day wording
+      shippingDays: this.shared.parseShippingDays(
+        [delivery.date, delivery.message].filter(Boolean).join(' · '),
+        referenceDate
+      ),
+      deliveryPromise: delivery.message,
+      reviewCount: this.parseCount(this.text($, '#acrCustomerReviewText')),
+      rating: this.parseRating($('#acrPopover').attr('title') || this.text($, '#acrPopover')),
+      imageUrls: this.parseImages($, html),
+      features: this.shared.formatFeatures(bullets),
+      rawResponse: { url, length: html.length }
+    };
+  }
+
+  /**
+   * Trimmed text of the first element matching a selector
+   * Only the first .a-offscreen copy counts; Amazon repeats prices for screen readers
+   */
+  private text($: cheerio.CheerioAPI, selector: string): string {
+    return $(selector).first().text().replace(/\s+/g, ' ').trim();
+  }
+
+  private firstText($: cheerio.CheerioAPI, selectors: string[]): string {
+    for (const selector of selectors) {
+      const value = this.text($, selector);
+      if (value) return value;
+    }
+    return '';
+  }
+
+  /**
+   * Delivery promise, e.g. "FREE delivery Tuesday, October 21"
+   * The current layout also puts the date alone in data-csa-c-delivery-time, which is
+   * what shipping days are computed from.
+   */
+  private parseDelivery($: cheerio.CheerioAPI): { message: string | null; date: string | null } {
+    const block = DELIVERY_SELECTORS.map(selector => $(selector).first()).find(el => el.length > 0);
+    if (!block) return { message: null, date: null };
+
+    const promise = block.is('[data-csa-c-delivery-time]')
+      ? block
+      : block.find('[data-csa-c-delivery-time]').first();
+    const date = promise.attr('data-csa-c-delivery-time')?.trim() || null;
+
+    // Drop "Order within ..." countdowns and "Details" links
+    const message = (promise.length > 0 ? promise : block).text()
+      .replace(/\s+/g, ' ')
+      .replace(/\.?\s*Order within.*$/i, '')
+      .replace(/\s*Details\s*$/i, '')
+      .trim();
+
+    return { message: message || null, date };
+  }
+
+  /**
+   * Parse "1,234 ratings" → 1234
+   */
+  private parseCount(text: string): number {
+    const match = text.match(/[\d,.]+/);
+    return match ? parseInt(match[0].replace(/[,.]/g, ''), 10) || 0 : 0;
+  }
+
+  /**
+   * Parse "4.5 out of 5 stars" / "4,5 von 5 Sternen" → 4.5, "5つ星のうち4.5" → 4.5
+   */
+  private parseRating(text: string): number {
+    const match = text.match(/(\d+(?:[.,]\d+)?)\s*out of/i) ||
+                  text.match(/うち\s*(\d+(?:[.,]\d+)?)/) ||
+                  text.match(/(\d+(?:[.,]\d+)?)/);
+    return match ? parseFloat(match[1].replace(',', '.')) || 0 : 0;
+  }
+
+  /**
+   * Full-resolution gallery
+   * The colorImages data in the image block script lists every gallery image with its
+   * hiRes URL. Pages without it fall back to the landing image and the thumbnails.
+   */
+  private parseImages($: cheerio.CheerioAPI, html: string): string[] {
+    const gallery = this.parseColorImages(html);
+    if (gallery.length > 0) return gallery;
+
+    const urls: string[] = [];
+    const landing = $('#landingImage');
+    const main = landing.attr('data-old-hires') ||
+                 this.largestDynamicImage(landing.attr('data-a-dynamic-image')) ||
+                 landing.attr('src');
+    if (main) urls.push(this.toFullSize(main));
+
+    $('#altImages img').each((_, el) => {
+      const src = $(el).attr('src');
+      // Skip video thumbnails and sprite placeholders
+      if (src && /\/images\/I\//.test(src)) {
+        urls.push(this.toFullSize(src));
+      }
+    });
+
+    return [...new Set(urls)];
+  }
+
+  /**
+   * Read 'colorImages': { 'initial': [...] } from the image block script
+   */
+  private parseColorImages(html: string): string[] {
+    const match = /["']colorImages["']\s*:\s*\{\s*["']initial["']\s*:\s*\[/.exec(html);
+    if (!match) return [];
+
+    const array = this.extractArray(html, match.index + match[0].length - 1);
+    if (!array) return [];
+
+    let entries: unknown;
+    try {
+      entries = JSON.parse(array);
+    } catch {
+      return [];
+    }
+    if (!Array.isArray(entries)) return [];
+
+    const urls = entries
+      .map(entry => ColorImageSchema.safeParse(entry))
+      .map(result => result.success
+        ? result.data.hiRes || result.data.large || this.largestDynamicImage(result.data.main ?? undefined)
+        : null)
+      .filter((src): src is string => typeof src === 'string' && src.length > 0);
+    return [...new Set(urls)];
+  }
+
+  /**
+   * Source text of the JSON array starting at `start`, matching brackets outside strings
+   */
+  private extractArray(text: string, start: number): string | null {
+    let depth = 0;
+    let inString = false;
+
+    for (let i = start; i < text.length; i++) {
+      const char = text[i];
+      if (inString) {
+        if (char === '\\') i++;
+        else if (char === '"') inString = false;
+      } else if (char === '"') {
+        inString = true;
+      } else if (char === '[' || char === '{') {
+        depth++;
+      } else if (char === ']' || char === '}') {
+        depth--;
+        if (depth === 0) return text.slice(start, i + 1);
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Pick the widest URL from a {"url": [width, height]} map
+   * (data-a-dynamic-image attribute, or the "main" entry of colorImages)
+   */
+  private largestDynamicImage(value: string | Record<string, number[]> | undefined): string | null {
+    if (!value) return null;
+
+    let sizes: Record<string, number[]>;
+    try {
+      sizes = typeof value === 'string' ? JSON.parse(value) : value;
+    } catch {
+      return null;
+    }
+
+    const [largest] = Object.entries(sizes).sort(([, a], [, b]) => (b?.[0] || 0) - (a?.[0] || 0));
+    return largest ? largest[0] : null;
+  }
+
+  /**
+   * Replace an image URL's size modifier with the 1500px rendition
+   */
+  private toFullSize(src: string): string {
+    return src.replace(/\._[^/]*_\./, '._AC_SL1500_.');
+  }
+
+  /**
+   * Extract ASIN from an Amazon URL
+   */
+  private extractASINFromURL(url: string): string | null {
+    const match = url.match(/\/dp\/([A-Z0-9]{10})|\/gp\/product\/([A-Z0-9]{10})/i);
+    return match ? (match[1] || match[2]) : null;
+  }
+}
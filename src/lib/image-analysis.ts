@@ -0,0 +1,279 @@
+/**
+ * Image Analysis
+ * Deterministic measurements of product main images against Amazon's main-image rules:
+ * pure white background, product filling at least 85% of the frame, enough resolution for
+ * zoom, a near-square aspect ratio, sharpness and file size. Images are decoded with sharp on
+ * the server, so the same image always gets the same report. Perceptual hashes for duplicate
+ * detection are computed here too.
+ */
+
+import sharp from 'sharp';
+import { ImageCheck, ImageComplianceReport, ImageHash, ImageMatch } from './types';
+import { HASH_SIZE, NEAR_DUPLICATE_MAX_DISTANCE, ProductImages, averageHash, differenceHash, findImageMatches } from './perceptual-hash';
+
+/**
+ * Thresholds the checks are measured against
+ */
+export interface ImageComplianceRules {
+  minWhiteBorderPercent: number; // Share of border pixels that must be pure white
+  minFillPercent: number; // Product's longer side relative to the frame
+  minLongestSidePx: number; // Amazon enables zoom from 1000 px
+  maxAspectRatio: number; // Longer side / shorter side
+  minSharpness: number; // Variance of the Laplacian over the product
+  maxFileSizeBytes: number;
+}
+
+export const DEFAULT_IMAGE_COMPLIANCE_RULES: ImageComplianceRules = {
+  minWhiteBorderPercent: 95,
+  minFillPercent: 85,
+  minLongestSidePx: 1000,
+  maxAspectRatio: 1.25,
+  minSharpness: 100,
+  maxFileSizeBytes: 10 * 1024 * 1024
+};
+
+/**
+ * A channel at or above this counts as white; JPEG compression rarely keeps #FFFFFF exact
+ */
+const WHITE_CHANNEL_MIN = 250;
+
+/**
+ * A pixel with any channel below this belongs to the product (or its shadow)
+ */
+const PRODUCT_CHANNEL_MAX = 240;
+
+/**
+ * Images are measured at this size; resolution and file size come from the original
+ */
+const ANALYSIS_MAX_SIDE = 800;
+
+/**
+ * Custom error for images sharp cannot decode
+ */
+export class ImageAnalysisError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ImageAnalysisError';
+  }
+}
+
+/**
+ * Measure one image against the main-image rules
+ * Transparent pixels are treated as white, the way Amazon displays them.
+ */
+export async function analyzeMainImage(
+  image: Buffer,
+  rules: ImageComplianceRules = DEFAULT_IMAGE_COMPLIANCE_RULES
+): Promise<ImageComplianceReport> {
+  let width: number;
+  let height: number;
+  let pixels: { data: Buffer; info: sharp.OutputInfo };
+  try {
+    const metadata = await sharp(image).metadata();
+    width = metadata.autoOrient?.width ?? metadata.width ?? 0;
+    height = metadata.autoOrient?.height ?? metadata.height ?? 0;
+    pixels = await sharp(image)
+      .rotate()
+      .flatten({ background: '#ffffff' })
+      .resize(ANALYSIS_MAX_SIDE, ANALYSIS_MAX_SIDE, { fit: 'inside', withoutEnlargement: true })
+      .removeAlpha()
+      .raw()
+      .toBuffer({ resolveWithObject: true });
+  } catch (error) {
+    throw new ImageAnalysisError(`Could not decode image: ${error instanceof Error ? error.message : 'unknown format'}`);
+  }
+
+  const { data, info } = pixels;
+  const measured = measurePixels(data, info.width, info.height, info.channels);
+  const longestSide = Math.max(width, height);
+  const aspectRatio = Math.max(width, height) / Math.max(1, Math.min(width, height));
+
+  const checks: ImageCheck[] = [
+    {
+      id: 'background',
+      label: 'White background',
+      value: measured.whiteBorderPercent,
+      display: `${Math.round(measured.whiteBorderPercent)}% white border`,
+      requirement: `≥ ${rules.minWhiteBorderPercent}% pure white (#FFFFFF)`,
+      passed: measured.whiteBorderPercent >= rules.minWhiteBorderPercent
+    },
+    {
+      id: 'fill',
+      label: 'Product fill',
+      value: measured.fillPercent,
+      display: `${Math.round(measured.fillPercent)}% of frame`,
+      requirement: `≥ ${rules.minFillPercent}% of frame`,
+      passed: measured.fillPercent >= rules.minFillPercent
+    },
+    {
+      id: 'resolution',
+      label: 'Resolution',
+      value: longestSide,
+      display: `${width} × ${height} px`,
+      requirement: `≥ ${rules.minLongestSidePx} px on the longer side`,
+      passed: longestSide >= rules.minLongestSidePx
+    },
+    {
+      id: 'aspectRatio',
+      label: 'Aspect ratio',
+      value: Math.round(aspectRatio * 100) / 100,
+      display: `${(Math.round(aspectRatio * 100) / 100).toFixed(2)}:1`,
+      requirement: `≤ ${rules.maxAspectRatio.toFixed(2)}:1 (square preferred)`,
+      passed: aspectRatio <= rules.maxAspectRatio
+    },
+    {
+      id: 'sharpness',
+      label: 'Sharpness',
+      value: Math.round(measured.sharpness),
+      display: `${Math.round(measured.sharpness)}`,
+      requirement: `≥ ${rules.minSharpness} (Laplacian variance)`,
+      passed: measured.sharpness >= rules.minSharpness
+    },
+    {
+      id: 'fileSize',
+      label: 'File size',
+      value: image.length,
+      display: formatBytes(image.length),
+      requirement: `≤ ${formatBytes(rules.maxFileSizeBytes)}`,
+      passed: image.length <= rules.maxFileSizeBytes
+    }
+  ];
+
+  return {
+    width,
+    height,
+    fileSizeBytes: image.length,
+    checks,
+    passed: checks.every(check => check.passed)
+  };
+}
+
+/**
+ * Border whiteness, product bounding box and sharpness of decoded RGB pixels
+ */
+function measurePixels(data: Buffer, width: number, height: number, channels: number) {
+  const at = (x: number, y: number) => (y * width + x) * channels;
+  const isWhite = (i: number) => data[i] >= WHITE_CHANNEL_MIN && data[i + 1] >= WHITE_CHANNEL_MIN && data[i + 2] >= WHITE_CHANNEL_MIN;
+  const isProduct = (i: number) => data[i] < PRODUCT_CHANNEL_MAX || data[i + 1] < PRODUCT_CHANNEL_MAX || data[i + 2] < PRODUCT_CHANNEL_MAX;
+
+  // Border band: 2% of the shorter side, at least one pixel
+  const band = Math.max(1, Math.round(Math.min(width, height) * 0.02));
+  let borderPixels = 0;
+  let whitePixels = 0;
+  const rowCounts = new Array<number>(height).fill(0);
+  const columnCounts = new Array<number>(width).fill(0);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = at(x, y);
+      if (x < band || y < band || x >= width - band || y >= height - band) {
+        borderPixels++;
+        if (isWhite(i)) whitePixels++;
+      }
+      if (isProduct(i)) {
+        rowCounts[y]++;
+        columnCounts[x]++;
+      }
+    }
+  }
+
+  // Ignore rows and columns with only a few stray pixels (dust, compression noise)
+  const first = (counts: number[], min: number) => counts.findIndex(count => count > min);
+  const last = (counts: number[], min: number) => counts.length - 1 - [...counts].reverse().findIndex(count => count > min);
+  const minRow = Math.max(1, width * 0.002);
+  const minColumn = Math.max(1, height * 0.002);
+  const top = first(rowCounts, minRow);
+  const left = first(columnCounts, minColumn);
+
+  if (top === -1 || left === -1) {
+    return { whiteBorderPercent: percent(whitePixels, borderPixels), fillPercent: 0, sharpness: 0 };
+  }
+
+  const bottom = last(rowCounts, minRow);
+  const right = last(columnCounts, minColumn);
+  const fillPercent = Math.max((right - left + 1) / width, (bottom - top + 1) / height) * 100;
+
+  // Variance of the 4-neighbour Laplacian of luminance inside the product's bounding box
+  const luminance = (x: number, y: number) => {
+    const i = at(x, y);
+    return 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+  };
+  let count = 0;
+  let sum = 0;
+  let sumOfSquares = 0;
+  for (let y = Math.max(1, top); y <= Math.min(height - 2, bottom); y++) {
+    for (let x = Math.max(1, left); x <= Math.min(width - 2, right); x++) {
+      const laplacian = luminance(x - 1, y) + luminance(x + 1, y) + luminance(x, y - 1) + luminance(x, y + 1) - 4 * luminance(x, y);
+      count++;
+      sum += laplacian;
+      sumOfSquares += laplacian * laplacian;
+    }
+  }
+  const sharpness = count > 0 ? sumOfSquares / count - (sum / count) ** 2 : 0;
+
+  return { whiteBorderPercent: percent(whitePixels, borderPixels), fillPercent: Math.min(100, fillPercent), sharpness };
+}
+
+function percent(part: number, whole: number): number {
+  return whole > 0 ? (part / whole) * 100 : 0;
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes >= 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${Math.round(bytes / 1024)} KB`;
+}
+
+/**
+ * Decode a base64 data URL (or bare base64) into bytes
+ */
+export function decodeDataUrl(dataUrl: string): Buffer {
+  return Buffer.from(dataUrl.replace(/^data:[^;,]+;base64,/, ''), 'base64');
+}
+
+/**
+ * aHash and dHash of an image
+ * Transparent pixels count as white, so a cut-out and the same photo on white hash alike.
+ */
+export async function hashImage(image: Buffer): Promise<ImageHash> {
+  const grid = async (width: number) => {
+    const { data } = await sharp(image)
+      .rotate()
+      .flatten({ background: '#ffffff' })
+      .grayscale()
+      .resize(width, HASH_SIZE, { fit: 'fill' })
+      .raw()
+      .toBuffer({ resolveWithObject: true });
+    return data;
+  };
+
+  try {
+    const [averageGrid, differenceGrid] = await Promise.all([grid(HASH_SIZE), grid(HASH_SIZE + 1)]);
+    return { aHash: averageHash(averageGrid), dHash: differenceHash(differenceGrid) };
+  } catch (error) {
+    throw new ImageAnalysisError(`Could not decode image: ${error instanceof Error ? error.message : 'unknown format'}`);
+  }
+}
+
+/**
+ * Near-identical images shared by different ASINs
+ * Images that are missing, remote or undecodable are skipped.
+ */
+export async function findProductImageMatches(
+  products: ProductImages[],
+  maxDistance: number = NEAR_DUPLICATE_MAX_DISTANCE
+): Promise<ImageMatch[]> {
+  const hashed = await Promise.all(products.map(async product => ({
+    productId: product.productId,
+    asin: product.asin,
+    hashes: await Promise.all(product.images.map(async image => {
+      if (!image || /^https?:/.test(image)) return null;
+      try {
+        return await hashImage(decodeDataUrl(image));
+      } catch {
+        return null;
+      }
+    }))
+  })));
+
+  return findImageMatches(hashed, maxDistance);
+}
@@ -0,0 +1,220 @@
+/**
+ * Image Normalization
+ * Images leave the server resized to a longest edge, re-encoded to one format and quality and
+ * stripped of metadata (EXIF, ICC, XMP), so analyses stay light in browser storage and poll requests
+ * stay small. Originals are kept in the original image store (see image-store.ts) and swapped
+ * back in for the reports, so polls get the light version and reports the crisp one.
+ *
+ * The per-analysis byte budget is split evenly over the most images an analysis can hold, so
+ * every image can be normalized on its own (e.g. as products stream in) and the analysis
+ * still fits.
+ *
+ * Environment:
+ * - IMAGE_MAX_EDGE_PX: longest edge after resizing (default 1024)
+ * - IMAGE_FORMAT: webp, jpeg or png (default webp)
+ * - IMAGE_QUALITY: encoder quality 1-100 for webp and jpeg (default 80)
+ * - IMAGE_BUDGET_MB: normalized image bytes per analysis (default 3)
+ */
+
+import sharp from 'sharp';
+import { Product } from './types';
+import { ImageAnalysisError, decodeDataUrl } from './image-analysis';
+import { OriginalImageStore } from './image-store';
+
+export type NormalizedImageFormat = 'webp' | 'jpeg' | 'png';
+
+export interface ImageNormalizationConfig {
+  maxEdgePx: number;
+  format: NormalizedImageFormat;
+  quality: number;
+  budgetBytes: number; // Per analysis
+}
+
+export const DEFAULT_IMAGE_NORMALIZATION: ImageNormalizationConfig = {
+  maxEdgePx: 1024,
+  format: 'webp',
+  quality: 80,
+  budgetBytes: 3 * 1024 * 1024
+};
+
+/**
+ * Most images in one analysis: 6 products (Core 6) with a main image and 8 additional images each
+ */
+export const MAX_IMAGES_PER_ANALYSIS = 6 * 9;
+
+/**
+ * Images over their share of the budget are re-encoded at lower quality down to this, then smaller
+ */
+const MIN_QUALITY = 40;
+const MIN_EDGE_PX = 256;
+
+const MEDIA_TYPES: Record<NormalizedImageFormat, string> = {
+  webp: 'image/webp',
+  jpeg: 'image/jpeg',
+  png: 'image/png'
+};
+
+export interface NormalizedImage {
+  data: Buffer;
+  mediaType: string;
+  width: number;
+  height: number;
+}
+
+/**
+ * Read the normalization settings from the environment, falling back to the defaults for missing or invalid values
+ */
+export function readImageNormalizationConfig(env: NodeJS.ProcessEnv = process.env): ImageNormalizationConfig {
+  const read = (name: string, fallback: number) => {
+    const value = Number(env[name]);
+    return env[name] && Number.isFinite(value) && value > 0 ? value : fallback;
+  };
+  const format = env.IMAGE_FORMAT?.toLowerCase();
+
+  return {
+    maxEdgePx: Math.max(MIN_EDGE_PX, Math.floor(read('IMAGE_MAX_EDGE_PX', DEFAULT_IMAGE_NORMALIZATION.maxEdgePx))),
+    format: format === 'webp' || format === 'jpeg' || format === 'png' ? format : DEFAULT_IMAGE_NORMALIZATION.format,
+    quality: Math.min(100, Math.floor(read('IMAGE_QUALITY', DEFAULT_IMAGE_NORMALIZATION.quality))),
+    budgetBytes: Math.floor(read('IMAGE_BUDGET_MB', DEFAULT_IMAGE_NORMALIZATION.budgetBytes / (1024 * 1024)) * 1024 * 1024)
+  };
+}
+
+/**
+ * Largest normalized image that keeps a full analysis within the budget
+ */
+export function getImageByteCap(config: ImageNormalizationConfig): number {
+  return Math.floor(config.budgetBytes / MAX_IMAGES_PER_ANALYSIS);
+}
+
+/**
+ * Resize, re-encode and strip one image, lowering quality and then size until it fits its share
+ * of the budget. Images that can't get under it at the minimum settings are returned at those.
+ */
+export async function normalizeImage(
+  image: Buffer,
+  config: ImageNormalizationConfig = readImageNormalizationConfig()
+): Promise<NormalizedImage> {
+  const cap = getImageByteCap(config);
+  let edge = config.maxEdgePx;
+  let quality = config.quality;
+
+  for (;;) {
+    let encoded: { data: Buffer; info: sharp.OutputInfo };
+    try {
+      // sharp drops metadata unless asked to keep it; rotate() applies the EXIF orientation first
+      let pipeline = sharp(image)
+        .rotate()
+        .resize(edge, edge, { fit: 'inside', withoutEnlargement: true });
+      if (config.format === 'jpeg') pipeline = pipeline.flatten({ background: '#ffffff' });
+      encoded = await pipeline
+        .toFormat(config.format, config.format === 'png' ? { compressionLevel: 9 } : { quality })
+        .toBuffer({ resolveWithObject: true });
+    } catch (error) {
+      throw new ImageAnalysisError(`Could not decode image: ${error instanceof Error ? error.message : 'unknown format'}`);
+    }
+
+    const qualityExhausted = config.format === 'png' || quality <= MIN_QUALITY;
+    if (encoded.data.length <= cap || (qualityExhausted && edge <= MIN_EDGE_PX)) {
+      return {
+        data: encoded.data,
+        mediaType: MEDIA_TYPES[config.format],
+        width: encoded.info.width,
+        height: encoded.info.height
+      };
+    }
+
+    if (!qualityExhausted) {
+      quality = Math.max(MIN_QUALITY, quality - 10);
+    } else {
+      edge = Math.max(MIN_EDGE_PX, Math.round(edge * 0.75));
+    }
+  }
+}
+
+/**
+ * Normalize a base64 data URL and keep its original in the store
+ * Images that are already normalized come back unchanged.
+ */
+export async function normalizeDataUrl(
+  dataUrl: string,
+  store: OriginalImageStore | null,
+  config: ImageNormalizationConfig = readImageNormalizationConfig()
+): Promise<{ dataUrl: string; mediaType: string; size: number }> {
+  const original = decodeDataUrl(dataUrl);
+  const originalType = dataUrl.match(/^data:([^;,]+);base64,/)?.[1] || 'image/jpeg';
+
+  if (store?.find(original)) {
+    return { dataUrl, mediaType: originalType, size: original.length };
+  }
+
+  const normalized = await normalizeImage(original, config);
+  try {
+    store?.save(normalized.data, { data: original, mediaType: originalType });
+  } catch (error) {
+    console.error('Could not store original image:', error);
+  }
+
+  return {
+    dataUrl: `data:${normalized.mediaType};base64,${normalized.data.toString('base64')}`,
+    mediaType: normalized.mediaType,
+    size: normalized.data.length
+  };
+}
+
+/**
+ * Products with their images replaced by the stored originals, as data URLs
+ * Images without a stored original (remote, or normalized elsewhere) are kept as they are.
+ */
+export function restoreOriginalImages(products: Product[], store: OriginalImageStore | null): Product[] {
+  if (!store) return products;
+
+  const restore = (image: Product['mainImage']): Product['mainImage'] => {
+    const dataUrl = typeof image === 'string' ? image : image?.base64 ? `data:${image.mediaType};base64,${image.base64}` : '';
+    if (!dataUrl || /^https?:/.test(dataUrl)) return image;
+
+    try {
+      const original = store.find(decodeDataUrl(dataUrl));
+      return original ? `data:${original.mediaType};base64,${original.data.toString('base64')}` : image;
+    } catch (error) {
+      console.error('Could not read original image:', error);
+      return image;
+    }
+  };
+
+  return products.map(product => ({
+    ...product,
+    mainImage: restore(product.mainImage),
+    additionalImages: (product.additionalImages || []).map(restore)
+  }));
+}
+
+/**
+ * An image ready to embed in a Word report
+ */
+export interface ReportImage {
+  data: Buffer; // JPEG
+  width: number;
+  height: number;
+}
+
+/**
+ * JPEG of an image for embedding in a report, at most maxEdgePx on its longest side
+ * Returns null for missing, remote or undecodable images.
+ */
+export async function renderReportImage(image: Product['mainImage'], maxEdgePx: number = 600): Promise<ReportImage | null> {
+  const dataUrl = typeof image === 'string' ? image : image?.base64 || '';
+  if (!dataUrl || /^https?:/.test(dataUrl)) return null;
+
+  try {
+    const { data, info } = await sharp(decodeDataUrl(dataUrl))
+      .rotate()
+      .flatten({ background: '#ffffff' })
+      .resize(maxEdgePx, maxEdgePx, { fit: 'inside', withoutEnlargement: true })
+      .jpeg({ quality: 90 })
+      .toBuffer({ resolveWithObject: true });
+    return { data, width: info.width, height: info.height };
+  } catch (error) {
+    console.error('Could not render report image:', error);
+    return null;
+  }
+}
@@ -4,6 +4,15 @@
  * Implements exact specifications from PRD v2.1 Section 5.3.2
  */
 
+import { HostRateLimiter, DEFAULT_FETCH_LIMITS, parseRetryAfter } from './rate-limiter';
+import { ImageHash } from './types';
+import { isNearDuplicate } from './perceptual-hash';
+
+/**
+ * How often a download is tried again after a 429
+ */
+const MAX_RATE_LIMIT_RETRIES = 3;
+
 /**
  * Processed Image Data with Blob
  */
@@ -23,15 +32,44 @@ export interface ProcessedImages {
   additionalImages: ImageData[]; // Max 8 per PRD
 }
 
+/**
+ * Custom error for failed image downloads
+ * status lets the host limiter recognise a 429
+ */
+export class ImageDownloadError extends Error {
+  constructor(
+    message: string,
+    public status?: number,
+    public retryAfterMs?: number
+  ) {
+    super(message);
+    this.name = 'ImageDownloadError';
+  }
+}
+
+/**
+ * Computes the perceptual hash of a downloaded image (e.g. with sharp on the server)
+ */
+export type ImageHasher = (image: Blob) => Promise<ImageHash>;
+
 /**
  * Image Processor Class
  * Handles downloading, converting to Blobs, caching, and cleanup
+ * Downloads run in parallel, limited per image host
+ * With a hasher, the same photo at another resolution or compression counts as a duplicate;
+ * without one only byte-identical images do.
  */
 export class ImageProcessor {
   private imageCache: Map<string, Blob>;
   private objectUrls: Set<string>; // Track created object URLs for cleanup
   
-  constructor() {
+  constructor(
+    private hostLimiter: HostRateLimiter = new HostRateLimiter({
+      requestsPerSecond: DEFAULT_FETCH_LIMITS.imageHostRequestsPerSecond,
+      concurrency: DEFAULT_FETCH_LIMITS.imageHostConcurrency
+    }),
+    private hashImage?: ImageHasher
+  ) {
     this.imageCache = new Map();
     this.objectUrls = new Set();
   }
@@ -54,25 +92,56 @@ export class ImageProcessor {
     // Remove duplicate URLs to prevent the same image appearing multiple times
     const uniqueImageUrls = [...new Set(imageUrls)];
     
-    // Process all images first to get their content
-    const processedImages: ImageData[] = [];
-    for (let i = 0; i < uniqueImageUrls.length; i++) {
-      try {
-        const imageData = await this.downloadAndConvertImage(uniqueImageUrls[i]);
-        if (imageData) {
-          processedImages.push(imageData);
+    // Download all images in parallel; Promise.all keeps them in gallery order
+    const downloads = await Promise.all(
+      uniqueImageUrls.map(async (url, i) => {
+        try {
+          return await this.downloadAndConvertImage(url);
+        } catch (error) {
+          console.error(`Failed to process image ${i}:`, error);
+          // Continue with next image
+          return null;
         }
+      })
+    );
+    const processedImages = downloads.filter((imageData): imageData is ImageData => imageData !== null);
+    
+    const uniqueImages = this.hashImage
+      ? await this.dedupePerceptually(processedImages, this.hashImage)
+      : await this.dedupeExact(processedImages);
+    
+    // Set main image (first unique image)
+    if (uniqueImages.length > 0) {
+      processed.mainImage = uniqueImages[0];
+    }
+    
+    // Set additional images (remaining unique images, up to 8 per PRD)
+    const maxAdditional = Math.min(uniqueImages.length - 1, 8);
+    for (let i = 1; i <= maxAdditional; i++) {
+      processed.additionalImages.push(uniqueImages[i]);
+    }
+    
+    
+    // Log the actual image data to verify no duplication
+    if (processed.mainImage && processed.additionalImages.length > 0) {
+      try {
+        
       } catch (error) {
-        console.error(`Failed to process image ${i}:`, error);
-        // Continue with next image
+        console.error(`Failed to compare images for logging:`, error);
       }
     }
     
-    // Content-based deduplication: compare blob data to remove identical images
+    return processed;
+  }
+  
+  /**
+   * Content-based deduplication: compare blob data to remove identical images
+   */
+  private async dedupeExact(images: ImageData[]): Promise<ImageData[]> {
     const uniqueImages: ImageData[] = [];
     const seenBlobs = new Set<string>();
     
-    for (const imageData of processedImages) {
+    for (const imageData of images) {
       // Convert blob to base64 for comparison
       try {
         const arrayBuffer = await imageData.blob.arrayBuffer();
@@ -82,7 +151,6 @@ export class ImageProcessor {
         if (!seenBlobs.has(base64Content)) {
           seenBlobs.add(base64Content);
           uniqueImages.push(imageData);
-        } else {
         }
       } catch (error) {
         console.error(`Failed to process image for deduplication:`, error);
@@ -91,29 +159,34 @@ export class ImageProcessor {
       }
     }
     
+    return uniqueImages;
+  }
+  
+  /**
+   * Perceptual deduplication: drop images whose hash is near one already kept
+   * A duplicate keeps the gallery position of the first copy but the larger file, which is
+   * usually the higher resolution.
+   */
+  private async dedupePerceptually(images: ImageData[], hashImage: ImageHasher): Promise<ImageData[]> {
+    const kept: { image: ImageData; hash: ImageHash | null }[] = [];
     
-    // Set main image (first unique image)
-    if (uniqueImages.length > 0) {
-      processed.mainImage = uniqueImages[0];
-    }
-    
-    // Set additional images (remaining unique images, up to 8 per PRD)
-    const maxAdditional = Math.min(uniqueImages.length - 1, 8);
-    for (let i = 1; i <= maxAdditional; i++) {
-      processed.additionalImages.push(uniqueImages[i]);
-    }
-    
-    
-    // Log the actual image data to verify no duplication
-    if (processed.mainImage && processed.additionalImages.length > 0) {
+    for (const image of images) {
+      let hash: ImageHash | null = null;
       try {
-        
+        hash = await hashImage(image.blob);
       } catch (error) {
-        console.error(`Failed to compare images for logging:`, error);
+        console.error(`Failed to hash image ${image.originalUrl} for deduplication:`, error);
+      }
+      
+      const duplicate = hash && kept.find(entry => entry.hash && isNearDuplicate(entry.hash, hash!));
+      if (!duplicate) {
+        kept.push({ image, hash });
+      } else if (image.size > duplicate.image.size) {
+        duplicate.image = image;
       }
     }
     
-    return processed;
+    return kept.map(entry => entry.image);
   }
   
   /**
@@ -147,16 +220,7 @@ export class ImageProcessor {
       }
       
       // Download image
-      const response = await fetch(url, {
-        mode: 'cors', // Handle CORS
-        cache: 'default'
-      });
-      
-      if (!response.ok) {
-        throw new Error(`Failed to fetch image: ${response.status}`);
-      }
-      
-      const blob = await response.blob();
+      const blob = await this.downloadBlob(url);
       
       // Validate image type
       if (!blob.type.startsWith('image/')) {
@@ -189,6 +253,53 @@ export class ImageProcessor {
     }
   }
   
+  /**
+   * Fetch an image through the host limiter
+   * A 429 pauses that host for every download, then this one is tried again
+   */
+  private async downloadBlob(url: string, attempt: number = 0): Promise<Blob> {
+    try {
+      return await this.hostLimiter.schedule(url, async () => {
+        const response = await fetch(url, {
+          mode: 'cors', // Handle CORS
+          cache: 'default'
+        });
+        
+        if (!response.ok) {
+          throw new ImageDownloadError(
+            `Failed to fetch image: ${response.status}`,
+            response.status,
+            parseRetryAfter(response.headers.get('retry-after'))
+          );
+        }
+        
+        return response.blob();
+      });
+    } catch (error) {
+      if (error instanceof ImageDownloadError && error.status === 429 && attempt < MAX_RATE_LIMIT_RETRIES) {
+        return this.downloadBlob(url, attempt + 1);
+      }
+      throw error;
+    }
+  }
+  
+  /**
+   * Rebuild an image from a base64 data URL (e.g. from a stored snapshot)
+   */
+  restoreImage(base64: string, originalUrl: string): ImageData {
+    const blob = this.base64ToBlob(base64);
+    const objectUrl = URL.createObjectURL(blob);
+    this.objectUrls.add(objectUrl);
+    
+    return {
+      blob,
+      url: objectUrl,
+      originalUrl,
+      size: blob.size,
+      type: blob.type
+    };
+  }
+  
   /**
    * Clean up object URLs when done
    * MUST be called to prevent memory leaks
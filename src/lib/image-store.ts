@@ -0,0 +1,97 @@
+/**
+ * Original Image Store
+ * Full-size originals of the images sent to the browser in normalized form (see
+ * image-normalization.ts). Each original is keyed by the SHA-256 of its normalized bytes, so
+ * any image found in an analysis leads back to its original without tracking where it sits
+ * in a product's gallery.
+ *
+ * Stored in the same SQLite database as the snapshots (SNAPSHOT_DB_PATH).
+ */
+
+import Database from 'better-sqlite3';
+import { createHash } from 'crypto';
+import { mkdirSync } from 'fs';
+import path from 'path';
+import { readSnapshotConfig, SnapshotConfig } from './snapshot-store';
+
+/**
+ * An original image with its media type
+ */
+export interface OriginalImage {
+  data: Buffer;
+  mediaType: string;
+}
+
+interface OriginalImageRow {
+  media_type: string;
+  data: Buffer;
+}
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS original_images (
+    normalized_sha256 TEXT PRIMARY KEY,
+    media_type TEXT NOT NULL,
+    data BLOB NOT NULL,
+    stored_at TEXT NOT NULL
+  );
+`;
+
+/**
+ * Key of a normalized image in the store
+ */
+export function normalizedImageKey(normalized: Buffer): string {
+  return createHash('sha256').update(normalized).digest('hex');
+}
+
+/**
+ * SQLite-backed store of original images
+ */
+export class OriginalImageStore {
+  private db: Database.Database;
+
+  constructor(dbPath: string) {
+    if (dbPath !== ':memory:') {
+      mkdirSync(path.dirname(dbPath), { recursive: true });
+    }
+    this.db = new Database(dbPath);
+    this.db.pragma('journal_mode = WAL');
+    this.db.exec(SCHEMA);
+  }
+
+  /**
+   * Keep the original of a normalized image; storing the same pair again is a no-op
+   */
+  save(normalized: Buffer, original: OriginalImage): void {
+    this.db.prepare(`
+      INSERT OR IGNORE INTO original_images (normalized_sha256, media_type, data, stored_at) VALUES (?, ?, ?, ?)
+    `).run(normalizedImageKey(normalized), original.mediaType, original.data, new Date().toISOString());
+  }
+
+  /**
+   * Original of a normalized image, or null if it wasn't normalized here
+   */
+  find(normalized: Buffer): OriginalImage | null {
+    const row = this.db.prepare('SELECT media_type, data FROM original_images WHERE normalized_sha256 = ?')
+      .get(normalizedImageKey(normalized)) as OriginalImageRow | undefined;
+    return row ? { data: row.data, mediaType: row.media_type } : null;
+  }
+}
+
+let sharedStore: OriginalImageStore | null | undefined;
+
+/**
+ * The original image store shared by every request in this server process
+ * Returns null if the database cannot be opened; images are then still normalized, but
+ * reports fall back to the normalized versions.
+ */
+export function getOriginalImageStore(config: SnapshotConfig = readSnapshotConfig()): OriginalImageStore | null {
+  if (sharedStore === undefined) {
+    try {
+      sharedStore = new OriginalImageStore(config.dbPath);
+    } catch (error) {
+      console.error(`Original image store unavailable at ${config.dbPath}:`, error);
+      sharedStore = null;
+    }
+  }
+  return sharedStore;
+}
@@ -0,0 +1,172 @@
+/**
+ * Amazon Marketplaces
+ * Domain, currency, locale and scoring rubric for every supported marketplace, plus the
+ * locale-aware price parsing used by the data sources (delivery promises are parsed in
+ * delivery-promise.ts).
+ */
+
+import { getScoringRubric, ScoringRubric } from './scoring-rubric';
+
+export type MarketplaceId = 'us' | 'ca' | 'uk' | 'de' | 'fr' | 'it' | 'es' | 'jp';
+
+export interface Marketplace {
+  id: MarketplaceId;
+  name: string;
+  domain: string; // e.g. amazon.co.uk
+  tld: string; // ScrapeOps tld parameter
+  country: string; // ScrapeOps country parameter
+  currency: string; // ISO 4217 code
+  locale: string; // BCP 47 locale for formatting and month names
+  language: DeliveryLanguage;
+  timeZone: string; // IANA time zone delivery dates are counted in
+  postcodeLabel: string;
+  referencePostcode: string; // Delivery location shipping times are quoted for
+  maxPrice: number; // Upper bound for a plausible price, in the marketplace currency
+  rubricVersion: string; // Scoring rubric used for analyses in this marketplace
+}
+
+export type DeliveryLanguage = 'en' | 'de' | 'fr' | 'it' | 'es' | 'ja';
+
+export const DEFAULT_MARKETPLACE: MarketplaceId = 'us';
+
+const MAX_PRICE = 100000;
+
+export const MARKETPLACES: Record<MarketplaceId, Marketplace> = {
+  us: {
+    id: 'us', name: 'United States', domain: 'amazon.com', tld: 'com', country: 'us',
+    currency: 'USD', locale: 'en-US', language: 'en', timeZone: 'America/New_York',
+    postcodeLabel: 'zip code', referencePostcode: '07731', rubricVersion: '2.0',
+    maxPrice: MAX_PRICE
+  },
+  ca: {
+    id: 'ca', name: 'Canada', domain: 'amazon.ca', tld: 'ca', country: 'ca',
+    currency: 'CAD', locale: 'en-CA', language: 'en', timeZone: 'America/Toronto',
+    postcodeLabel: 'postal code', referencePostcode: 'M5V 3L9', rubricVersion: '2.0-intl',
+    maxPrice: MAX_PRICE
+  },
+  uk: {
+    id: 'uk', name: 'United Kingdom', domain: 'amazon.co.uk', tld: 'co.uk', country: 'uk',
+    currency: 'GBP', locale: 'en-GB', language: 'en', timeZone: 'Europe/London',
+    postcodeLabel: 'postcode', referencePostcode: 'SW1A 1AA', rubricVersion: '2.0-intl',
+    maxPrice: MAX_PRICE
+  },
+  de: {
+    id: 'de', name: 'Germany', domain: 'amazon.de', tld: 'de', country: 'de',
+    currency: 'EUR', locale: 'de-DE', language: 'de', timeZone: 'Europe/Berlin',
+    postcodeLabel: 'postcode', referencePostcode: '10115', rubricVersion: '2.0-intl',
+    maxPrice: MAX_PRICE
+  },
+  fr: {
+    id: 'fr', name: 'France', domain: 'amazon.fr', tld: 'fr', country: 'fr',
+    currency: 'EUR', locale: 'fr-FR', language: 'fr', timeZone: 'Europe/Paris',
+    postcodeLabel: 'postcode', referencePostcode: '75001', rubricVersion: '2.0-intl',
+    maxPrice: MAX_PRICE
+  },
+  it: {
+    id: 'it', name: 'Italy', domain: 'amazon.it', tld: 'it', country: 'it',
+    currency: 'EUR', locale: 'it-IT', language: 'it', timeZone: 'Europe/Rome',
+    postcodeLabel: 'postcode', referencePostcode: '00118', rubricVersion: '2.0-intl',
+    maxPrice: MAX_PRICE
+  },
+  es: {
+    id: 'es', name: 'Spain', domain: 'amazon.es', tld: 'es', country: 'es',
+    currency: 'EUR', locale: 'es-ES', language: 'es', timeZone: 'Europe/Madrid',
+    postcodeLabel: 'postcode', referencePostcode: '28001', rubricVersion: '2.0-intl',
+    maxPrice: MAX_PRICE
+  },
+  jp: {
+    id: 'jp', name: 'Japan', domain: 'amazon.co.jp', tld: 'co.jp', country: 'jp',
+    currency: 'JPY', locale: 'ja-JP', language: 'ja', timeZone: 'Asia/Tokyo',
+    postcodeLabel: 'postcode', referencePostcode: '100-0001', rubricVersion: '2.0-intl',
+    maxPrice: MAX_PRICE * 100
+  }
+};
+
+export const MARKETPLACE_IDS = Object.keys(MARKETPLACES) as MarketplaceId[];
+
+export function isMarketplaceId(value: unknown): value is MarketplaceId {
+  return typeof value === 'string' && value in MARKETPLACES;
+}
+
+/**
+ * Look up a marketplace; analyses saved before marketplaces existed are US
+ */
+export function getMarketplace(id?: MarketplaceId | null): Marketplace {
+  return MARKETPLACES[id && isMarketplaceId(id) ? id : DEFAULT_MARKETPLACE];
+}
+
+/**
+ * Scoring rubric for analyses in a marketplace
+ */
+export function getMarketplaceRubric(id?: MarketplaceId | null): ScoringRubric {
+  return getScoringRubric(getMarketplace(id).rubricVersion);
+}
+
+/**
+ * Custom error for analyses that mix products priced in different currencies
+ */
+export class CurrencyMismatchError extends Error {
+  constructor(
+    public currencies: string[]
+  ) {
+    super(`Products are priced in different currencies (${currencies.join(', ')}). An analysis can only compare products from one currency.`);
+    this.name = 'CurrencyMismatchError';
+  }
+}
+
+/**
+ * Currencies used by a set of products, in order of first appearance
+ */
+export function getProductCurrencies(products: { marketplace?: MarketplaceId }[]): string[] {
+  return [...new Set(products.map(p => getMarketplace(p.marketplace).currency))];
+}
+
+/**
+ * Throw if the products are priced in more than one currency
+ * When the analysis marketplace is given, its currency must match as well
+ */
+export function assertSingleCurrency(
+  products: { marketplace?: MarketplaceId }[],
+  analysisMarketplace?: MarketplaceId
+): void {
+  const currencies = getProductCurrencies(
+    analysisMarketplace ? [{ marketplace: analysisMarketplace }, ...products] : products
+  );
+  if (currencies.length > 1) {
+    throw new CurrencyMismatchError(currencies);
+  }
+}
+
+/**
+ * Parse a price as shown in any marketplace: "$1,177.91", "1.177,91 €", "£12.99", "￥1,178", "EUR 12,99"
+ * A lone separator followed by exactly three digits is a thousands separator; when both
+ * separators appear the last one is the decimal separator.
+ */
+export function parseLocalePrice(value: string | number | null | undefined, id?: MarketplaceId | null): number {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : 0;
+  if (!value) return 0;
+
+  // Keep the first number only ("€12,99 - €15,99", "$19.99 ($0.50 / count)")
+  const match = value.replace(/[\s  ]/g, '').match(/\d[\d.,']*/);
+  if (!match) return 0;
+
+  let number = match[0].replace(/'/g, '').replace(/[.,]$/, '');
+  const lastComma = number.lastIndexOf(',');
+  const lastDot = number.lastIndexOf('.');
+
+  if (getMarketplace(id).currency === 'JPY') {
+    number = number.replace(/[.,]/g, '');
+  } else if (lastComma !== -1 && lastDot !== -1) {
+    const decimal = lastComma > lastDot ? ',' : '.';
+    const thousands = decimal === ',' ? '.' : ',';
+    number = number.split(thousands).join('').replace(decimal, '.');
+  } else if (lastComma !== -1 || lastDot !== -1) {
+    const separator = lastComma !== -1 ? ',' : '.';
+    const parts = number.split(separator);
+    const isThousands = parts.length > 2 || parts[parts.length - 1].length === 3;
+    number = isThousands ? parts.join('') : parts.join('.');
+  }
+
+  const price = parseFloat(number);
+  return isNaN(price) ? 0 : price;
+}
@@ -1,21 +1,45 @@
 import Anthropic from '@anthropic-ai/sdk';
 import { OCRExtraction } from './types';
 import { withRetry, DEFAULT_OCR_RETRY_CONFIG, getUserFriendlyErrorMessage } from './retry';
+import { OCR_TOOL_NAME, OcrToolInputSchema, StructuredOutputError, createTool, parseToolInput } from './structured-output';
+import { MarketplaceId, DEFAULT_MARKETPLACE, getMarketplace } from './marketplaces';
+import { resolveShippingDays } from './delivery-promise';
 
 const anthropic = new Anthropic({
   apiKey: process.env.ANTHROPIC_API_KEY,
 });
 
+const OCR_TOOL = createTool(
+  OCR_TOOL_NAME,
+  'Record the price, delivery date, review count and star rating read from an Amazon product page screenshot.',
+  OcrToolInputSchema
+);
+
 // Check if API key is loaded
 if (!process.env.ANTHROPIC_API_KEY) {
   throw new Error('API key not configured');
 }
 
+/**
+ * When and where a screenshot was taken, for counting shipping days
+ */
+export interface ScreenshotReference {
+  referenceDate?: Date; // Defaults to now
+  timeZone?: string; // Defaults to the marketplace's time zone
+}
+
 /**
  * Extract data from Amazon product page screenshot using Claude Vision
  * Includes automatic retry with exponential backoff for transient errors
+ * The marketplace tells the model which currency and language to expect
  */
-export async function extractDataFromScreenshot(imageBase64: string, mediaType: string = 'image/jpeg'): Promise<OCRExtraction> {
+export async function extractDataFromScreenshot(
+  imageBase64: string,
+  mediaType: string = 'image/jpeg',
+  marketplaceId: MarketplaceId = DEFAULT_MARKETPLACE,
+  reference: ScreenshotReference = {}
+): Promise<OCRExtraction> {
+  const marketplace = getMarketplace(marketplaceId);
   // Validate and normalize media type
   const validMediaTypes = ['image/jpeg', 'image/png', 'image/gif', 'image/webp'] as const;
   const normalizedMediaType = validMediaTypes.includes(mediaType as any) ? mediaType as 'image/jpeg' | 'image/png' | 'image/gif' | 'image/webp' : 'image/jpeg';
@@ -27,28 +51,24 @@ export async function extractDataFromScreenshot(imageBase64: string, mediaType:
           model: "claude-3-7-sonnet-20250219",
           max_tokens: 1000,
           temperature: 0,
+          tools: [OCR_TOOL],
+          tool_choice: { type: 'tool', name: OCR_TOOL_NAME },
           messages: [
             {
               role: "user",
               content: [
                 {
                   type: "text",
-                  text: `Extract the following data from this Amazon product page screenshot:
+                  text: `Extract the following data from this Amazon product page screenshot (${marketplace.domain}, prices in ${marketplace.currency}):
 
 1. Price (look for the main price, ignore crossed-out list prices)
 2. Shipping date (find text like "FREE delivery Thursday, October 16" or "Get it by Tuesday")
 3. Number of reviews (find the review count number)
 4. Star rating (find the star rating like 4.7)
 
-Return ONLY a JSON object with this exact format:
-{
-  "price": 80.99,
-  "shippingDate": "Thursday, October 16",
-  "reviews": 1345,
-  "rating": 4.7
-}
+Record the data by calling the ${OCR_TOOL_NAME} tool. If the image is blank or is not an Amazon product page, set isAmazonProductPage to false and leave the other fields null.
 
-Be precise with the numbers. Do not include dollar signs in the price, just the number.`
+Be precise with the numbers. Do not include currency symbols in the price, just the number, with a decimal point (12,99 € is 12.99). Record the shipping date exactly as written on the page, in its original language.`
                 },
                 {
                   type: "image",
@@ -72,97 +92,54 @@ Be precise with the numbers. Do not include dollar signs in the price, just the
       }
     );
 
-    const content = response.content[0];
-    
-    if (content.type !== 'text') {
-      throw new Error('Unexpected response type from Claude');
-    }
+    // Validate the tool call; missing fields are errors rather than silently zero
+    const parsed = parseToolInput(response, OCR_TOOL_NAME, OcrToolInputSchema);
 
-    const extractedText = content.text;
-    
-    // Parse the JSON response
-    const jsonMatch = extractedText.match(/\{[\s\S]*\}/);
-    if (!jsonMatch) {
-      console.error('No JSON found in response. Full text:', extractedText);
-      
-      // Check if Claude is saying the image is blank/invalid
-      if (extractedText.toLowerCase().includes('blank') || 
-          extractedText.toLowerCase().includes('white') ||
-          extractedText.toLowerCase().includes('cannot extract') ||
-          extractedText.toLowerCase().includes('no amazon product')) {
-        throw new Error('Invalid or blank image. Please upload a clear screenshot of an Amazon product page.');
-      }
-      
-      throw new Error('No JSON found in Claude response');
+    if (!parsed.isAmazonProductPage) {
+      throw new StructuredOutputError('Invalid or blank image. Please upload a clear screenshot of an Amazon product page.');
     }
 
-    const parsed = JSON.parse(jsonMatch[0]);
+    const missing = (['price', 'shippingDate', 'reviews', 'rating'] as const).filter(field => parsed[field] === null);
+    if (missing.length > 0) {
+      throw new StructuredOutputError(
+        'Could not read every field from the screenshot',
+        missing.map(field => `${field}: not found`)
+      );
+    }
     
-    // Calculate shipping days from today
-    const shippingDays = calculateShippingDays(parsed.shippingDate);
+    // Count shipping days from when the screenshot was taken, in the marketplace's language
+    const shippingDays = resolveShippingDays(parsed.shippingDate!, {
+      referenceDate: reference.referenceDate ?? new Date(),
+      timeZone: reference.timeZone,
+      marketplace: marketplace.id
+    });
     
     return {
-      price: parsed.price,
-      shippingDate: parsed.shippingDate,
+      price: parsed.price!,
+      shippingDate: parsed.shippingDate!,
       shippingDays,
-      reviews: parsed.reviews,
-      rating: parsed.rating
+      reviews: parsed.reviews!,
+      rating: parsed.rating!
     };
 
   } catch (error) {
+    // Contract violations are reported as-is rather than as a transient API error
+    if (error instanceof StructuredOutputError) {
+      throw error;
+    }
+
     const userMessage = getUserFriendlyErrorMessage(error);
     throw new Error(userMessage);
   }
 }
 
-/**
- * Calculate shipping days from a date string
- */
-function calculateShippingDays(shippingDateStr: string): number {
-  try {
-    // Handle various Amazon date formats
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-    
-    let targetDate: Date;
-    
-    // Handle "Thursday, October 16" format
-    if (shippingDateStr.includes(',')) {
-      const parts = shippingDateStr.split(',');
-      if (parts.length === 2) {
-        const monthDay = parts[1].trim();
-        const currentYear = today.getFullYear();
-        targetDate = new Date(`${monthDay}, ${currentYear}`);
-      } else {
-        targetDate = new Date(shippingDateStr);
-      }
-    } else {
-      targetDate = new Date(shippingDateStr);
-    }
-    
-    // If the date is in the past, assume it's for next year
-    if (targetDate < today) {
-      targetDate.setFullYear(targetDate.getFullYear() + 1);
-    }
-    
-    const diffTime = targetDate.getTime() - today.getTime();
-    const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24));
-    
-    return Math.max(0, diffDays);
-    
-  } catch (error) {
-    console.error('Error calculating shipping days:', error);
-    return 0;
-  }
-}
-
 /**
  * Validate extracted data
  */
-export function validateOCRExtraction(data: OCRExtraction): boolean {
+export function validateOCRExtraction(data: OCRExtraction, marketplaceId: MarketplaceId = DEFAULT_MARKETPLACE): boolean {
   return (
     data.price > 0 &&
-    data.price < 100000 && // Reasonable price limit
+    data.price < getMarketplace(marketplaceId).maxPrice && // Reasonable price limit
     data.shippingDays >= 0 &&
     data.shippingDays <= 30 && // Reasonable shipping limit
     data.reviews >= 0 &&
@@ -0,0 +1,357 @@
+/**
+ * Minimum-Change Optimizer
+ * Searches the scoring rubric tiers for the cheapest combinations of moves that take
+ * the user product to the Pass threshold or to rank #1
+ */
+
+import { Analysis, OptimizerWeights, Product, ScenarioOverrides } from './types';
+import { ScoringRubric, RubricCategory, RubricTier, ScoreCategory, getScoringRubric, scoreAgainstCategory } from './scoring-rubric';
+import { findTargetPrice, getPriceBenchmark } from './scoring';
+import { runScenario, ScenarioStanding } from './scenarios';
+import { SCORE_THRESHOLDS, formatPrice } from './utils';
+import { getMarketplace } from './marketplaces';
+
+/**
+ * Optimization goals
+ * - pass: reach the Pass threshold (75 points)
+ * - rank1: outscore every competitor
+ */
+export type OptimizationGoal = 'pass' | 'rank1';
+
+/**
+ * Levers the user can pull, each with its own unit
+ */
+export type OptimizerLever = 'price' | 'shipping' | 'reviews' | 'rating' | 'pollPlaces';
+
+/**
+ * Default effort/cost weights
+ * Cost of one unit: $1 price cut, 1 day faster shipping, 100 reviews, 0.1 stars, 1 poll place
+ */
+export const DEFAULT_OPTIMIZER_WEIGHTS: OptimizerWeights = {
+  pricePerDollar: 1,
+  shippingPerDay: 5,
+  reviewsPerHundred: 5,
+  ratingPerTenth: 10,
+  pollPerPlace: 4
+};
+
+/**
+ * A single move on one lever
+ */
+export interface OptimizationMove {
+  lever: OptimizerLever;
+  category: ScoreCategory;
+  from: number;
+  to: number;
+  amount: number; // Size of the move in the lever's unit
+  unit: string;
+  pointsGained: number;
+  cost: number;
+  description: string;
+}
+
+/**
+ * A combination of moves that reaches the goal
+ */
+export interface OptimizationPlan {
+  moves: OptimizationMove[];
+  totalCost: number;
+  pointsGained: number;
+  overrides: ScenarioOverrides;
+  projected: ScenarioStanding;
+}
+
+/**
+ * Optimizer output
+ */
+export interface OptimizationResult {
+  goal: OptimizationGoal;
+  targetScore: number; // Score the additive search aims for
+  baseline: ScenarioStanding;
+  alreadyMet: boolean;
+  plans: OptimizationPlan[]; // Cheapest first
+}
+
+interface LeverOptions {
+  category: ScoreCategory;
+  options: OptimizationMove[];
+  maxGain: number;
+}
+
+/**
+ * Find the cheapest combinations of moves that reach the goal
+ *
+ * The search is additive over the user product's own category scores. For the rank #1
+ * goal it targets one point above the current best competitor, which is conservative:
+ * competitors can only lose points when the user product gets cheaper or climbs a poll.
+ * Every returned plan is re-scored with the scenario engine to confirm it meets the goal.
+ */
+export function findMinimumChangePlans(
+  analysis: Analysis,
+  goal: OptimizationGoal,
+  weights: OptimizerWeights = DEFAULT_OPTIMIZER_WEIGHTS,
+  maxPlans: number = 5,
+  rubric?: ScoringRubric
+): OptimizationResult {
+  const userProduct = analysis.products.find(p => p.isUserProduct);
+  if (!userProduct) {
+    throw new Error('The optimizer requires a Core 6 analysis with a user product');
+  }
+
+  const activeRubric = rubric || getScoringRubric(analysis.calculations[0]?.rubricVersion);
+  const baseline = runScenario(analysis, {}, activeRubric).baseline;
+
+  const competitorBest = Math.max(
+    ...analysis.calculations.filter(c => c.productId !== userProduct.id).map(c => c.totalScore)
+  );
+  const targetScore = goal === 'pass' ? SCORE_THRESHOLDS.pass : competitorBest + 1;
+  const alreadyMet = goal === 'pass' ? baseline.totalScore >= targetScore : baseline.rank === 1;
+
+  if (alreadyMet) {
+    return { goal, targetScore, baseline, alreadyMet, plans: [] };
+  }
+
+  const levers = buildLeverOptions(analysis, userProduct, activeRubric, weights);
+  const needed = targetScore - baseline.totalScore;
+  const candidates = searchCombinations(levers, needed, maxPlans * 3);
+
+  const plans: OptimizationPlan[] = [];
+  for (const moves of candidates) {
+    const overrides = movesToOverrides(moves);
+    const projected = runScenario(analysis, overrides, activeRubric).projected;
+    const meetsGoal = goal === 'pass'
+      ? projected.totalScore >= SCORE_THRESHOLDS.pass
+      : projected.rank === 1;
+
+    if (meetsGoal) {
+      plans.push({
+        moves,
+        totalCost: roundCost(moves.reduce((sum, m) => sum + m.cost, 0)),
+        pointsGained: moves.reduce((sum, m) => sum + m.pointsGained, 0),
+        overrides,
+        projected
+      });
+    }
+    if (plans.length >= maxPlans) break;
+  }
+
+  return { goal, targetScore, baseline, alreadyMet, plans };
+}
+
+/**
+ * Enumerate the tier-reaching moves available on each lever
+ */
+function buildLeverOptions(
+  analysis: Analysis,
+  product: Product,
+  rubric: ScoringRubric,
+  weights: OptimizerWeights
+): LeverOptions[] {
+  const { categories } = rubric;
+  const levers: LeverOptions[] = [];
+
+  // Price: cut to the highest whole-cent price inside each better tier
+  const lowestPrice = getPriceBenchmark(analysis.products, analysis.priceBasis);
+  const currentPricePoints = scoreAgainstCategory(categories.price, ((product.price / lowestPrice) - 1) * 100);
+  levers.push(toLever('price', categories.price.tiers
+    .filter(tier => tier.points > currentPricePoints)
+    .map(tier => {
+      const target = findTargetPrice(lowestPrice, tier.threshold);
+      const cut = roundCost(product.price - target);
+      return {
+        lever: 'price' as const,
+        category: 'price' as const,
+        from: product.price,
+        to: target,
+        amount: cut,
+        unit: getMarketplace(product.marketplace).currency,
+        pointsGained: tier.points - currentPricePoints,
+        cost: roundCost(cut * weights.pricePerDollar),
+        description: `Cut price by ${formatPrice(cut, product.marketplace)} to ${formatPrice(target, product.marketplace)}`
+      };
+    })
+    .filter(move => move.amount > 0)));
+
+  // Shipping: deliver within each faster tier
+  levers.push(toLever('shipping', thresholdMoves(categories.shipping, product.shippingDays, (tier, points) => {
+    const saved = product.shippingDays - tier.threshold;
+    return {
+      lever: 'shipping',
+      category: 'shipping',
+      from: product.shippingDays,
+      to: tier.threshold,
+      amount: saved,
+      unit: 'days',
+      pointsGained: points,
+      cost: roundCost(saved * weights.shippingPerDay),
+      description: `Ship ${saved} day${saved === 1 ? '' : 's'} faster (${tier.threshold}-day delivery)`
+    };
+  }, value => value >= 0)));
+
+  // Reviews: grow into each higher review-count tier
+  levers.push(toLever('reviews', thresholdMoves(categories.reviews, product.reviewCount, (tier, points) => {
+    const needed = Math.ceil(tier.threshold - product.reviewCount);
+    return {
+      lever: 'reviews',
+      category: 'reviews',
+      from: product.reviewCount,
+      to: tier.threshold,
+      amount: needed,
+      unit: 'reviews',
+      pointsGained: points,
+      cost: roundCost((needed / 100) * weights.reviewsPerHundred),
+      description: `Gain ${needed.toLocaleString('en-US')} reviews (to ${tier.threshold.toLocaleString('en-US')})`
+    };
+  })));
+
+  // Rating: raise into each higher star tier
+  levers.push(toLever('rating', thresholdMoves(categories.rating, product.rating, (tier, points) => {
+    const tenths = Math.round((tier.threshold - product.rating) * 100) / 10;
+    return {
+      lever: 'rating',
+      category: 'rating',
+      from: product.rating,
+      to: tier.threshold,
+      amount: tenths,
+      unit: 'tenths of a star',
+      pointsGained: points,
+      cost: roundCost(tenths * weights.ratingPerTenth),
+      description: `Raise rating by ${(tenths / 10).toFixed(1)} stars (to ${tier.threshold.toFixed(1)})`
+    };
+  }, value => value <= 5)));
+
+  // Polls: climb to each better place in each poll
+  const pollLevers: { category: 'mainImage' | 'imageStack' | 'features'; label: string }[] = [
+    { category: 'mainImage', label: 'main image' },
+    { category: 'imageStack', label: 'image stack' },
+    { category: 'features', label: 'features' }
+  ];
+  for (const { category, label } of pollLevers) {
+    const currentRank = analysis.pollResults[category]?.rankings.find(r => r.productId === product.id)?.rank;
+    const definition = categories[category];
+    const moves: OptimizationMove[] = [];
+
+    if (currentRank) {
+      const currentPoints = scoreAgainstCategory(definition, currentRank);
+      for (let rank = currentRank - 1; rank >= 1; rank--) {
+        const points = scoreAgainstCategory(definition, rank) - currentPoints;
+        const places = currentRank - rank;
+        if (points <= 0) continue;
+        moves.push({
+          lever: 'pollPlaces',
+          category,
+          from: currentRank,
+          to: rank,
+          amount: places,
+          unit: 'poll places',
+          pointsGained: points,
+          cost: roundCost(places * weights.pollPerPlace),
+          description: `Climb ${places} place${places === 1 ? '' : 's'} in the ${label} poll (to #${rank})`
+        });
+      }
+    }
+
+    levers.push(toLever(category, moves));
+  }
+
+  return levers;
+}
+
+/**
+ * Moves into each better tier of a threshold category
+ */
+function thresholdMoves(
+  definition: RubricCategory,
+  value: number,
+  build: (tier: RubricTier, points: number) => OptimizationMove,
+  isReachable: (threshold: number) => boolean = () => true
+): OptimizationMove[] {
+  const currentPoints = scoreAgainstCategory(definition, value);
+  return definition.tiers
+    .filter(tier => tier.points > currentPoints && isReachable(tier.threshold))
+    .map(tier => build(tier, tier.points - currentPoints));
+}
+
+function toLever(category: ScoreCategory, options: OptimizationMove[]): LeverOptions {
+  return {
+    category,
+    options: options.sort((a, b) => a.cost - b.cost),
+    maxGain: options.reduce((max, o) => Math.max(max, o.pointsGained), 0)
+  };
+}
+
+/**
+ * Branch-and-bound search for the cheapest minimal move combinations reaching the needed gain
+ */
+function searchCombinations(levers: LeverOptions[], needed: number, limit: number): OptimizationMove[][] {
+  const results: { moves: OptimizationMove[]; cost: number }[] = [];
+  const remainingGain = levers.map((_, i) => levers.slice(i).reduce((sum, l) => sum + l.maxGain, 0));
+
+  const visit = (index: number, gain: number, cost: number, moves: OptimizationMove[]) => {
+    if (results.length >= limit && cost >= results[results.length - 1].cost) return;
+
+    if (gain >= needed) {
+      if (isMinimal(moves, needed)) {
+        results.push({ moves, cost });
+        results.sort((a, b) => a.cost - b.cost);
+        if (results.length > limit) results.pop();
+      }
+      return;
+    }
+
+    if (index >= levers.length || gain + remainingGain[index] < needed) return;
+
+    // Leave this lever untouched
+    visit(index + 1, gain, cost, moves);
+
+    for (const option of levers[index].options) {
+      visit(index + 1, gain + option.pointsGained, cost + option.cost, [...moves, option]);
+    }
+  };
+
+  visit(0, 0, 0, []);
+  return results.map(r => r.moves);
+}
+
+/**
+ * A combination is minimal when no single move can be dropped while still reaching the goal
+ */
+function isMinimal(moves: OptimizationMove[], needed: number): boolean {
+  const total = moves.reduce((sum, m) => sum + m.pointsGained, 0);
+  return moves.every(m => total - m.pointsGained < needed);
+}
+
+/**
+ * Convert a plan's moves into scenario overrides
+ */
+export function movesToOverrides(moves: OptimizationMove[]): ScenarioOverrides {
+  const overrides: ScenarioOverrides = {};
+
+  for (const move of moves) {
+    switch (move.category) {
+      case 'price': overrides.price = move.to; break;
+      case 'shipping': overrides.shippingDays = move.to; break;
+      case 'reviews': overrides.reviewCount = move.to; break;
+      case 'rating': overrides.rating = move.to; break;
+      case 'mainImage':
+      case 'imageStack':
+      case 'features':
+        overrides.pollRanks = { ...overrides.pollRanks, [move.category]: move.to };
+        break;
+    }
+  }
+
+  return overrides;
+}
+
+/**
+ * One-line summary of a plan, used by the UI and the Word report
+ * maxTotal is the total points available under the rubric the plan was scored with
+ */
+export function describePlan(plan: OptimizationPlan, maxTotal: number): string {
+  return `${plan.moves.map(m => m.description).join(' + ')} → ${plan.projected.totalScore}/${maxTotal}, rank #${plan.projected.rank} (+${plan.pointsGained} pts, effort ${plan.totalCost})`;
+}
+
+function roundCost(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,128 @@
+/**
+ * Pairwise Poll Ranking
+ * Schedules head-to-head comparisons and fits a Bradley-Terry model to the votes, turning
+ * them into percentages and ranks in the same shape as a ranking poll's PollResult.rankings.
+ */
+
+import { PollResult } from './types';
+import { roundToTotal } from './utils';
+
+/**
+ * Bradley-Terry fitting
+ * - BT_PRIOR: virtual wins given to each side of every pair, so products that never win
+ *   (or were never compared) keep a finite strength, shrunk towards the field
+ * - BT_MAX_ITERATIONS / BT_TOLERANCE: convergence limits for the MM algorithm
+ */
+const BT_PRIOR = 0.5;
+const BT_MAX_ITERATIONS = 1000;
+const BT_TOLERANCE = 1e-9;
+const MIN_PERCENTAGE = 0.1;
+
+/**
+ * Number of round-robin rounds needed to compare every pair once
+ */
+export function maxPairwiseRounds(productCount: number): number {
+  return productCount % 2 === 0 ? productCount - 1 : productCount;
+}
+
+/**
+ * Schedule head-to-head pairs with the round-robin circle method
+ * Every product appears at most once per round, so running only the first few rounds gives
+ * a balanced subset in which each product is compared equally often.
+ */
+export function schedulePairs(productIds: string[], rounds?: number): [string, string][] {
+  const slots: (string | null)[] = [...productIds];
+  if (slots.length % 2 === 1) slots.push(null); // Bye slot for an odd field
+
+  const totalRounds = maxPairwiseRounds(productIds.length);
+  const roundCount = Math.min(totalRounds, Math.max(1, rounds ?? totalRounds));
+  const half = slots.length / 2;
+  const pairs: [string, string][] = [];
+
+  for (let round = 0; round < roundCount; round++) {
+    for (let i = 0; i < half; i++) {
+      const a = slots[i];
+      const b = slots[slots.length - 1 - i];
+      if (a !== null && b !== null) {
+        // Alternate sides by round so no product is always listed first
+        pairs.push(round % 2 === 0 ? [a, b] : [b, a]);
+      }
+    }
+    // Keep the first slot fixed and rotate the rest
+    slots.splice(1, 0, slots.pop()!);
+  }
+
+  return pairs;
+}
+
+/**
+ * Fit Bradley-Terry strengths to a win matrix with the MM algorithm (Hunter, 2004)
+ * winMatrix[i][j] is the number of votes for i over j. Strengths are normalised to sum to 1.
+ */
+export function fitBradleyTerry(winMatrix: number[][], prior: number = BT_PRIOR): number[] {
+  const n = winMatrix.length;
+  if (n === 0) return [];
+
+  const wins = winMatrix.map((row, i) =>
+    row.reduce((sum, w, j) => (i === j ? sum : sum + w + prior), 0)
+  );
+  let strengths = new Array(n).fill(1 / n);
+
+  for (let iteration = 0; iteration < BT_MAX_ITERATIONS; iteration++) {
+    const next = strengths.map((strength, i) => {
+      let denominator = 0;
+      for (let j = 0; j < n; j++) {
+        if (i === j) continue;
+        const comparisons = winMatrix[i][j] + winMatrix[j][i] + 2 * prior;
+        denominator += comparisons / (strength + strengths[j]);
+      }
+      return denominator > 0 ? wins[i] / denominator : strength;
+    });
+
+    const total = next.reduce((sum, s) => sum + s, 0);
+    const normalised = next.map(s => s / total);
+    const change = Math.max(...normalised.map((s, i) => Math.abs(s - strengths[i])));
+    strengths = normalised;
+    if (change < BT_TOLERANCE) break;
+  }
+
+  return strengths;
+}
+
+/**
+ * Turn a win matrix into poll rankings
+ * Each product's percentage is its share of the total Bradley-Terry strength.
+ */
+export function rankFromWinMatrix(
+  productIds: string[],
+  winMatrix: number[][]
+): { rankings: PollResult['rankings']; strengths: number[] } {
+  const strengths = fitBradleyTerry(winMatrix);
+  const totalWins = winMatrix.map(row => row.reduce((sum, w) => sum + w, 0));
+
+  // Strength order, with raw votes won as the tie-breaker
+  const order = productIds
+    .map((productId, index) => ({ productId, index }))
+    .sort((a, b) =>
+      strengths[b.index] - strengths[a.index] || totalWins[b.index] - totalWins[a.index]
+    );
+  const percentages = roundToTotal(order.map(o => strengths[o.index] * 100), 100, 1);
+
+  // A lopsided sweep can round the weakest products to 0%; every product keeps a share
+  // (polls never report 0%), taken from the leader so the total stays 100
+  for (let position = 1; position < percentages.length; position++) {
+    if (percentages[position] < MIN_PERCENTAGE) {
+      percentages[0] = Math.round((percentages[0] - (MIN_PERCENTAGE - percentages[position])) * 10) / 10;
+      percentages[position] = MIN_PERCENTAGE;
+    }
+  }
+
+  return {
+    rankings: order.map((o, position) => ({
+      productId: o.productId,
+      rank: position + 1,
+      percentage: percentages[position]
+    })),
+    strengths
+  };
+}
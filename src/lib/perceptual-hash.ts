@@ -0,0 +1,167 @@
+/**
+ * Perceptual Hashing
+ * aHash and dHash fingerprints of images that survive resizing and recompression, compared by
+ * Hamming distance. Used to drop repeated photos within a listing and to find different ASINs
+ * sharing near-identical images (e.g. a reseller copying a listing). Decoding images into the
+ * grayscale grids hashed here is left to the caller (sharp on the server, see image-analysis.ts).
+ */
+
+import { CompleteProductData, ImageHash, ImageMatch, Product } from './types';
+
+/**
+ * Side of the hash grid; hashes have HASH_SIZE² bits
+ */
+export const HASH_SIZE = 8;
+
+/**
+ * Images whose aHash and dHash both differ in at most this many of 64 bits are the same photo
+ */
+export const NEAR_DUPLICATE_MAX_DISTANCE = 6;
+
+/**
+ * Images of one product for cross-product matching; images[0] is the main image
+ */
+export interface ProductImages {
+  productId: string;
+  asin: string;
+  images: string[]; // Base64 data URLs (or bare base64); remote URLs are skipped
+}
+
+/**
+ * Average hash of a HASH_SIZE × HASH_SIZE grayscale grid, row by row
+ */
+export function averageHash(pixels: ArrayLike<number>): string {
+  const count = HASH_SIZE * HASH_SIZE;
+  let sum = 0;
+  for (let i = 0; i < count; i++) sum += pixels[i];
+  const mean = sum / count;
+
+  const bits: boolean[] = [];
+  for (let i = 0; i < count; i++) bits.push(pixels[i] > mean);
+  return bitsToHex(bits);
+}
+
+/**
+ * Difference hash of a (HASH_SIZE + 1) × HASH_SIZE grayscale grid, row by row
+ */
+export function differenceHash(pixels: ArrayLike<number>): string {
+  const width = HASH_SIZE + 1;
+  const bits: boolean[] = [];
+  for (let y = 0; y < HASH_SIZE; y++) {
+    for (let x = 0; x < HASH_SIZE; x++) {
+      bits.push(pixels[y * width + x] > pixels[y * width + x + 1]);
+    }
+  }
+  return bitsToHex(bits);
+}
+
+function bitsToHex(bits: boolean[]): string {
+  let hex = '';
+  for (let i = 0; i < bits.length; i += 4) {
+    const nibble = (bits[i] ? 8 : 0) | (bits[i + 1] ? 4 : 0) | (bits[i + 2] ? 2 : 0) | (bits[i + 3] ? 1 : 0);
+    hex += nibble.toString(16);
+  }
+  return hex;
+}
+
+/**
+ * Number of differing bits between two hex hashes of the same length
+ */
+export function hammingDistance(a: string, b: string): number {
+  let distance = 0;
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    let diff = parseInt(a[i] ?? '0', 16) ^ parseInt(b[i] ?? '0', 16);
+    while (diff) {
+      distance += diff & 1;
+      diff >>= 1;
+    }
+  }
+  return distance;
+}
+
+/**
+ * Distance between two images: the larger of the aHash and dHash distances
+ * Requiring both to agree keeps plain white-background shots of different products apart.
+ */
+export function imageHashDistance(a: ImageHash, b: ImageHash): number {
+  return Math.max(hammingDistance(a.aHash, b.aHash), hammingDistance(a.dHash, b.dHash));
+}
+
+export function isNearDuplicate(a: ImageHash, b: ImageHash, maxDistance: number = NEAR_DUPLICATE_MAX_DISTANCE): boolean {
+  return imageHashDistance(a, b) <= maxDistance;
+}
+
+/**
+ * Images of a product in matching order: the main image, then the additional images
+ */
+export function getProductImages(product: Product): ProductImages {
+  const toString = (image: Product['mainImage']) =>
+    typeof image === 'string' ? image : image?.base64 ? `data:${image.mediaType || 'image/jpeg'};base64,${image.base64}` : '';
+
+  return {
+    productId: product.id,
+    asin: product.asin,
+    images: [product.mainImage, ...(product.additionalImages || [])].map(toString)
+  };
+}
+
+/**
+ * Images of collected product data in matching order; productId identifies it in the matches
+ */
+export function getCompleteProductImages(product: CompleteProductData, productId: string): ProductImages {
+  return {
+    productId,
+    asin: product.asin,
+    images: [product.images?.mainImage, ...(product.images?.additionalImages || [])].map(image => image?.base64 || '')
+  };
+}
+
+/**
+ * Near-identical images on different ASINs, closest first
+ * hashes[i][j] is the hash of image j of products[i], or null when it couldn't be hashed.
+ * Each pair of products is reported once per pair of matching images.
+ */
+export function findImageMatches(
+  products: Array<{ productId: string; asin: string; hashes: (ImageHash | null)[] }>,
+  maxDistance: number = NEAR_DUPLICATE_MAX_DISTANCE
+): ImageMatch[] {
+  const matches: ImageMatch[] = [];
+
+  products.forEach((first, i) => {
+    products.slice(i + 1).forEach(second => {
+      // The same ASIN twice is a data-entry slip, not a copied listing
+      if (first.asin && first.asin === second.asin) return;
+
+      first.hashes.forEach((firstHash, firstPosition) => {
+        second.hashes.forEach((secondHash, secondPosition) => {
+          if (!firstHash || !secondHash) return;
+          const distance = imageHashDistance(firstHash, secondHash);
+          if (distance > maxDistance) return;
+          matches.push({
+            first: { productId: first.productId, asin: first.asin, position: firstPosition },
+            second: { productId: second.productId, asin: second.asin, position: secondPosition },
+            distance
+          });
+        });
+      });
+    });
+  });
+
+  return matches.sort((a, b) => a.distance - b.distance);
+}
+
+/**
+ * "main image", "image 3"
+ */
+export function describeImagePosition(position: number): string {
+  return position === 0 ? 'main image' : `image ${position + 1}`;
+}
+
+/**
+ * "Acme Mug (B0...) main image ≈ Mug Co (B0...) image 3, 2 bits apart"
+ */
+export function formatImageMatch(match: ImageMatch, nameFor: (productId: string) => string): string {
+  const side = (s: ImageMatch['first']) => `${nameFor(s.productId)} (${s.asin}) ${describeImagePosition(s.position)}`;
+  const closeness = match.distance === 0 ? 'identical' : `${match.distance} bit${match.distance === 1 ? '' : 's'} apart`;
+  return `${side(match.first)} ≈ ${side(match.second)}, ${closeness}`;
+}
@@ -0,0 +1,109 @@
+/**
+ * Persona Panels
+ * A panel splits the poll audience into weighted sub-personas (e.g. 60% budget-conscious
+ * parents, 25% gift buyers, 15% professionals). The poll runs once per segment and the
+ * segment rankings are combined by weight into the PollResult used for scoring.
+ */
+
+import { PersonaSegment, PollResult, PollSegmentResult } from './types';
+import { roundToTotal } from './utils';
+
+export const MAX_PANEL_SEGMENTS = 6;
+
+/**
+ * Allowed drift of the segment weights from 100%
+ */
+const WEIGHT_TOLERANCE = 0.5;
+
+/**
+ * Check a panel definition; returns the problems found (empty when valid)
+ */
+export function validatePanel(segments: PersonaSegment[]): string[] {
+  const errors: string[] = [];
+
+  if (segments.length === 0) {
+    errors.push('A panel needs at least one segment');
+  }
+  if (segments.length > MAX_PANEL_SEGMENTS) {
+    errors.push(`A panel can have at most ${MAX_PANEL_SEGMENTS} segments`);
+  }
+  segments.forEach((segment, index) => {
+    if (!segment.label?.trim()) {
+      errors.push(`Segment ${index + 1} needs a description`);
+    }
+    if (!Number.isFinite(segment.weight) || segment.weight <= 0) {
+      errors.push(`Segment ${index + 1} needs a weight above 0%`);
+    }
+  });
+
+  const total = getPanelTotal(segments);
+  if (segments.length > 0 && Math.abs(total - 100) > WEIGHT_TOLERANCE) {
+    errors.push(`Segment weights must total 100% (currently ${total}%)`);
+  }
+
+  return errors;
+}
+
+/**
+ * Sum of the segment weights
+ */
+export function getPanelTotal(segments: PersonaSegment[]): number {
+  return Math.round(segments.reduce((sum, s) => sum + (Number.isFinite(s.weight) ? s.weight : 0), 0) * 10) / 10;
+}
+
+/**
+ * Describe a panel as a demographic string, e.g. "60% budget-conscious parents, 40% gift buyers"
+ */
+export function formatPanel(segments: PersonaSegment[]): string {
+  return segments.map(s => `${s.weight}% ${s.label.trim()}`).join(', ');
+}
+
+/**
+ * Combine per-segment rankings into one ranking by weighted mean percentage
+ * A product missing from a segment counts as 0% in that segment.
+ */
+export function combineSegmentRankings(
+  productIds: string[],
+  segments: PollSegmentResult[]
+): PollResult['rankings'] {
+  const totalWeight = segments.reduce((sum, s) => sum + s.weight, 0);
+
+  const combined = productIds.map(productId => {
+    let percentage = 0;
+    let rank = 0;
+    for (const segment of segments) {
+      const ranking = segment.rankings.find(r => r.productId === productId);
+      const share = segment.weight / totalWeight;
+      percentage += share * (ranking?.percentage ?? 0);
+      rank += share * (ranking?.rank ?? productIds.length);
+    }
+    return { productId, percentage, rank };
+  });
+
+  // Weighted percentage order, with the weighted rank as the tie-breaker
+  combined.sort((a, b) => b.percentage - a.percentage || a.rank - b.rank);
+  const percentages = roundToTotal(combined.map(c => c.percentage), 100, 1);
+
+  return combined.map((entry, index) => ({
+    productId: entry.productId,
+    rank: index + 1,
+    percentage: percentages[index]
+  }));
+}
+
+/**
+ * One line per segment naming the product it preferred, for reports
+ */
+export function describeSegmentPreferences(
+  result: PollResult,
+  nameFor: (productId: string) => string
+): string[] {
+  return (result.segments || []).map(segment => {
+    const top = segment.rankings.find(r => r.rank === 1) ?? segment.rankings[0];
+    const overallRank = result.rankings.find(r => r.productId === top?.productId)?.rank;
+    const note = overallRank && overallRank !== 1 ? ` (#${overallRank} overall)` : '';
+    return top
+      ? `${segment.label} (${segment.weight}% of panel) preferred ${nameFor(top.productId)} with ${top.percentage}%${note}`
+      : `${segment.label} (${segment.weight}% of panel): no ranking`;
+  });
+}
@@ -1,11 +1,38 @@
 import Anthropic from '@anthropic-ai/sdk';
-import { Product, PollResult, PollRequest } from './types';
+import { PollResult, PollRequest, PollProduct, PollRankStats, PollSegmentResult, Product } from './types';
+import { schedulePairs, rankFromWinMatrix } from './pairwise';
+import { combineSegmentRankings, formatPanel } from './persona-panel';
+import { roundToTotal } from './utils';
 import { withRetry, DEFAULT_POLL_RETRY_CONFIG, getUserFriendlyErrorMessage } from './retry';
+import {
+  POLL_TOOL_NAME,
+  PollToolInputSchema,
+  PAIRWISE_TOOL_NAME,
+  PairwiseToolInputSchema,
+  StructuredOutputError,
+  assignOptionIds,
+  createTool,
+  parseToolInput,
+  resolveOptionRankings,
+  resolvePairwiseVotes
+} from './structured-output';
 
 const anthropic = new Anthropic({
   apiKey: process.env.ANTHROPIC_API_KEY,
 });
 
+const POLL_TOOL = createTool(
+  POLL_TOOL_NAME,
+  'Record the simulated poll: the percentage of respondents preferring each product (by option ID) and their sample responses.',
+  PollToolInputSchema
+);
+
+const PAIRWISE_TOOL = createTool(
+  PAIRWISE_TOOL_NAME,
+  'Record a head-to-head vote: how many respondents chose each of the two products (by option ID) and a few sample responses.',
+  PairwiseToolInputSchema
+);
+
 /**
  * Run AI polling simulation with Claude
  * Includes automatic retry with exponential backoff for transient errors
@@ -27,8 +54,12 @@ export async function runPollSimulation(request: PollRequest): Promise<PollResul
       mainImageType: (p as any).images?.mainImage ? typeof (p as any).images.mainImage : 'N/A'
     })));
     
+    // Products are referenced by opaque option IDs in the prompt and in the model's answer
+    const options = assignOptionIds(request.products);
+    const optionIdFor = new Map([...options].map(([optionId, product]) => [product.id, optionId]));
+
     const systemPrompt = generateSystemPrompt(request);
-    const userPrompt = generateUserPrompt(request);
+    const userPrompt = generateUserPrompt(request, optionIdFor);
     
     
     // Wrap the API call with retry logic
@@ -46,60 +77,6 @@ export async function runPollSimulation(request: PollRequest): Promise<PollResul
             }
           ];
 
-          // Helper function to validate and clean base64 image data
-          const processBase64Image = (data: string): { base64: string; mediaType: string } | null => {
-            if (!data || typeof data !== 'string') return null;
-            
-            // Extract media type from data URL if present
-            let mediaType = 'image/jpeg'; // default
-            let base64Data = data;
-            
-            if (data.startsWith('data:')) {
-              const match = data.match(/^data:image\/([a-z]+);base64,(.+)$/);
-              if (match) {
-                mediaType = `image/${match[1]}`;
-                base64Data = match[2];
-              }
-            } else {
-              // Raw base64 data, try to detect format from magic bytes
-              try {
-                const decoded = atob(base64Data.substring(0, 20)); // Check first 20 bytes
-                if (decoded.startsWith('\x89PNG')) {
-                  mediaType = 'image/png';
-                } else if (decoded.startsWith('RIFF') && decoded.includes('WEBP')) {
-                  mediaType = 'image/webp';
-                } else if (decoded.startsWith('\xFF\xD8\xFF')) {
-                  mediaType = 'image/jpeg';
-                }
-              } catch {
-                // Keep default jpeg if detection fails
-              }
-            }
-            
-            // Check if it's valid base64
-            try {
-              atob(base64Data);
-              // Check minimum length - very lenient for small images
-              const isValid = base64Data.length > 20; // At least 20 characters of base64 data
-              
-              if (isValid) {
-                console.log('Valid base64 image:', {
-                  length: base64Data.length,
-                  mediaType,
-                  preview: base64Data.substring(0, 20) + '...'
-                });
-                // Return clean base64 data with detected media type
-                return { base64: base64Data, mediaType };
-              } else {
-                console.warn('Base64 data too short:', base64Data.length, 'characters');
-                return null;
-              }
-            } catch (error) {
-              console.warn('Invalid base64 data:', error);
-              return null;
-            }
-          };
-
           // Shuffle product order for image presentation to prevent bias
           const shuffledProductsForImages = [...request.products].map((product, index) => ({
             ...product,
@@ -120,88 +97,8 @@ export async function runPollSimulation(request: PollRequest): Promise<PollResul
           })));
           
           // Add images for each product in shuffled order
-          shuffledProductsForImages.forEach((product: any, shuffledIndex) => {
-            if (product.images) {
-              if (request.pollType === 'main_image' && product.images.mainImage) {
-                // Handle both string and object formats for mainImage
-                let rawImageData: string;
-                if (typeof product.images.mainImage === 'string') {
-                  rawImageData = product.images.mainImage;
-                } else if (product.images.mainImage.base64) {
-                  rawImageData = product.images.mainImage.base64;
-                } else {
-                  console.warn(`Product ${shuffledIndex + 1}: Invalid mainImage format`, product.images.mainImage);
-                  return;
-                }
-                
-                // Debug logging
-                console.log(`Product ${shuffledIndex + 1} mainImage:`, {
-                  type: typeof product.images.mainImage,
-                  hasBase64: typeof product.images.mainImage === 'object' ? !!product.images.mainImage.base64 : 'N/A',
-                  dataLength: rawImageData ? rawImageData.length : 0,
-                  dataStart: rawImageData ? rawImageData.substring(0, 50) : 'N/A'
-                });
-                
-                const processedImage = processBase64Image(rawImageData);
-                if (processedImage) {
-                  messageContent.push({
-                    type: "text",
-                    text: `\nProduct ${shuffledIndex + 1} Main Image:`
-                  });
-                  messageContent.push({
-                    type: "image",
-                    source: {
-                      type: "base64",
-                      media_type: processedImage.mediaType,
-                      data: processedImage.base64
-                    }
-                  });
-                } else {
-                  // Skip invalid main image
-                }
-              } else if (request.pollType === 'image_stack' && product.images.additionalImages) {
-                messageContent.push({
-                  type: "text", 
-                  text: `\nProduct ${shuffledIndex + 1} Image Stack:`
-                });
-                
-                // Shuffle additional images within each product to prevent order bias
-                const shuffledAdditionalImages = [...product.images.additionalImages].sort(() => Math.random() - 0.5);
-                
-                // Add ONLY additional images (the "stack") - NOT the main image
-                let validAdditionalImages = 0;
-                shuffledAdditionalImages.slice(0, 5).forEach((img: any, imgIndex: number) => {
-                  // Handle both string and object formats for additional images
-                  let rawImgData: string;
-                  if (typeof img === 'string') {
-                    rawImgData = img;
-                  } else if (img.base64) {
-                    rawImgData = img.base64;
-                  } else {
-                    console.warn(`Product ${shuffledIndex + 1} Additional Image ${imgIndex}: Invalid format`, img);
-                    return;
-                  }
-                  const processedImg = processBase64Image(rawImgData);
-                  if (processedImg) {
-                    messageContent.push({
-                      type: "image",
-                      source: {
-                        type: "base64",
-                        media_type: processedImg.mediaType,
-                        data: processedImg.base64
-                      }
-                    });
-                    validAdditionalImages++;
-                  } else {
-                    // Skip invalid additional image
-                  }
-                });
-                
-                if (validAdditionalImages === 0) {
-                  // No valid additional images found
-                }
-              }
-            }
+          shuffledProductsForImages.forEach(product => {
+            appendProductImages(messageContent, product, request.pollType, `Option ${optionIdFor.get(product.id)}`);
           });
 
           // Check if we have any valid images for image-based polls
@@ -229,6 +126,8 @@ export async function runPollSimulation(request: PollRequest): Promise<PollResul
             model: "claude-3-7-sonnet-20250219",
             max_tokens: 4000,
             temperature: 0.7,
+            tools: [POLL_TOOL],
+            tool_choice: { type: 'tool', name: POLL_TOOL_NAME },
             messages: [
               {
                 role: "user",
@@ -242,13 +141,15 @@ export async function runPollSimulation(request: PollRequest): Promise<PollResul
             model: "claude-3-7-sonnet-20250219",
             max_tokens: 4000,
             temperature: 0.7,
-      messages: [
-        {
-          role: "user",
-          content: `${systemPrompt}\n\n${userPrompt}`
-        }
-      ]
-    });
+            tools: [POLL_TOOL],
+            tool_choice: { type: 'tool', name: POLL_TOOL_NAME },
+            messages: [
+              {
+                role: "user",
+                content: `${systemPrompt}\n\n${userPrompt}`
+              }
+            ]
+          });
         }
       },
       {
@@ -258,36 +159,12 @@ export async function runPollSimulation(request: PollRequest): Promise<PollResul
       }
     );
 
-    const content = response.content[0];
-    if (content.type !== 'text') {
-      throw new Error('Unexpected response type from Claude');
-    }
-
-    const responseText = content.text;
-    
-    
-    // Parse the JSON response
-    const jsonMatch = responseText.match(/\{[\s\S]*\}/);
-    if (!jsonMatch) {
-      console.error('No JSON found in response:', responseText);
-      throw new Error('No JSON found in Claude response');
-    }
-
-    let parsed;
-    try {
-      parsed = JSON.parse(jsonMatch[0]);
-    } catch (parseError) {
-      console.error('JSON parse error:', parseError);
-      console.error('Raw response text:', responseText);
-      console.error('Matched JSON:', jsonMatch[0]);
-      throw new Error('Failed to parse JSON response from Claude');
-    }
-    
-    // Convert to rankings (1st through 6th)
-    const rankings = convertToRankings(parsed.rankings, request.products);
+    // Validate the tool call and map option IDs back to products; mismatches are errors
+    const parsed = parseToolInput(response, POLL_TOOL_NAME, PollToolInputSchema);
+    const rankings = resolveOptionRankings(parsed.rankings, options);
     
     // Validate we have responses
-    const sampleResponses = parsed.sample_responses || [];
+    const sampleResponses = parsed.sampleResponses;
     if (sampleResponses.length === 0) {
       console.warn('No sample responses found in poll result');
     } else if (sampleResponses.length < 50) {
@@ -302,24 +179,490 @@ export async function runPollSimulation(request: PollRequest): Promise<PollResul
       sampleResponses
     };
 
-  } catch (error: any) {
-    console.error('Poll simulation failed after retries:', error);
-    console.error('Error details:', {
-      message: error?.message,
-      stack: error?.stack,
-      name: error?.name
+  } catch (error) {
+    throw toPollError(error);
+  }
+}
+
+/**
+ * Convert a failed poll call into the error reported to the user
+ */
+function toPollError(error: unknown): Error {
+  // Contract violations are reported as-is rather than as a transient API error
+  if (error instanceof StructuredOutputError) {
+    console.error('Poll output rejected:', error.issues);
+    return error;
+  }
+
+  const message = error instanceof Error ? error.message : '';
+  console.error('Poll simulation failed after retries:', error);
+  console.error('Error details:', {
+    message,
+    stack: error instanceof Error ? error.stack : undefined,
+    name: error instanceof Error ? error.name : undefined
+  });
+  
+  // Check if it's a credit balance issue and show clear error
+  if (message.includes('credit balance is too low') || 
+      message.includes('credit balance') ||
+      message.includes('upgrade or purchase credits')) {
+    return new Error('No Claude credits available. Please contact the administrator to add credits to your Anthropic account.');
+  }
+  
+  return new Error(getUserFriendlyErrorMessage(error));
+}
+
+/**
+ * Ensemble limits
+ * - MAX_ENSEMBLE_RUNS: upper bound on runs per poll request
+ * - ENSEMBLE_CONCURRENCY: runs in flight at once, to stay inside API rate limits
+ * - COIN_FLIP_STABILITY: rankings less stable than this are flagged as a coin flip
+ */
+export const MAX_ENSEMBLE_RUNS = 10;
+const ENSEMBLE_CONCURRENCY = 3;
+export const COIN_FLIP_STABILITY = 0.6;
+
+/**
+ * Run the same poll several times and aggregate the results
+ * Failed or invalid runs are dropped; at least two valid runs are required
+ */
+export async function runPollEnsemble(request: PollRequest, runs: number): Promise<PollResult> {
+  const results: PollResult[] = [];
+  let failedRuns = 0;
+
+  for (let start = 0; start < runs; start += ENSEMBLE_CONCURRENCY) {
+    const batch = Array.from(
+      { length: Math.min(ENSEMBLE_CONCURRENCY, runs - start) },
+      () => runPollSimulation(request)
+    );
+    const settled = await Promise.allSettled(batch);
+
+    for (const outcome of settled) {
+      if (outcome.status === 'fulfilled' && validatePollResult(outcome.value)) {
+        results.push(outcome.value);
+      } else {
+        failedRuns++;
+        console.warn('Ensemble run failed:', outcome.status === 'rejected' ? outcome.reason : 'invalid result');
+      }
+    }
+  }
+
+  if (results.length < 2) {
+    throw new Error(`Only ${results.length} of ${runs} ensemble runs succeeded. Please try again.`);
+  }
+
+  return aggregatePollResults(request, results, failedRuns);
+}
+
+/**
+ * Aggregate several runs of one poll
+ * Percentages become the mean across runs (with standard deviation and a 95% confidence
+ * interval), and the aggregate rank used for scoring orders products by mean percentage.
+ */
+export function aggregatePollResults(
+  request: PollRequest,
+  results: PollResult[],
+  failedRuns: number = 0
+): PollResult {
+  const runs = results.length;
+  const productIds = request.products.map(p => p.id);
+  const productCount = productIds.length;
+
+  const stats: PollRankStats[] = productIds.map(productId => {
+    // A product missing from a run counts as 0% and last place in that run
+    const samples = results.map(result => {
+      const ranking = result.rankings.find(r => r.productId === productId);
+      return ranking
+        ? { percentage: ranking.percentage, rank: ranking.rank }
+        : { percentage: 0, rank: productCount };
+    });
+
+    const percentages = samples.map(s => s.percentage);
+    const mean = percentages.reduce((sum, value) => sum + value, 0) / runs;
+    const variance = percentages.reduce((sum, value) => sum + (value - mean) ** 2, 0) / (runs - 1);
+    const stdDev = Math.sqrt(variance);
+    const halfWidth = tCritical95(runs - 1) * stdDev / Math.sqrt(runs);
+
+    const rankFrequency = Array.from({ length: productCount }, (_, index) =>
+      samples.filter(s => s.rank === index + 1).length / runs
+    );
+
+    return {
+      productId,
+      meanPercentage: round(mean, 2),
+      stdDev: round(stdDev, 2),
+      ci95: { lower: round(Math.max(0, mean - halfWidth), 2), upper: round(Math.min(100, mean + halfWidth), 2) },
+      meanRank: round(samples.reduce((sum, s) => sum + s.rank, 0) / runs, 2),
+      rankFrequency: rankFrequency.map(f => round(f, 4))
+    };
+  });
+
+  // Aggregate order: mean percentage, then mean rank as the tie-breaker
+  const ordered = [...stats].sort((a, b) =>
+    b.meanPercentage - a.meanPercentage || a.meanRank - b.meanRank
+  );
+  const percentages = roundToTotal(ordered.map(s => s.meanPercentage), 100, 1);
+
+  const rankings = ordered.map((stat, index) => ({
+    productId: stat.productId,
+    rank: index + 1,
+    percentage: percentages[index]
+  }));
+
+  const stability = ordered.reduce((sum, stat, index) => sum + stat.rankFrequency[index], 0) / productCount;
+  const winnerShare = ordered[0]?.rankFrequency[0] ?? 0;
+
+  return {
+    type: request.pollType,
+    demographic: request.demographic,
+    question: request.question,
+    rankings,
+    sampleResponses: results.flatMap(result => result.sampleResponses),
+    ensemble: {
+      runs,
+      failedRuns,
+      stats: ordered,
+      stability: round(stability, 4),
+      winnerShare: round(winnerShare, 4),
+      isCoinFlip: stability < COIN_FLIP_STABILITY
+    }
+  };
+}
+
+/**
+ * Pairwise limits
+ * - PAIRWISE_RESPONDENTS: simulated respondents voting in each head-to-head
+ * - PAIRWISE_CONCURRENCY: comparisons in flight at once
+ */
+export const PAIRWISE_RESPONDENTS = 20;
+const PAIRWISE_CONCURRENCY = 3;
+
+/**
+ * Run a pairwise poll: compare products two at a time and fit a Bradley-Terry model
+ * Failed comparisons are dropped, but every product must win or lose at least one of them
+ */
+export async function runPairwisePoll(request: PollRequest): Promise<PollResult> {
+  const options = assignOptionIds(request.products);
+  const optionIdFor = new Map([...options].map(([optionId, product]) => [product.id, optionId]));
+  const productIds = request.products.map(p => p.id);
+  const pairs = schedulePairs(productIds, request.pairwiseRounds);
+
+  const winMatrix = productIds.map(() => productIds.map(() => 0));
+  const compared = new Set<string>();
+  const sampleResponses: string[] = [];
+  let pairsCompared = 0;
+  let firstError: unknown = null;
+
+  for (let start = 0; start < pairs.length; start += PAIRWISE_CONCURRENCY) {
+    const batch = pairs.slice(start, start + PAIRWISE_CONCURRENCY);
+    const settled = await Promise.allSettled(
+      batch.map(pair => comparePair(request, pair, optionIdFor))
+    );
+
+    settled.forEach((outcome, index) => {
+      const [a, b] = batch[index];
+      if (outcome.status === 'fulfilled') {
+        const i = productIds.indexOf(a);
+        const j = productIds.indexOf(b);
+        winMatrix[i][j] += outcome.value.votes[0];
+        winMatrix[j][i] += outcome.value.votes[1];
+        compared.add(a).add(b);
+        sampleResponses.push(...outcome.value.sampleResponses);
+        pairsCompared++;
+      } else {
+        firstError ??= outcome.reason;
+        console.warn('Pairwise comparison failed:', outcome.reason);
+      }
+    });
+  }
+
+  if (pairsCompared === 0) {
+    throw toPollError(firstError);
+  }
+  const uncompared = request.products.filter(p => !compared.has(p.id));
+  if (uncompared.length > 0) {
+    throw new Error(`No head-to-head comparison succeeded for ${uncompared.map(p => p.name).join(', ')}. Please try again.`);
+  }
+
+  const { rankings, strengths } = rankFromWinMatrix(productIds, winMatrix);
+
+  return {
+    type: request.pollType,
+    demographic: request.demographic,
+    question: request.question,
+    rankings,
+    sampleResponses,
+    pairwise: {
+      productIds,
+      winMatrix,
+      strengths: strengths.map(s => round(s, 4)),
+      respondentsPerPair: PAIRWISE_RESPONDENTS,
+      pairsCompared,
+      failedPairs: pairs.length - pairsCompared
+    }
+  };
+}
+
+/**
+ * Run one head-to-head comparison
+ * Returns the votes in the order of the pair given, whatever order the model saw them in
+ */
+async function comparePair(
+  request: PollRequest,
+  pair: [string, string],
+  optionIdFor: Map<string, string>
+): Promise<{ votes: [number, number]; sampleResponses: string[] }> {
+  // Randomise which product is presented first to counter position bias
+  const swapped = Math.random() < 0.5;
+  const presented = (swapped ? [pair[1], pair[0]] : pair)
+    .map(id => request.products.find(p => p.id === id)!);
+  const optionPair: [string, string] = [optionIdFor.get(pair[0])!, optionIdFor.get(pair[1])!];
+
+  const messageContent: Anthropic.ContentBlockParam[] = [
+    {
+      type: "text",
+      text: generatePairwisePrompt(request, presented, optionIdFor)
+    }
+  ];
+
+  if (request.pollType === 'main_image' || request.pollType === 'image_stack') {
+    for (const product of presented) {
+      const added = appendProductImages(messageContent, product, request.pollType, `Option ${optionIdFor.get(product.id)}`);
+      if (added === 0) {
+        throw new Error(`No valid images found for ${product.name}. Please ensure all products have valid image data.`);
+      }
+    }
+  }
+
+  const response = await withRetry(
+    () => anthropic.messages.create({
+      model: "claude-3-7-sonnet-20250219",
+      max_tokens: 1500,
+      temperature: 0.7,
+      tools: [PAIRWISE_TOOL],
+      tool_choice: { type: 'tool', name: PAIRWISE_TOOL_NAME },
+      messages: [
+        {
+          role: "user",
+          content: messageContent
+        }
+      ]
+    }),
+    DEFAULT_POLL_RETRY_CONFIG
+  );
+
+  const parsed = parseToolInput(response, PAIRWISE_TOOL_NAME, PairwiseToolInputSchema);
+  return {
+    votes: resolvePairwiseVotes(parsed.votes, optionPair, PAIRWISE_RESPONDENTS),
+    sampleResponses: parsed.sampleResponses
+  };
+}
+
+/**
+ * Persona panel segments polled at once
+ */
+const PANEL_CONCURRENCY = 3;
+
+/**
+ * Run a poll once per persona panel segment and combine the rankings by segment weight
+ * Every segment must succeed, since a missing segment would skew the weighting
+ */
+export async function runPanelPoll(request: PollRequest): Promise<PollResult> {
+  const panel = request.panel || [];
+  const segments: PollSegmentResult[] = [];
+
+  for (let start = 0; start < panel.length; start += PANEL_CONCURRENCY) {
+    const batch = panel.slice(start, start + PANEL_CONCURRENCY);
+    const results = await Promise.all(batch.map(segment => {
+      const segmentRequest: PollRequest = { ...request, demographic: segment.label, panel: undefined };
+      return request.mode === 'pairwise'
+        ? runPairwisePoll(segmentRequest)
+        : runPollSimulation(segmentRequest);
+    }));
+
+    results.forEach((result, index) => {
+      segments.push({
+        segmentId: batch[index].id,
+        label: batch[index].label,
+        weight: batch[index].weight,
+        rankings: result.rankings,
+        sampleResponses: result.sampleResponses
+      });
+    });
+  }
+
+  return {
+    type: request.pollType,
+    demographic: formatPanel(panel),
+    question: request.question,
+    rankings: combineSegmentRankings(request.products.map(p => p.id), segments),
+    // Label each response with the segment that gave it
+    sampleResponses: segments.flatMap(segment =>
+      segment.sampleResponses.map(response => `[${segment.label}] ${response}`)
+    ),
+    segments
+  };
+}
+
+/**
+ * Two-sided 95% critical value of Student's t distribution
+ */
+function tCritical95(degreesOfFreedom: number): number {
+  const table = [12.706, 4.303, 3.182, 2.776, 2.571, 2.447, 2.365, 2.306, 2.262, 2.228];
+  if (degreesOfFreedom <= 0) return Infinity;
+  if (degreesOfFreedom <= table.length) return table[degreesOfFreedom - 1];
+  if (degreesOfFreedom <= 20) return 2.086;
+  if (degreesOfFreedom <= 30) return 2.042;
+  return 1.96;
+}
+
+function round(value: number, decimals: number): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Validate and clean base64 image data
+ */
+function processBase64Image(data: string): { base64: string; mediaType: Anthropic.Base64ImageSource['media_type'] } | null {
+  if (!data || typeof data !== 'string') return null;
+
+  // Extract media type from data URL if present
+  let mediaType: Anthropic.Base64ImageSource['media_type'] = 'image/jpeg'; // default
+  let base64Data = data;
+
+  if (data.startsWith('data:')) {
+    const match = data.match(/^data:image\/([a-z]+);base64,(.+)$/);
+    if (match) {
+      mediaType = `image/${match[1]}` as Anthropic.Base64ImageSource['media_type'];
+      base64Data = match[2];
+    }
+  } else {
+    // Raw base64 data, try to detect format from magic bytes
+    try {
+      const decoded = atob(base64Data.substring(0, 20)); // Check first 20 bytes
+      if (decoded.startsWith('\x89PNG')) {
+        mediaType = 'image/png';
+      } else if (decoded.startsWith('RIFF') && decoded.includes('WEBP')) {
+        mediaType = 'image/webp';
+      } else if (decoded.startsWith('\xFF\xD8\xFF')) {
+        mediaType = 'image/jpeg';
+      }
+    } catch {
+      // Keep default jpeg if detection fails
+    }
+  }
+
+  // Check if it's valid base64
+  try {
+    atob(base64Data);
+    // Check minimum length - very lenient for small images
+    const isValid = base64Data.length > 20; // At least 20 characters of base64 data
+
+    if (isValid) {
+      console.log('Valid base64 image:', {
+        length: base64Data.length,
+        mediaType,
+        preview: base64Data.substring(0, 20) + '...'
+      });
+      // Return clean base64 data with detected media type
+      return { base64: base64Data, mediaType };
+    } else {
+      console.warn('Base64 data too short:', base64Data.length, 'characters');
+      return null;
+    }
+  } catch (error) {
+    console.warn('Invalid base64 data:', error);
+    return null;
+  }
+}
+
+/**
+ * Append a product's poll images to a message, labelled for the model
+ * Returns the number of images added
+ */
+function appendProductImages(
+  messageContent: Anthropic.ContentBlockParam[],
+  product: PollProduct,
+  pollType: PollRequest['pollType'],
+  label: string
+): number {
+  let added = 0;
+  if (!product.images) return added;
+
+  if (pollType === 'main_image' && product.images.mainImage) {
+    // Handle both string and object formats for mainImage
+    let rawImageData: string;
+    if (typeof product.images.mainImage === 'string') {
+      rawImageData = product.images.mainImage;
+    } else if (product.images.mainImage.base64) {
+      rawImageData = product.images.mainImage.base64;
+    } else {
+      console.warn(`${product.name}: Invalid mainImage format`, product.images.mainImage);
+      return added;
+    }
+    
+    // Debug logging
+    console.log(`${product.name} mainImage:`, {
+      type: typeof product.images.mainImage,
+      hasBase64: typeof product.images.mainImage === 'object' ? !!product.images.mainImage.base64 : 'N/A',
+      dataLength: rawImageData ? rawImageData.length : 0,
+      dataStart: rawImageData ? rawImageData.substring(0, 50) : 'N/A'
     });
     
-    // Check if it's a credit balance issue and show clear error
-    if (error?.message?.includes('credit balance is too low') || 
-        error?.message?.includes('credit balance') ||
-        error?.message?.includes('upgrade or purchase credits')) {
-      throw new Error('No Claude credits available. Please contact the administrator to add credits to your Anthropic account.');
+    const processedImage = processBase64Image(rawImageData);
+    if (processedImage) {
+      messageContent.push({
+        type: "text",
+        text: `\n${label} Main Image:`
+      });
+      messageContent.push({
+        type: "image",
+        source: {
+          type: "base64",
+          media_type: processedImage.mediaType,
+          data: processedImage.base64
+        }
+      });
+      added++;
     }
+  } else if (pollType === 'image_stack' && product.images.additionalImages) {
+    messageContent.push({
+      type: "text", 
+      text: `\n${label} Image Stack:`
+    });
+    
+    // Shuffle additional images within each product to prevent order bias
+    const shuffledAdditionalImages = [...product.images.additionalImages].sort(() => Math.random() - 0.5);
     
-    const userMessage = getUserFriendlyErrorMessage(error);
-    throw new Error(userMessage);
+    // Add ONLY additional images (the "stack") - NOT the main image
+    shuffledAdditionalImages.slice(0, 5).forEach((img, imgIndex) => {
+      // Handle both string and object formats for additional images
+      let rawImgData: string;
+      if (typeof img === 'string') {
+        rawImgData = img;
+      } else if (img.base64) {
+        rawImgData = img.base64;
+      } else {
+        console.warn(`${product.name} Additional Image ${imgIndex}: Invalid format`, img);
+        return;
+      }
+      const processedImg = processBase64Image(rawImgData);
+      if (processedImg) {
+        messageContent.push({
+          type: "image",
+          source: {
+            type: "base64",
+            media_type: processedImg.mediaType,
+            data: processedImg.base64
+          }
+        });
+        added++;
+      }
+    });
   }
+
+  return added;
 }
 
 /**
@@ -367,71 +710,9 @@ IMPORTANT RULES:
 7. VARY the responses - do not use the same percentages or sample responses as previous polls
 8. Make each poll unique and realistic
 
-Return ONLY a JSON object with this exact format:
-{
-  "rankings": [
-    {"product": "ACTUAL_PRODUCT_NAME_1", "percentage": 35},
-    {"product": "ACTUAL_PRODUCT_NAME_2", "percentage": 25},
-    {"product": "ACTUAL_PRODUCT_NAME_3", "percentage": 20},
-    {"product": "ACTUAL_PRODUCT_NAME_4", "percentage": 12},
-    {"product": "ACTUAL_PRODUCT_NAME_5", "percentage": 6},
-    {"product": "ACTUAL_PRODUCT_NAME_6", "percentage": 2}
-  ],
-  "sample_responses": [
-    "Sample response 1...",
-    "Sample response 2...",
-    "Sample response 3...",
-    "Sample response 4...",
-    "Sample response 5...",
-    "Sample response 6...",
-    "Sample response 7...",
-    "Sample response 8...",
-    "Sample response 9...",
-    "Sample response 10...",
-    "Sample response 11...",
-    "Sample response 12...",
-    "Sample response 13...",
-    "Sample response 14...",
-    "Sample response 15...",
-    "Sample response 16...",
-    "Sample response 17...",
-    "Sample response 18...",
-    "Sample response 19...",
-    "Sample response 20...",
-    "Sample response 21...",
-    "Sample response 22...",
-    "Sample response 23...",
-    "Sample response 24...",
-    "Sample response 25...",
-    "Sample response 26...",
-    "Sample response 27...",
-    "Sample response 28...",
-    "Sample response 29...",
-    "Sample response 30...",
-    "Sample response 31...",
-    "Sample response 32...",
-    "Sample response 33...",
-    "Sample response 34...",
-    "Sample response 35...",
-    "Sample response 36...",
-    "Sample response 37...",
-    "Sample response 38...",
-    "Sample response 39...",
-    "Sample response 40...",
-    "Sample response 41...",
-    "Sample response 42...",
-    "Sample response 43...",
-    "Sample response 44...",
-    "Sample response 45...",
-    "Sample response 46...",
-    "Sample response 47...",
-    "Sample response 48...",
-    "Sample response 49...",
-    "Sample response 50..."
-  ]
-}
-
-IMPORTANT: Use the EXACT product names as provided in the product list below. Do not use generic names like "Product 1 Name".
+Record the results by calling the ${POLL_TOOL_NAME} tool:
+- rankings: one entry per product, using the product's option ID EXACTLY as given (e.g. "opt_k3j9qa"), never its name or list position
+- sampleResponses: the 50 sample qualitative responses
 
 Make sure percentages add up to exactly 100% and rankings are realistic for the demographic.`;
 }
@@ -440,7 +721,7 @@ Make sure percentages add up to exactly 100% and rankings are realistic for the
  * Generate user prompt with product details
  * FIXED: Removes product information bias and shuffles product order
  */
-function generateUserPrompt(request: PollRequest): string {
+function generateUserPrompt(request: PollRequest, optionIdFor: Map<string, string>): string {
   const { products, question, pollType } = request;
   
   // Shuffle product order to prevent primacy bias while maintaining mapping
@@ -463,8 +744,8 @@ function generateUserPrompt(request: PollRequest): string {
   })));
   
   let productList = '';
-  shuffledProducts.forEach((product: any, index) => {
-    productList += `Product ${index + 1}: ${product.name}\n`;
+  shuffledProducts.forEach((product: any) => {
+    productList += `Option ${optionIdFor.get(product.id)}: ${product.name}\n`;
     
     // Only include relevant information for each poll type to prevent bias
     switch (pollType) {
@@ -503,41 +784,59 @@ Please simulate how 50 people from the specified demographic would respond to th
 }
 
 /**
- * Convert percentage rankings to numerical rankings (1st, 2nd, etc.)
- * FIXED: Properly handles shuffled product order and ensures correct mapping
+ * Generate the prompt for one head-to-head comparison
  */
-function convertToRankings(rankings: { product: string; percentage: number }[], products: Product[]): PollResult['rankings'] {
-  
-  // Sort by percentage (highest first)
-  const sorted = rankings.sort((a, b) => b.percentage - a.percentage);
-  
-  return sorted.map((item, index) => {
-    // Find the product by exact name match first (most reliable)
-    let product = products.find(p => p.name === item.product);
-    
-    // If no exact match, try partial matching (in case of truncation)
-    if (!product) {
-      product = products.find(p => 
-        p.name.toLowerCase().includes(item.product.toLowerCase()) ||
-        item.product.toLowerCase().includes(p.name.toLowerCase())
-      );
-    }
-    
-    // If still no match, log warning and try to match by position (fallback)
-    if (!product) {
-      console.warn(`Could not find product for ranking: "${item.product}"`);
-      if (index < products.length) {
-        product = products[index];
-        console.warn(`Using fallback product at position ${index}: ${product?.name}`);
-      }
+function generatePairwisePrompt(
+  request: PollRequest,
+  presented: PollProduct[],
+  optionIdFor: Map<string, string>
+): string {
+  const { demographic, question, pollType } = request;
+
+  let focus = '';
+  switch (pollType) {
+    case 'main_image':
+      focus = 'Compare the MAIN PRODUCT IMAGES only. Focus on visual appeal, quality, and first impressions.';
+      break;
+    case 'image_stack':
+      focus = 'Compare the COMPLETE IMAGE SETS only. Consider the variety, quality, and helpfulness of all images together.';
+      break;
+    case 'features':
+      focus = 'Compare the FEATURES AND FUNCTIONALITY only. Focus on practical benefits, innovation, and value.';
+      break;
+  }
+
+  const productList = presented.map(product => {
+    let entry = `Option ${optionIdFor.get(product.id)}: ${product.name}\n`;
+    switch (pollType) {
+      case 'main_image':
+        entry += `- Main Image: [Image provided below]`;
+        break;
+      case 'image_stack':
+        entry += `- Image Stack: [${product.images?.additionalImages?.length || 0} images provided below]`;
+        break;
+      case 'features':
+        entry += `- Features: ${product.features}`;
+        break;
     }
-    
-    return {
-      productId: product?.id || '',
-      rank: index + 1, // 1st, 2nd, 3rd, etc.
-      percentage: item.percentage
-    };
-  });
+    return entry;
+  }).join('\n\n');
+
+  return `You are simulating ${PAIRWISE_RESPONDENTS} ${demographic} choosing between TWO products for an Amazon competitive analysis.
+
+${focus}
+
+Products to compare:
+
+${productList}
+
+Question: ${question}
+
+Each of the ${PAIRWISE_RESPONDENTS} respondents must choose exactly one of the two products. Base the split on typical consumer behavior for this demographic; a lopsided split is fine when one product is clearly better.
+
+Record the result by calling the ${PAIRWISE_TOOL_NAME} tool:
+- votes: one entry per product, using the product's option ID EXACTLY as given, with votes totalling exactly ${PAIRWISE_RESPONDENTS}
+- sampleResponses: 3 short qualitative responses explaining the choices`;
 }
 
 /**
@@ -4,9 +4,15 @@
  * Implements exact integration flow from PRD v2.1 Section 5.3.3
  */
 
-import { ScrapeOpsClient, ScrapedProductData } from './scraper';
-import { ImageProcessor, ProcessedImages } from './image-processor';
+import { ScrapedProductData } from './scraper';
+import { ImageProcessor, ProcessedImages, ImageData } from './image-processor';
 import { DataValidation, ValidationResult } from './data-validation';
+import { ProductDataSource, createProductDataSource } from './data-sources';
+import { ImageComplianceReport, ProductDataSourceInfo } from './types';
+import { MarketplaceId } from './marketplaces';
+import { FetchLimits, HostRateLimiter, mapConcurrent, readFetchLimits } from './rate-limiter';
+import { SnapshotStore, StoredImage, StoredProduct, isSnapshotFresh } from './snapshot-store';
+import { analyzeMainImage, hashImage } from './image-analysis';
 
 /**
  * Complete Product Data with all processing done
@@ -18,6 +24,10 @@ export interface CompleteProductData {
   price: number;
   originalPrice?: number | null;
   shippingDays: number;
+  deliveryPromise?: string | null;
+  deliveryPostcode?: string | null; // Delivery location shippingDays was quoted for, when known
+  shippingByPostcode?: Record<string, number>; // Shipping days at comparison locations
+  mainImageCompliance?: ImageComplianceReport | null; // null when the main image could not be analyzed
   reviewCount: number;
   rating: number;
   
@@ -30,6 +40,11 @@ export interface CompleteProductData {
   // Validation result
   validation: ValidationResult;
   
+  // Data source that produced this product, and the marketplace it was fetched from
+  source?: ProductDataSourceInfo;
+  marketplace?: MarketplaceId;
+  fromCache?: boolean; // Served from a stored snapshot instead of a new fetch
+  
   // Raw data for debugging
   rawResponse?: any;
 }
@@ -37,7 +52,7 @@ export interface CompleteProductData {
 /**
  * Fetch Status for bulk processing
  */
-export type FetchStatus = 'pending' | 'fetching' | 'success' | 'needs_review' | 'failed';
+export type FetchStatus = 'pending' | 'fetching' | 'success' | 'needs_review' | 'failed' | 'cancelled';
 
 /**
  * Product Fetch Result
@@ -57,32 +72,60 @@ export interface BulkFetchResult {
   successCount: number;
   failedCount: number;
   needsReviewCount: number;
+  cancelledCount: number;
 }
 
 /**
  * Progress Callback Type
  */
-export type ProgressCallback = (asin: string, status: FetchStatus, data?: CompleteProductData) => void;
+export type ProgressCallback = (asin: string, status: FetchStatus, data?: CompleteProductData, error?: string) => void;
+
+/**
+ * How the fetcher uses stored snapshots
+ * Fetched products are always stored; forceRefresh only skips serving a fresh snapshot.
+ */
+export interface SnapshotPolicy {
+  store: SnapshotStore;
+  ttlMs: number;
+  forceRefresh?: boolean;
+}
 
 /**
  * Amazon Product Fetcher Class
  * EXACT implementation from PRD v2.1 Section 5.3.3
  */
 export class AmazonProductFetcher {
-  private scraper: ScrapeOpsClient;
+  private source: ProductDataSource;
   private imageProcessor: ImageProcessor;
   private validator: DataValidation;
   
-  constructor() {
-    this.scraper = new ScrapeOpsClient();
-    this.imageProcessor = new ImageProcessor();
+  /**
+   * Uses the configured data source (PRODUCT_DATA_SOURCE) and fetch limits unless given
+   * Without a snapshot policy every call fetches from the data source and nothing is stored.
+   * Comparison sources, one per comparison delivery postcode, are asked for shipping days only.
+   */
+  constructor(
+    source: ProductDataSource = createProductDataSource(),
+    private limits: FetchLimits = readFetchLimits(),
+    private snapshots: SnapshotPolicy | null = null,
+    private comparisonSources: ProductDataSource[] = []
+  ) {
+    this.source = source;
+    // Perceptual hashes drop the same photo served at several resolutions
+    this.imageProcessor = new ImageProcessor(
+      new HostRateLimiter({
+        requestsPerSecond: limits.imageHostRequestsPerSecond,
+        concurrency: limits.imageHostConcurrency
+      }),
+      async image => hashImage(Buffer.from(await image.arrayBuffer()))
+    );
     this.validator = new DataValidation();
   }
   
   /**
    * Fetch and process a single product
    * EXACT flow from PRD v2.1:
-   * 1. Call ScrapeOps API
+   * 1. Fetch from the data source (ScrapeOps API by default)
    * 2. Validate response status
    * 3. Parse core data fields
    * 4. Download and process images
@@ -90,11 +133,20 @@ export class AmazonProductFetcher {
    * 6. Return complete product data
    */
   async fetchAndProcessProduct(asin: string): Promise<CompleteProductData> {
+    const cached = this.readSnapshot(asin);
+    if (cached) {
+      // Snapshots stored before images were analyzed have no report yet
+      const mainImageCompliance = cached.mainImageCompliance === undefined
+        ? await this.checkMainImage(cached.images)
+        : cached.mainImageCompliance;
+      return this.addComparisonShipping({ ...cached, mainImageCompliance });
+    }
+    
     try {
-      // 1. Call ScrapeOps API
-      const scrapedData: ScrapedProductData = await this.scraper.fetchProduct(asin);
+      // 1. Fetch from the data source
+      const scrapedData: ScrapedProductData = await this.source.fetchProduct(asin);
       
-      // 2. Validation is done in scraper (checks status === 'parse_successful')
+      // 2. Validation is done by the source (ScrapeOps checks status === 'parse_successful')
       
       // 3. Core data fields already parsed by scraper
       
@@ -103,6 +155,9 @@ export class AmazonProductFetcher {
         scrapedData.imageUrls
       );
       
+      // 4b. Measure the main image against Amazon's main-image rules
+      const mainImageCompliance = await this.checkMainImage(images);
+      
       // 5. Validate data
       const validation = this.validator.validateScrapedData(scrapedData, images);
       
@@ -113,15 +168,22 @@ export class AmazonProductFetcher {
         price: scrapedData.price,
         originalPrice: scrapedData.originalPrice,
         shippingDays: scrapedData.shippingDays,
+        deliveryPromise: scrapedData.deliveryPromise ?? null,
+        deliveryPostcode: scrapedData.deliveryPostcode ?? null,
+        mainImageCompliance,
         reviewCount: scrapedData.reviewCount,
         rating: scrapedData.rating,
         images: images,
         features: scrapedData.features,
         validation: validation,
+        source: scrapedData.source ?? { type: this.source.type, fetchedAt: new Date().toISOString() },
+        marketplace: this.source.marketplace,
         rawResponse: scrapedData.rawResponse
       };
       
-      return completeData;
+      await this.writeSnapshot(completeData);
+      
+      return this.addComparisonShipping(completeData);
       
     } catch (error) {
       console.error(`[Fetcher] Failed to fetch ASIN ${asin}:`, error);
@@ -131,83 +193,176 @@ export class AmazonProductFetcher {
   
   /**
    * Fetch multiple products in bulk
-   * EXACT flow from PRD v2.1 Section 5.3.6:
-   * - Sequential processing with progress callbacks
-   * - 200ms delay between requests (rate limiting)
+   * - FETCH_CONCURRENCY products in flight; the data source's rate limiter paces requests
+   * - Results and final onProgress calls arrive in the order of the ASINs
    * - Continue on errors (don't stop entire batch)
+   * - Once the signal aborts, ASINs not yet started are reported as cancelled
    */
   async fetchBulkProducts(
     asins: string[],
-    onProgress?: ProgressCallback
+    onProgress?: ProgressCallback,
+    signal?: AbortSignal
   ): Promise<BulkFetchResult> {
-    const results: ProductFetchResult[] = [];
-    
-    
-    for (let i = 0; i < asins.length; i++) {
-      const asin = asins[i];
-      
-      try {
+    const results = await mapConcurrent(
+      asins,
+      this.limits.concurrency,
+      async (asin): Promise<ProductFetchResult> => {
+        if (signal?.aborted) {
+          return { asin, status: 'cancelled' };
+        }
+        
         // Update status to "fetching"
         onProgress?.(asin, 'fetching');
         
-        // Fetch and process
-        const productData = await this.fetchAndProcessProduct(asin);
-        
-        // Determine final status based on validation
-        let status: FetchStatus = 'success';
-        if (!productData.validation.isValid) {
-          status = 'failed';
-        } else if (productData.validation.warnings.length > 0) {
-          status = 'needs_review';
+        try {
+          // Fetch and process
+          const productData = await this.fetchAndProcessProduct(asin);
+          
+          // Determine final status based on validation
+          let status: FetchStatus = 'success';
+          if (!productData.validation.isValid) {
+            status = 'failed';
+          } else if (productData.validation.warnings.length > 0) {
+            status = 'needs_review';
+          }
+          
+          return { asin, status, data: productData };
+          
+        } catch (error) {
+          console.error(`[Fetcher] Failed to fetch ${asin}:`, error);
+          
+          return {
+            asin,
+            status: 'failed',
+            error: error instanceof Error ? error.message : 'Unknown error'
+          };
         }
-        
-        results.push({
-          asin,
-          status,
-          data: productData
-        });
-        
-        // Update progress
-        onProgress?.(asin, status, productData);
-        
-      } catch (error) {
-        console.error(`[Fetcher] Failed to fetch ${asin}:`, error);
-        
-        results.push({
-          asin,
-          status: 'failed',
-          error: error instanceof Error ? error.message : 'Unknown error'
-        });
-        
-        // Update progress with failed status
-        onProgress?.(asin, 'failed');
-      }
-      
-      // Rate limiting - 200ms delay between requests (per PRD)
-      if (i < asins.length - 1) {
-        await this.delay(200);
-      }
-    }
+      },
+      // Update progress, in ASIN order
+      result => onProgress?.(result.asin, result.status, result.data, result.error)
+    );
     
     // Calculate summary
     const successCount = results.filter(r => r.status === 'success').length;
     const failedCount = results.filter(r => r.status === 'failed').length;
     const needsReviewCount = results.filter(r => r.status === 'needs_review').length;
+    const cancelledCount = results.filter(r => r.status === 'cancelled').length;
     
     
     return {
       results,
       successCount,
       failedCount,
-      needsReviewCount
+      needsReviewCount,
+      cancelledCount
     };
   }
   
   /**
-   * Delay utility for rate limiting
+   * Latest stored snapshot of the ASIN, if it is still fresh and no refresh was forced
    */
-  private delay(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+  private readSnapshot(asin: string): CompleteProductData | null {
+    if (!this.snapshots || this.snapshots.forceRefresh) return null;
+    
+    try {
+      const snapshot = this.snapshots.store.latest(asin, this.source.marketplace, this.source.deliveryPostcode);
+      if (!snapshot || !isSnapshotFresh(snapshot, this.snapshots.ttlMs)) return null;
+      
+      const { images, ...product } = snapshot.product;
+      const restore = (image: StoredImage) => this.imageProcessor.restoreImage(image.base64, image.originalUrl);
+      
+      return {
+        ...product,
+        images: {
+          mainImage: images.mainImage ? restore(images.mainImage) : null,
+          additionalImages: images.additionalImages.map(restore)
+        },
+        fromCache: true
+      };
+    } catch (error) {
+      console.error(`[Fetcher] Could not read snapshot for ${asin}:`, error);
+      return null;
+    }
+  }
+  
+  /**
+   * Store a fetched product as a new snapshot
+   * Products that failed validation are not stored; a failed store never fails the fetch.
+   */
+  private async writeSnapshot(product: CompleteProductData): Promise<void> {
+    if (!this.snapshots || !product.validation.isValid) return;
+    
+    try {
+      const encode = async (image: ImageData): Promise<StoredImage> => {
+        const buffer = Buffer.from(await image.blob.arrayBuffer());
+        const type = image.type || 'image/jpeg';
+        return { base64: `data:${type};base64,${buffer.toString('base64')}`, originalUrl: image.originalUrl, type };
+      };
+      
+      // Debugging data, the cache flag and comparison quotes are not part of a snapshot
+      const stored: StoredProduct = {
+        asin: product.asin,
+        name: product.name,
+        price: product.price,
+        originalPrice: product.originalPrice,
+        shippingDays: product.shippingDays,
+        deliveryPromise: product.deliveryPromise,
+        deliveryPostcode: product.deliveryPostcode,
+        mainImageCompliance: product.mainImageCompliance,
+        reviewCount: product.reviewCount,
+        rating: product.rating,
+        images: {
+          mainImage: product.images.mainImage ? await encode(product.images.mainImage) : null,
+          additionalImages: await Promise.all(product.images.additionalImages.map(encode))
+        },
+        features: product.features,
+        validation: product.validation,
+        source: product.source,
+        marketplace: product.marketplace
+      };
+      
+      this.snapshots.store.save(stored, this.source.marketplace);
+    } catch (error) {
+      console.error(`[Fetcher] Could not store snapshot for ${product.asin}:`, error);
+    }
+  }
+  
+  /**
+   * Compliance report of the main image, or null when there is none or it can't be decoded
+   */
+  private async checkMainImage(images: ProcessedImages): Promise<ImageComplianceReport | null> {
+    if (!images.mainImage) return null;
+    
+    try {
+      return await analyzeMainImage(Buffer.from(await images.mainImage.blob.arrayBuffer()));
+    } catch (error) {
+      console.error(`[Fetcher] Could not analyze main image ${images.mainImage.originalUrl}:`, error);
+      return null;
+    }
+  }
+  
+  /**
+   * Add shipping days at each comparison postcode
+   * Sources that can't quote for their postcode, and failed fetches, are left out.
+   */
+  private async addComparisonShipping(product: CompleteProductData): Promise<CompleteProductData> {
+    if (this.comparisonSources.length === 0) return product;
+    
+    const entries = await Promise.all(this.comparisonSources.map(async (source): Promise<[string, number] | null> => {
+      if (!source.deliveryPostcode) return null;
+      try {
+        const data = await source.fetchProduct(product.asin);
+        return data.deliveryPostcode ? [data.deliveryPostcode, data.shippingDays] : null;
+      } catch (error) {
+        console.error(`[Fetcher] Could not fetch shipping for ${product.asin} at ${source.deliveryPostcode}:`, error);
+        return null;
+      }
+    }));
+    
+    return {
+      ...product,
+      shippingByPostcode: Object.fromEntries(entries.filter((entry): entry is [string, number] => entry !== null))
+    };
   }
   
   /**
@@ -239,40 +394,3 @@ export class ProductFetchError extends Error {
   }
 }
 
-/**
- * Helper function to parse bulk ASINs from text input
- * Handles comma-separated or line-separated input
- */
-export function parseBulkASINs(text: string): string[] {
-  // Split by commas, newlines, or whitespace
-  const asins = text
-    .split(/[\n,\s]+/)
-    .map(asin => asin.trim().toUpperCase())
-    .filter(asin => asin.length > 0);
-  
-  // Remove duplicates
-  return [...new Set(asins)];
-}
-
-/**
- * Validate bulk ASINs and return valid/invalid lists
- */
-export function validateBulkASINs(asins: string[]): {
-  valid: string[];
-  invalid: string[];
-} {
-  const valid: string[] = [];
-  const invalid: string[] = [];
-  const pattern = /^[A-Z0-9]{10}$/;
-  
-  for (const asin of asins) {
-    if (pattern.test(asin)) {
-      valid.push(asin);
-    } else {
-      invalid.push(asin);
-    }
-  }
-  
-  return { valid, invalid };
-}
-
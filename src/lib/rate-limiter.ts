@@ -0,0 +1,259 @@
+/**
+ * Rate Limiting and Bounded Concurrency
+ * Token-bucket request limits, per-host limits for image downloads and an ordered
+ * concurrent map, used to fetch products and images in parallel without flooding the
+ * upstream APIs. A 429 response pauses the limiter it came through (backpressure).
+ *
+ * Environment:
+ * - FETCH_CONCURRENCY: products fetched at the same time (default 4)
+ * - FETCH_REQUESTS_PER_SECOND: data source requests per second (default 5)
+ * - IMAGE_HOST_CONCURRENCY: image downloads in flight per host (default 4)
+ * - IMAGE_HOST_REQUESTS_PER_SECOND: image requests per second per host (default 10)
+ */
+
+import { classifyError, sleep } from './retry';
+
+export interface RateLimiterOptions {
+  requestsPerSecond: number; // 0 or Infinity = no rate limit
+  concurrency: number;
+  burst?: number; // Bucket capacity, defaults to one second of requests
+  backoffMs?: number; // Pause after a 429 without Retry-After
+}
+
+export interface FetchLimits {
+  concurrency: number;
+  requestsPerSecond: number;
+  imageHostConcurrency: number;
+  imageHostRequestsPerSecond: number;
+}
+
+export const DEFAULT_FETCH_LIMITS: FetchLimits = {
+  concurrency: 4,
+  requestsPerSecond: 5,
+  imageHostConcurrency: 4,
+  imageHostRequestsPerSecond: 10
+};
+
+const DEFAULT_BACKOFF_MS = 2000;
+
+/**
+ * Read fetch limits from the environment, falling back to the defaults for missing or invalid values
+ */
+export function readFetchLimits(env: NodeJS.ProcessEnv = process.env): FetchLimits {
+  const read = (name: string, fallback: number) => {
+    const value = Number(env[name]);
+    return env[name] && Number.isFinite(value) && value > 0 ? value : fallback;
+  };
+
+  return {
+    concurrency: Math.floor(read('FETCH_CONCURRENCY', DEFAULT_FETCH_LIMITS.concurrency)) || 1,
+    requestsPerSecond: read('FETCH_REQUESTS_PER_SECOND', DEFAULT_FETCH_LIMITS.requestsPerSecond),
+    imageHostConcurrency: Math.floor(read('IMAGE_HOST_CONCURRENCY', DEFAULT_FETCH_LIMITS.imageHostConcurrency)) || 1,
+    imageHostRequestsPerSecond: read('IMAGE_HOST_REQUESTS_PER_SECOND', DEFAULT_FETCH_LIMITS.imageHostRequestsPerSecond)
+  };
+}
+
+/**
+ * Parse a Retry-After header (seconds or HTTP date) into milliseconds
+ */
+export function parseRetryAfter(header: string | null | undefined, now: number = Date.now()): number | undefined {
+  if (!header) return undefined;
+
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/**
+ * Token bucket
+ * Tokens refill continuously at requestsPerSecond up to the capacity; callers are served
+ * first come, first served.
+ */
+export class TokenBucket {
+  private tokens: number;
+  private lastRefill: number;
+  private pausedUntil = 0;
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(
+    private requestsPerSecond: number,
+    private capacity: number = Math.max(1, requestsPerSecond)
+  ) {
+    this.tokens = capacity;
+    this.lastRefill = Date.now();
+  }
+
+  /**
+   * Wait for a token
+   */
+  acquire(): Promise<void> {
+    const turn = this.queue.then(() => this.take());
+    this.queue = turn.catch(() => undefined);
+    return turn;
+  }
+
+  /**
+   * Stop issuing tokens for `ms` and drop the ones already saved up
+   */
+  pause(ms: number): void {
+    const until = Date.now() + ms;
+    if (until <= this.pausedUntil) return;
+
+    this.pausedUntil = until;
+    this.tokens = 0;
+    this.lastRefill = until;
+  }
+
+  private async take(): Promise<void> {
+    while (true) {
+      const now = Date.now();
+      if (now < this.pausedUntil) {
+        await sleep(this.pausedUntil - now);
+        continue;
+      }
+
+      if (!Number.isFinite(this.requestsPerSecond) || this.requestsPerSecond <= 0) return;
+
+      this.refill(now);
+      if (this.tokens >= 1) {
+        this.tokens -= 1;
+        return;
+      }
+
+      await sleep(Math.ceil(((1 - this.tokens) / this.requestsPerSecond) * 1000));
+    }
+  }
+
+  private refill(now: number): void {
+    const elapsed = Math.max(0, now - this.lastRefill) / 1000;
+    this.tokens = Math.min(this.capacity, this.tokens + elapsed * this.requestsPerSecond);
+    this.lastRefill = Math.max(this.lastRefill, now);
+  }
+}
+
+/**
+ * Request limiter: at most `concurrency` tasks in flight, each started with a token
+ * A task failing with a 429 pauses the bucket for its Retry-After (or backoffMs), so the
+ * other queued tasks slow down as well instead of hitting the same limit.
+ */
+export class RateLimiter {
+  private bucket: TokenBucket;
+  private active = 0;
+  private waiting: Array<() => void> = [];
+
+  constructor(private options: RateLimiterOptions) {
+    this.bucket = new TokenBucket(options.requestsPerSecond, options.burst);
+  }
+
+  async schedule<T>(task: () => Promise<T>): Promise<T> {
+    await this.acquireSlot();
+    try {
+      await this.bucket.acquire();
+      return await task();
+    } catch (error) {
+      if (classifyError(error).errorType === 'rate_limit') {
+        this.backOff((error as { retryAfterMs?: number })?.retryAfterMs);
+      }
+      throw error;
+    } finally {
+      this.releaseSlot();
+    }
+  }
+
+  /**
+   * Pause all requests through this limiter
+   */
+  backOff(ms: number = this.options.backoffMs ?? DEFAULT_BACKOFF_MS): void {
+    this.bucket.pause(ms);
+  }
+
+  private acquireSlot(): Promise<void> {
+    if (this.active < Math.max(1, this.options.concurrency)) {
+      this.active++;
+      return Promise.resolve();
+    }
+    return new Promise(resolve => this.waiting.push(resolve));
+  }
+
+  private releaseSlot(): void {
+    const next = this.waiting.shift();
+    // Hand the slot straight to the next task so the count never drops in between
+    if (next) next();
+    else this.active--;
+  }
+}
+
+/**
+ * One RateLimiter per host, e.g. for image downloads spread over several CDNs
+ */
+export class HostRateLimiter {
+  private limiters = new Map<string, RateLimiter>();
+
+  constructor(private options: RateLimiterOptions) {}
+
+  schedule<T>(url: string, task: () => Promise<T>): Promise<T> {
+    return this.forHost(url).schedule(task);
+  }
+
+  backOff(url: string, ms?: number): void {
+    this.forHost(url).backOff(ms);
+  }
+
+  private forHost(url: string): RateLimiter {
+    let host: string;
+    try {
+      host = new URL(url).host;
+    } catch {
+      host = '';
+    }
+
+    let limiter = this.limiters.get(host);
+    if (!limiter) {
+      limiter = new RateLimiter(this.options);
+      this.limiters.set(host, limiter);
+    }
+    return limiter;
+  }
+}
+
+/**
+ * Map over items with at most `concurrency` workers running
+ * Items start in input order, results come back in input order, and onResult is called
+ * in input order too: a result that finishes early is held until all earlier ones are
+ * delivered. Workers are expected to handle their own errors; a thrown error rejects
+ * the whole map.
+ */
+export async function mapConcurrent<T, R>(
+  items: T[],
+  concurrency: number,
+  worker: (item: T, index: number) => Promise<R>,
+  onResult?: (result: R, index: number) => void
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  const done = new Array<boolean>(items.length).fill(false);
+  let nextIndex = 0;
+  let nextToDeliver = 0;
+
+  const deliver = () => {
+    while (nextToDeliver < items.length && done[nextToDeliver]) {
+      onResult?.(results[nextToDeliver], nextToDeliver);
+      nextToDeliver++;
+    }
+  };
+
+  const run = async () => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      results[index] = await worker(items[index], index);
+      done[index] = true;
+      deliver();
+    }
+  };
+
+  const workers = Math.max(1, Math.min(Math.floor(concurrency) || 1, items.length));
+  await Promise.all(Array.from({ length: workers }, run));
+
+  return results;
+}
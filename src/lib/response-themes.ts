@@ -0,0 +1,187 @@
+import Anthropic from '@anthropic-ai/sdk';
+import { PollResult, Product, PollThemeAnalysis, CodedResponse, ProductThemeSummary, ResponseTheme, ThemeCount } from './types';
+import { withRetry, DEFAULT_POLL_RETRY_CONFIG, getUserFriendlyErrorMessage } from './retry';
+import {
+  THEMES_TOOL_NAME,
+  ThemesToolInputSchema,
+  ThemesToolInput,
+  StructuredOutputError,
+  assignOptionIds,
+  createTool,
+  parseToolInput
+} from './structured-output';
+
+const anthropic = new Anthropic({
+  apiKey: process.env.ANTHROPIC_API_KEY,
+});
+
+const THEMES_TOOL = createTool(
+  THEMES_TOOL_NAME,
+  'Record the themes found in the poll responses and, for every response, the product it is about (by option ID), its sentiment and its themes.',
+  ThemesToolInputSchema
+);
+
+/**
+ * Responses coded per poll; ensemble and panel polls can carry more, and the rest are left uncoded
+ */
+export const MAX_CODED_RESPONSES = 100;
+
+/**
+ * Cluster a poll's sample responses into themes and tag each one with its product and sentiment
+ * Includes automatic retry with exponential backoff for transient errors
+ */
+export async function extractResponseThemes(pollResult: PollResult, products: Product[]): Promise<PollThemeAnalysis> {
+  const responses = pollResult.sampleResponses.slice(0, MAX_CODED_RESPONSES);
+  if (responses.length === 0) {
+    throw new Error('Poll has no sample responses to code');
+  }
+
+  // The poll referred to products by option ID, so the coder sees the same IDs
+  const options = assignOptionIds(products);
+  const productList = [...options]
+    .map(([optionId, product]) => `Option ${optionId}: ${product.name}`)
+    .join('\n');
+  const responseList = responses
+    .map((response, index) => `${index}. ${response}`)
+    .join('\n');
+
+  try {
+    const response = await withRetry(
+      () => anthropic.messages.create({
+        model: "claude-3-7-sonnet-20250219",
+        max_tokens: 8000,
+        temperature: 0,
+        tools: [THEMES_TOOL],
+        tool_choice: { type: 'tool', name: THEMES_TOOL_NAME },
+        messages: [
+          {
+            role: "user",
+            content: `You are coding the qualitative responses from a consumer poll for an Amazon competitive analysis.
+
+Poll question: ${pollResult.question}
+Respondents: ${pollResult.demographic}
+
+Products:
+${productList}
+
+Responses:
+${responseList}
+
+1. Group the responses into themes: short, concrete phrases a listing owner could act on, such as "cluttered background", "shows scale" or "unclear sizing". Use between 3 and 12 themes and reuse them across products.
+2. For every response, record the product it is about by option ID (match option IDs or product names mentioned in the response; use null if it is not about one product), the sentiment towards that product, and the IDs of the themes it expresses.
+
+Record the result by calling the ${THEMES_TOOL_NAME} tool, with one entry for every response number from 0 to ${responses.length - 1}.`
+          }
+        ]
+      }),
+      DEFAULT_POLL_RETRY_CONFIG
+    );
+
+    const parsed = parseToolInput(response, THEMES_TOOL_NAME, ThemesToolInputSchema);
+    const coded = resolveCodedResponses(parsed, responses.length, options);
+
+    return {
+      themes: parsed.themes,
+      responses: coded,
+      products: countProductThemes(products, parsed.themes, coded)
+    };
+
+  } catch (error) {
+    // Contract violations are reported as-is rather than as a transient API error
+    if (error instanceof StructuredOutputError) {
+      throw error;
+    }
+
+    throw new Error(getUserFriendlyErrorMessage(error));
+  }
+}
+
+/**
+ * Map coded responses from option IDs back to products
+ * Every response must be coded exactly once, with known option and theme IDs
+ */
+function resolveCodedResponses(
+  input: ThemesToolInput,
+  responseCount: number,
+  options: Map<string, Product>
+): CodedResponse[] {
+  const issues: string[] = [];
+  const themeIds = new Set<string>();
+  for (const theme of input.themes) {
+    if (themeIds.has(theme.id)) issues.push(`Theme ID "${theme.id}" used more than once`);
+    themeIds.add(theme.id);
+  }
+
+  const byIndex = new Map<number, CodedResponse>();
+  for (const entry of input.responses) {
+    if (entry.index >= responseCount) {
+      issues.push(`Unknown response number ${entry.index}`);
+      continue;
+    }
+    if (byIndex.has(entry.index)) {
+      issues.push(`Response ${entry.index} coded more than once`);
+      continue;
+    }
+    if (entry.optionId !== null && !options.has(entry.optionId)) {
+      issues.push(`Unknown option ID "${entry.optionId}"`);
+    }
+    for (const themeId of entry.themeIds) {
+      if (!themeIds.has(themeId)) issues.push(`Unknown theme ID "${themeId}"`);
+    }
+
+    byIndex.set(entry.index, {
+      index: entry.index,
+      productId: entry.optionId !== null ? options.get(entry.optionId)?.id ?? null : null,
+      sentiment: entry.sentiment,
+      themeIds: [...new Set(entry.themeIds)]
+    });
+  }
+
+  const missing = Array.from({ length: responseCount }, (_, index) => index).filter(index => !byIndex.has(index));
+  if (missing.length > 0) {
+    issues.push(`Responses not coded: ${missing.join(', ')}`);
+  }
+
+  if (issues.length > 0) {
+    throw new StructuredOutputError('Response coding does not match the poll responses', issues);
+  }
+
+  return [...byIndex.values()].sort((a, b) => a.index - b.index);
+}
+
+/**
+ * Count positive and negative mentions of each theme per product
+ */
+export function countProductThemes(
+  products: Product[],
+  themes: ResponseTheme[],
+  responses: CodedResponse[]
+): ProductThemeSummary[] {
+  const labelFor = new Map(themes.map(theme => [theme.id, theme.label]));
+
+  const count = (productId: string, sentiment: 'positive' | 'negative'): ThemeCount[] => {
+    const counts = new Map<string, number>();
+    for (const response of responses) {
+      if (response.productId !== productId || response.sentiment !== sentiment) continue;
+      for (const themeId of response.themeIds) {
+        counts.set(themeId, (counts.get(themeId) || 0) + 1);
+      }
+    }
+    return [...counts]
+      .map(([themeId, total]) => ({ themeId, label: labelFor.get(themeId) || themeId, count: total }))
+      .sort((a, b) => b.count - a.count || a.label.localeCompare(b.label));
+  };
+
+  return products.map(product => ({
+    productId: product.id,
+    positive: count(product.id, 'positive'),
+    negative: count(product.id, 'negative')
+  }));
+}
+
+/**
+ * Describe the top themes as "shows scale (4), clean background (2)"
+ */
+export function formatThemeCounts(counts: ThemeCount[], limit: number = 3): string {
+  return counts.slice(0, limit).map(c => `${c.label} (${c.count})`).join(', ');
+}
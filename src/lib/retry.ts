@@ -1,6 +1,7 @@
 /**
  * Retry Logic with Exponential Backoff
  * Implements infinite retry for transient errors, immediate fail for permanent errors
+ * Configs with maxAttempts give up after that many attempts instead
  */
 
 /**
@@ -11,6 +12,7 @@ export interface RetryConfig {
   maxDelayMs: number;
   backoffMultiplier: number;
   timeout: number;
+  maxAttempts?: number; // Unlimited when not set
   onRetry?: (attempt: number, error: any, nextDelay: number) => void;
 }
 
@@ -41,6 +43,14 @@ export const DEFAULT_POLL_RETRY_CONFIG: RetryConfig = {
   timeout: 60000             // 60 second timeout per attempt
 };
 
+export const DEFAULT_FETCH_RETRY_CONFIG: RetryConfig = {
+  initialDelayMs: 2000,      // Start with 2 seconds
+  maxDelayMs: 15000,         // Cap at 15 seconds
+  backoffMultiplier: 2,      // Double each time
+  timeout: 20000,            // 20 second timeout per request
+  maxAttempts: 4             // A page that fails four times is reported, not retried forever
+};
+
 /**
  * Classify error to determine if it's retryable
  */
@@ -197,6 +207,11 @@ export async function withRetry<T>(
         console.error('Permanent error, not retrying:', classification.message);
         throw error;
       }
+
+      if (config.maxAttempts !== undefined && attempt >= config.maxAttempts) {
+        console.error(`Giving up after ${attempt} attempts:`, classification.message);
+        throw error;
+      }
       
       // Calculate delay for next retry
       const delay = calculateDelay(attempt, config);
@@ -210,7 +225,7 @@ export async function withRetry<T>(
       // Wait before retrying
       await sleep(delay);
       
-      // Loop continues - will retry indefinitely until success or permanent error
+      // Loop continues - will retry until success, a permanent error or maxAttempts
     }
   }
 }
@@ -0,0 +1,174 @@
+/**
+ * What-if Scenario Engine
+ * Re-scores a cloned Core 6 analysis with overrides applied to the user product,
+ * without re-running any polls
+ */
+
+import { Analysis, PollResult, Product, ScenarioOverrides, ScoreCalculation } from './types';
+import { calculateAllScores } from './scoring';
+import { ScoringRubric, getScoringRubric } from './scoring-rubric';
+import { getScoreThreshold, ScoreThreshold, formatPrice } from './utils';
+import { MarketplaceId } from './marketplaces';
+
+/**
+ * Score, rank and threshold band of the user product
+ */
+export interface ScenarioStanding {
+  totalScore: number;
+  rank: number; // 1 = highest total score
+  threshold: ScoreThreshold;
+}
+
+/**
+ * Result of running a scenario against an analysis
+ */
+export interface ScenarioResult {
+  overrides: ScenarioOverrides;
+  baseline: ScenarioStanding;
+  projected: ScenarioStanding;
+  scoreDelta: number; // projected - baseline
+  rankDelta: number; // places gained (positive = moved up)
+  thresholdChanged: boolean;
+  calculations: ScoreCalculation[];
+}
+
+/**
+ * Run a what-if scenario for the user product
+ * The analysis passed in is never mutated
+ */
+export function runScenario(
+  analysis: Analysis,
+  overrides: ScenarioOverrides,
+  rubric?: ScoringRubric
+): ScenarioResult {
+  const userProduct = analysis.products.find(p => p.isUserProduct);
+  if (!userProduct) {
+    throw new Error('What-if scenarios require a Core 6 analysis with a user product');
+  }
+
+  const activeRubric = rubric || getScoringRubric(analysis.calculations[0]?.rubricVersion);
+  const scenarioAnalysis = applyScenarioOverrides(analysis, userProduct.id, overrides);
+
+  // Score both sides with the same rubric so the delta reflects only the overrides
+  const baselineCalculations = calculateAllScores(
+    analysis.products,
+    analysis.pollResults.mainImage,
+    analysis.pollResults.imageStack,
+    analysis.pollResults.features,
+    activeRubric,
+    analysis.priceBasis
+  );
+  const projectedCalculations = calculateAllScores(
+    scenarioAnalysis.products,
+    scenarioAnalysis.pollResults.mainImage,
+    scenarioAnalysis.pollResults.imageStack,
+    scenarioAnalysis.pollResults.features,
+    activeRubric,
+    analysis.priceBasis
+  );
+
+  const baseline = getStanding(baselineCalculations, userProduct.id);
+  const projected = getStanding(projectedCalculations, userProduct.id);
+
+  return {
+    overrides,
+    baseline,
+    projected,
+    scoreDelta: projected.totalScore - baseline.totalScore,
+    rankDelta: baseline.rank - projected.rank,
+    thresholdChanged: baseline.threshold !== projected.threshold,
+    calculations: projectedCalculations
+  };
+}
+
+/**
+ * Clone the analysis and apply overrides to the user product
+ */
+export function applyScenarioOverrides(
+  analysis: Analysis,
+  userProductId: string,
+  overrides: ScenarioOverrides
+): Analysis {
+  const products: Product[] = analysis.products.map(product => {
+    if (product.id !== userProductId) return { ...product };
+
+    return {
+      ...product,
+      price: overrides.price ?? product.price,
+      shippingDays: overrides.shippingDays ?? product.shippingDays,
+      reviewCount: overrides.reviewCount ?? product.reviewCount,
+      rating: overrides.rating ?? product.rating
+    };
+  });
+
+  const ranks = overrides.pollRanks || {};
+
+  return {
+    ...analysis,
+    products,
+    pollResults: {
+      mainImage: moveProductToRank(analysis.pollResults.mainImage, userProductId, ranks.mainImage),
+      imageStack: moveProductToRank(analysis.pollResults.imageStack, userProductId, ranks.imageStack),
+      features: moveProductToRank(analysis.pollResults.features, userProductId, ranks.features)
+    }
+  };
+}
+
+/**
+ * Move a product to a hypothetical rank, shifting the other products to make room
+ * Percentages are kept as polled; only the ranks change
+ */
+export function moveProductToRank(
+  pollResult: PollResult | null,
+  productId: string,
+  targetRank?: number
+): PollResult | null {
+  if (!pollResult || targetRank === undefined) return pollResult;
+
+  const ordered = [...pollResult.rankings].sort((a, b) => a.rank - b.rank);
+  const current = ordered.find(r => r.productId === productId);
+  if (!current) return pollResult;
+
+  const others = ordered.filter(r => r.productId !== productId);
+  const insertAt = Math.min(Math.max(Math.round(targetRank), 1), ordered.length) - 1;
+  others.splice(insertAt, 0, current);
+
+  return {
+    ...pollResult,
+    rankings: others.map((ranking, index) => ({ ...ranking, rank: index + 1 }))
+  };
+}
+
+/**
+ * Rank of a product by total score (1 = highest)
+ */
+export function getScoreRank(calculations: ScoreCalculation[], productId: string): number {
+  const sorted = [...calculations].sort((a, b) => b.totalScore - a.totalScore);
+  return sorted.findIndex(c => c.productId === productId) + 1;
+}
+
+function getStanding(calculations: ScoreCalculation[], productId: string): ScenarioStanding {
+  const calculation = calculations.find(c => c.productId === productId)!;
+  return {
+    totalScore: calculation.totalScore,
+    rank: getScoreRank(calculations, productId),
+    threshold: getScoreThreshold(calculation.totalScore)
+  };
+}
+
+/**
+ * Human-readable summary of the overrides in a scenario
+ */
+export function describeScenarioOverrides(overrides: ScenarioOverrides, marketplace?: MarketplaceId): string {
+  const parts: string[] = [];
+
+  if (overrides.price !== undefined) parts.push(`price ${formatPrice(overrides.price, marketplace)}`);
+  if (overrides.shippingDays !== undefined) parts.push(`${overrides.shippingDays}-day shipping`);
+  if (overrides.reviewCount !== undefined) parts.push(`${overrides.reviewCount.toLocaleString('en-US')} reviews`);
+  if (overrides.rating !== undefined) parts.push(`${overrides.rating} stars`);
+  if (overrides.pollRanks?.mainImage !== undefined) parts.push(`main image #${overrides.pollRanks.mainImage}`);
+  if (overrides.pollRanks?.imageStack !== undefined) parts.push(`image stack #${overrides.pollRanks.imageStack}`);
+  if (overrides.pollRanks?.features !== undefined) parts.push(`features #${overrides.pollRanks.features}`);
+
+  return parts.length > 0 ? parts.join(', ') : 'No changes';
+}
@@ -0,0 +1,207 @@
+/**
+ * Versioned Scoring Rubric
+ * Tier thresholds, point values and cutoffs for every score category,
+ * loaded from JSON and validated with zod so the rubric can change without a code edit
+ */
+
+import { z } from 'zod';
+import coreV2Rubric from './rubrics/core-v2.json';
+import coreV2IntlRubric from './rubrics/core-v2-intl.json';
+
+/**
+ * Score categories covered by a rubric
+ */
+export const SCORE_CATEGORIES = [
+  'price',
+  'shipping',
+  'reviews',
+  'rating',
+  'mainImage',
+  'imageStack',
+  'features'
+] as const;
+
+export type ScoreCategory = typeof SCORE_CATEGORIES[number];
+
+/**
+ * A single tier: the first tier whose threshold the input satisfies awards its points
+ */
+const RubricTierSchema = z.object({
+  threshold: z.number(),
+  points: z.number().min(0),
+  label: z.string().optional()
+});
+
+/**
+ * Category definition
+ * - comparison 'lte': value <= threshold matches (price %, shipping days, poll rank)
+ * - comparison 'gte': value >= threshold matches (review count, star rating)
+ * - fallbackPoints: awarded when no tier matches (the cutoff)
+ */
+const RubricCategorySchema = z.object({
+  label: z.string(),
+  maxPoints: z.number().positive(),
+  comparison: z.enum(['lte', 'gte']),
+  tiers: z.array(RubricTierSchema).min(1),
+  fallbackPoints: z.number().min(0).default(0)
+}).superRefine((category, ctx) => {
+  category.tiers.forEach((tier, index) => {
+    if (tier.points > category.maxPoints) {
+      ctx.addIssue({
+        code: 'custom',
+        path: ['tiers', index, 'points'],
+        message: `Tier awards ${tier.points} points but category maximum is ${category.maxPoints}`
+      });
+    }
+
+    if (index === 0) return;
+
+    // Tiers must be listed from best to worst so the first match wins
+    const previous = category.tiers[index - 1];
+    const ordered = category.comparison === 'lte'
+      ? tier.threshold > previous.threshold
+      : tier.threshold < previous.threshold;
+    if (!ordered) {
+      ctx.addIssue({
+        code: 'custom',
+        path: ['tiers', index, 'threshold'],
+        message: `Tier thresholds must be ${category.comparison === 'lte' ? 'ascending' : 'descending'}`
+      });
+    }
+    if (tier.points > previous.points) {
+      ctx.addIssue({
+        code: 'custom',
+        path: ['tiers', index, 'points'],
+        message: 'Tier points must not increase as tiers get worse'
+      });
+    }
+  });
+
+  if (category.fallbackPoints > category.tiers[category.tiers.length - 1].points) {
+    ctx.addIssue({
+      code: 'custom',
+      path: ['fallbackPoints'],
+      message: 'Fallback points must not exceed the lowest tier'
+    });
+  }
+});
+
+/**
+ * Complete rubric definition
+ */
+export const ScoringRubricSchema = z.object({
+  version: z.string().min(1),
+  name: z.string(),
+  effectiveDate: z.string().optional(),
+  categories: z.object({
+    price: RubricCategorySchema,
+    shipping: RubricCategorySchema,
+    reviews: RubricCategorySchema,
+    rating: RubricCategorySchema,
+    mainImage: RubricCategorySchema,
+    imageStack: RubricCategorySchema,
+    features: RubricCategorySchema
+  })
+});
+
+export type RubricTier = z.infer<typeof RubricTierSchema>;
+export type RubricCategory = z.infer<typeof RubricCategorySchema>;
+export type ScoringRubric = z.infer<typeof ScoringRubricSchema>;
+
+/**
+ * Custom error for invalid rubric definitions
+ */
+export class RubricValidationError extends Error {
+  constructor(
+    public issues: string[]
+  ) {
+    super(`Invalid scoring rubric: ${issues.join('; ')}`);
+    this.name = 'RubricValidationError';
+  }
+}
+
+/**
+ * Parse and validate a rubric from JSON (string or already-parsed object)
+ */
+export function parseScoringRubric(json: unknown): ScoringRubric {
+  let raw = json;
+  if (typeof json === 'string') {
+    try {
+      raw = JSON.parse(json);
+    } catch (error) {
+      throw new RubricValidationError([
+        `Rubric is not valid JSON: ${error instanceof Error ? error.message : 'Unknown error'}`
+      ]);
+    }
+  }
+
+  const result = ScoringRubricSchema.safeParse(raw);
+  if (!result.success) {
+    throw new RubricValidationError(
+      result.error.issues.map(issue => `${issue.path.join('.') || 'rubric'}: ${issue.message}`)
+    );
+  }
+
+  return result.data;
+}
+
+/**
+ * Default rubric (current 100-point scoring)
+ */
+export const DEFAULT_SCORING_RUBRIC: ScoringRubric = parseScoringRubric(coreV2Rubric);
+
+/**
+ * Rubric for non-US marketplaces: the same 100 points, with review-count tiers scaled
+ * to smaller marketplaces
+ */
+export const INTL_SCORING_RUBRIC: ScoringRubric = parseScoringRubric(coreV2IntlRubric);
+
+/**
+ * Known rubric versions, so older reports can still be explained
+ */
+const rubricRegistry = new Map<string, ScoringRubric>([
+  [DEFAULT_SCORING_RUBRIC.version, DEFAULT_SCORING_RUBRIC],
+  [INTL_SCORING_RUBRIC.version, INTL_SCORING_RUBRIC]
+]);
+
+/**
+ * Register an additional rubric (e.g. a team-specific JSON file)
+ */
+export function registerScoringRubric(rubric: ScoringRubric): void {
+  rubricRegistry.set(rubric.version, rubric);
+}
+
+/**
+ * Look up a rubric by version, falling back to the default rubric
+ */
+export function getScoringRubric(version?: string): ScoringRubric {
+  if (version && rubricRegistry.has(version)) {
+    return rubricRegistry.get(version)!;
+  }
+  return DEFAULT_SCORING_RUBRIC;
+}
+
+/**
+ * Find the tier a value falls into
+ * Returns the matched tier index, or -1 when the fallback (cutoff) applies
+ */
+export function findTierIndex(category: RubricCategory, value: number): number {
+  return category.tiers.findIndex(tier =>
+    category.comparison === 'lte' ? value <= tier.threshold : value >= tier.threshold
+  );
+}
+
+/**
+ * Score a value against a rubric category
+ */
+export function scoreAgainstCategory(category: RubricCategory, value: number): number {
+  const tierIndex = findTierIndex(category, value);
+  return tierIndex === -1 ? category.fallbackPoints : category.tiers[tierIndex].points;
+}
+
+/**
+ * Total points available under a rubric
+ */
+export function getRubricMaxTotal(rubric: ScoringRubric): number {
+  return SCORE_CATEGORIES.reduce((sum, key) => sum + rubric.categories[key].maxPoints, 0);
+}
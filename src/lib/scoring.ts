@@ -1,33 +1,46 @@
-import { Product, ScoreCalculation, PollResult } from './types';
+import { Product, ScoreCalculation, PollResult, ScoreExplanation, ExplainedTier, PriceBasis } from './types';
+import {
+  ScoringRubric,
+  RubricCategory,
+  RubricTier,
+  ScoreCategory,
+  DEFAULT_SCORING_RUBRIC,
+  scoreAgainstCategory,
+  findTierIndex
+} from './scoring-rubric';
+import { formatPrice } from './utils';
+import { assertSingleCurrency } from './marketplaces';
+
+/**
+ * Price the price tiers are measured against
+ * - current: the lowest current price
+ * - list: the lowest list price, taking the current price of products that aren't discounted
+ */
+export function getPriceBenchmark(products: Product[], basis: PriceBasis = 'current'): number {
+  return Math.min(...products.map(p =>
+    basis === 'list' && p.originalPrice && p.originalPrice > p.price ? p.originalPrice : p.price
+  ));
+}
 
 /**
  * Calculate price score based on percentage over lowest price
  * Formula: percentage_over_lowest = ((Product_Price / Lowest_Price) - 1) × 100
- * NEW SCORING: 30 points maximum (was 10)
+ * With the 'list' basis, Lowest_Price is the lowest list price (see getPriceBenchmark);
+ * a product priced below it scores the top tier.
+ * Tiers come from rubric.categories.price (30 points maximum in the default rubric)
  */
-export function calculatePriceScore(products: Product[]): Record<string, number> {
-  const prices = products.map(p => p.price);
-  const lowestPrice = Math.min(...prices);
+export function calculatePriceScore(
+  products: Product[],
+  rubric: ScoringRubric = DEFAULT_SCORING_RUBRIC,
+  basis: PriceBasis = 'current'
+): Record<string, number> {
+  const lowestPrice = getPriceBenchmark(products, basis);
   
   const scores: Record<string, number> = {};
   
   products.forEach(product => {
     const percentageOverLowest = ((product.price / lowestPrice) - 1) * 100;
-    
-    let score = 0;
-    if (percentageOverLowest <= 0) score = 30; // Lowest price (was 10)
-    else if (percentageOverLowest <= 1) score = 27; // Within 1% (was 9)
-    else if (percentageOverLowest <= 3) score = 24; // Within 2-3% (was 8)
-    else if (percentageOverLowest <= 5) score = 21; // Within 4-5% (was 7)
-    else if (percentageOverLowest <= 8) score = 18; // Within 6-8% (was 6)
-    else if (percentageOverLowest <= 15) score = 15; // Within 9-15% (was 5)
-    else if (percentageOverLowest <= 20) score = 12; // Within 16-20% (was 4)
-    else if (percentageOverLowest <= 25) score = 9; // Within 21-25% (was 3)
-    else if (percentageOverLowest <= 30) score = 6; // Within 26-30% (was 2)
-    else if (percentageOverLowest <= 35) score = 3; // Within 31-35% (was 1)
-    else score = 0; // >35% (unchanged)
-    
-    scores[product.id] = score;
+    scores[product.id] = scoreAgainstCategory(rubric.categories.price, percentageOverLowest);
   });
   
   return scores;
@@ -36,26 +49,16 @@ export function calculatePriceScore(products: Product[]): Record<string, number>
 /**
  * Calculate shipping score based on absolute days from same-day delivery
  * Formula: score based on absolute shipping days (0=same day, 1=next day, etc.)
- * NEW SCORING: 15 points maximum (was 10), 8-day cutoff (anything beyond 8 days = 0)
+ * Tiers come from rubric.categories.shipping (15 points maximum, 8-day cutoff in the default rubric)
  */
-export function calculateShippingScore(products: Product[]): Record<string, number> {
+export function calculateShippingScore(
+  products: Product[],
+  rubric: ScoringRubric = DEFAULT_SCORING_RUBRIC
+): Record<string, number> {
   const scores: Record<string, number> = {};
   
   products.forEach(product => {
-    const shippingDays = product.shippingDays;
-    
-    let score = 0;
-    if (shippingDays <= 0) score = 15; // Same day or fastest (was 10)
-    else if (shippingDays <= 1) score = 13; // Within 1 day (was 9)
-    else if (shippingDays <= 2) score = 11; // Within 2 days (was 8)
-    else if (shippingDays <= 3) score = 9; // Within 3 days (was 7)
-    else if (shippingDays <= 4) score = 7; // Within 4 days (was 6)
-    else if (shippingDays <= 5) score = 5; // Within 5 days (unchanged)
-    else if (shippingDays <= 6) score = 3; // Within 6 days (was 4 for 6-8 days)
-    else if (shippingDays <= 8) score = 1; // Within 7-8 days (was 3 for 8-10 days)
-    else score = 0; // Beyond 8 days (NEW: anything over 8 days = 0)
-    
-    scores[product.id] = score;
+    scores[product.id] = scoreAgainstCategory(rubric.categories.shipping, product.shippingDays);
   });
   
   return scores;
@@ -63,28 +66,16 @@ export function calculateShippingScore(products: Product[]): Record<string, numb
 
 /**
  * Calculate review count score based on thresholds
- * NEW SCORING: 10 points maximum (was 30), simplified from 31 tiers to 11 tiers
+ * Tiers come from rubric.categories.reviews (10 points maximum in the default rubric)
  */
-export function calculateReviewScore(products: Product[]): Record<string, number> {
+export function calculateReviewScore(
+  products: Product[],
+  rubric: ScoringRubric = DEFAULT_SCORING_RUBRIC
+): Record<string, number> {
   const scores: Record<string, number> = {};
   
   products.forEach(product => {
-    const count = product.reviewCount;
-    
-    let score = 0;
-    if (count >= 1000) score = 10; // 1000+ reviews (was 30)
-    else if (count >= 750) score = 9; // 750-999 reviews (was 25)
-    else if (count >= 500) score = 8; // 500-749 reviews (was 20)
-    else if (count >= 300) score = 7; // 300-499 reviews (was 16)
-    else if (count >= 200) score = 6; // 200-299 reviews (was 13)
-    else if (count >= 100) score = 5; // 100-199 reviews (was 9)
-    else if (count >= 50) score = 4; // 50-99 reviews (was 6)
-    else if (count >= 25) score = 3; // 25-49 reviews (was 4)
-    else if (count >= 10) score = 2; // 10-24 reviews (was 3)
-    else if (count >= 5) score = 1; // 5-9 reviews (was 2)
-    else score = 0; // <5 reviews (unchanged)
-    
-    scores[product.id] = score;
+    scores[product.id] = scoreAgainstCategory(rubric.categories.reviews, product.reviewCount);
   });
   
   return scores;
@@ -92,171 +83,104 @@ export function calculateReviewScore(products: Product[]): Record<string, number
 
 /**
  * Calculate rating score based on star rating
- * NEW SCORING: 15 points maximum (was 30), 3.5 star cutoff (anything ≤3.5 stars = 0)
+ * Tiers come from rubric.categories.rating (15 points maximum, 3.5 star cutoff in the default rubric)
  */
-export function calculateRatingScore(products: Product[]): Record<string, number> {
+export function calculateRatingScore(
+  products: Product[],
+  rubric: ScoringRubric = DEFAULT_SCORING_RUBRIC
+): Record<string, number> {
   const scores: Record<string, number> = {};
   
   products.forEach(product => {
-    const rating = product.rating;
-    
-    let score = 0;
-    if (rating >= 5.0) score = 15; // 5.0 stars (was 30)
-    else if (rating >= 4.9) score = 14; // 4.9 stars (was 29)
-    else if (rating >= 4.8) score = 13; // 4.8 stars (was 28)
-    else if (rating >= 4.7) score = 12; // 4.7 stars (was 27)
-    else if (rating >= 4.6) score = 11; // 4.6 stars (was 26)
-    else if (rating >= 4.5) score = 10; // 4.5 stars (was 25)
-    else if (rating >= 4.4) score = 9; // 4.4 stars (was 24)
-    else if (rating >= 4.3) score = 8; // 4.3 stars (was 23)
-    else if (rating >= 4.2) score = 7; // 4.2 stars (was 22)
-    else if (rating >= 4.1) score = 6; // 4.1 stars (was 21)
-    else if (rating >= 4.0) score = 5; // 4.0 stars (was 20)
-    else if (rating >= 3.9) score = 4; // 3.9 stars (was 19)
-    else if (rating >= 3.8) score = 3; // 3.8 stars (was 18)
-    else if (rating >= 3.7) score = 2; // 3.7 stars (was 17)
-    else if (rating >= 3.6) score = 1; // 3.6 stars (was 16)
-    else score = 0; // ≤3.5 stars (NEW: harsh cutoff at 3.5 stars)
-    
-    scores[product.id] = score;
+    scores[product.id] = scoreAgainstCategory(rubric.categories.rating, product.rating);
   });
   
   return scores;
 }
 
 /**
- * Calculate main image score based on poll ranking
- * Main Image: 1st=10, 2nd=8, 3rd=6, 4th=4, 5th=2, 6th=0 (UNCHANGED)
+ * Score products by their poll rank against a rank-based rubric category
+ * Products without a poll result or ranking receive the category's fallback points
  */
-export function calculateMainImageScore(products: Product[], pollResult: PollResult | null): Record<string, number> {
+function calculatePollRankScore(
+  products: Product[],
+  pollResult: PollResult | null,
+  category: RubricCategory
+): Record<string, number> {
   const scores: Record<string, number> = {};
   
-  if (!pollResult) {
-    products.forEach(product => {
-      scores[product.id] = 0;
-    });
-    return scores;
-  }
-  
   products.forEach(product => {
-    const ranking = pollResult.rankings.find(r => r.productId === product.id);
-    if (!ranking) {
-      scores[product.id] = 0;
-      return;
-    }
-    
-    let score = 0;
-    switch (ranking.rank) {
-      case 1: score = 10; break;
-      case 2: score = 8; break;
-      case 3: score = 6; break;
-      case 4: score = 4; break;
-      case 5: score = 2; break;
-      case 6: 
-      default: score = 0; break;
-    }
-    
-    scores[product.id] = score;
+    const ranking = pollResult?.rankings.find(r => r.productId === product.id);
+    scores[product.id] = ranking
+      ? scoreAgainstCategory(category, ranking.rank)
+      : category.fallbackPoints;
   });
   
   return scores;
 }
 
+/**
+ * Calculate main image score based on poll ranking
+ * Default rubric: 1st=10, 2nd=8, 3rd=6, 4th=4, 5th=2, 6th=0
+ */
+export function calculateMainImageScore(
+  products: Product[],
+  pollResult: PollResult | null,
+  rubric: ScoringRubric = DEFAULT_SCORING_RUBRIC
+): Record<string, number> {
+  return calculatePollRankScore(products, pollResult, rubric.categories.mainImage);
+}
+
 /**
  * Calculate image stack score based on poll ranking
- * NEW SCORING: 5 points maximum (was 10)
+ * Default rubric: 5 points maximum
  */
-export function calculateImageStackScore(products: Product[], pollResult: PollResult | null): Record<string, number> {
-  const scores: Record<string, number> = {};
-  
-  if (!pollResult) {
-    products.forEach(product => {
-      scores[product.id] = 0;
-    });
-    return scores;
-  }
-  
-  products.forEach(product => {
-    const ranking = pollResult.rankings.find(r => r.productId === product.id);
-    if (!ranking) {
-      scores[product.id] = 0;
-      return;
-    }
-    
-    let score = 0;
-    switch (ranking.rank) {
-      case 1: score = 5; break; // 1st place (was 10)
-      case 2: score = 4; break; // 2nd place (was 8)
-      case 3: score = 3; break; // 3rd place (was 6)
-      case 4: score = 2; break; // 4th place (was 4)
-      case 5: score = 1; break; // 5th place (was 2)
-      case 6: 
-      default: score = 0; break; // 6th place (unchanged)
-    }
-    
-    scores[product.id] = score;
-  });
-  
-  return scores;
+export function calculateImageStackScore(
+  products: Product[],
+  pollResult: PollResult | null,
+  rubric: ScoringRubric = DEFAULT_SCORING_RUBRIC
+): Record<string, number> {
+  return calculatePollRankScore(products, pollResult, rubric.categories.imageStack);
 }
 
 /**
  * Calculate features score based on poll ranking
- * NEW SCORING: 15 points maximum (was 30), 0 points for last place (was 5)
+ * Default rubric: 15 points maximum, 0 points for last place
  */
-export function calculateFeaturesScore(products: Product[], pollResult: PollResult | null): Record<string, number> {
-  const scores: Record<string, number> = {};
-  
-  if (!pollResult) {
-    products.forEach(product => {
-      scores[product.id] = 0;
-    });
-    return scores;
-  }
-  
-  products.forEach(product => {
-    const ranking = pollResult.rankings.find(r => r.productId === product.id);
-    if (!ranking) {
-      scores[product.id] = 0;
-      return;
-    }
-    
-    let score = 0;
-    switch (ranking.rank) {
-      case 1: score = 15; break; // 1st place (was 30)
-      case 2: score = 12; break; // 2nd place (was 25)
-      case 3: score = 9; break; // 3rd place (was 20)
-      case 4: score = 6; break; // 4th place (was 15)
-      case 5: score = 3; break; // 5th place (was 10)
-      case 6: 
-      default: score = 0; break; // 6th place (was 5, now 0)
-    }
-    
-    scores[product.id] = score;
-  });
-  
-  return scores;
+export function calculateFeaturesScore(
+  products: Product[],
+  pollResult: PollResult | null,
+  rubric: ScoringRubric = DEFAULT_SCORING_RUBRIC
+): Record<string, number> {
+  return calculatePollRankScore(products, pollResult, rubric.categories.features);
 }
 
 /**
  * Calculate all scores and return complete score calculations
- * NEW TOTAL MAXIMUM: 100 points (was 130 points)
+ * Every calculation records the rubric version that produced it
+ * Throws CurrencyMismatchError when products are priced in different currencies
+ * Default rubric total: 100 points
  * Price: 30, Shipping: 15, Reviews: 10, Rating: 15, Main Image: 10, Image Stack: 5, Features: 15
  */
 export function calculateAllScores(
   products: Product[],
   mainImagePoll: PollResult | null,
   imageStackPoll: PollResult | null,
-  featuresPoll: PollResult | null
+  featuresPoll: PollResult | null,
+  rubric: ScoringRubric = DEFAULT_SCORING_RUBRIC,
+  priceBasis: PriceBasis = 'current'
 ): ScoreCalculation[] {
+  // Prices are compared as plain numbers, so they must share a currency
+  assertSingleCurrency(products);
   
-  const priceScores = calculatePriceScore(products);
-  const shippingScores = calculateShippingScore(products);
-  const reviewScores = calculateReviewScore(products);
-  const ratingScores = calculateRatingScore(products);
-  const mainImageScores = calculateMainImageScore(products, mainImagePoll);
-  const imageStackScores = calculateImageStackScore(products, imageStackPoll);
-  const featuresScores = calculateFeaturesScore(products, featuresPoll);
+  const priceScores = calculatePriceScore(products, rubric, priceBasis);
+  const shippingScores = calculateShippingScore(products, rubric);
+  const reviewScores = calculateReviewScore(products, rubric);
+  const ratingScores = calculateRatingScore(products, rubric);
+  const mainImageScores = calculateMainImageScore(products, mainImagePoll, rubric);
+  const imageStackScores = calculateImageStackScore(products, imageStackPoll, rubric);
+  const featuresScores = calculateFeaturesScore(products, featuresPoll, rubric);
+  const explanations = explainAllScores(products, mainImagePoll, imageStackPoll, featuresPoll, rubric, priceBasis);
   
   const calculations = products.map(product => {
     const totalScore = 
@@ -278,13 +202,218 @@ export function calculateAllScores(
       mainImageScore: mainImageScores[product.id],
       imageStackScore: imageStackScores[product.id],
       featuresScore: featuresScores[product.id],
-      totalScore
+      totalScore,
+      rubricVersion: rubric.version,
+      explanations: explanations[product.id]
     };
   });
   
   return calculations;
 }
 
+/**
+ * Build explanations for every category of every product
+ * Mirrors the inputs used by calculateAllScores so the explanation always matches the score
+ */
+export function explainAllScores(
+  products: Product[],
+  mainImagePoll: PollResult | null,
+  imageStackPoll: PollResult | null,
+  featuresPoll: PollResult | null,
+  rubric: ScoringRubric = DEFAULT_SCORING_RUBRIC,
+  priceBasis: PriceBasis = 'current'
+): Record<string, Record<ScoreCategory, ScoreExplanation>> {
+  const lowestPrice = getPriceBenchmark(products, priceBasis);
+  const benchmark = priceBasis === 'list' ? 'lowest list price' : 'lowest price';
+  const { categories } = rubric;
+  
+  const explanations: Record<string, Record<ScoreCategory, ScoreExplanation>> = {};
+  
+  products.forEach(product => {
+    const percentageOverLowest = ((product.price / lowestPrice) - 1) * 100;
+    
+    explanations[product.id] = {
+      price: explainCategory('price', categories.price, {
+        inputValue: product.price,
+        inputDisplay: formatPrice(product.price, product.marketplace),
+        metric: `percentage over ${benchmark}`,
+        metricValue: percentageOverLowest,
+        formatMetric: value => `${value.toFixed(1)}%`,
+        describeGap: (tier) => {
+          const targetPrice = findTargetPrice(lowestPrice, tier.threshold);
+          const cut = product.price - targetPrice;
+          return tier.threshold <= 0
+            ? `cut price by ${formatPrice(cut, product.marketplace)} to match the ${benchmark} (${formatPrice(lowestPrice, product.marketplace)})`
+            : `cut price by ${formatPrice(cut, product.marketplace)} to ${formatPrice(targetPrice, product.marketplace)} (≤${tier.threshold}% over ${benchmark})`;
+        }
+      }),
+      shipping: explainCategory('shipping', categories.shipping, {
+        inputValue: product.shippingDays,
+        inputDisplay: `${product.shippingDays} days`,
+        metric: 'shipping days',
+        metricValue: product.shippingDays,
+        formatMetric: value => `${value} days`,
+        describeGap: (tier, gap) => `deliver ${formatNumber(gap)} day${gap === 1 ? '' : 's'} faster (≤${tier.threshold} days)`
+      }),
+      reviews: explainCategory('reviews', categories.reviews, {
+        inputValue: product.reviewCount,
+        inputDisplay: product.reviewCount.toLocaleString('en-US'),
+        metric: 'review count',
+        metricValue: product.reviewCount,
+        formatMetric: value => value.toLocaleString('en-US'),
+        describeGap: (tier, gap) => `gain ${Math.ceil(gap).toLocaleString('en-US')} more reviews (${tier.threshold.toLocaleString('en-US')}+)`
+      }),
+      rating: explainCategory('rating', categories.rating, {
+        inputValue: product.rating,
+        inputDisplay: `${product.rating} stars`,
+        metric: 'star rating',
+        metricValue: product.rating,
+        formatMetric: value => `${value} stars`,
+        describeGap: (tier, gap) => `raise rating by ${formatNumber(gap)} stars (to ${tier.threshold.toFixed(1)})`
+      }),
+      mainImage: explainPollCategory('mainImage', categories.mainImage, product, mainImagePoll, 'main image poll rank'),
+      imageStack: explainPollCategory('imageStack', categories.imageStack, product, imageStackPoll, 'image stack poll rank'),
+      features: explainPollCategory('features', categories.features, product, featuresPoll, 'features poll rank')
+    };
+  });
+  
+  return explanations;
+}
+
+/**
+ * Explain a poll-rank category for one product
+ */
+function explainPollCategory(
+  key: ScoreCategory,
+  definition: RubricCategory,
+  product: Product,
+  pollResult: PollResult | null,
+  metric: string
+): ScoreExplanation {
+  const ranking = pollResult?.rankings.find(r => r.productId === product.id);
+  
+  return explainCategory(key, definition, {
+    inputValue: ranking ? ranking.rank : null,
+    inputDisplay: ranking ? `#${ranking.rank} (${ranking.percentage}%)` : 'Not ranked',
+    metric,
+    metricValue: ranking ? ranking.rank : null,
+    formatMetric: value => `#${value}`,
+    describeGap: (tier, gap) => `gain ${gap} poll place${gap === 1 ? '' : 's'} (to #${tier.threshold})`
+  });
+}
+
+/**
+ * Explain how a metric value maps onto a rubric category
+ */
+function explainCategory(
+  key: ScoreCategory,
+  definition: RubricCategory,
+  input: {
+    inputValue: number | null;
+    inputDisplay: string;
+    metric: string;
+    metricValue: number | null;
+    formatMetric: (value: number) => string;
+    describeGap: (tier: RubricTier, gap: number) => string;
+  }
+): ScoreExplanation {
+  const { metricValue } = input;
+  
+  if (metricValue === null) {
+    return {
+      category: key,
+      inputValue: input.inputValue,
+      inputDisplay: input.inputDisplay,
+      metric: input.metric,
+      metricValue: null,
+      metricDisplay: `${input.metric} unavailable`,
+      points: definition.fallbackPoints,
+      maxPoints: definition.maxPoints,
+      matchedTier: null,
+      nextTier: null
+    };
+  }
+  
+  const tierIndex = findTierIndex(definition, metricValue);
+  const points = tierIndex === -1 ? definition.fallbackPoints : definition.tiers[tierIndex].points;
+  
+  // The next tier up is the closest tier that awards more points
+  const candidates = tierIndex === -1 ? definition.tiers : definition.tiers.slice(0, tierIndex);
+  let nextTier: ScoreExplanation['nextTier'] = null;
+  for (let i = candidates.length - 1; i >= 0; i--) {
+    if (candidates[i].points > points) {
+      const tier = candidates[i];
+      const rawGap = definition.comparison === 'lte'
+        ? metricValue - tier.threshold
+        : tier.threshold - metricValue;
+      const gap = Math.round(rawGap * 10000) / 10000;
+      nextTier = {
+        ...toExplainedTier(definition, tier),
+        gap,
+        gapDisplay: input.describeGap(tier, gap)
+      };
+      break;
+    }
+  }
+  
+  return {
+    category: key,
+    inputValue: input.inputValue,
+    inputDisplay: input.inputDisplay,
+    metric: input.metric,
+    metricValue,
+    metricDisplay: `${input.metric} = ${input.formatMetric(metricValue)}`,
+    points,
+    maxPoints: definition.maxPoints,
+    matchedTier: tierIndex === -1 ? null : toExplainedTier(definition, definition.tiers[tierIndex]),
+    nextTier
+  };
+}
+
+/**
+ * Normalize a rubric tier for explanations, generating a label when the rubric has none
+ */
+function toExplainedTier(definition: RubricCategory, tier: RubricTier): ExplainedTier {
+  return {
+    label: tier.label || `${definition.comparison === 'lte' ? '≤' : '≥'} ${tier.threshold}`,
+    threshold: tier.threshold,
+    points: tier.points
+  };
+}
+
+/**
+ * Highest whole-cent price whose percentage over the lowest price stays within a tier threshold
+ * Uses the exact scoring formula so the suggested price really lands in the tier
+ */
+export function findTargetPrice(lowestPrice: number, thresholdPercent: number): number {
+  let cents = Math.floor(lowestPrice * (1 + thresholdPercent / 100) * 100);
+  while (cents > 0 && ((cents / 100 / lowestPrice) - 1) * 100 > thresholdPercent) {
+    cents--;
+  }
+  return cents / 100;
+}
+
+/**
+ * Format a gap without floating point noise (0.05 rather than 0.04999999)
+ */
+function formatNumber(value: number): string {
+  return Number(value.toFixed(2)).toString();
+}
+
+/**
+ * Format an explanation as a single line for tooltips, notes and reports
+ */
+export function formatScoreExplanation(explanation: ScoreExplanation): string {
+  const tierText = explanation.matchedTier
+    ? `tier "${explanation.matchedTier.label}"`
+    : 'below the lowest tier (cutoff)';
+  const nextText = explanation.nextTier
+    ? ` Next tier "${explanation.nextTier.label}" (${explanation.nextTier.points} pts): ${explanation.nextTier.gapDisplay}.`
+    : ' Already in the top tier.';
+  
+  return `${explanation.inputDisplay} → ${explanation.metricDisplay} → ${tierText} = ${explanation.points}/${explanation.maxPoints} pts.${explanation.metricValue === null ? '' : nextText}`;
+}
+
 /**
  * Triple-check calculation accuracy
  */
@@ -4,6 +4,10 @@
  */
 
 import { withRetry, DEFAULT_OCR_RETRY_CONFIG } from './retry';
+import { ProductDataSourceInfo } from './types';
+import { MarketplaceId, DEFAULT_MARKETPLACE, getMarketplace, parseLocalePrice } from './marketplaces';
+import { resolveShippingDays } from './delivery-promise';
+import { RateLimiter, mapConcurrent, readFetchLimits, parseRetryAfter } from './rate-limiter';
 
 /**
  * ScrapeOps API Response Structure (exact field names)
@@ -18,10 +22,13 @@ export interface ScrapedProductData {
   price: number;
   originalPrice?: number | null;
   shippingDays: number;
+  deliveryPromise?: string | null; // Delivery message as shown on the listing
+  deliveryPostcode?: string | null; // Delivery location the source quoted shipping for, when it could choose
   reviewCount: number;
   rating: number;
   imageUrls: string[]; // Raw URLs from API
   features: string;
+  source?: ProductDataSourceInfo; // Set by the data source that produced it
   rawResponse?: any; // For debugging
 }
 
@@ -31,6 +38,8 @@ export interface ScrapedProductData {
  */
 export class ScrapeOpsDataParser {
   
+  constructor(private marketplace: MarketplaceId = DEFAULT_MARKETPLACE) {}
+  
   /**
    * Parse ScrapeOps API response to ProductData format
    * Follows exact field mapping from PRD v2.1
@@ -82,106 +91,27 @@ export class ScrapeOpsDataParser {
   }
   
   /**
-   * Parse price string - Remove $, commas, and text
-   * Examples: "$1177.91" → 1177.91, "$49.99" → 49.99
+   * Parse price string in the marketplace's format
+   * Examples: "$1177.91" → 1177.91, "$49.99" → 49.99, "1.177,91 €" → 1177.91
    */
-  private parsePrice(priceString: string | undefined | null): number {
-    if (!priceString) return 0;
-    
-    // Remove $, commas, and any non-numeric characters except decimal point
-    const cleanPrice = priceString.replace(/[$,]/g, '').trim();
-    const price = parseFloat(cleanPrice);
-    
-    return isNaN(price) ? 0 : price;
+  parsePrice(priceString: string | undefined | null): number {
+    return parseLocalePrice(priceString, this.marketplace);
   }
   
   /**
    * Parse shipping days from availability/shipping text
-   * EXACT patterns from PRD v2.1 Section 5.3.1
-   */
-  private parseShippingDays(shippingText: string): number {
-    if (!shippingText) return 5; // Default
-    
-    // Define exact patterns from PRD
-    const patterns = {
-      // "Only X left in stock - order soon" = Standard shipping (3 days)
-      inStock: /in stock/i,
-      
-      // "Arrives: Monday, April 15" = Calculate days
-      arrives: /arrives?:?\s*(\w+,?\s*\w+\s*\d+)/i,
-      
-      // "FREE delivery April 15-18"
-      delivery: /delivery\s+(\w+\s+\d+)/i,
-      
-      // "Ships within 2 days"
-      shipsWithin: /ships?\s+within\s+(\d+)\s+days?/i,
-      
-      // Tomorrow/Today
-      tomorrow: /tomorrow/i,
-      today: /today/i
-    };
-    
-    // Check immediate delivery
-    if (patterns.today.test(shippingText)) return 0;
-    if (patterns.tomorrow.test(shippingText)) return 1;
-    
-    // Check "in stock" (default 3 days per PRD)
-    if (patterns.inStock.test(shippingText)) return 3;
-    
-    // Try to extract specific date
-    const arrivesMatch = shippingText.match(patterns.arrives);
-    if (arrivesMatch) {
-      return this.calculateDaysFromDate(arrivesMatch[1]);
-    }
-    
-    const deliveryMatch = shippingText.match(patterns.delivery);
-    if (deliveryMatch) {
-      return this.calculateDaysFromDate(deliveryMatch[1]);
-    }
-    
-    // Check "ships within X days"
-    const shipsWithinMatch = shippingText.match(patterns.shipsWithin);
-    if (shipsWithinMatch) {
-      return parseInt(shipsWithinMatch[1]);
-    }
-    
-    // Default standard shipping (5 days per PRD)
-    return 5;
-  }
-  
-  /**
-   * Calculate days from date string
-   * Example: "Monday, April 15" → days from today
+   * Counted from referenceDate in the marketplace's time zone (see delivery-promise.ts);
+   * text without a delivery time counts as DEFAULT_SHIPPING_DAYS.
    */
-  private calculateDaysFromDate(dateString: string): number {
-    try {
-      const currentYear = new Date().getFullYear();
-      const targetDate = new Date(dateString + ', ' + currentYear);
-      const today = new Date();
-      
-      // Reset time to midnight for accurate day calculation
-      today.setHours(0, 0, 0, 0);
-      targetDate.setHours(0, 0, 0, 0);
-      
-      // If date is in the past, assume next year
-      if (targetDate < today) {
-        targetDate.setFullYear(currentYear + 1);
-      }
-      
-      const diffTime = targetDate.getTime() - today.getTime();
-      const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24));
-      
-      return Math.max(0, diffDays);
-    } catch {
-      return 5; // Default if date parsing fails
-    }
+  parseShippingDays(shippingText: string, referenceDate: Date = new Date()): number {
+    return resolveShippingDays(shippingText, { referenceDate, marketplace: this.marketplace });
   }
   
   /**
    * Format feature bullets as numbered list
    * EXACT format from PRD v2.1: "1. Feature\n\n2. Feature"
    */
-  private formatFeatures(bullets: string[] | undefined): string {
+  formatFeatures(bullets: string[] | undefined): string {
     if (!bullets || bullets.length === 0) {
       return 'No features specified';
     }
@@ -240,17 +170,35 @@ export class ScrapeOpsDataParser {
   }
 }
 
+/**
+ * Custom error for failed ScrapeOps requests
+ * status lets retries and rate limiters tell a 429 from a permanent failure
+ */
+export class ScrapeOpsRequestError extends Error {
+  constructor(
+    message: string,
+    public status?: number,
+    public retryAfterMs?: number
+  ) {
+    super(message);
+    this.name = 'ScrapeOpsRequestError';
+  }
+}
+
 /**
  * ScrapeOps API Client
- * Handles API calls with retry logic
+ * Handles API calls with retry logic; every attempt goes through the rate limiter
  */
 export class ScrapeOpsClient {
   private apiKey: string;
   private parser: ScrapeOpsDataParser;
   
-  constructor() {
+  constructor(
+    private marketplace: MarketplaceId = DEFAULT_MARKETPLACE,
+    private limiter: RateLimiter = new RateLimiter(readFetchLimits())
+  ) {
     this.apiKey = process.env.SCRAPEOPS_API_KEY || '';
-    this.parser = new ScrapeOpsDataParser();
+    this.parser = new ScrapeOpsDataParser(marketplace);
     
     if (!this.apiKey) {
       throw new Error('SCRAPEOPS_API_KEY not found in environment variables');
@@ -267,17 +215,18 @@ export class ScrapeOpsClient {
       throw new Error(`Invalid ASIN format: ${asin}`);
     }
     
-    // Build API request with exact parameters from PRD
+    // Build API request with exact parameters from PRD, for the configured marketplace
+    const { country, tld } = getMarketplace(this.marketplace);
     const params = new URLSearchParams({
       api_key: this.apiKey,
       asin: asin,
-      country: 'us',
-      tld: 'com'
+      country,
+      tld
     });
     
     // Call API with retry logic
     const apiResponse = await withRetry(
-      async () => {
+      () => this.limiter.schedule(async () => {
         const response = await fetch(
           `https://proxy.scrapeops.io/v1/structured-data/amazon/product?${params}`,
           {
@@ -289,7 +238,11 @@ export class ScrapeOpsClient {
         );
         
         if (!response.ok) {
-          throw new Error(`ScrapeOps API request failed: ${response.status}`);
+          throw new ScrapeOpsRequestError(
+            `ScrapeOps API request failed: ${response.status}`,
+            response.status,
+            parseRetryAfter(response.headers.get('retry-after'))
+          );
         }
         
         const data = await response.json();
@@ -303,7 +256,7 @@ export class ScrapeOpsClient {
         }
         
         return responseData;
-      },
+      }),
       {
         ...DEFAULT_OCR_RETRY_CONFIG,
         onRetry: () => {
@@ -317,22 +270,17 @@ export class ScrapeOpsClient {
   
   /**
    * Fetch multiple products in bulk
-   * Includes rate limiting (200ms delay per PRD)
+   * Runs FETCH_CONCURRENCY requests at a time; the rate limiter paces them.
+   * Results are in the order of the ASINs.
    */
   async fetchBulkProducts(asins: string[]): Promise<ScrapedProductData[]> {
-    const results: ScrapedProductData[] = [];
-    
-    for (const asin of asins) {
+    return mapConcurrent(asins, readFetchLimits().concurrency, async (asin): Promise<ScrapedProductData> => {
       try {
-        const product = await this.fetchProduct(asin);
-        results.push(product);
-        
-        // Rate limiting - 200ms delay between requests (per PRD)
-        await this.delay(200);
+        return await this.fetchProduct(asin);
       } catch (error) {
         console.error(`Failed to fetch ASIN ${asin}:`, error);
         // Continue with next ASIN, don't throw
-        results.push({
+        return {
           asin,
           name: 'Failed to fetch',
           price: 0,
@@ -342,11 +290,9 @@ export class ScrapeOpsClient {
           imageUrls: [],
           features: 'Failed to fetch product data',
           rawResponse: null
-        });
+        };
       }
-    }
-    
-    return results;
+    });
   }
   
   /**
@@ -356,12 +302,5 @@ export class ScrapeOpsClient {
     const pattern = /^[A-Z0-9]{10}$/;
     return pattern.test(asin);
   }
-  
-  /**
-   * Delay utility for rate limiting
-   */
-  private delay(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
-  }
 }
 
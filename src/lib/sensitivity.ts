@@ -0,0 +1,261 @@
+/**
+ * Score Sensitivity Analysis
+ * Measures how far each product's inputs sit from the nearest tier boundaries and flags
+ * "fragile" scores that a small change in the input would swing
+ *
+ * Only the input-driven ladders are covered (price, shipping, reviews, rating); poll
+ * categories are scored by place, so there is no continuous input to be near a boundary.
+ */
+
+import { PriceBasis, Product, SensitivityMargins } from './types';
+import { ScoringRubric, RubricCategory, DEFAULT_SCORING_RUBRIC, findTierIndex } from './scoring-rubric';
+import { findTargetPrice, getPriceBenchmark } from './scoring';
+import { formatPrice } from './utils';
+
+export type SensitivityCategory = 'price' | 'shipping' | 'reviews' | 'rating';
+
+export const SENSITIVITY_CATEGORIES: SensitivityCategory[] = ['price', 'shipping', 'reviews', 'rating'];
+
+/**
+ * Default fragility margins
+ * - pricePercent: percent of the product's own price
+ * - shippingDays: 0 by default, since every day is its own tier and a one-day slip always costs points
+ * - reviews: absolute review count
+ * - rating: stars
+ */
+export const DEFAULT_SENSITIVITY_MARGINS: SensitivityMargins = {
+  pricePercent: 1,
+  shippingDays: 0,
+  reviews: 10,
+  rating: 0.05
+};
+
+/**
+ * Distance from the current input to a tier boundary, in the input's own units
+ */
+export interface BoundaryDistance {
+  distance: number;
+  display: string;
+  pointsChange: number; // Positive when crossing gains points, negative when it loses them
+}
+
+/**
+ * Sensitivity of one product in one category
+ */
+export interface CategorySensitivity {
+  category: SensitivityCategory;
+  label: string;
+  value: number;
+  valueDisplay: string;
+  points: number;
+  maxPoints: number;
+  gain: BoundaryDistance | null; // Smallest change that earns more points (null at the top tier)
+  loss: BoundaryDistance | null; // Smallest change that costs points (null at the cutoff)
+  margin: number; // Fragility margin in input units
+  atRisk: boolean; // Loss boundary within the margin
+  nearUpgrade: boolean; // Gain boundary within the margin
+  fragile: boolean;
+}
+
+/**
+ * Sensitivity report for one product
+ */
+export interface ProductSensitivity {
+  productId: string;
+  productName: string;
+  isUserProduct: boolean;
+  categories: CategorySensitivity[];
+  fragileCount: number;
+}
+
+interface LadderInput {
+  definition: RubricCategory; // Tiers expressed in input units
+  value: number;
+  step: number; // Smallest meaningful change in the input
+  describe: (distance: number, direction: 'gain' | 'loss') => string;
+}
+
+/**
+ * Build the sensitivity report for every product
+ */
+export function analyzeSensitivity(
+  products: Product[],
+  rubric: ScoringRubric = DEFAULT_SCORING_RUBRIC,
+  margins: SensitivityMargins = DEFAULT_SENSITIVITY_MARGINS,
+  priceBasis: PriceBasis = 'current'
+): ProductSensitivity[] {
+  return products.map(product => {
+    const categories = SENSITIVITY_CATEGORIES.map(category =>
+      analyzeCategory(category, product, products, rubric, margins, priceBasis)
+    );
+
+    return {
+      productId: product.id,
+      productName: product.name,
+      isUserProduct: !!product.isUserProduct,
+      categories,
+      fragileCount: categories.filter(c => c.fragile).length
+    };
+  });
+}
+
+function analyzeCategory(
+  category: SensitivityCategory,
+  product: Product,
+  products: Product[],
+  rubric: ScoringRubric,
+  margins: SensitivityMargins,
+  priceBasis: PriceBasis
+): CategorySensitivity {
+  const definition = rubric.categories[category];
+  let ladder: LadderInput;
+  let margin: number;
+  let valueDisplay: string;
+
+  switch (category) {
+    case 'price': {
+      // Re-express the percent-over-lowest tiers as whole-cent price ceilings against the
+      // cheapest other product, which is the reference whenever this product's price moves
+      // (with the list basis, this product's own list price stays in the running too)
+      const others = products.filter(p => p.id !== product.id);
+      const ownList = priceBasis === 'list' && product.originalPrice ? product.originalPrice : Infinity;
+      const reference = others.length > 0
+        ? Math.min(getPriceBenchmark(others, priceBasis), ownList)
+        : product.price;
+      ladder = {
+        definition: {
+          ...definition,
+          tiers: definition.tiers.map(tier => ({ ...tier, threshold: findTargetPrice(reference, tier.threshold) }))
+        },
+        value: product.price,
+        step: 0.01,
+        describe: (distance, direction) =>
+          `${direction === 'gain' ? 'cut' : 'raise'} price by ${formatPrice(distance, product.marketplace)}`
+      };
+      margin = roundDistance(product.price * margins.pricePercent / 100);
+      valueDisplay = formatPrice(product.price, product.marketplace);
+      break;
+    }
+    case 'shipping':
+      ladder = {
+        definition,
+        value: product.shippingDays,
+        step: 1,
+        describe: (distance, direction) =>
+          `ship ${distance} day${distance === 1 ? '' : 's'} ${direction === 'gain' ? 'faster' : 'slower'}`
+      };
+      margin = margins.shippingDays;
+      valueDisplay = `${product.shippingDays} days`;
+      break;
+    case 'reviews':
+      ladder = {
+        definition,
+        value: product.reviewCount,
+        step: 1,
+        describe: (distance, direction) =>
+          `${direction === 'gain' ? 'gain' : 'lose'} ${distance.toLocaleString('en-US')} review${distance === 1 ? '' : 's'}`
+      };
+      margin = margins.reviews;
+      valueDisplay = product.reviewCount.toLocaleString('en-US');
+      break;
+    case 'rating':
+      ladder = {
+        definition,
+        value: product.rating,
+        // Listing ratings are shown to one decimal, so the next possible value is 0.1 away
+        step: Number.isInteger(Math.round(product.rating * 100) / 10) ? 0.1 : 0.01,
+        describe: (distance, direction) =>
+          `rating ${direction === 'gain' ? 'up' : 'down'} ${distance.toFixed(2)} stars`
+      };
+      margin = margins.rating;
+      valueDisplay = `${product.rating} stars`;
+      break;
+  }
+
+  const { points, gain, loss } = measureBoundaries(ladder);
+  const atRisk = loss !== null && loss.distance <= margin;
+  const nearUpgrade = gain !== null && gain.distance <= margin;
+
+  return {
+    category,
+    label: definition.label,
+    value: ladder.value,
+    valueDisplay,
+    points,
+    maxPoints: definition.maxPoints,
+    gain,
+    loss,
+    margin,
+    atRisk,
+    nearUpgrade,
+    fragile: atRisk || nearUpgrade
+  };
+}
+
+/**
+ * Distances to the nearest point-changing boundary in each direction
+ * A gain boundary is reached on the threshold itself; a loss boundary needs one step past it.
+ */
+function measureBoundaries(ladder: LadderInput): {
+  points: number;
+  gain: BoundaryDistance | null;
+  loss: BoundaryDistance | null;
+} {
+  const { definition, value, step } = ladder;
+  const { tiers, comparison, fallbackPoints } = definition;
+  const tierIndex = findTierIndex(definition, value);
+  const points = tierIndex === -1 ? fallbackPoints : tiers[tierIndex].points;
+
+  // Gain: the closest better tier that awards more points
+  let gain: BoundaryDistance | null = null;
+  const better = tierIndex === -1 ? tiers : tiers.slice(0, tierIndex);
+  for (let i = better.length - 1; i >= 0; i--) {
+    if (better[i].points > points) {
+      const distance = roundDistance(comparison === 'lte' ? value - better[i].threshold : better[i].threshold - value);
+      gain = {
+        distance,
+        display: ladder.describe(distance, 'gain'),
+        pointsChange: better[i].points - points
+      };
+      break;
+    }
+  }
+
+  // Loss: the last boundary of the run of tiers worth the current points
+  let loss: BoundaryDistance | null = null;
+  if (tierIndex !== -1) {
+    let last = tierIndex;
+    while (last + 1 < tiers.length && tiers[last + 1].points === points) last++;
+    const nextPoints = last + 1 < tiers.length ? tiers[last + 1].points : fallbackPoints;
+
+    if (nextPoints < points) {
+      const boundary = tiers[last].threshold;
+      const distance = roundDistance((comparison === 'lte' ? boundary - value : value - boundary) + step);
+      loss = {
+        distance,
+        display: ladder.describe(distance, 'loss'),
+        pointsChange: nextPoints - points
+      };
+    }
+  }
+
+  return { points, gain, loss };
+}
+
+/**
+ * One-line summary of a category's sensitivity
+ */
+export function formatSensitivity(sensitivity: CategorySensitivity): string {
+  const parts: string[] = [];
+  if (sensitivity.loss) {
+    parts.push(`${sensitivity.loss.display} loses ${-sensitivity.loss.pointsChange} pts`);
+  }
+  if (sensitivity.gain) {
+    parts.push(`${sensitivity.gain.display} gains ${sensitivity.gain.pointsChange} pts`);
+  }
+  return parts.length > 0 ? parts.join('; ') : 'No boundary within reach';
+}
+
+function roundDistance(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,249 @@
+/**
+ * Product Snapshot Store
+ * Every product fetched from a data source is stored as a snapshot in a local SQLite
+ * database, keyed by ASIN, marketplace and fetch time. Recent snapshots are served instead
+ * of hitting the data source again, and older ones are kept as price/rating/review history.
+ *
+ * Environment:
+ * - SNAPSHOT_DB_PATH: database file (default data/snapshots.db)
+ * - SNAPSHOT_TTL_HOURS: how long a snapshot is served instead of refetching (default 24, 0 = always refetch)
+ */
+
+import Database from 'better-sqlite3';
+import { mkdirSync } from 'fs';
+import path from 'path';
+import { CompleteProductData, ProductSnapshotSummary, ProductDataSourceType } from './types';
+import { MarketplaceId } from './marketplaces';
+
+export const DEFAULT_SNAPSHOT_DB_PATH = 'data/snapshots.db';
+export const DEFAULT_SNAPSHOT_TTL_HOURS = 24;
+
+export interface SnapshotConfig {
+  dbPath: string;
+  ttlMs: number;
+}
+
+/**
+ * An image as stored in a snapshot: base64 data URL plus where it came from
+ */
+export interface StoredImage {
+  base64: string;
+  originalUrl: string;
+  type: string;
+}
+
+/**
+ * Product data as stored in a snapshot (images inline, no raw response)
+ */
+export interface StoredProduct extends Omit<CompleteProductData, 'images' | 'rawResponse' | 'fromCache'> {
+  images: {
+    mainImage: StoredImage | null;
+    additionalImages: StoredImage[];
+  };
+}
+
+export interface ProductSnapshot extends ProductSnapshotSummary {
+  product: StoredProduct;
+}
+
+interface SnapshotRow {
+  id: number;
+  asin: string;
+  marketplace: string;
+  fetched_at: string;
+  source_type: string;
+  name: string;
+  price: number;
+  original_price: number | null;
+  shipping_days: number;
+  review_count: number;
+  rating: number;
+  delivery_promise: string | null;
+  delivery_postcode: string | null;
+  data?: string;
+}
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS product_snapshots (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    asin TEXT NOT NULL,
+    marketplace TEXT NOT NULL,
+    fetched_at TEXT NOT NULL,
+    source_type TEXT NOT NULL,
+    name TEXT NOT NULL,
+    price REAL NOT NULL,
+    original_price REAL,
+    shipping_days INTEGER NOT NULL,
+    review_count INTEGER NOT NULL,
+    rating REAL NOT NULL,
+    delivery_promise TEXT,
+    delivery_postcode TEXT,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS product_snapshots_by_product
+    ON product_snapshots (asin, marketplace, fetched_at);
+`;
+
+const SUMMARY_COLUMNS = 'id, asin, marketplace, fetched_at, source_type, name, price, original_price, shipping_days, review_count, rating, delivery_promise, delivery_postcode';
+
+/**
+ * Read the snapshot configuration from the environment
+ */
+export function readSnapshotConfig(env: NodeJS.ProcessEnv = process.env): SnapshotConfig {
+  const hours = Number(env.SNAPSHOT_TTL_HOURS);
+  return {
+    dbPath: path.resolve(env.SNAPSHOT_DB_PATH || DEFAULT_SNAPSHOT_DB_PATH),
+    ttlMs: (env.SNAPSHOT_TTL_HOURS && Number.isFinite(hours) && hours >= 0 ? hours : DEFAULT_SNAPSHOT_TTL_HOURS) * 60 * 60 * 1000
+  };
+}
+
+/**
+ * Whether a snapshot is recent enough to be served instead of refetching
+ */
+export function isSnapshotFresh(snapshot: Pick<ProductSnapshotSummary, 'fetchedAt'>, ttlMs: number, now: number = Date.now()): boolean {
+  return now - new Date(snapshot.fetchedAt).getTime() < ttlMs;
+}
+
+/**
+ * SQLite-backed snapshot store
+ */
+export class SnapshotStore {
+  private db: Database.Database;
+
+  constructor(dbPath: string) {
+    if (dbPath !== ':memory:') {
+      mkdirSync(path.dirname(dbPath), { recursive: true });
+    }
+    this.db = new Database(dbPath);
+    this.db.pragma('journal_mode = WAL');
+    this.db.exec(SCHEMA);
+    this.migrate();
+  }
+
+  /**
+   * Add columns introduced after a database was created
+   */
+  private migrate(): void {
+    const columns = (this.db.pragma('table_info(product_snapshots)') as Array<{ name: string }>).map(c => c.name);
+    if (!columns.includes('delivery_promise')) {
+      this.db.exec('ALTER TABLE product_snapshots ADD COLUMN delivery_promise TEXT');
+    }
+    if (!columns.includes('delivery_postcode')) {
+      this.db.exec('ALTER TABLE product_snapshots ADD COLUMN delivery_postcode TEXT');
+    }
+  }
+
+  /**
+   * Store a snapshot, stamped with the time the data source produced it
+   */
+  save(product: StoredProduct, marketplace: MarketplaceId): ProductSnapshotSummary {
+    const fetchedAt = product.source?.fetchedAt ?? new Date().toISOString();
+    const result = this.db.prepare(`
+      INSERT INTO product_snapshots
+        (asin, marketplace, fetched_at, source_type, name, price, original_price, shipping_days, review_count, rating, delivery_promise, delivery_postcode, data)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      product.asin,
+      marketplace,
+      fetchedAt,
+      product.source?.type ?? 'scrapeops',
+      product.name,
+      product.price,
+      product.originalPrice ?? null,
+      product.shippingDays,
+      product.reviewCount,
+      product.rating,
+      product.deliveryPromise ?? null,
+      product.deliveryPostcode ?? null,
+      JSON.stringify(product)
+    );
+
+    return {
+      id: Number(result.lastInsertRowid),
+      asin: product.asin,
+      marketplace,
+      fetchedAt,
+      sourceType: product.source?.type ?? 'scrapeops',
+      name: product.name,
+      price: product.price,
+      originalPrice: product.originalPrice ?? null,
+      shippingDays: product.shippingDays,
+      reviewCount: product.reviewCount,
+      rating: product.rating,
+      deliveryPromise: product.deliveryPromise ?? null,
+      deliveryPostcode: product.deliveryPostcode ?? null
+    };
+  }
+
+  /**
+   * Most recent snapshot of a product, with its data and images
+   * Shipping differs by location, so only snapshots quoted for the same delivery postcode
+   * (or, for null, without a known location) match.
+   */
+  latest(asin: string, marketplace: MarketplaceId, deliveryPostcode: string | null = null): ProductSnapshot | null {
+    const row = this.db.prepare(`
+      SELECT ${SUMMARY_COLUMNS}, data FROM product_snapshots
+      WHERE asin = ? AND marketplace = ? AND delivery_postcode IS ?
+      ORDER BY fetched_at DESC, id DESC
+      LIMIT 1
+    `).get(asin, marketplace, deliveryPostcode) as SnapshotRow | undefined;
+
+    if (!row?.data) return null;
+    return { ...toSummary(row), product: JSON.parse(row.data) };
+  }
+
+  /**
+   * Snapshot history of a product, newest first
+   */
+  history(asin: string, marketplace: MarketplaceId, limit: number = 50): ProductSnapshotSummary[] {
+    const rows = this.db.prepare(`
+      SELECT ${SUMMARY_COLUMNS} FROM product_snapshots
+      WHERE asin = ? AND marketplace = ?
+      ORDER BY fetched_at DESC, id DESC
+      LIMIT ?
+    `).all(asin, marketplace, limit) as SnapshotRow[];
+
+    return rows.map(toSummary);
+  }
+
+  close(): void {
+    this.db.close();
+  }
+}
+
+function toSummary(row: SnapshotRow): ProductSnapshotSummary {
+  return {
+    id: row.id,
+    asin: row.asin,
+    marketplace: row.marketplace as MarketplaceId,
+    fetchedAt: row.fetched_at,
+    sourceType: row.source_type as ProductDataSourceType,
+    name: row.name,
+    price: row.price,
+    originalPrice: row.original_price,
+    shippingDays: row.shipping_days,
+    reviewCount: row.review_count,
+    rating: row.rating,
+    deliveryPromise: row.delivery_promise,
+    deliveryPostcode: row.delivery_postcode
+  };
+}
+
+let sharedStore: SnapshotStore | null | undefined;
+
+/**
+ * The store shared by every request in this server process
+ * Returns null, and fetching runs uncached, if the database cannot be opened
+ * (e.g. on a read-only file system).
+ */
+export function getSnapshotStore(config: SnapshotConfig = readSnapshotConfig()): SnapshotStore | null {
+  if (sharedStore === undefined) {
+    try {
+      sharedStore = new SnapshotStore(config.dbPath);
+    } catch (error) {
+      console.error(`Snapshot store unavailable at ${config.dbPath}, caching disabled:`, error);
+      sharedStore = null;
+    }
+  }
+  return sharedStore;
+}
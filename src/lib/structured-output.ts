@@ -0,0 +1,247 @@
+/**
+ * Structured Model Output
+ * Tool-use response contracts for polls, response themes and OCR: the model must call a tool whose input
+ * matches a JSON schema, and the tool input is validated with zod before it is used.
+ * Products are referenced by opaque option IDs, never by name or position.
+ */
+
+import Anthropic from '@anthropic-ai/sdk';
+import { z } from 'zod';
+import { Product } from './types';
+
+/**
+ * Custom error for model output that does not satisfy the response contract
+ */
+export class StructuredOutputError extends Error {
+  constructor(
+    message: string,
+    public issues: string[] = []
+  ) {
+    super(issues.length > 0 ? `${message}: ${issues.join('; ')}` : message);
+    this.name = 'StructuredOutputError';
+  }
+}
+
+// ==========================================
+// Poll contract
+// ==========================================
+
+export const POLL_TOOL_NAME = 'record_poll_results';
+
+export const PollToolInputSchema = z.object({
+  rankings: z.array(z.object({
+    optionId: z.string().describe('Option ID of the product exactly as given, e.g. "opt_k3j9qa"'),
+    percentage: z.number().positive().max(100).describe('Share of the 50 respondents preferring this product; no product gets 0')
+  })).min(1).describe('One entry per product, covering every option ID exactly once'),
+  sampleResponses: z.array(z.string()).min(1).describe('One short qualitative response per simulated respondent')
+}).superRefine((input, ctx) => {
+  // Same tolerance as validatePollResult
+  const total = input.rankings.reduce((sum, r) => sum + r.percentage, 0);
+  if (Math.abs(total - 100) >= 0.1) {
+    ctx.addIssue({
+      code: 'custom',
+      path: ['rankings'],
+      message: `Percentages must total 100 (got ${total})`
+    });
+  }
+});
+
+export type PollToolInput = z.infer<typeof PollToolInputSchema>;
+
+// ==========================================
+// Pairwise poll contract
+// ==========================================
+
+export const PAIRWISE_TOOL_NAME = 'record_pairwise_vote';
+
+export const PairwiseToolInputSchema = z.object({
+  votes: z.array(z.object({
+    optionId: z.string().describe('Option ID of one of the two products exactly as given'),
+    votes: z.number().int().min(0).describe('Number of respondents choosing this product')
+  })).length(2).describe('One entry for each of the two products'),
+  sampleResponses: z.array(z.string()).min(1).describe('A few short qualitative responses explaining the choice')
+});
+
+export type PairwiseToolInput = z.infer<typeof PairwiseToolInputSchema>;
+
+// ==========================================
+// Response theme contract
+// ==========================================
+
+export const THEMES_TOOL_NAME = 'record_response_themes';
+
+export const ThemesToolInputSchema = z.object({
+  themes: z.array(z.object({
+    id: z.string().describe('Short theme ID, e.g. "t1"'),
+    label: z.string().describe('Short theme name in lower case, e.g. "cluttered background" or "shows scale"')
+  })).min(1).describe('Themes shared by several responses'),
+  responses: z.array(z.object({
+    index: z.number().int().min(0).describe('Number of the response exactly as given'),
+    optionId: z.string().nullable().describe('Option ID of the product the response is about, or null if it is not about one product'),
+    sentiment: z.enum(['positive', 'negative', 'neutral']).describe('Sentiment towards that product'),
+    themeIds: z.array(z.string()).describe('IDs of the themes the response expresses')
+  })).describe('One entry per response, covering every response number exactly once')
+});
+
+export type ThemesToolInput = z.infer<typeof ThemesToolInputSchema>;
+
+// ==========================================
+// OCR contract
+// ==========================================
+
+export const OCR_TOOL_NAME = 'record_listing_data';
+
+export const OcrToolInputSchema = z.object({
+  isAmazonProductPage: z.boolean().describe('False when the image is blank or not an Amazon product page'),
+  price: z.number().positive().nullable().describe('Main price without currency symbol; ignore crossed-out list prices'),
+  shippingDate: z.string().nullable().describe('Delivery date text, e.g. "Thursday, October 16"'),
+  reviews: z.number().int().min(0).nullable().describe('Number of ratings/reviews'),
+  rating: z.number().min(0).max(5).nullable().describe('Star rating, e.g. 4.7')
+});
+
+export type OcrToolInput = z.infer<typeof OcrToolInputSchema>;
+
+/**
+ * Build a forced tool definition from a zod schema
+ */
+export function createTool(name: string, description: string, schema: z.ZodType): Anthropic.Tool {
+  const inputSchema = z.toJSONSchema(schema) as Record<string, unknown>;
+  delete inputSchema.$schema;
+  return {
+    name,
+    description,
+    input_schema: inputSchema as Anthropic.Tool.InputSchema
+  };
+}
+
+/**
+ * Extract and validate the input of the expected tool call from a model response
+ */
+export function parseToolInput<T>(
+  response: Anthropic.Message,
+  toolName: string,
+  schema: z.ZodType<T>
+): T {
+  const toolUse = response.content.find(
+    (block): block is Anthropic.ToolUseBlock => block.type === 'tool_use' && block.name === toolName
+  );
+  if (!toolUse) {
+    throw new StructuredOutputError(`Model response did not call ${toolName}`);
+  }
+
+  const result = schema.safeParse(toolUse.input);
+  if (!result.success) {
+    throw new StructuredOutputError(
+      `Model output for ${toolName} failed validation`,
+      result.error.issues.map(issue => `${issue.path.join('.') || 'input'}: ${issue.message}`)
+    );
+  }
+
+  return result.data;
+}
+
+// ==========================================
+// Opaque product IDs
+// ==========================================
+
+/**
+ * Assign each product an opaque option ID derived from its product ID
+ * IDs are stable across runs of the same poll and carry no name or position information
+ */
+export function assignOptionIds(products: Product[]): Map<string, Product> {
+  const options = new Map<string, Product>();
+
+  for (const product of products) {
+    let optionId = `opt_${hashId(product.id)}`;
+    for (let suffix = 1; options.has(optionId); suffix++) {
+      optionId = `opt_${hashId(`${product.id}#${suffix}`)}`;
+    }
+    options.set(optionId, product);
+  }
+
+  return options;
+}
+
+/**
+ * Map poll rankings from option IDs back to products
+ * Unknown, duplicate or missing option IDs are errors, never guessed
+ */
+export function resolveOptionRankings(
+  rankings: PollToolInput['rankings'],
+  options: Map<string, Product>
+): { productId: string; rank: number; percentage: number }[] {
+  const issues: string[] = [];
+  const seen = new Set<string>();
+
+  for (const ranking of rankings) {
+    if (!options.has(ranking.optionId)) {
+      issues.push(`Unknown option ID "${ranking.optionId}"`);
+    } else if (seen.has(ranking.optionId)) {
+      issues.push(`Option ID "${ranking.optionId}" ranked more than once`);
+    }
+    seen.add(ranking.optionId);
+  }
+  for (const optionId of options.keys()) {
+    if (!seen.has(optionId)) {
+      issues.push(`Option ID "${optionId}" missing from rankings`);
+    }
+  }
+
+  if (issues.length > 0) {
+    throw new StructuredOutputError('Poll rankings do not match the products polled', issues);
+  }
+
+  return [...rankings]
+    .sort((a, b) => b.percentage - a.percentage)
+    .map((ranking, index) => ({
+      productId: options.get(ranking.optionId)!.id,
+      rank: index + 1,
+      percentage: ranking.percentage
+    }));
+}
+
+/**
+ * Map a head-to-head vote from option IDs back to the two products compared
+ * Returns the votes in [first, second] order; the total must match the respondents polled
+ */
+export function resolvePairwiseVotes(
+  votes: PairwiseToolInput['votes'],
+  pair: [string, string],
+  respondents: number
+): [number, number] {
+  const issues: string[] = [];
+  const bySide = pair.map(optionId => votes.filter(v => v.optionId === optionId));
+
+  for (const vote of votes) {
+    if (!pair.includes(vote.optionId)) {
+      issues.push(`Unknown option ID "${vote.optionId}"`);
+    }
+  }
+  bySide.forEach((entries, index) => {
+    if (entries.length === 0) issues.push(`Option ID "${pair[index]}" missing from votes`);
+    if (entries.length > 1) issues.push(`Option ID "${pair[index]}" voted more than once`);
+  });
+
+  const total = votes.reduce((sum, v) => sum + v.votes, 0);
+  if (total !== respondents) {
+    issues.push(`Votes must total ${respondents} (got ${total})`);
+  }
+
+  if (issues.length > 0) {
+    throw new StructuredOutputError('Pairwise votes do not match the products compared', issues);
+  }
+
+  return [bySide[0][0].votes, bySide[1][0].votes];
+}
+
+/**
+ * Short base36 FNV-1a hash
+ */
+function hashId(value: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(36).padStart(7, '0').slice(0, 7);
+}
@@ -1,9 +1,17 @@
+import type { ScoreCategory } from './scoring-rubric';
+import type { MarketplaceId } from './marketplaces';
+
 export interface Product {
   id: string;
   asin: string;
   name: string;
   price: number;
+  originalPrice?: number | null; // List ("was") price, when the listing shows one
   shippingDays: number;
+  deliveryPromise?: string | null; // Delivery message as shown on the listing
+  deliveryPostcode?: string | null; // Delivery location shippingDays was quoted for, when known
+  shippingByPostcode?: Record<string, number>; // Shipping days at the analysis's comparison locations
+  mainImageCompliance?: ImageComplianceReport | null; // Measured main-image rules, when analyzed
   reviewCount: number;
   rating: number;
   mainImage: string | { base64: string; mediaType: string };
@@ -11,6 +19,8 @@ export interface Product {
   features: string;
   isUserProduct?: boolean;
   category?: string; // Product category for Word reports
+  dataSource?: ProductDataSourceInfo; // Where the product data came from
+  marketplace?: MarketplaceId; // Marketplace the product is listed in; US when missing
 }
 
 export interface PollResult {
@@ -23,6 +33,119 @@ export interface PollResult {
     percentage: number;
   }[];
   sampleResponses: string[];
+  ensemble?: PollEnsemble; // Present when the poll was run as an ensemble
+  pairwise?: PairwiseSummary; // Present when the poll was run head-to-head
+  segments?: PollSegmentResult[]; // Present when the poll was run with a persona panel
+  themes?: PollThemeAnalysis; // Themes and sentiment coded from the sample responses
+}
+
+export type ResponseSentiment = 'positive' | 'negative' | 'neutral';
+
+/**
+ * A theme shared by several poll responses, e.g. "cluttered background"
+ */
+export interface ResponseTheme {
+  id: string;
+  label: string;
+}
+
+/**
+ * One sample response tagged with its product, sentiment and themes
+ */
+export interface CodedResponse {
+  index: number; // Index into PollResult.sampleResponses
+  productId: string | null; // Null when the response does not refer to one product
+  sentiment: ResponseSentiment;
+  themeIds: string[];
+}
+
+export interface ThemeCount {
+  themeId: string;
+  label: string;
+  count: number;
+}
+
+/**
+ * Positive and negative theme counts for one product, most frequent first
+ */
+export interface ProductThemeSummary {
+  productId: string;
+  positive: ThemeCount[];
+  negative: ThemeCount[];
+}
+
+/**
+ * Theme and sentiment coding of a poll's sample responses
+ */
+export interface PollThemeAnalysis {
+  themes: ResponseTheme[];
+  responses: CodedResponse[];
+  products: ProductThemeSummary[];
+}
+
+/**
+ * Per-product statistics across the runs of an ensemble poll
+ */
+export interface PollRankStats {
+  productId: string;
+  meanPercentage: number;
+  stdDev: number; // Sample standard deviation of the percentage
+  ci95: { lower: number; upper: number }; // 95% confidence interval of the mean percentage
+  meanRank: number;
+  rankFrequency: number[]; // rankFrequency[i] = share of runs (0-1) in which the product took rank i + 1
+}
+
+/**
+ * Summary of an ensemble poll: the same PollRequest run several times and aggregated
+ */
+export interface PollEnsemble {
+  runs: number; // Successful runs that were aggregated
+  failedRuns: number;
+  stats: PollRankStats[];
+  stability: number; // 0-1: average share of runs in which each product took its aggregate rank
+  winnerShare: number; // 0-1: share of runs won by the aggregate winner
+  isCoinFlip: boolean; // True when the ranking is too unstable to rely on
+}
+
+/**
+ * One weighted sub-persona of a persona panel
+ */
+export interface PersonaSegment {
+  id: string;
+  label: string; // Demographic description polled for this segment
+  weight: number; // Percent of the panel
+}
+
+/**
+ * Reusable persona panel preset
+ */
+export interface PersonaPanel {
+  id: string;
+  name: string;
+  segments: PersonaSegment[];
+}
+
+/**
+ * Poll result for one segment of a persona panel
+ */
+export interface PollSegmentResult {
+  segmentId: string;
+  label: string;
+  weight: number;
+  rankings: PollResult['rankings'];
+  sampleResponses: string[];
+}
+
+/**
+ * Summary of a pairwise poll: head-to-head comparisons fitted with a Bradley-Terry model
+ */
+export interface PairwiseSummary {
+  productIds: string[]; // Row and column order of the win matrix
+  winMatrix: number[][]; // winMatrix[i][j] = votes for productIds[i] over productIds[j]
+  strengths: number[]; // Bradley-Terry strengths in productIds order, summing to 1
+  respondentsPerPair: number;
+  pairsCompared: number;
+  failedPairs: number;
 }
 
 export interface ScoreCalculation {
@@ -35,6 +158,37 @@ export interface ScoreCalculation {
   imageStackScore: number;
   featuresScore: number;
   totalScore: number;
+  rubricVersion: string; // Version of the ScoringRubric that produced these scores
+  explanations: Record<ScoreCategory, ScoreExplanation>; // Why each category scored what it did
+}
+
+/**
+ * Rubric tier reference used in score explanations
+ */
+export interface ExplainedTier {
+  label: string;
+  threshold: number;
+  points: number;
+}
+
+/**
+ * Structured explanation of a single category score
+ * e.g. input $45.99 → "percentage over lowest price = 2.4%" → tier "Within 2-3%" (24 pts)
+ */
+export interface ScoreExplanation {
+  category: ScoreCategory;
+  inputValue: number | null; // Raw input (price, days, count, stars, poll rank); null when no poll ranking
+  inputDisplay: string; // Formatted input, e.g. "$45.99"
+  metric: string; // Derived metric name, e.g. "percentage over lowest price"
+  metricValue: number | null;
+  metricDisplay: string; // e.g. "percentage over lowest price = 2.4%"
+  points: number;
+  maxPoints: number;
+  matchedTier: ExplainedTier | null; // null when the category cutoff (fallback) applied
+  nextTier: (ExplainedTier & {
+    gap: number; // Distance in metric units to reach the next tier
+    gapDisplay: string; // e.g. "cut price by $0.65 (to ≤1% over lowest)"
+  }) | null; // null when already in the top tier
 }
 
 export interface Analysis {
@@ -48,6 +202,77 @@ export interface Analysis {
     features: PollResult | null;
   };
   calculations: ScoreCalculation[];
+  scenarios?: SavedScenario[]; // Named what-if scenarios saved with the analysis
+  marketplace?: MarketplaceId; // Marketplace all products are listed in; US when missing
+  priceBasis?: PriceBasis; // Benchmark the price scores were measured against; current when missing
+  deliveryPostcode?: string; // Delivery location shipping was scored for; the marketplace's reference postcode when missing
+  comparisonPostcodes?: string[]; // Other delivery locations whose shipping scores are compared
+}
+
+/**
+ * What-if overrides applied to the user product
+ * Poll ranks move the user product to a hypothetical place in that poll
+ */
+export interface ScenarioOverrides {
+  price?: number;
+  shippingDays?: number;
+  reviewCount?: number;
+  rating?: number;
+  pollRanks?: {
+    mainImage?: number;
+    imageStack?: number;
+    features?: number;
+  };
+}
+
+/**
+ * Named scenario saved with an analysis
+ */
+export interface SavedScenario {
+  id: string;
+  name: string;
+  createdAt: string; // ISO timestamp
+  overrides: ScenarioOverrides;
+}
+
+/**
+ * Effort/cost of one unit of change on each optimizer lever
+ */
+export interface OptimizerWeights {
+  pricePerDollar: number; // Per $1 of price cut
+  shippingPerDay: number; // Per day of faster delivery
+  reviewsPerHundred: number; // Per 100 additional reviews
+  ratingPerTenth: number; // Per 0.1 stars of rating
+  pollPerPlace: number; // Per place climbed in any poll
+}
+
+/**
+ * How close an input may sit to a tier boundary before its score is flagged as fragile
+ */
+export interface SensitivityMargins {
+  pricePercent: number; // Percent of the product's own price
+  shippingDays: number;
+  reviews: number;
+  rating: number; // Stars
+}
+
+/**
+ * Price the price tiers are measured against
+ * - current: the lowest current price
+ * - list: the lowest list (or typical) price, so competitors' temporary deals don't set the bar
+ */
+export type PriceBasis = 'current' | 'list';
+
+/**
+ * How hard competitors are discounting against their list prices
+ */
+export interface DealPressure {
+  level: 'none' | 'moderate' | 'high';
+  discountedCount: number; // Competitors at least DEAL_MIN_DISCOUNT_PERCENT off list
+  competitorCount: number;
+  averageDiscountPercent: number; // Across the discounted competitors
+  maxDiscountPercent: number;
+  summary: string;
 }
 
 export interface AppState {
@@ -65,6 +290,31 @@ export interface AppState {
   collectionMethod?: DataCollectionMethod; // How to collect data
   preparedBy?: string; // "Prepared by" field for Word reports
   productCategory?: string; // Product category for Word reports
+  scenarios?: SavedScenario[]; // Saved what-if scenarios for the results step
+  optimizerWeights?: OptimizerWeights; // Effort weights for the minimum-change optimizer
+  sensitivityMargins?: SensitivityMargins; // Fragility margins for the sensitivity report
+  panelPresets?: PersonaPanel[]; // Saved persona panels, kept across analyses
+  marketplace?: MarketplaceId; // Marketplace for scraping, prices and scoring; US when missing
+  analysisId?: string; // Identifies this analysis in the history store
+  priceBasis?: PriceBasis; // Benchmark for price scoring; lowest current price when missing
+  deliveryPostcode?: string; // Delivery location for shipping data; the marketplace's reference postcode when missing
+  comparisonPostcodes?: string[]; // Other delivery locations to compare shipping scores at
+  analysisName?: string; // Shown in My analyses instead of the derived name
+}
+
+/**
+ * An analysis as listed in My analyses
+ */
+export interface AnalysisSummary {
+  id: string;
+  name: string;
+  analysisType: 'core5' | 'core6' | null;
+  marketplace?: MarketplaceId;
+  currentStep: 1 | 2 | 3 | 4 | 5;
+  productCount: number;
+  createdAt: string;
+  updatedAt: string;
+  archived: boolean;
 }
 
 export interface OCRExtraction {
@@ -75,13 +325,34 @@ export interface OCRExtraction {
   rating: number;
 }
 
+/**
+ * A product as sent to /api/poll, with its images attached for image polls
+ */
+export type PollProduct = Product & {
+  images?: {
+    mainImage: Product['mainImage'];
+    additionalImages: Product['additionalImages'];
+  };
+};
+
 export interface PollRequest {
-  products: Product[];
+  products: PollProduct[];
   demographic: string;
   question: string;
   pollType: 'main_image' | 'image_stack' | 'features';
+  ensembleRuns?: number; // Run the poll this many times and aggregate (1 = single run)
+  mode?: PollMode; // Defaults to 'ranking'
+  pairwiseRounds?: number; // Pairwise mode: round-robin rounds to run (default: all pairs)
+  panel?: PersonaSegment[]; // Run once per segment and combine by weight (replaces demographic)
 }
 
+/**
+ * Poll modes
+ * - ranking: all products ranked in one prompt
+ * - pairwise: products compared two at a time and fitted with a Bradley-Terry model
+ */
+export type PollMode = 'ranking' | 'pairwise';
+
 // ==========================================
 // ScrapeOps & Data Collection Types
 // ==========================================
@@ -91,10 +362,28 @@ export interface PollRequest {
  */
 export type DataCollectionMethod = 'automatic' | 'manual' | 'hybrid';
 
+/**
+ * Product data sources
+ * - scrapeops: ScrapeOps structured-data API
+ * - fixture: local JSON, HTML or HAR files replayed from disk
+ * - html: raw Amazon product-page HTML
+ * - manual: entered by hand (never configured as a fetch source)
+ */
+export type ProductDataSourceType = 'scrapeops' | 'fixture' | 'html' | 'manual';
+
+/**
+ * Record of the source that produced a product's data
+ */
+export interface ProductDataSourceInfo {
+  type: ProductDataSourceType;
+  fetchedAt: string; // ISO timestamp
+  reference?: string; // Fixture file or page URL the data was read from
+}
+
 /**
  * Fetching status for UI display
  */
-export type FetchStatus = 'pending' | 'fetching' | 'success' | 'needs_review' | 'failed';
+export type FetchStatus = 'pending' | 'fetching' | 'success' | 'needs_review' | 'failed' | 'cancelled';
 
 /**
  * Scraped product data from ScrapeOps API
@@ -106,10 +395,12 @@ export interface ScrapedProductData {
   price: number;
   originalPrice?: number | null;
   shippingDays: number;
+  deliveryPromise?: string | null; // Delivery message as shown on the listing
   reviewCount: number;
   rating: number;
   imageUrls: string[];
   features: string;
+  source?: ProductDataSourceInfo;
   rawResponse?: any;
 }
 
@@ -125,12 +416,23 @@ export interface ImageData {
   base64?: string; // Base64 data for manual entry
 }
 
+/**
+ * Image as serialized by /api/scrape: a data URL instead of a Blob
+ */
+export interface SerializedImageData {
+  base64: string;
+  originalUrl: string;
+  size: number;
+  type: string;
+}
+
 /**
  * Processed images
+ * Fetched products reach the browser with serialized images.
  */
 export interface ProcessedImages {
-  mainImage: ImageData | null;
-  additionalImages: ImageData[];
+  mainImage: ImageData | SerializedImageData | null;
+  additionalImages: (ImageData | SerializedImageData)[];
 }
 
 /**
@@ -157,9 +459,107 @@ export interface CompleteProductData {
   images: ProcessedImages;
   features: string;
   validation: ValidationResult;
+  source?: ProductDataSourceInfo; // Data source that produced this product
+  marketplace?: MarketplaceId;
+  deliveryPromise?: string | null; // Delivery message as shown on the listing
+  deliveryPostcode?: string | null; // Delivery location the data source quoted shipping for
+  shippingByPostcode?: Record<string, number>; // Shipping days at comparison locations
+  mainImageCompliance?: ImageComplianceReport | null; // Measured main-image rules
+  fromCache?: boolean; // Served from a stored snapshot instead of a new fetch
   rawResponse?: any;
 }
 
+/**
+ * A fetched product as /api/scrape sends it: images serialized, no raw response
+ */
+export interface SerializedProductData extends Omit<CompleteProductData, 'images' | 'rawResponse'> {
+  images: {
+    mainImage: SerializedImageData | null;
+    additionalImages: SerializedImageData[];
+  };
+}
+
+/**
+ * One stored product snapshot, without its images (see snapshot-store.ts)
+ */
+export interface ProductSnapshotSummary {
+  id: number;
+  asin: string;
+  marketplace: MarketplaceId;
+  fetchedAt: string; // ISO timestamp
+  sourceType: ProductDataSourceType;
+  name: string;
+  price: number;
+  originalPrice: number | null;
+  shippingDays: number;
+  reviewCount: number;
+  rating: number;
+  deliveryPromise: string | null;
+  deliveryPostcode: string | null;
+}
+
+/**
+ * A product's metrics as recorded in a finished analysis (see history.ts)
+ */
+export interface AnalysisRecord {
+  analysisId: string;
+  asin: string;
+  marketplace: MarketplaceId;
+  recordedAt: string; // ISO timestamp
+  name: string;
+  price: number;
+  originalPrice: number | null;
+  shippingDays: number;
+  deliveryPromise: string | null;
+  reviewCount: number;
+  rating: number;
+  totalScore: number;
+  rubricVersion: string | null;
+}
+
+/**
+ * One point of a product's history: a fetched snapshot, or a finished analysis (with its Core score)
+ */
+export interface HistoryPoint {
+  at: string; // ISO timestamp
+  kind: 'snapshot' | 'analysis';
+  price: number;
+  originalPrice: number | null;
+  shippingDays: number;
+  deliveryPromise: string | null;
+  reviewCount: number;
+  rating: number;
+  totalScore: number | null;
+}
+
+export type HistoryAlertType = 'price_drop' | 'review_velocity';
+
+export interface HistoryAlert {
+  type: HistoryAlertType;
+  asin: string;
+  marketplace: MarketplaceId;
+  at: string; // Time of the point that triggered the alert
+  message: string;
+  previous: number; // Previous price, or reviews per day
+  current: number;
+}
+
+export interface WatchlistItem {
+  asin: string;
+  marketplace: MarketplaceId;
+  label: string | null;
+  addedAt: string; // ISO timestamp
+}
+
+/**
+ * A watched product with its history, as returned by /api/watchlist
+ */
+export interface WatchlistEntry extends WatchlistItem {
+  name: string | null;
+  points: HistoryPoint[]; // Oldest first
+  alerts: HistoryAlert[];
+}
+
 /**
  * Product fetch result
  */
@@ -178,4 +578,90 @@ export interface BulkFetchResult {
   successCount: number;
   failedCount: number;
   needsReviewCount: number;
+  cancelledCount: number;
+}
+
+/**
+ * One line of a streamed bulk fetch (/api/scrape with stream: true, NDJSON)
+ * product is the serialized product once the ASIN has been fetched.
+ */
+export type BulkFetchEvent =
+  | {
+      type: 'status';
+      asin: string;
+      status: FetchStatus;
+      product?: SerializedProductData;
+      error?: string;
+    }
+  | {
+      type: 'done';
+      successCount: number;
+      failedCount: number;
+      needsReviewCount: number;
+      cancelledCount: number;
+      invalidASINs: string[];
+    };
+
+/**
+ * Shipping days and points of every product at one delivery location (see delivery-location.ts)
+ */
+export interface ShippingLocationComparison {
+  postcode: string;
+  isPrimary: boolean; // The analysis's own delivery location, which the Core score uses
+  scores: Array<{
+    productId: string;
+    shippingDays: number | null; // Null when not collected for this location
+    points: number | null;
+  }>;
+}
+
+export type ImageCheckId = 'background' | 'fill' | 'resolution' | 'aspectRatio' | 'sharpness' | 'fileSize';
+
+/**
+ * One measured image rule, e.g. "Background: 97% white border"
+ */
+export interface ImageCheck {
+  id: ImageCheckId;
+  label: string;
+  value: number;
+  display: string; // Measured value for display ("97%", "1500 × 1500 px")
+  requirement: string; // The rule it was checked against ("≥ 95% pure white")
+  passed: boolean;
+}
+
+/**
+ * Deterministic measurements of a main image against Amazon's main-image rules (see image-analysis.ts)
+ */
+export interface ImageComplianceReport {
+  width: number;
+  height: number;
+  fileSizeBytes: number;
+  checks: ImageCheck[];
+  passed: boolean; // Every check passed
+}
+
+/**
+ * 64-bit perceptual hashes of an image as 16 hex characters (see perceptual-hash.ts)
+ */
+export interface ImageHash {
+  aHash: string; // Average hash: pixels brighter than the mean
+  dHash: string; // Difference hash: pixels brighter than their right neighbour
+}
+
+/**
+ * One image of a product; position 0 is the main image, 1+ the additional images
+ */
+export interface ImageMatchSide {
+  productId: string;
+  asin: string;
+  position: number;
+}
+
+/**
+ * Near-identical images found on two different ASINs
+ */
+export interface ImageMatch {
+  first: ImageMatchSide;
+  second: ImageMatchSide;
+  distance: number; // Larger Hamming distance of the two hashes; 0 is identical
 }
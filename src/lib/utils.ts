@@ -1,5 +1,6 @@
 import { type ClassValue, clsx } from "clsx";
 import { twMerge } from "tailwind-merge";
+import { MarketplaceId, getMarketplace } from "./marketplaces";
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
@@ -9,8 +10,12 @@ export function generateId(): string {
   return Math.random().toString(36).substr(2, 9);
 }
 
-export function formatPrice(price: number): string {
-  return `$${price.toFixed(2)}`;
+/**
+ * Format a price in the marketplace's currency, e.g. $1,177.91, 1.177,91 €, ￥1,178
+ */
+export function formatPrice(price: number, marketplace?: MarketplaceId | null): string {
+  const { locale, currency } = getMarketplace(marketplace);
+  return new Intl.NumberFormat(locale, { style: 'currency', currency }).format(price);
 }
 
 export function formatDate(date: Date): string {
@@ -25,8 +30,45 @@ export function validateASIN(asin: string): boolean {
   return /^[A-Z0-9]{10}$/.test(asin);
 }
 
-export function validatePrice(price: number): boolean {
-  return price > 0 && price < 100000;
+/**
+ * Helper function to parse bulk ASINs from text input
+ * Handles comma-separated or line-separated input
+ */
+export function parseBulkASINs(text: string): string[] {
+  // Split by commas, newlines, or whitespace
+  const asins = text
+    .split(/[\n,\s]+/)
+    .map(asin => asin.trim().toUpperCase())
+    .filter(asin => asin.length > 0);
+  
+  // Remove duplicates
+  return [...new Set(asins)];
+}
+
+/**
+ * Validate bulk ASINs and return valid/invalid lists
+ */
+export function validateBulkASINs(asins: string[]): {
+  valid: string[];
+  invalid: string[];
+} {
+  const valid: string[] = [];
+  const invalid: string[] = [];
+  const pattern = /^[A-Z0-9]{10}$/;
+  
+  for (const asin of asins) {
+    if (pattern.test(asin)) {
+      valid.push(asin);
+    } else {
+      invalid.push(asin);
+    }
+  }
+  
+  return { valid, invalid };
+}
+
+export function validatePrice(price: number, marketplace?: MarketplaceId | null): boolean {
+  return price > 0 && price < getMarketplace(marketplace).maxPrice;
 }
 
 export function validateRating(rating: number): boolean {
@@ -49,6 +91,29 @@ export function downloadFile(buffer: ArrayBuffer, filename: string, mimeType: st
   URL.revokeObjectURL(url);
 }
 
+/**
+ * Round values to the given decimals while keeping their sum equal to the total
+ * (largest remainder method)
+ */
+export function roundToTotal(values: number[], total: number, decimals: number): number[] {
+  const factor = 10 ** decimals;
+  const scaled = values.map(v => v * factor);
+  const floored = scaled.map(Math.floor);
+  let remainder = Math.round(total * factor) - floored.reduce((sum, v) => sum + v, 0);
+
+  const order = scaled
+    .map((value, index) => ({ index, fraction: value - Math.floor(value) }))
+    .sort((a, b) => b.fraction - a.fraction);
+
+  for (const { index } of order) {
+    if (remainder <= 0) break;
+    floored[index]++;
+    remainder--;
+  }
+
+  return floored.map(v => v / factor);
+}
+
 export function convertToBase64(file: File): Promise<string> {
   return new Promise((resolve, reject) => {
     const reader = new FileReader();
@@ -169,9 +234,14 @@ function compressImage(dataUrl: string, options: {
  */
 export type ScoreThreshold = 'Pass' | 'Improve' | 'Discontinue';
 
+export const SCORE_THRESHOLDS = {
+  pass: 75,
+  improve: 40
+} as const;
+
 export function getScoreThreshold(score: number): ScoreThreshold {
-  if (score >= 75) return 'Pass';
-  if (score >= 40) return 'Improve';
+  if (score >= SCORE_THRESHOLDS.pass) return 'Pass';
+  if (score >= SCORE_THRESHOLDS.improve) return 'Improve';
   return 'Discontinue';
 }
 
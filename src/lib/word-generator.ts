@@ -1,10 +1,23 @@
-import { Document, Packer, Paragraph, TextRun, UnderlineType } from 'docx';
-import { Analysis, Product, ScoreCalculation, PollResult } from './types';
-import { getScoreThreshold, getScoreThresholdDescription } from './utils';
+import { Document, ImageRun, Packer, Paragraph, ShadingType, Table, TableCell, TableRow, TextRun, UnderlineType, WidthType } from 'docx';
+import { Analysis, AnalysisRecord, ImageMatch, Product, ScoreCalculation, PollResult, OptimizerWeights } from './types';
+import { describeSegmentPreferences } from './persona-panel';
+import { formatThemeCounts } from './response-themes';
+import { getScoreThreshold, getScoreThresholdDescription, formatPrice } from './utils';
+import { assertSingleCurrency } from './marketplaces';
+import { getScoringRubric, getRubricMaxTotal } from './scoring-rubric';
+import { assessDealPressure, getDiscountPercent } from './discounts';
+import { formatDeliveryLocation, getDeliveryPostcode } from './delivery-location';
+import { findMinimumChangePlans, describePlan, OptimizationResult } from './optimizer';
+import { formatImageMatch } from './perceptual-hash';
+import type { ReportImage } from './image-normalization';
 
 export interface WordReportOptions {
   preparedBy?: string;
   productCategory?: string;
+  optimizerWeights?: OptimizerWeights; // Effort weights for the minimum-change paths
+  previousRecords?: Record<string, AnalysisRecord>; // Each ASIN's record from its previous analysis
+  imageMatches?: ImageMatch[]; // Near-identical images on different ASINs
+  mainImages?: Record<string, ReportImage>; // Full-size main image of each product, by product id
 }
 
 /**
@@ -27,12 +40,22 @@ export async function generateWordReport(
   if (!userProduct) {
     throw new Error('User product not found in Core 6 analysis');
   }
+
+  assertSingleCurrency(products, analysis.marketplace);
   
   const preparedBy = options?.preparedBy || '';
   const productCategory = options?.productCategory || userProduct.category || 'General';
   
+  // Cheapest paths to Pass and to rank #1, computed from the rubric rather than by the model
+  const optimizerResults = [
+    findMinimumChangePlans(analysis, 'pass', options?.optimizerWeights, 1),
+    findMinimumChangePlans(analysis, 'rank1', options?.optimizerWeights, 1)
+  ];
+
+  const dealPressure = assessDealPressure(products);
+
   // Generate optimization recommendations
-  const optimizationRecommendations = await generateOptimizationRecommendations(analysis, pollResults);
+  const optimizationRecommendations = await generateOptimizationRecommendations(analysis, pollResults, optimizerResults);
   
   const doc = new Document({
     sections: [
@@ -92,6 +115,37 @@ export async function generateWordReport(
                 text: `Category: ${productCategory}`
               })
             ],
+            spacing: { after: 300 }
+          }),
+          
+          new Paragraph({
+            children: [
+              new TextRun({
+                text: `Scoring rubric: v${getScoringRubric(calculations[0]?.rubricVersion).version}` +
+                  (analysis.priceBasis === 'list' ? ' (prices scored against the lowest list price)' : '')
+              })
+            ],
+            spacing: { after: 200 }
+          }),
+
+          // How hard competitors are discounting
+          new Paragraph({
+            children: [
+              new TextRun({
+                text: `Deal pressure: ${dealPressure.level} - ${dealPressure.summary}`
+              })
+            ],
+            spacing: { after: 200 }
+          }),
+
+          // Where shipping was quoted for
+          new Paragraph({
+            children: [
+              new TextRun({
+                text: `Delivery location: ${formatDeliveryLocation(getDeliveryPostcode(analysis), analysis.marketplace)}` +
+                  (analysis.comparisonPostcodes?.length ? ` (shipping also compared at ${analysis.comparisonPostcodes.join(', ')})` : '')
+              })
+            ],
             spacing: { after: 400 }
           }),
           
@@ -100,7 +154,9 @@ export async function generateWordReport(
             "Your Product",
             userProduct,
             calculations.find(c => c.productId === userProduct.id)!,
-            pollResults
+            pollResults,
+            options?.previousRecords?.[userProduct.asin],
+            options?.mainImages?.[userProduct.id]
           ),
           
           // Competitor Sections
@@ -110,9 +166,17 @@ export async function generateWordReport(
               `Comp ${index + 1}`,
               competitor,
               calculation,
-              pollResults
+              pollResults,
+              options?.previousRecords?.[competitor.asin],
+              options?.mainImages?.[competitor.id]
             );
           }),
+
+          // Measured main images against Amazon's main-image rules
+          ...formatImageComplianceTable(products),
+
+          // Different ASINs sharing near-identical images
+          ...formatSharedImages(products, options?.imageMatches || []),
           
           // Section 4: Optimization Recommendations
           new Paragraph({
@@ -127,6 +191,12 @@ export async function generateWordReport(
             ],
             spacing: { after: 500 }
           }),
+
+          // Minimum-change paths from the optimizer
+          ...formatMinimumChangePaths(optimizerResults, getRubricMaxTotal(getScoringRubric(calculations[0]?.rubricVersion))),
+
+          // Which persona panel segment preferred which product
+          ...formatPanelSegments(analysis),
           
           // Parse and format the optimization recommendations
           ...formatOptimizationRecommendations(optimizationRecommendations)
@@ -143,6 +213,35 @@ export async function generateWordReport(
   return result;
 }
 
+/**
+ * " (4 days to 90210, 6 days to 60601)" for products with shipping at comparison locations
+ */
+function formatShippingByPostcode(product: Product): string {
+  const entries = Object.entries(product.shippingByPostcode || {});
+  if (entries.length === 0) return '';
+  return ` (${entries.map(([postcode, days]) => `${days} days to ${postcode}`).join(', ')})`;
+}
+
+/**
+ * Main image scaled to fit a 160 px box
+ */
+function formatMainImage(image: ReportImage): Paragraph {
+  const scale = Math.min(1, 160 / Math.max(image.width, image.height));
+  return new Paragraph({
+    children: [
+      new ImageRun({
+        type: 'jpg',
+        data: image.data,
+        transformation: {
+          width: Math.round(image.width * scale),
+          height: Math.round(image.height * scale)
+        }
+      })
+    ],
+    spacing: { after: 300 }
+  });
+}
+
 /**
  * Generate a product section with exact template formatting
  */
@@ -154,7 +253,9 @@ function generateProductSection(
     mainImage: PollResult | null;
     imageStack: PollResult | null;
     features: PollResult | null;
-  }
+  },
+  previous?: AnalysisRecord,
+  mainImage?: ReportImage
 ): Paragraph[] {
   // Get rankings from poll results
   const mainImageRank = pollResults.mainImage?.rankings.find(r => r.productId === product.id)?.rank || 6;
@@ -174,6 +275,9 @@ function generateProductSection(
       ],
       spacing: { after: 300 }
     }),
+
+    // Main image, from the full-size original
+    ...(mainImage ? [formatMainImage(mainImage)] : []),
     
     // ASIN
     new Paragraph({
@@ -189,7 +293,7 @@ function generateProductSection(
     new Paragraph({
       children: [
         new TextRun({
-          text: `1. Price - $${product.price.toFixed(2)}`
+          text: `1. Price - ${formatPrice(product.price, product.marketplace)}${formatDiscountSuffix(product)}`
         })
       ],
       spacing: { after: 200 }
@@ -199,7 +303,7 @@ function generateProductSection(
     new Paragraph({
       children: [
         new TextRun({
-          text: `2. Shipping - ${product.shippingDays} days`
+          text: `2. Shipping - ${product.shippingDays} days${formatShippingByPostcode(product)}`
         })
       ],
       spacing: { after: 200 }
@@ -255,6 +359,19 @@ function generateProductSection(
       ],
       spacing: { after: 300 }
     }),
+
+    // Changes since this product was last analyzed
+    ...(previous ? [
+      new Paragraph({
+        children: [
+          new TextRun({
+            text: formatSinceLastAnalysis(product, calculation, previous),
+            italics: true
+          })
+        ],
+        spacing: { after: 300 }
+      })
+    ] : []),
     
     // Analysis
     new Paragraph({
@@ -268,6 +385,36 @@ function generateProductSection(
   ];
 }
 
+/**
+ * Discount note for the price line, e.g. " (23% off list $49.99)"
+ */
+function formatDiscountSuffix(product: Product): string {
+  const discount = getDiscountPercent(product);
+  if (discount === null) return '';
+  return ` (${Math.round(discount)}% off list ${formatPrice(product.originalPrice!, product.marketplace)})`;
+}
+
+/**
+ * One-line summary of how a product changed since its previous analysis
+ */
+function formatSinceLastAnalysis(product: Product, calculation: ScoreCalculation, previous: AnalysisRecord): string {
+  const signed = (change: number, format: (value: number) => string) =>
+    change === 0 ? 'unchanged' : `${change > 0 ? '+' : '−'}${format(Math.abs(change))}`;
+
+  const parts = [
+    `Price ${signed(product.price - previous.price, value => formatPrice(value, product.marketplace))}`,
+    `Rating ${signed(Math.round((product.rating - previous.rating) * 10) / 10, value => value.toFixed(1))}`,
+    `Reviews ${signed(product.reviewCount - previous.reviewCount, value => value.toLocaleString())}`,
+    `Score ${signed(Math.round((calculation.totalScore - previous.totalScore) * 10) / 10, value => String(value))}`
+  ];
+  if (product.shippingDays !== previous.shippingDays) {
+    parts.push(`Shipping ${previous.shippingDays} → ${product.shippingDays} days`);
+  }
+
+  const date = new Date(previous.recordedAt).toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' });
+  return `Since last analysis (${date}): ${parts.join(' · ')}`;
+}
+
 /**
  * Generate analysis paragraph with poll data, percentages, and sample responses
  */
@@ -285,7 +432,10 @@ function generateAnalysis(
   // Main Image Analysis
   if (pollResults.mainImage) {
     const mainImageRanking = pollResults.mainImage.rankings.find(r => r.productId === product.id);
-    if (mainImageRanking) {
+    const themed = mainImageRanking && describePollThemes(pollResults.mainImage, product.id, 'main image', mainImageRanking);
+    if (themed) {
+      parts.push(themed);
+    } else if (mainImageRanking) {
       if (mainImageRanking.percentage > 25) {
         // Strong performance - use generic positive feedback
         parts.push(
@@ -306,7 +456,10 @@ function generateAnalysis(
   // Image Stack Analysis
   if (pollResults.imageStack) {
     const stackRanking = pollResults.imageStack.rankings.find(r => r.productId === product.id);
-    if (stackRanking) {
+    const themed = stackRanking && describePollThemes(pollResults.imageStack, product.id, 'image stack', stackRanking);
+    if (themed) {
+      parts.push(themed);
+    } else if (stackRanking) {
       if (stackRanking.rank <= 2) {
         parts.push(
           `The image set quality was strong, ranking #${stackRanking.rank} with ${stackRanking.percentage}% preference.`
@@ -318,7 +471,10 @@ function generateAnalysis(
   // Features Analysis
   if (pollResults.features) {
     const featuresRanking = pollResults.features.rankings.find(r => r.productId === product.id);
-    if (featuresRanking) {
+    const themed = featuresRanking && describePollThemes(pollResults.features, product.id, 'features', featuresRanking);
+    if (themed) {
+      parts.push(themed);
+    } else if (featuresRanking) {
       if (featuresRanking.rank <= 2) {
         parts.push(
           `Features were a key strength, ranking #${featuresRanking.rank} with ` +
@@ -334,6 +490,16 @@ function generateAnalysis(
     }
   }
   
+  // Persona panel segments won by this product
+  const segmentWins = POLL_LABELS.flatMap(({ key, label }) =>
+    (pollResults[key]?.segments || [])
+      .filter(segment => segment.rankings.find(r => r.rank === 1)?.productId === product.id)
+      .map(segment => `${segment.label} (${segment.weight}% of panel) in the ${label.toLowerCase()} poll`)
+  );
+  if (segmentWins.length > 0) {
+    parts.push(`Preferred by ${segmentWins.join('; ')}.`);
+  }
+  
   // Reviews and Rating
   if (product.reviewCount > 1000) {
     parts.push(
@@ -369,6 +535,31 @@ function generateAnalysis(
   return parts.join(' ');
 }
 
+/**
+ * Cite the response themes coded for a product in one poll
+ * Returns null when the poll has no themes for the product, so the caller can fall back
+ */
+function describePollThemes(
+  result: PollResult,
+  productId: string,
+  pollName: string,
+  ranking: PollResult['rankings'][number]
+): string | null {
+  const summary = result.themes?.products.find(p => p.productId === productId);
+  if (!summary || (summary.positive.length === 0 && summary.negative.length === 0)) {
+    return null;
+  }
+
+  const praised = formatThemeCounts(summary.positive);
+  const criticised = formatThemeCounts(summary.negative);
+  const opinions = [
+    praised && `praised ${praised}`,
+    criticised && `criticised ${criticised}`
+  ].filter(Boolean).join(' but ');
+
+  return `In the ${pollName} poll (#${ranking.rank}, ${ranking.percentage}% preference), respondents ${opinions}.`;
+}
+
 /**
  * Create a bullet point paragraph
  */
@@ -386,6 +577,253 @@ function createBulletPoint(text: string): Paragraph {
   });
 }
 
+/**
+ * Label and one-line summary for each optimizer goal
+ */
+function describeOptimizerResult(result: OptimizationResult, maxTotal: number): { label: string; summary: string } {
+  const label = result.goal === 'pass' ? 'Cheapest path to Pass' : 'Cheapest path to Rank #1';
+
+  if (result.alreadyMet) {
+    return {
+      label,
+      summary: result.goal === 'pass'
+        ? `Already met (${result.baseline.totalScore}/${maxTotal})`
+        : 'Already ranked #1'
+    };
+  }
+
+  const [plan] = result.plans;
+  return {
+    label,
+    summary: plan ? describePlan(plan, maxTotal) : 'Not reachable with the available levers'
+  };
+}
+
+/**
+ * Format the optimizer's minimum-change paths into Word paragraphs
+ */
+function formatMinimumChangePaths(results: OptimizationResult[], maxTotal: number): Paragraph[] {
+  return [
+    new Paragraph({
+      children: [
+        new TextRun({
+          text: "MINIMUM-CHANGE PATHS:",
+          bold: true
+        })
+      ],
+      spacing: { after: 300 }
+    }),
+    ...results.map(result => {
+      const { label, summary } = describeOptimizerResult(result, maxTotal);
+      return new Paragraph({
+        children: [
+          new TextRun({
+            text: `${label}: `,
+            bold: true
+          }),
+          new TextRun({
+            text: summary
+          })
+        ],
+        spacing: { after: 200 },
+        bullet: {
+          level: 0
+        }
+      });
+    })
+  ];
+}
+
+/**
+ * Main Image Compliance table: one row per product, one PASS/FAIL column per main-image rule
+ * Left out when no product's main image was analyzed.
+ */
+function formatImageComplianceTable(products: Product[]): (Paragraph | Table)[] {
+  const checks = products.find(p => p.mainImageCompliance)?.mainImageCompliance?.checks;
+  if (!checks) return [];
+
+  const cell = (text: string, options: { bold?: boolean; failed?: boolean } = {}) => new TableCell({
+    children: [new Paragraph({ children: [new TextRun({ text, bold: options.bold, size: 18 })] })],
+    ...(options.failed && { shading: { type: ShadingType.CLEAR, color: 'auto', fill: 'FFC7CE' } })
+  });
+
+  const rows = products.map(product => {
+    const report = product.mainImageCompliance;
+    const name = product.isUserProduct ? `${product.name} (yours)` : product.name;
+    if (!report) {
+      return new TableRow({
+        children: [
+          cell(name),
+          new TableCell({
+            children: [new Paragraph({ children: [new TextRun({ text: report === null ? 'Main image could not be analyzed' : 'Not analyzed', size: 18 })] })],
+            columnSpan: checks.length + 1
+          })
+        ]
+      });
+    }
+    return new TableRow({
+      children: [
+        cell(name),
+        ...report.checks.map(check => cell(`${check.passed ? 'PASS' : 'FAIL'} · ${check.display}`, { failed: !check.passed })),
+        cell(report.passed ? 'YES' : 'NO', { bold: true, failed: !report.passed })
+      ]
+    });
+  });
+
+  return [
+    new Paragraph({
+      children: [
+        new TextRun({
+          text: "Main Image Compliance",
+          underline: {
+            type: UnderlineType.SINGLE
+          },
+          bold: true
+        })
+      ],
+      spacing: { after: 200 }
+    }),
+    new Paragraph({
+      children: [
+        new TextRun({
+          text: `Measured against: ${checks.map(check => `${check.label} ${check.requirement}`).join('; ')}`,
+          italics: true,
+          size: 18
+        })
+      ],
+      spacing: { after: 200 }
+    }),
+    new Table({
+      width: { size: 100, type: WidthType.PERCENTAGE },
+      rows: [
+        new TableRow({
+          tableHeader: true,
+          children: [cell('Product', { bold: true }), ...checks.map(check => cell(check.label, { bold: true })), cell('Compliant', { bold: true })]
+        }),
+        ...rows
+      ]
+    }),
+    new Paragraph({
+      text: "",
+      spacing: { after: 400 }
+    })
+  ];
+}
+
+/**
+ * Shared Images: one bullet per pair of near-identical images on different ASINs
+ * Left out when there are none.
+ */
+function formatSharedImages(products: Product[], matches: ImageMatch[]): Paragraph[] {
+  if (matches.length === 0) return [];
+
+  const nameFor = (productId: string) => {
+    const product = products.find(p => p.id === productId);
+    if (!product) return productId;
+    return product.isUserProduct ? `${product.name} (yours)` : product.name;
+  };
+
+  return [
+    new Paragraph({
+      children: [
+        new TextRun({
+          text: "Shared Images",
+          underline: {
+            type: UnderlineType.SINGLE
+          },
+          bold: true
+        })
+      ],
+      spacing: { after: 200 }
+    }),
+    new Paragraph({
+      children: [
+        new TextRun({
+          text: "These listings use near-identical photos, which can mean a reseller copied a listing:"
+        })
+      ],
+      spacing: { after: 200 }
+    }),
+    ...matches.map(match => createBulletPoint(formatImageMatch(match, nameFor))),
+    new Paragraph({
+      text: "",
+      spacing: { after: 400 }
+    })
+  ];
+}
+
+/**
+ * Poll keys with their report labels
+ */
+const POLL_LABELS = [
+  { key: 'mainImage', label: 'Main Image' },
+  { key: 'imageStack', label: 'Image Stack' },
+  { key: 'features', label: 'Features' }
+] as const;
+
+/**
+ * One line per panel segment naming the product it preferred, for polls run with a persona panel
+ */
+function describePanelSegments(analysis: Analysis): { label: string; panel: string; lines: string[] }[] {
+  const nameFor = (productId: string) =>
+    analysis.products.find(p => p.id === productId)?.name || 'Unknown';
+
+  return POLL_LABELS.flatMap(({ key, label }) => {
+    const result = analysis.pollResults[key];
+    return result?.segments?.length
+      ? [{ label, panel: result.demographic, lines: describeSegmentPreferences(result, nameFor) }]
+      : [];
+  });
+}
+
+/**
+ * Format the persona panel segment preferences into Word paragraphs
+ */
+function formatPanelSegments(analysis: Analysis): Paragraph[] {
+  const polls = describePanelSegments(analysis);
+  if (polls.length === 0) return [];
+
+  return [
+    new Paragraph({
+      children: [
+        new TextRun({
+          text: "PANEL SEGMENT PREFERENCES:",
+          bold: true
+        })
+      ],
+      spacing: { before: 200, after: 300 }
+    }),
+    ...polls.flatMap(poll => [
+      new Paragraph({
+        children: [
+          new TextRun({
+            text: `${poll.label} poll: `,
+            bold: true
+          }),
+          new TextRun({
+            text: poll.panel
+          })
+        ],
+        spacing: { after: 200 },
+        bullet: {
+          level: 0
+        }
+      }),
+      ...poll.lines.map(line => new Paragraph({
+        children: [
+          new TextRun({
+            text: line
+          })
+        ],
+        spacing: { after: 100 },
+        bullet: {
+          level: 1
+        }
+      }))
+    ])
+  ];
+}
+
 /**
  * Format optimization recommendations into Word paragraphs
  */
@@ -511,7 +949,8 @@ export async function generateOptimizationRecommendations(
     mainImage: PollResult | null;
     imageStack: PollResult | null;
     features: PollResult | null;
-  }
+  },
+  optimizerResults: OptimizationResult[] = []
 ): Promise<string> {
   const userProduct = analysis.products.find(p => p.isUserProduct);
   const competitors = analysis.products.filter(p => !p.isUserProduct);
@@ -519,6 +958,7 @@ export async function generateOptimizationRecommendations(
   if (!userProduct || competitors.length === 0) {
     return "Unable to generate optimization recommendations - missing product data.";
   }
+  const maxTotal = getRubricMaxTotal(getScoringRubric(analysis.calculations[0]?.rubricVersion));
 
   const userCalculation = analysis.calculations.find(c => c.productId === userProduct.id);
   if (!userCalculation) {
@@ -527,6 +967,14 @@ export async function generateOptimizationRecommendations(
 
   const userFeatureCopy = (userProduct.features ?? '').trim() || 'No feature copy provided';
 
+  // Per-segment preferences for polls run with a persona panel
+  const panelSegments = describePanelSegments(analysis);
+  const panelSegmentSummary = panelSegments.length > 0
+    ? `\nPanel Segment Preferences:\n${panelSegments
+        .map(poll => `${poll.label} (panel: ${poll.panel}):\n${poll.lines.map(line => `- ${line}`).join('\n')}`)
+        .join('\n\n')}\n`
+    : '';
+
   // Calculate specific competitive gaps
   const competitorPrices = competitors.map(c => c.price);
   const minCompPrice = Math.min(...competitorPrices);
@@ -553,6 +1001,8 @@ export async function generateOptimizationRecommendations(
   const priceGapToAvg = userProduct.price - avgCompPrice;
   const ratingGapToMax = maxCompRating - userProduct.rating;
   const shippingGapToMin = userProduct.shippingDays - minCompShipping;
+  const price = (value: number) => formatPrice(value, analysis.marketplace ?? userProduct.marketplace);
+  const dealPressure = assessDealPressure(analysis.products);
 
   const describeImageSource = (
     image: Product['mainImage'] | Product['additionalImages'][number] | null | undefined
@@ -579,6 +1029,15 @@ export async function generateOptimizationRecommendations(
     return `Inline ${mediaType} base64 (length ${base64Length} chars)`;
   };
 
+  const describeImageCompliance = (product: Product): string => {
+    const report = product.mainImageCompliance;
+    if (!report) return 'Not measured';
+    const failed = report.checks.filter(check => !check.passed);
+    return failed.length === 0
+      ? 'All main-image rules met'
+      : `FAILS ${failed.map(check => `${check.label} (${check.display}, needs ${check.requirement})`).join('; ')}`;
+  };
+
   const formatFeatureSnippet = (copy?: string, limit: number = 400): string => {
     if (!copy) {
       return 'No feature copy provided';
@@ -606,6 +1065,7 @@ export async function generateOptimizationRecommendations(
 
     return `${product.isUserProduct ? 'YOUR PRODUCT' : 'Competitor'} - ${product.name} (ASIN: ${product.asin})
    Main Image: ${describeImageSource(product.mainImage)}
+   Main Image Compliance (measured): ${describeImageCompliance(product)}
    Additional Images (${additionalImages.length}):
 ${additionalImagesDetails}
    Feature Copy Snapshot: ${formatFeatureSnippet(product.features)}`;
@@ -615,7 +1075,7 @@ ${additionalImagesDetails}
 
 USER PRODUCT ANALYSIS:
 - Product: ${userProduct.name} (ASIN: ${userProduct.asin})
-- Current Price: $${userProduct.price} (${priceGapToAvg > 0 ? `$${priceGapToAvg.toFixed(2)} ABOVE` : `$${Math.abs(priceGapToAvg).toFixed(2)} BELOW`} competitor average of $${avgCompPrice.toFixed(2)})
+- Current Price: ${price(userProduct.price)} (${priceGapToAvg > 0 ? `${price(priceGapToAvg)} ABOVE` : `${price(Math.abs(priceGapToAvg))} BELOW`} competitor average of ${price(avgCompPrice)})
 - Current Shipping: ${userProduct.shippingDays} days (${shippingGapToMin > 0 ? `${shippingGapToMin} days SLOWER` : 'FASTEST'} than fastest competitor)
 - Current Rating: ${userProduct.rating}/5 stars (${ratingGapToMax > 0 ? `${ratingGapToMax.toFixed(1)} stars BELOW` : 'MATCHES'} highest competitor rating)
 - Current Reviews: ${userProduct.reviewCount.toLocaleString()} reviews
@@ -624,9 +1084,10 @@ USER PRODUCT ANALYSIS:
 
 COMPETITIVE GAPS IDENTIFIED:
 - Score Gap: ${scoreGapToLeader} points behind market leader (${maxCompScore}/100 vs ${userCalculation.totalScore}/100)
-- Price Gap: $${priceGapToAvg.toFixed(2)} ${priceGapToAvg > 0 ? 'above' : 'below'} competitor average
+- Price Gap: ${price(priceGapToAvg)} ${priceGapToAvg > 0 ? 'above' : 'below'} competitor average
 - Rating Gap: ${ratingGapToMax.toFixed(1)} stars ${ratingGapToMax > 0 ? 'below' : 'above'} highest competitor
 - Shipping Gap: ${shippingGapToMin} days ${shippingGapToMin > 0 ? 'slower' : 'faster'} than fastest competitor
+- Deal Pressure: ${dealPressure.level} (${dealPressure.summary})
 
 COMPETITOR PERFORMANCE RANKING:
 ${competitors.map((comp, idx) => {
@@ -636,12 +1097,20 @@ ${competitors.map((comp, idx) => {
   return `
 ${compRank}. ${comp.name} (ASIN: ${comp.asin})
    - Score: ${compCalculation?.totalScore || 0}/100 (${scoreDiff > 0 ? `+${scoreDiff}` : scoreDiff} vs user)
-   - Price: $${comp.price} (${comp.price - userProduct.price > 0 ? `+$${(comp.price - userProduct.price).toFixed(2)}` : `$${(comp.price - userProduct.price).toFixed(2)}`} vs user)
+   - Price: ${price(comp.price)} (${comp.price - userProduct.price > 0 ? `+${price(comp.price - userProduct.price)}` : price(comp.price - userProduct.price)} vs user)
    - Rating: ${comp.rating}/5 stars (${comp.rating - userProduct.rating > 0 ? `+${(comp.rating - userProduct.rating).toFixed(1)}` : (comp.rating - userProduct.rating).toFixed(1)} vs user)
    - Shipping: ${comp.shippingDays} days (${comp.shippingDays - userProduct.shippingDays > 0 ? `+${comp.shippingDays - userProduct.shippingDays}` : comp.shippingDays - userProduct.shippingDays} vs user)
 `;
 }).join('')}
 
+MINIMUM-CHANGE PATHS (computed from the scoring rubric; treat these numbers as exact):
+${optimizerResults.length > 0
+  ? optimizerResults.map(result => {
+      const { label, summary } = describeOptimizerResult(result, maxTotal);
+      return `- ${label}: ${summary}`;
+    }).join('\n')
+  : '- Not available'}
+
 CONSUMER PREFERENCE DATA:
 Main Image Performance:
 ${pollResults.mainImage?.rankings.map(r => {
@@ -663,7 +1132,7 @@ ${pollResults.features?.rankings.map(r => {
   const isUserProduct = r.productId === userProduct.id;
   return `- ${product?.name || 'Unknown'}: ${r.percentage}% preference (Rank #${r.rank})${isUserProduct ? ' ← YOUR PRODUCT' : ''}`;
 }).join('\n') || 'No features poll data'}
-
+${panelSegmentSummary}
 FULL IMAGE & CONTENT SNAPSHOT (REFERENCE CURRENT STATE BEFORE RECOMMENDING CHANGES):
 ${productContentSnapshots}
 
@@ -675,7 +1144,7 @@ Provide SPECIFIC, METRIC-DRIVEN recommendations based on the exact data above:
 
 1. DEEP DIVE ANALYSIS (use exact numbers):
    - Reference the specific ${scoreGapToLeader}-point score gap and how to close it
-   - Address the exact $${priceGapToAvg.toFixed(2)} price gap vs competitors
+   - Address the exact ${price(priceGapToAvg)} price gap vs competitors
    - Target the specific ${ratingGapToMax.toFixed(1)}-star rating improvement needed
    - Address the ${shippingGapToMin}-day shipping gap
 
@@ -685,10 +1154,11 @@ Provide SPECIFIC, METRIC-DRIVEN recommendations based on the exact data above:
    - LOW PRIORITY: Fine-tune performance optimizations
 
 3. SPECIFIC ACTIONABLE STEPS:
-   - Exact price targets (e.g., "Reduce price by $X to match competitor Y")
+   - Exact price targets (e.g., "Reduce price by X to match competitor Y")
    - Specific rating targets (e.g., "Improve rating from X to Y stars")
    - Concrete shipping targets (e.g., "Reduce shipping from X to Y days")
    - Specific score improvements (e.g., "Increase score by X points to reach Y/100")
+   - Anchor HIGH PRIORITY items on the minimum-change paths above and keep their exact targets
 
 4. IMAGE COMPLIANCE & ACTIONABILITY RULES (MUST FOLLOW STRICTLY):
    - MAIN IMAGE recommendations MUST comply with Amazon requirements (https://sellercentral.amazon.com/help/hub/reference/external/G1881?locale=en-US): pure white (#FFFFFF) background, product fills 85%+ of frame, only the product and what ships with it. If referencing a model, keep the model within the white background and interacting naturally with the product; never suggest lifestyle backdrops for the main image.